@@ -32,6 +32,8 @@ CREATE TABLE cvs (
     is_public BOOLEAN DEFAULT FALSE,
     download_count INTEGER DEFAULT 0,
     share_count INTEGER DEFAULT 0,
+    view_count INTEGER DEFAULT 0,
+    section_config JSONB, -- Section order, hidden sections and custom headings; NULL = default layout
     last_modified TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -66,6 +68,7 @@ CREATE TABLE education (
     end_date DATE,
     is_current BOOLEAN DEFAULT FALSE,
     description TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -83,6 +86,8 @@ CREATE TABLE experience (
     is_current BOOLEAN DEFAULT FALSE,
     technologies TEXT[], -- Array of technologies
     description TEXT,
+    highlights JSONB NOT NULL DEFAULT '[]'::JSONB, -- Ordered achievement bullets [{ text, metric, tags }]
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -96,8 +101,10 @@ CREATE TABLE projects (
     duration VARCHAR(50),
     technologies TEXT[], -- Array of technologies
     description TEXT,
+    highlights JSONB NOT NULL DEFAULT '[]'::JSONB, -- Ordered achievement bullets [{ text, metric, tags }]
     project_url TEXT,
     github_url TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -109,6 +116,7 @@ CREATE TABLE skills (
     skill_name VARCHAR(50) NOT NULL,
     proficiency_percentage INTEGER NOT NULL CHECK (proficiency_percentage >= 0 AND proficiency_percentage <= 100),
     category VARCHAR(20) NOT NULL CHECK (category IN ('technical', 'interpersonal', 'language')),
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -120,6 +128,102 @@ CREATE TABLE social_profiles (
     platform_name VARCHAR(50) NOT NULL,
     profile_url TEXT NOT NULL,
     is_public BOOLEAN DEFAULT TRUE,
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Certifications table
+CREATE TABLE certifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cv_id UUID NOT NULL REFERENCES cvs(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    issuer VARCHAR(100) NOT NULL,
+    issue_date DATE NOT NULL,
+    expiry_date DATE,
+    credential_id VARCHAR(100),
+    credential_url TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Awards table
+CREATE TABLE awards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cv_id UUID NOT NULL REFERENCES cvs(id) ON DELETE CASCADE,
+    title VARCHAR(100) NOT NULL,
+    issuer VARCHAR(100),
+    award_date DATE,
+    description TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Publications table
+CREATE TABLE publications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cv_id UUID NOT NULL REFERENCES cvs(id) ON DELETE CASCADE,
+    title VARCHAR(200) NOT NULL,
+    publisher VARCHAR(100),
+    authors TEXT,
+    publication_date DATE,
+    url TEXT,
+    description TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Languages table (proficiency on the CEFR scale)
+CREATE TABLE languages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cv_id UUID NOT NULL REFERENCES cvs(id) ON DELETE CASCADE,
+    language VARCHAR(50) NOT NULL,
+    proficiency VARCHAR(10) NOT NULL CHECK (proficiency IN ('A1', 'A2', 'B1', 'B2', 'C1', 'C2', 'native')),
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Volunteering table
+CREATE TABLE volunteering (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cv_id UUID NOT NULL REFERENCES cvs(id) ON DELETE CASCADE,
+    organization VARCHAR(100) NOT NULL,
+    role VARCHAR(100) NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE,
+    is_current BOOLEAN DEFAULT FALSE,
+    description TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- References table ("references" is a reserved word, so it is always quoted)
+CREATE TABLE "references" (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cv_id UUID NOT NULL REFERENCES cvs(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    position VARCHAR(100),
+    organization VARCHAR(100),
+    relationship VARCHAR(100),
+    email VARCHAR(255),
+    phone VARCHAR(20),
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Custom Sections table (user-defined heading with its items)
+CREATE TABLE custom_sections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cv_id UUID NOT NULL REFERENCES cvs(id) ON DELETE CASCADE,
+    title VARCHAR(40) NOT NULL,
+    items JSONB NOT NULL DEFAULT '[]'::JSONB, -- [{ title, subtitle, date, url, description }]
+    sort_order INTEGER NOT NULL DEFAULT 0, -- User-chosen order within the CV
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -143,6 +247,56 @@ CREATE TABLE cv_shares (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- CV public share links table (revocable, optionally expiring)
+CREATE TABLE cv_share_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    cv_id UUID NOT NULL REFERENCES cvs(id) ON DELETE CASCADE,
+    slug VARCHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- CV views tracking table (public/shared views, deduped per visitor per day)
+CREATE TABLE cv_views (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    cv_id UUID NOT NULL REFERENCES cvs(id) ON DELETE CASCADE,
+    share_link_id UUID REFERENCES cv_share_links(id) ON DELETE SET NULL,
+    channel VARCHAR(20) DEFAULT 'direct' CHECK (channel IN ('direct', 'email', 'linkedin', 'twitter', 'facebook', 'whatsapp')),
+    referrer_host VARCHAR(255),
+    user_agent_class VARCHAR(20) DEFAULT 'other' CHECK (user_agent_class IN ('desktop', 'mobile', 'tablet', 'other')),
+    visitor_hash VARCHAR(64) NOT NULL,
+    view_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (cv_id, visitor_hash, view_date)
+);
+
+-- Activity log table (user-facing activity feed)
+CREATE TABLE activity_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    cv_id UUID REFERENCES cvs(id) ON DELETE SET NULL,
+    action VARCHAR(30) NOT NULL CHECK (action IN ('cv_created', 'cv_updated', 'cv_deleted', 'cv_duplicated', 'cv_downloaded', 'cv_shared', 'cv_restored', 'payment')),
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- CV versions table (full CV snapshot after every save; consecutive autosaves share one row)
+CREATE TABLE cv_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cv_id UUID NOT NULL REFERENCES cvs(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL CHECK (version_number > 0),
+    source VARCHAR(10) NOT NULL CHECK (source IN ('create', 'update', 'restore', 'autosave')),
+    restored_from INTEGER,
+    fields TEXT[] DEFAULT '{}',
+    snapshot JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(cv_id, version_number)
+);
+
 -- Email verification tokens table
 CREATE TABLE email_verification_tokens (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -163,6 +317,34 @@ CREATE TABLE password_reset_tokens (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Password reset OTPs table
+CREATE TABLE password_reset_otps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email VARCHAR(255) NOT NULL,
+    otp VARCHAR(10) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Outgoing transactional email (outbox with retry)
+CREATE TABLE email_outbox (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    to_email VARCHAR(255) NOT NULL,
+    template VARCHAR(50) NOT NULL,
+    subject VARCHAR(255) NOT NULL,
+    html TEXT NOT NULL,
+    text TEXT NOT NULL,
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Refresh tokens table
 CREATE TABLE refresh_tokens (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -197,21 +379,36 @@ CREATE INDEX idx_cvs_user_id ON cvs(user_id);
 CREATE INDEX idx_cvs_status ON cvs(status);
 CREATE INDEX idx_cvs_public ON cvs(is_public);
 CREATE INDEX idx_basic_details_cv_id ON basic_details(cv_id);
-CREATE INDEX idx_education_cv_id ON education(cv_id);
-CREATE INDEX idx_experience_cv_id ON experience(cv_id);
-CREATE INDEX idx_projects_cv_id ON projects(cv_id);
-CREATE INDEX idx_skills_cv_id ON skills(cv_id);
-CREATE INDEX idx_social_profiles_cv_id ON social_profiles(cv_id);
+CREATE INDEX idx_education_cv_id_sort_order ON education(cv_id, sort_order);
+CREATE INDEX idx_experience_cv_id_sort_order ON experience(cv_id, sort_order);
+CREATE INDEX idx_projects_cv_id_sort_order ON projects(cv_id, sort_order);
+CREATE INDEX idx_skills_cv_id_sort_order ON skills(cv_id, sort_order);
+CREATE INDEX idx_social_profiles_cv_id_sort_order ON social_profiles(cv_id, sort_order);
+CREATE INDEX idx_certifications_cv_id_sort_order ON certifications(cv_id, sort_order);
+CREATE INDEX idx_awards_cv_id_sort_order ON awards(cv_id, sort_order);
+CREATE INDEX idx_publications_cv_id_sort_order ON publications(cv_id, sort_order);
+CREATE INDEX idx_languages_cv_id_sort_order ON languages(cv_id, sort_order);
+CREATE INDEX idx_volunteering_cv_id_sort_order ON volunteering(cv_id, sort_order);
+CREATE INDEX idx_references_cv_id_sort_order ON "references"(cv_id, sort_order);
+CREATE INDEX idx_custom_sections_cv_id_sort_order ON custom_sections(cv_id, sort_order);
 CREATE INDEX idx_cv_downloads_user_id ON cv_downloads(user_id);
 CREATE INDEX idx_cv_downloads_cv_id ON cv_downloads(cv_id);
 CREATE INDEX idx_cv_downloads_created_at ON cv_downloads(created_at);
 CREATE INDEX idx_cv_shares_user_id ON cv_shares(user_id);
 CREATE INDEX idx_cv_shares_cv_id ON cv_shares(cv_id);
 CREATE INDEX idx_cv_shares_created_at ON cv_shares(created_at);
+CREATE INDEX idx_cv_share_links_slug ON cv_share_links(slug);
+CREATE INDEX idx_cv_share_links_cv_id ON cv_share_links(cv_id);
+CREATE INDEX idx_cv_views_user_id ON cv_views(user_id);
+CREATE INDEX idx_cv_views_cv_id_created_at ON cv_views(cv_id, created_at);
+CREATE INDEX idx_activity_log_user_id_created_at ON activity_log(user_id, created_at DESC);
+CREATE INDEX idx_cv_versions_cv_id_version ON cv_versions(cv_id, version_number DESC);
 CREATE INDEX idx_email_verification_tokens_token ON email_verification_tokens(token);
 CREATE INDEX idx_email_verification_tokens_user_id ON email_verification_tokens(user_id);
 CREATE INDEX idx_password_reset_tokens_token ON password_reset_tokens(token);
 CREATE INDEX idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+CREATE INDEX idx_password_reset_otps_email ON password_reset_otps(email, created_at DESC);
+CREATE INDEX idx_email_outbox_due ON email_outbox(status, next_attempt_at);
 CREATE INDEX idx_refresh_tokens_token ON refresh_tokens(token);
 CREATE INDEX idx_refresh_tokens_user_id ON refresh_tokens(user_id);
 CREATE INDEX idx_payment_transactions_user_id ON payment_transactions(user_id);
@@ -236,7 +433,15 @@ CREATE TRIGGER update_experience_updated_at BEFORE UPDATE ON experience FOR EACH
 CREATE TRIGGER update_projects_updated_at BEFORE UPDATE ON projects FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_skills_updated_at BEFORE UPDATE ON skills FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_social_profiles_updated_at BEFORE UPDATE ON social_profiles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_certifications_updated_at BEFORE UPDATE ON certifications FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_awards_updated_at BEFORE UPDATE ON awards FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_publications_updated_at BEFORE UPDATE ON publications FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_languages_updated_at BEFORE UPDATE ON languages FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_volunteering_updated_at BEFORE UPDATE ON volunteering FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_references_updated_at BEFORE UPDATE ON "references" FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_custom_sections_updated_at BEFORE UPDATE ON custom_sections FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_payment_transactions_updated_at BEFORE UPDATE ON payment_transactions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_email_outbox_updated_at BEFORE UPDATE ON email_outbox FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- Row Level Security (RLS) Policies
 -- Enable RLS on all tables
@@ -248,10 +453,23 @@ ALTER TABLE experience ENABLE ROW LEVEL SECURITY;
 ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
 ALTER TABLE skills ENABLE ROW LEVEL SECURITY;
 ALTER TABLE social_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE certifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE awards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE publications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE languages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE volunteering ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "references" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE custom_sections ENABLE ROW LEVEL SECURITY;
 ALTER TABLE cv_downloads ENABLE ROW LEVEL SECURITY;
 ALTER TABLE cv_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cv_share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cv_views ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activity_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cv_versions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE email_verification_tokens ENABLE ROW LEVEL SECURITY;
 ALTER TABLE password_reset_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_reset_otps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
 ALTER TABLE refresh_tokens ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payment_transactions ENABLE ROW LEVEL SECURITY;
 
@@ -362,6 +580,90 @@ CREATE POLICY "Public can view social profiles of public CVs" ON social_profiles
     )
 );
 
+-- Certifications policies
+CREATE POLICY "Users can manage certifications of their CVs" ON certifications FOR ALL USING (
+    EXISTS (SELECT 1 FROM cvs WHERE cvs.id = certifications.cv_id AND cvs.user_id = auth.uid())
+);
+CREATE POLICY "Public can view certifications of public CVs" ON certifications FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM cvs 
+        WHERE cvs.id = certifications.cv_id 
+        AND cvs.is_public = true 
+        AND cvs.status = 'published'
+    )
+);
+
+-- Awards policies
+CREATE POLICY "Users can manage awards of their CVs" ON awards FOR ALL USING (
+    EXISTS (SELECT 1 FROM cvs WHERE cvs.id = awards.cv_id AND cvs.user_id = auth.uid())
+);
+CREATE POLICY "Public can view awards of public CVs" ON awards FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM cvs 
+        WHERE cvs.id = awards.cv_id 
+        AND cvs.is_public = true 
+        AND cvs.status = 'published'
+    )
+);
+
+-- Publications policies
+CREATE POLICY "Users can manage publications of their CVs" ON publications FOR ALL USING (
+    EXISTS (SELECT 1 FROM cvs WHERE cvs.id = publications.cv_id AND cvs.user_id = auth.uid())
+);
+CREATE POLICY "Public can view publications of public CVs" ON publications FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM cvs 
+        WHERE cvs.id = publications.cv_id 
+        AND cvs.is_public = true 
+        AND cvs.status = 'published'
+    )
+);
+
+-- Languages policies
+CREATE POLICY "Users can manage languages of their CVs" ON languages FOR ALL USING (
+    EXISTS (SELECT 1 FROM cvs WHERE cvs.id = languages.cv_id AND cvs.user_id = auth.uid())
+);
+CREATE POLICY "Public can view languages of public CVs" ON languages FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM cvs 
+        WHERE cvs.id = languages.cv_id 
+        AND cvs.is_public = true 
+        AND cvs.status = 'published'
+    )
+);
+
+-- Volunteering policies
+CREATE POLICY "Users can manage volunteering of their CVs" ON volunteering FOR ALL USING (
+    EXISTS (SELECT 1 FROM cvs WHERE cvs.id = volunteering.cv_id AND cvs.user_id = auth.uid())
+);
+CREATE POLICY "Public can view volunteering of public CVs" ON volunteering FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM cvs 
+        WHERE cvs.id = volunteering.cv_id 
+        AND cvs.is_public = true 
+        AND cvs.status = 'published'
+    )
+);
+
+-- References policies (no public read: referee contact details are private; public and shared
+-- CVs get references through the backend, which leaves out email and phone)
+CREATE POLICY "Users can manage references of their CVs" ON "references" FOR ALL USING (
+    EXISTS (SELECT 1 FROM cvs WHERE cvs.id = "references".cv_id AND cvs.user_id = auth.uid())
+);
+
+-- Custom sections policies
+CREATE POLICY "Users can manage custom sections of their CVs" ON custom_sections FOR ALL USING (
+    EXISTS (SELECT 1 FROM cvs WHERE cvs.id = custom_sections.cv_id AND cvs.user_id = auth.uid())
+);
+CREATE POLICY "Public can view custom sections of public CVs" ON custom_sections FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM cvs 
+        WHERE cvs.id = custom_sections.cv_id 
+        AND cvs.is_public = true 
+        AND cvs.status = 'published'
+    )
+);
+
 -- CV downloads policies
 CREATE POLICY "Users can view their own download history" ON cv_downloads FOR SELECT USING (auth.uid() = user_id);
 CREATE POLICY "Users can create their own download records" ON cv_downloads FOR INSERT WITH CHECK (auth.uid() = user_id);
@@ -370,10 +672,24 @@ CREATE POLICY "Users can create their own download records" ON cv_downloads FOR
 CREATE POLICY "Users can view their own share history" ON cv_shares FOR SELECT USING (auth.uid() = user_id);
 CREATE POLICY "Users can create their own share records" ON cv_shares FOR INSERT WITH CHECK (auth.uid() = user_id);
 
+-- CV share links policies (slugs are resolved by the backend service role only; a public
+-- SELECT policy would let anyone with the anon key list every active slug)
+CREATE POLICY "Users can manage their own share links" ON cv_share_links FOR ALL USING (auth.uid() = user_id);
+
+-- CV views policies (views are written by the backend service role only)
+CREATE POLICY "Users can view their own CV views" ON cv_views FOR SELECT USING (auth.uid() = user_id);
+
+-- Activity log policies (entries are written by the backend service role only)
+CREATE POLICY "Users can view their own activity" ON activity_log FOR SELECT USING (auth.uid() = user_id);
+
+-- CV versions policies
+CREATE POLICY "Users can view versions of their own CVs" ON cv_versions FOR SELECT USING (auth.uid() = user_id);
+
 -- Token policies
 CREATE POLICY "Users can manage their own verification tokens" ON email_verification_tokens FOR ALL USING (auth.uid() = user_id);
 CREATE POLICY "Users can manage their own password reset tokens" ON password_reset_tokens FOR ALL USING (auth.uid() = user_id);
 CREATE POLICY "Users can manage their own refresh tokens" ON refresh_tokens FOR ALL USING (auth.uid() = user_id);
+-- password_reset_otps and email_outbox intentionally have no policies (backend service role only)
 
 -- Payment transactions policies
 CREATE POLICY "Users can view their own payment transactions" ON payment_transactions FOR SELECT USING (auth.uid() = user_id);
@@ -412,3 +728,355 @@ BEGIN
     );
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==================== Transactional CV writes ====================
+-- Each function runs in a single transaction: a CV is either fully written or left untouched.
+-- They take the acting user explicitly and are only callable by the backend service role.
+-- Version snapshots and activity rows are written by the backend after the commit; a missed
+-- snapshot is recorded before the CV's next save (see CVModel.catchUpVersion).
+
+-- Keep an item's id when it already belongs to this CV's section; new items and ids from elsewhere get a fresh id
+CREATE OR REPLACE FUNCTION cv_section_item_id(p_cv_id UUID, p_section TEXT, p_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_exists BOOLEAN;
+BEGIN
+    IF p_id IS NULL THEN
+        RETURN uuid_generate_v4();
+    END IF;
+
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE id = $1 AND cv_id = $2)', p_section) INTO v_exists USING p_id, p_cv_id;
+    RETURN CASE WHEN v_exists THEN p_id ELSE uuid_generate_v4() END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace the sections present in p_data (array order becomes sort_order); sections whose key is absent are left as they are.
+-- Items are upserted by id, so ids stay stable across saves; items missing from a sent section are deleted.
+CREATE OR REPLACE FUNCTION replace_cv_sections(p_cv_id UUID, p_data JSONB)
+RETURNS VOID AS $$
+BEGIN
+    IF p_data ? 'education' THEN
+        DELETE FROM education WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::education, p_data->'education') r WHERE r.id IS NOT NULL);
+        INSERT INTO education (id, cv_id, degree_name, institution, percentage, cgpa, start_date, end_date, is_current, description, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'education', r.id), p_cv_id, r.degree_name, r.institution, r.percentage, r.cgpa, r.start_date, r.end_date,
+               COALESCE(r.is_current, FALSE), r.description, r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::education, p_data->'education') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (degree_name, institution, percentage, cgpa, start_date, end_date, is_current, description, sort_order)
+            = (EXCLUDED.degree_name, EXCLUDED.institution, EXCLUDED.percentage, EXCLUDED.cgpa, EXCLUDED.start_date, EXCLUDED.end_date, EXCLUDED.is_current, EXCLUDED.description, EXCLUDED.sort_order);
+    END IF;
+
+    IF p_data ? 'experience' THEN
+        DELETE FROM experience WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::experience, p_data->'experience') r WHERE r.id IS NOT NULL);
+        INSERT INTO experience (id, cv_id, organization_name, position, joining_location, ctc, joining_date, leaving_date, is_current, technologies, description, highlights, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'experience', r.id), p_cv_id, r.organization_name, r.position, r.joining_location, r.ctc, r.joining_date, r.leaving_date,
+               COALESCE(r.is_current, FALSE), r.technologies, r.description, COALESCE(r.highlights, '[]'::JSONB), r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::experience, p_data->'experience') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (organization_name, position, joining_location, ctc, joining_date, leaving_date, is_current, technologies, description, highlights, sort_order)
+            = (EXCLUDED.organization_name, EXCLUDED.position, EXCLUDED.joining_location, EXCLUDED.ctc, EXCLUDED.joining_date, EXCLUDED.leaving_date, EXCLUDED.is_current, EXCLUDED.technologies, EXCLUDED.description, EXCLUDED.highlights, EXCLUDED.sort_order);
+    END IF;
+
+    IF p_data ? 'projects' THEN
+        DELETE FROM projects WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::projects, p_data->'projects') r WHERE r.id IS NOT NULL);
+        INSERT INTO projects (id, cv_id, title, team_size, duration, technologies, description, highlights, project_url, github_url, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'projects', r.id), p_cv_id, r.title, r.team_size, r.duration, r.technologies, r.description, COALESCE(r.highlights, '[]'::JSONB), r.project_url, r.github_url, r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::projects, p_data->'projects') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (title, team_size, duration, technologies, description, highlights, project_url, github_url, sort_order)
+            = (EXCLUDED.title, EXCLUDED.team_size, EXCLUDED.duration, EXCLUDED.technologies, EXCLUDED.description, EXCLUDED.highlights, EXCLUDED.project_url, EXCLUDED.github_url, EXCLUDED.sort_order);
+    END IF;
+
+    IF p_data ? 'skills' THEN
+        DELETE FROM skills WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::skills, p_data->'skills') r WHERE r.id IS NOT NULL);
+        INSERT INTO skills (id, cv_id, skill_name, proficiency_percentage, category, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'skills', r.id), p_cv_id, r.skill_name, r.proficiency_percentage, r.category, r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::skills, p_data->'skills') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (skill_name, proficiency_percentage, category, sort_order)
+            = (EXCLUDED.skill_name, EXCLUDED.proficiency_percentage, EXCLUDED.category, EXCLUDED.sort_order);
+    END IF;
+
+    IF p_data ? 'social_profiles' THEN
+        DELETE FROM social_profiles WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::social_profiles, p_data->'social_profiles') r WHERE r.id IS NOT NULL);
+        INSERT INTO social_profiles (id, cv_id, platform_name, profile_url, is_public, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'social_profiles', r.id), p_cv_id, r.platform_name, r.profile_url, COALESCE(r.is_public, TRUE), r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::social_profiles, p_data->'social_profiles') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (platform_name, profile_url, is_public, sort_order)
+            = (EXCLUDED.platform_name, EXCLUDED.profile_url, EXCLUDED.is_public, EXCLUDED.sort_order);
+    END IF;
+
+    IF p_data ? 'certifications' THEN
+        DELETE FROM certifications WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::certifications, p_data->'certifications') r WHERE r.id IS NOT NULL);
+        INSERT INTO certifications (id, cv_id, name, issuer, issue_date, expiry_date, credential_id, credential_url, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'certifications', r.id), p_cv_id, r.name, r.issuer, r.issue_date, r.expiry_date, r.credential_id, r.credential_url, r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::certifications, p_data->'certifications') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (name, issuer, issue_date, expiry_date, credential_id, credential_url, sort_order)
+            = (EXCLUDED.name, EXCLUDED.issuer, EXCLUDED.issue_date, EXCLUDED.expiry_date, EXCLUDED.credential_id, EXCLUDED.credential_url, EXCLUDED.sort_order);
+    END IF;
+
+    IF p_data ? 'awards' THEN
+        DELETE FROM awards WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::awards, p_data->'awards') r WHERE r.id IS NOT NULL);
+        INSERT INTO awards (id, cv_id, title, issuer, award_date, description, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'awards', r.id), p_cv_id, r.title, r.issuer, r.award_date, r.description, r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::awards, p_data->'awards') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (title, issuer, award_date, description, sort_order)
+            = (EXCLUDED.title, EXCLUDED.issuer, EXCLUDED.award_date, EXCLUDED.description, EXCLUDED.sort_order);
+    END IF;
+
+    IF p_data ? 'publications' THEN
+        DELETE FROM publications WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::publications, p_data->'publications') r WHERE r.id IS NOT NULL);
+        INSERT INTO publications (id, cv_id, title, publisher, authors, publication_date, url, description, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'publications', r.id), p_cv_id, r.title, r.publisher, r.authors, r.publication_date, r.url, r.description, r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::publications, p_data->'publications') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (title, publisher, authors, publication_date, url, description, sort_order)
+            = (EXCLUDED.title, EXCLUDED.publisher, EXCLUDED.authors, EXCLUDED.publication_date, EXCLUDED.url, EXCLUDED.description, EXCLUDED.sort_order);
+    END IF;
+
+    IF p_data ? 'languages' THEN
+        DELETE FROM languages WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::languages, p_data->'languages') r WHERE r.id IS NOT NULL);
+        INSERT INTO languages (id, cv_id, language, proficiency, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'languages', r.id), p_cv_id, r.language, r.proficiency, r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::languages, p_data->'languages') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (language, proficiency, sort_order)
+            = (EXCLUDED.language, EXCLUDED.proficiency, EXCLUDED.sort_order);
+    END IF;
+
+    IF p_data ? 'volunteering' THEN
+        DELETE FROM volunteering WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::volunteering, p_data->'volunteering') r WHERE r.id IS NOT NULL);
+        INSERT INTO volunteering (id, cv_id, organization, role, start_date, end_date, is_current, description, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'volunteering', r.id), p_cv_id, r.organization, r.role, r.start_date, r.end_date, COALESCE(r.is_current, FALSE), r.description, r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::volunteering, p_data->'volunteering') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (organization, role, start_date, end_date, is_current, description, sort_order)
+            = (EXCLUDED.organization, EXCLUDED.role, EXCLUDED.start_date, EXCLUDED.end_date, EXCLUDED.is_current, EXCLUDED.description, EXCLUDED.sort_order);
+    END IF;
+
+    IF p_data ? 'references' THEN
+        DELETE FROM "references" WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::"references", p_data->'references') r WHERE r.id IS NOT NULL);
+        INSERT INTO "references" (id, cv_id, name, position, organization, relationship, email, phone, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'references', r.id), p_cv_id, r.name, r.position, r.organization, r.relationship, r.email, r.phone, r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::"references", p_data->'references') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (name, position, organization, relationship, email, phone, sort_order)
+            = (EXCLUDED.name, EXCLUDED.position, EXCLUDED.organization, EXCLUDED.relationship, EXCLUDED.email, EXCLUDED.phone, EXCLUDED.sort_order);
+    END IF;
+
+    IF p_data ? 'custom_sections' THEN
+        DELETE FROM custom_sections WHERE cv_id = p_cv_id
+            AND id NOT IN (SELECT r.id FROM jsonb_populate_recordset(NULL::custom_sections, p_data->'custom_sections') r WHERE r.id IS NOT NULL);
+        INSERT INTO custom_sections (id, cv_id, title, items, sort_order)
+        SELECT cv_section_item_id(p_cv_id, 'custom_sections', r.id), p_cv_id, r.title, COALESCE(r.items, '[]'::JSONB), r.ordinality - 1
+        FROM jsonb_populate_recordset(NULL::custom_sections, p_data->'custom_sections') WITH ORDINALITY r
+        ON CONFLICT (id) DO UPDATE SET (title, items, sort_order)
+            = (EXCLUDED.title, EXCLUDED.items, EXCLUDED.sort_order);
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create a CV with its basic details and sections; returns the new CV id
+CREATE OR REPLACE FUNCTION create_cv_with_sections(p_user_id UUID, p_data JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_cv_id UUID := uuid_generate_v4();
+BEGIN
+    INSERT INTO cvs (id, user_id, title, layout, section_config, last_modified)
+    VALUES (v_cv_id, p_user_id, p_data->>'title', p_data->>'layout', NULLIF(p_data->'section_config', 'null'::JSONB), NOW());
+
+    INSERT INTO basic_details (cv_id, profile_image_url, full_name, email, phone, address, city, state, pincode, introduction)
+    SELECT v_cv_id, r.profile_image_url, r.full_name, r.email, r.phone, r.address, r.city, r.state, r.pincode, r.introduction
+    FROM jsonb_populate_record(NULL::basic_details, p_data->'basic_details') r;
+
+    PERFORM replace_cv_sections(v_cv_id, p_data);
+
+    RETURN v_cv_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Apply a partial update (only keys present in p_data change) to a CV the user owns.
+-- A `version` key must equal the CV's current last_modified, so a stale copy cannot overwrite newer edits.
+CREATE OR REPLACE FUNCTION update_cv_with_sections(p_cv_id UUID, p_user_id UUID, p_data JSONB)
+RETURNS VOID AS $$
+DECLARE
+    v_details JSONB := p_data->'basic_details';
+    v_last_modified TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT last_modified INTO v_last_modified
+    FROM cvs WHERE id = p_cv_id AND user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'CV not found or access denied' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_data ? 'version' AND v_last_modified IS DISTINCT FROM (p_data->>'version')::TIMESTAMP WITH TIME ZONE THEN
+        RAISE EXCEPTION 'CV has been modified since it was loaded' USING ERRCODE = '40001';
+    END IF;
+
+    UPDATE cvs SET
+        title = CASE WHEN p_data ? 'title' THEN p_data->>'title' ELSE title END,
+        layout = CASE WHEN p_data ? 'layout' THEN p_data->>'layout' ELSE layout END,
+        status = CASE WHEN p_data ? 'status' THEN p_data->>'status' ELSE status END,
+        is_public = CASE WHEN p_data ? 'is_public' THEN (p_data->>'is_public')::BOOLEAN ELSE is_public END,
+        section_config = CASE WHEN p_data ? 'section_config' THEN NULLIF(p_data->'section_config', 'null'::JSONB) ELSE section_config END,
+        last_modified = NOW()
+    WHERE id = p_cv_id AND user_id = p_user_id;
+
+    IF jsonb_typeof(v_details) = 'object' THEN
+        UPDATE basic_details SET
+            profile_image_url = CASE WHEN v_details ? 'profile_image_url' THEN v_details->>'profile_image_url' ELSE profile_image_url END,
+            full_name = CASE WHEN v_details ? 'full_name' THEN v_details->>'full_name' ELSE full_name END,
+            email = CASE WHEN v_details ? 'email' THEN v_details->>'email' ELSE email END,
+            phone = CASE WHEN v_details ? 'phone' THEN v_details->>'phone' ELSE phone END,
+            address = CASE WHEN v_details ? 'address' THEN v_details->>'address' ELSE address END,
+            city = CASE WHEN v_details ? 'city' THEN v_details->>'city' ELSE city END,
+            state = CASE WHEN v_details ? 'state' THEN v_details->>'state' ELSE state END,
+            pincode = CASE WHEN v_details ? 'pincode' THEN v_details->>'pincode' ELSE pincode END,
+            introduction = CASE WHEN v_details ? 'introduction' THEN v_details->>'introduction' ELSE introduction END
+        WHERE cv_id = p_cv_id;
+    END IF;
+
+    PERFORM replace_cv_sections(p_cv_id, p_data);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Delete a CV the user owns (sections cascade); returns its title for the activity log
+CREATE OR REPLACE FUNCTION delete_cv_with_sections(p_cv_id UUID, p_user_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_title TEXT;
+BEGIN
+    DELETE FROM cvs WHERE id = p_cv_id AND user_id = p_user_id RETURNING title INTO v_title;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'CV not found or access denied' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Copy a CV the user owns with all of its sections (without the profile image); returns the new CV id
+CREATE OR REPLACE FUNCTION duplicate_cv_with_sections(p_cv_id UUID, p_user_id UUID, p_title TEXT)
+RETURNS UUID AS $$
+DECLARE
+    v_cv_id UUID := uuid_generate_v4();
+BEGIN
+    INSERT INTO cvs (id, user_id, title, layout, section_config, last_modified)
+    SELECT v_cv_id, user_id, COALESCE(p_title, title || ' (Copy)'), layout, section_config, NOW()
+    FROM cvs WHERE id = p_cv_id AND user_id = p_user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'CV not found or access denied' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO basic_details (cv_id, full_name, email, phone, address, city, state, pincode, introduction)
+    SELECT v_cv_id, full_name, email, phone, address, city, state, pincode, introduction
+    FROM basic_details WHERE cv_id = p_cv_id;
+
+    INSERT INTO education (cv_id, degree_name, institution, percentage, cgpa, start_date, end_date, is_current, description, sort_order)
+    SELECT v_cv_id, degree_name, institution, percentage, cgpa, start_date, end_date, is_current, description, sort_order
+    FROM education WHERE cv_id = p_cv_id;
+
+    INSERT INTO experience (cv_id, organization_name, position, joining_location, ctc, joining_date, leaving_date, is_current, technologies, description, highlights, sort_order)
+    SELECT v_cv_id, organization_name, position, joining_location, ctc, joining_date, leaving_date, is_current, technologies, description, highlights, sort_order
+    FROM experience WHERE cv_id = p_cv_id;
+
+    INSERT INTO projects (cv_id, title, team_size, duration, technologies, description, highlights, project_url, github_url, sort_order)
+    SELECT v_cv_id, title, team_size, duration, technologies, description, highlights, project_url, github_url, sort_order
+    FROM projects WHERE cv_id = p_cv_id;
+
+    INSERT INTO skills (cv_id, skill_name, proficiency_percentage, category, sort_order)
+    SELECT v_cv_id, skill_name, proficiency_percentage, category, sort_order
+    FROM skills WHERE cv_id = p_cv_id;
+
+    INSERT INTO social_profiles (cv_id, platform_name, profile_url, is_public, sort_order)
+    SELECT v_cv_id, platform_name, profile_url, is_public, sort_order
+    FROM social_profiles WHERE cv_id = p_cv_id;
+
+    INSERT INTO certifications (cv_id, name, issuer, issue_date, expiry_date, credential_id, credential_url, sort_order)
+    SELECT v_cv_id, name, issuer, issue_date, expiry_date, credential_id, credential_url, sort_order
+    FROM certifications WHERE cv_id = p_cv_id;
+
+    INSERT INTO awards (cv_id, title, issuer, award_date, description, sort_order)
+    SELECT v_cv_id, title, issuer, award_date, description, sort_order
+    FROM awards WHERE cv_id = p_cv_id;
+
+    INSERT INTO publications (cv_id, title, publisher, authors, publication_date, url, description, sort_order)
+    SELECT v_cv_id, title, publisher, authors, publication_date, url, description, sort_order
+    FROM publications WHERE cv_id = p_cv_id;
+
+    INSERT INTO languages (cv_id, language, proficiency, sort_order)
+    SELECT v_cv_id, language, proficiency, sort_order
+    FROM languages WHERE cv_id = p_cv_id;
+
+    INSERT INTO volunteering (cv_id, organization, role, start_date, end_date, is_current, description, sort_order)
+    SELECT v_cv_id, organization, role, start_date, end_date, is_current, description, sort_order
+    FROM volunteering WHERE cv_id = p_cv_id;
+
+    INSERT INTO "references" (cv_id, name, position, organization, relationship, email, phone, sort_order)
+    SELECT v_cv_id, name, position, organization, relationship, email, phone, sort_order
+    FROM "references" WHERE cv_id = p_cv_id;
+
+    INSERT INTO custom_sections (cv_id, title, items, sort_order)
+    SELECT v_cv_id, title, items, sort_order
+    FROM custom_sections WHERE cv_id = p_cv_id;
+
+    RETURN v_cv_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reorder the items of one section of a CV the user owns; p_ids must list every item exactly once
+CREATE OR REPLACE FUNCTION reorder_cv_section(p_cv_id UUID, p_user_id UUID, p_section TEXT, p_ids UUID[])
+RETURNS VOID AS $$
+DECLARE
+    v_count INTEGER;
+    v_updated INTEGER;
+BEGIN
+    IF p_section NOT IN (
+        'education', 'experience', 'projects', 'skills', 'social_profiles',
+        'certifications', 'awards', 'publications', 'languages', 'volunteering', 'references', 'custom_sections'
+    ) THEN
+        RAISE EXCEPTION 'Invalid CV section' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM 1 FROM cvs WHERE id = p_cv_id AND user_id = p_user_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'CV not found or access denied' USING ERRCODE = 'P0002';
+    END IF;
+
+    EXECUTE format('SELECT COUNT(*) FROM %I WHERE cv_id = $1', p_section) INTO v_count USING p_cv_id;
+
+    EXECUTE format(
+        'UPDATE %I s SET sort_order = t.ordinality - 1 FROM unnest($1) WITH ORDINALITY t(id, ordinality) WHERE s.id = t.id AND s.cv_id = $2',
+        p_section
+    ) USING p_ids, p_cv_id;
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+    -- Raising rolls the partial update back
+    IF v_updated <> v_count OR cardinality(p_ids) <> v_count THEN
+        RAISE EXCEPTION 'Item ids must list every item of the section exactly once' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE cvs SET last_modified = NOW() WHERE id = p_cv_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The write functions trust p_user_id, so keep them away from client roles
+REVOKE EXECUTE ON FUNCTION cv_section_item_id(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION replace_cv_sections(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_cv_with_sections(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_cv_with_sections(UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION delete_cv_with_sections(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION duplicate_cv_with_sections(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reorder_cv_section(UUID, UUID, TEXT, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_cv_with_sections(UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION update_cv_with_sections(UUID, UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION delete_cv_with_sections(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION duplicate_cv_with_sections(UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION reorder_cv_section(UUID, UUID, TEXT, UUID[]) TO service_role;
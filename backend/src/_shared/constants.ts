@@ -39,6 +39,7 @@ export const HTTP_STATUS = {
   UNPROCESSABLE_ENTITY: 422,
   PAYMENT_REQUIRED: 402,
   INTERNAL_SERVER_ERROR: 500,
+  BAD_GATEWAY: 502,
 } as const;
 
 /**
@@ -107,6 +108,92 @@ export const ALLOWED_EXTENSIONS = {
   DOCUMENT: ['.doc', '.docx'],
 } as const;
 
+// CV Download Formats
+export const DOWNLOAD_FORMATS = {
+  PDF: 'pdf',
+  DOCX: 'docx',
+} as const;
+
+// MIME types for CV download formats
+export const DOWNLOAD_MIME_TYPES = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+} as const;
+
+// CV Export Formats (data exports; documents use DOWNLOAD_FORMATS)
+export const EXPORT_FORMATS = {
+  JSON_RESUME: 'jsonresume',
+  NATIVE: 'native',
+  EUROPASS_XML: 'europass-xml',
+  EUROPASS_JSON: 'europass-json',
+  MARKDOWN: 'markdown',
+  LATEX: 'latex',
+  TEXT: 'text',
+} as const;
+
+// Version of the native export document; bump when CVData changes incompatibly
+export const CV_EXPORT_SCHEMA_VERSION = 1;
+
+// CV Share Platforms
+export const SHARE_PLATFORMS = {
+  EMAIL: 'email',
+  LINKEDIN: 'linkedin',
+  TWITTER: 'twitter',
+  FACEBOOK: 'facebook',
+  WHATSAPP: 'whatsapp',
+} as const;
+
+// Channels a public CV view can be attributed to (`?via=` on share links)
+export const VIEW_CHANNELS = {
+  DIRECT: 'direct',
+  ...SHARE_PLATFORMS,
+} as const;
+
+// Coarse user-agent classes recorded with CV views
+export const USER_AGENT_CLASSES = {
+  DESKTOP: 'desktop',
+  MOBILE: 'mobile',
+  TABLET: 'tablet',
+  BOT: 'bot',
+  OTHER: 'other',
+} as const;
+
+// Transactional email templates (email_outbox.template)
+export const EMAIL_TEMPLATES = {
+  EMAIL_VERIFICATION: 'email_verification',
+  PASSWORD_RESET_LINK: 'password_reset_link',
+  PASSWORD_RESET_OTP: 'password_reset_otp',
+} as const;
+
+// Email outbox delivery settings
+export const EMAIL_OUTBOX = {
+  MAX_ATTEMPTS: 5,
+  RETRY_BASE_DELAY_MS: 60 * 1000, // doubles after every failed attempt
+  CLAIM_TIMEOUT_MS: 5 * 60 * 1000, // a crashed sender's claim expires after this
+  BATCH_SIZE: 20,
+  POLL_INTERVAL_MS: 60 * 1000,
+} as const;
+
+// Activity log actions
+export const ACTIVITY_ACTIONS = {
+  CV_CREATED: 'cv_created',
+  CV_UPDATED: 'cv_updated',
+  CV_DELETED: 'cv_deleted',
+  CV_DUPLICATED: 'cv_duplicated',
+  CV_DOWNLOADED: 'cv_downloaded',
+  CV_SHARED: 'cv_shared',
+  CV_RESTORED: 'cv_restored',
+  PAYMENT: 'payment',
+} as const;
+
+// CV Version Sources
+export const CV_VERSION_SOURCES = {
+  CREATE: 'create',
+  UPDATE: 'update',
+  RESTORE: 'restore',
+  AUTOSAVE: 'autosave',
+} as const;
+
 // Pagination Defaults
 export const PAGINATION = {
   DEFAULT_PAGE: 1,
@@ -127,6 +214,14 @@ export const TOKEN_TYPES = {
   REFRESH: 'refresh',
 } as const;
 
+// Lifetimes of one-time auth secrets
+export const AUTH_TOKEN_TTL = {
+  EMAIL_VERIFICATION_HOURS: 24,
+  PASSWORD_RESET_LINK_MINUTES: 60,
+  PASSWORD_RESET_OTP_MINUTES: 5,
+  PASSWORD_RESET_TOKEN_MINUTES: 15,
+} as const;
+
 // OAuth Providers
 export const OAUTH_PROVIDERS = {
   GOOGLE: 'google',
@@ -141,8 +236,82 @@ export const CV_SECTIONS = {
   PROJECTS: 'projects',
   SKILLS: 'skills',
   SOCIAL_PROFILES: 'social_profiles',
+  CERTIFICATIONS: 'certifications',
+  AWARDS: 'awards',
+  PUBLICATIONS: 'publications',
+  LANGUAGES: 'languages',
+  VOLUNTEERING: 'volunteering',
+  REFERENCES: 'references',
+  CUSTOM_SECTIONS: 'custom_sections',
+} as const;
+
+// Writable columns of each item section (storage columns are managed by the server)
+export const SECTION_ITEM_FIELDS = {
+  education: ['degree_name', 'institution', 'percentage', 'cgpa', 'start_date', 'end_date', 'is_current', 'description'],
+  experience: ['organization_name', 'position', 'joining_location', 'ctc', 'joining_date', 'leaving_date', 'is_current', 'technologies', 'description', 'highlights'],
+  projects: ['title', 'team_size', 'duration', 'technologies', 'description', 'highlights', 'project_url', 'github_url'],
+  skills: ['skill_name', 'proficiency_percentage', 'category'],
+  social_profiles: ['platform_name', 'profile_url', 'is_public'],
+  certifications: ['name', 'issuer', 'issue_date', 'expiry_date', 'credential_id', 'credential_url'],
+  awards: ['title', 'issuer', 'award_date', 'description'],
+  publications: ['title', 'publisher', 'authors', 'publication_date', 'url', 'description'],
+  languages: ['language', 'proficiency'],
+  volunteering: ['organization', 'role', 'start_date', 'end_date', 'is_current', 'description'],
+  references: ['name', 'position', 'organization', 'relationship', 'email', 'phone'],
+  custom_sections: ['title', 'items'],
+} as const;
+
+// Sections a CV can reorder, hide and rename (the name/contact header always comes first)
+export const CV_LAYOUT_SECTIONS = {
+  SUMMARY: 'summary',
+  EXPERIENCE: 'experience',
+  EDUCATION: 'education',
+  PROJECTS: 'projects',
+  SKILLS: 'skills',
+  CERTIFICATIONS: 'certifications',
+  AWARDS: 'awards',
+  PUBLICATIONS: 'publications',
+  LANGUAGES: 'languages',
+  VOLUNTEERING: 'volunteering',
+  REFERENCES: 'references',
+  CUSTOM_SECTIONS: 'custom_sections',
+  SOCIAL_PROFILES: 'social_profiles',
 } as const;
 
+// Default section headings, in default order
+export const DEFAULT_SECTION_TITLES = {
+  summary: 'Summary',
+  experience: 'Experience',
+  education: 'Education',
+  projects: 'Projects',
+  skills: 'Skills',
+  certifications: 'Certifications',
+  awards: 'Awards',
+  publications: 'Publications',
+  languages: 'Languages',
+  volunteering: 'Volunteering',
+  references: 'References',
+  custom_sections: 'Custom Sections', // Each custom section is rendered under its own title
+  social_profiles: 'Profiles',
+} as const;
+
+// Language proficiency levels (CEFR, plus native speaker)
+export const LANGUAGE_PROFICIENCY_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2', 'native'] as const;
+
+// How each proficiency level is printed on a CV
+export const LANGUAGE_PROFICIENCY_LABELS = {
+  A1: 'Beginner (A1)',
+  A2: 'Elementary (A2)',
+  B1: 'Intermediate (B1)',
+  B2: 'Upper intermediate (B2)',
+  C1: 'Advanced (C1)',
+  C2: 'Proficient (C2)',
+  native: 'Native',
+} as const;
+
+// CV fields stored as restricted markdown (see utils/richText)
+export const RICH_TEXT_FIELDS = ['description', 'introduction'];
+
 // Validation Rules
 export const VALIDATION_RULES = {
   USERNAME: {
@@ -168,6 +337,10 @@ export const VALIDATION_RULES = {
   DESCRIPTION: {
     MAX_LENGTH: 1000,
   },
+  // Raw length of a rich text field; DESCRIPTION.MAX_LENGTH applies to its visible text
+  RICH_TEXT: {
+    MAX_LENGTH: 3000,
+  },
   SKILL_NAME: {
     MIN_LENGTH: 2,
     MAX_LENGTH: 50,
@@ -180,6 +353,20 @@ export const VALIDATION_RULES = {
     MIN_LENGTH: 2,
     MAX_LENGTH: 100,
   },
+  SHARE_MESSAGE: {
+    MAX_LENGTH: 1000,
+  },
+  SECTION_TITLE: {
+    MAX_LENGTH: 40,
+  },
+  ITEM_TITLE: {
+    MAX_LENGTH: 200,
+  },
+  HIGHLIGHT: {
+    MAX_LENGTH: 300,
+    METRIC_MAX_LENGTH: 50,
+    TAG_MAX_LENGTH: 30,
+  },
 } as const;
 
 // Business Rules
@@ -190,10 +377,27 @@ export const BUSINESS_RULES = {
   MAX_PROJECT_ENTRIES: 15,
   MAX_SKILL_ENTRIES: 50,
   MAX_SOCIAL_PROFILE_ENTRIES: 10,
+  MAX_CERTIFICATION_ENTRIES: 20,
+  MAX_AWARD_ENTRIES: 20,
+  MAX_PUBLICATION_ENTRIES: 30,
+  MAX_LANGUAGE_ENTRIES: 15,
+  MAX_VOLUNTEERING_ENTRIES: 15,
+  MAX_REFERENCE_ENTRIES: 5,
+  MAX_CUSTOM_SECTIONS: 5,
+  MAX_CUSTOM_SECTION_ITEMS: 20,
+  MAX_HIGHLIGHTS_PER_ENTRY: 10,
+  MAX_HIGHLIGHT_TAGS: 5,
   FREE_DOWNLOADS_PER_MONTH: 3,
   FREE_SHARES_PER_MONTH: 5,
   PREMIUM_DOWNLOADS_PER_MONTH: 50,
   PREMIUM_SHARES_PER_MONTH: 100,
+  MAX_ACTIVE_SHARE_LINKS_PER_CV: 5,
+  MAX_SHARE_LINK_EXPIRY_DAYS: 365,
+  DEFAULT_ANALYTICS_DAYS: 30,
+  MAX_ANALYTICS_DAYS: 365,
+  DASHBOARD_RECENT_ACTIVITY_LIMIT: 5,
+  MAX_CV_VERSIONS: 50,
+  AUTOSAVE_VERSION_WINDOW_MINUTES: 10,
 } as const;
 
 // Cache Keys
@@ -17,8 +17,12 @@ import {
   USER_ROLES, 
   CV_STATUS, 
   CV_LAYOUTS,
-  OAUTH_PROVIDERS 
+  OAUTH_PROVIDERS,
+  USER_AGENT_CLASSES,
+  CV_LAYOUT_SECTIONS,
+  LANGUAGE_PROFICIENCY_LEVELS
 } from './constants';
+import { RichTextUtil } from '@/utils/richText';
 import { 
   User, 
   CV, 
@@ -28,6 +32,16 @@ import {
   Project, 
   Skill, 
   SocialProfile,
+  Certification,
+  Award,
+  Publication,
+  Language,
+  Volunteering,
+  Reference,
+  CustomSection,
+  Highlight,
+  CVShareLink,
+  CVSectionConfig,
   ValidationError 
 } from './types';
 
@@ -218,6 +232,355 @@ export class CVRules {
     return errors;
   }
 
+  static validateCertifications(certifications: Certification[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (certifications.length > BUSINESS_RULES.MAX_CERTIFICATION_ENTRIES) {
+      errors.push({
+        field: 'certifications',
+        message: `Maximum ${BUSINESS_RULES.MAX_CERTIFICATION_ENTRIES} certification entries allowed`
+      });
+    }
+
+    certifications.forEach((certification, index) => {
+      if (!certification.name || certification.name.trim().length === 0) {
+        errors.push({ field: `certifications[${index}].name`, message: 'Certification name is required' });
+      }
+
+      if (!certification.issuer || certification.issuer.trim().length === 0) {
+        errors.push({ field: `certifications[${index}].issuer`, message: 'Issuer is required' });
+      }
+
+      if (!certification.issue_date) {
+        errors.push({ field: `certifications[${index}].issue_date`, message: 'Issue date is required' });
+      }
+
+      if (certification.expiry_date && certification.issue_date && certification.expiry_date < certification.issue_date) {
+        errors.push({ field: `certifications[${index}].expiry_date`, message: 'Expiry date must be after the issue date' });
+      }
+
+      if (certification.credential_url && !CVRules.isValidUrl(certification.credential_url)) {
+        errors.push({ field: `certifications[${index}].credential_url`, message: 'Please provide a valid URL' });
+      }
+    });
+
+    return errors;
+  }
+
+  static validateAwards(awards: Award[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (awards.length > BUSINESS_RULES.MAX_AWARD_ENTRIES) {
+      errors.push({
+        field: 'awards',
+        message: `Maximum ${BUSINESS_RULES.MAX_AWARD_ENTRIES} award entries allowed`
+      });
+    }
+
+    awards.forEach((award, index) => {
+      if (!award.title || award.title.trim().length === 0) {
+        errors.push({ field: `awards[${index}].title`, message: 'Award title is required' });
+      }
+
+      errors.push(...CVRules.validateRichText(award.description, `awards[${index}].description`, 'Description'));
+    });
+
+    return errors;
+  }
+
+  static validatePublications(publications: Publication[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (publications.length > BUSINESS_RULES.MAX_PUBLICATION_ENTRIES) {
+      errors.push({
+        field: 'publications',
+        message: `Maximum ${BUSINESS_RULES.MAX_PUBLICATION_ENTRIES} publication entries allowed`
+      });
+    }
+
+    publications.forEach((publication, index) => {
+      if (!publication.title || publication.title.trim().length === 0) {
+        errors.push({ field: `publications[${index}].title`, message: 'Publication title is required' });
+      } else if (publication.title.trim().length > VALIDATION_RULES.ITEM_TITLE.MAX_LENGTH) {
+        errors.push({
+          field: `publications[${index}].title`,
+          message: `Publication title must not exceed ${VALIDATION_RULES.ITEM_TITLE.MAX_LENGTH} characters`
+        });
+      }
+
+      if (publication.url && !CVRules.isValidUrl(publication.url)) {
+        errors.push({ field: `publications[${index}].url`, message: 'Please provide a valid URL' });
+      }
+    });
+
+    return errors;
+  }
+
+  static validateLanguages(languages: Language[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (languages.length > BUSINESS_RULES.MAX_LANGUAGE_ENTRIES) {
+      errors.push({
+        field: 'languages',
+        message: `Maximum ${BUSINESS_RULES.MAX_LANGUAGE_ENTRIES} language entries allowed`
+      });
+    }
+
+    languages.forEach((language, index) => {
+      if (!language.language || language.language.trim().length === 0) {
+        errors.push({ field: `languages[${index}].language`, message: 'Language is required' });
+      }
+
+      if (!(LANGUAGE_PROFICIENCY_LEVELS as readonly string[]).includes(language.proficiency)) {
+        errors.push({
+          field: `languages[${index}].proficiency`,
+          message: `Proficiency must be one of: ${LANGUAGE_PROFICIENCY_LEVELS.join(', ')}`
+        });
+      }
+    });
+
+    return errors;
+  }
+
+  static validateVolunteering(volunteering: Volunteering[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (volunteering.length > BUSINESS_RULES.MAX_VOLUNTEERING_ENTRIES) {
+      errors.push({
+        field: 'volunteering',
+        message: `Maximum ${BUSINESS_RULES.MAX_VOLUNTEERING_ENTRIES} volunteering entries allowed`
+      });
+    }
+
+    volunteering.forEach((entry, index) => {
+      if (!entry.organization || entry.organization.trim().length === 0) {
+        errors.push({ field: `volunteering[${index}].organization`, message: 'Organization is required' });
+      }
+
+      if (!entry.role || entry.role.trim().length === 0) {
+        errors.push({ field: `volunteering[${index}].role`, message: 'Role is required' });
+      }
+
+      if (!entry.start_date) {
+        errors.push({ field: `volunteering[${index}].start_date`, message: 'Start date is required' });
+      }
+    });
+
+    return errors;
+  }
+
+  static validateReferences(references: Reference[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (references.length > BUSINESS_RULES.MAX_REFERENCE_ENTRIES) {
+      errors.push({
+        field: 'references',
+        message: `Maximum ${BUSINESS_RULES.MAX_REFERENCE_ENTRIES} reference entries allowed`
+      });
+    }
+
+    references.forEach((reference, index) => {
+      if (!reference.name || reference.name.trim().length === 0) {
+        errors.push({ field: `references[${index}].name`, message: 'Reference name is required' });
+      }
+
+      if (reference.email && !VALIDATION_RULES.EMAIL.PATTERN.test(reference.email)) {
+        errors.push({ field: `references[${index}].email`, message: 'Please provide a valid email address' });
+      }
+
+      if (reference.phone && !VALIDATION_RULES.PHONE.PATTERN.test(reference.phone)) {
+        errors.push({ field: `references[${index}].phone`, message: 'Please provide a valid phone number' });
+      }
+    });
+
+    return errors;
+  }
+
+  static validateCustomSections(customSections: CustomSection[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (customSections.length > BUSINESS_RULES.MAX_CUSTOM_SECTIONS) {
+      errors.push({
+        field: 'custom_sections',
+        message: `Maximum ${BUSINESS_RULES.MAX_CUSTOM_SECTIONS} custom sections allowed`
+      });
+    }
+
+    customSections.forEach((section, index) => {
+      if (!section.title || section.title.trim().length === 0) {
+        errors.push({ field: `custom_sections[${index}].title`, message: 'Section title is required' });
+      } else if (section.title.trim().length > VALIDATION_RULES.SECTION_TITLE.MAX_LENGTH) {
+        errors.push({
+          field: `custom_sections[${index}].title`,
+          message: `Section title must not exceed ${VALIDATION_RULES.SECTION_TITLE.MAX_LENGTH} characters`
+        });
+      }
+
+      if (!Array.isArray(section.items)) {
+        errors.push({ field: `custom_sections[${index}].items`, message: 'Items must be a list' });
+        return;
+      }
+
+      if (section.items.length > BUSINESS_RULES.MAX_CUSTOM_SECTION_ITEMS) {
+        errors.push({
+          field: `custom_sections[${index}].items`,
+          message: `Maximum ${BUSINESS_RULES.MAX_CUSTOM_SECTION_ITEMS} items allowed per custom section`
+        });
+      }
+
+      section.items.forEach((item, itemIndex) => {
+        const field = `custom_sections[${index}].items[${itemIndex}]`;
+
+        if (!item || typeof item !== 'object' || !item.title || item.title.trim().length === 0) {
+          errors.push({ field: `${field}.title`, message: 'Item title is required' });
+          return;
+        }
+
+        if (item.title.trim().length > VALIDATION_RULES.ITEM_TITLE.MAX_LENGTH) {
+          errors.push({
+            field: `${field}.title`,
+            message: `Item title must not exceed ${VALIDATION_RULES.ITEM_TITLE.MAX_LENGTH} characters`
+          });
+        }
+
+        if (item.url && !CVRules.isValidUrl(item.url)) {
+          errors.push({ field: `${field}.url`, message: 'Please provide a valid URL' });
+        }
+
+        errors.push(...CVRules.validateRichText(item.description, `${field}.description`, 'Description'));
+      });
+    });
+
+    return errors;
+  }
+
+  /**
+   * Achievement bullets of an experience or project entry
+   */
+  private static validateHighlights(highlights: Highlight[] | undefined, field: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (highlights === undefined || highlights === null) return errors;
+
+    if (!Array.isArray(highlights)) {
+      return [{ field, message: 'Highlights must be a list' }];
+    }
+
+    if (highlights.length > BUSINESS_RULES.MAX_HIGHLIGHTS_PER_ENTRY) {
+      errors.push({ field, message: `Maximum ${BUSINESS_RULES.MAX_HIGHLIGHTS_PER_ENTRY} highlights allowed per entry` });
+    }
+
+    highlights.forEach((highlight, index) => {
+      const itemField = `${field}[${index}]`;
+
+      if (!highlight || typeof highlight !== 'object' || typeof highlight.text !== 'string' || highlight.text.trim().length === 0) {
+        errors.push({ field: `${itemField}.text`, message: 'Highlight text is required' });
+        return;
+      }
+
+      if (highlight.text.trim().length > VALIDATION_RULES.HIGHLIGHT.MAX_LENGTH) {
+        errors.push({
+          field: `${itemField}.text`,
+          message: `Highlight must not exceed ${VALIDATION_RULES.HIGHLIGHT.MAX_LENGTH} characters`
+        });
+      }
+
+      if (highlight.metric && highlight.metric.length > VALIDATION_RULES.HIGHLIGHT.METRIC_MAX_LENGTH) {
+        errors.push({
+          field: `${itemField}.metric`,
+          message: `Metric must not exceed ${VALIDATION_RULES.HIGHLIGHT.METRIC_MAX_LENGTH} characters`
+        });
+      }
+
+      if (highlight.tags !== undefined) {
+        if (!Array.isArray(highlight.tags) || highlight.tags.some((tag) => typeof tag !== 'string' || tag.length > VALIDATION_RULES.HIGHLIGHT.TAG_MAX_LENGTH)) {
+          errors.push({
+            field: `${itemField}.tags`,
+            message: `Tags must be a list of texts of at most ${VALIDATION_RULES.HIGHLIGHT.TAG_MAX_LENGTH} characters`
+          });
+        } else if (highlight.tags.length > BUSINESS_RULES.MAX_HIGHLIGHT_TAGS) {
+          errors.push({ field: `${itemField}.tags`, message: `Maximum ${BUSINESS_RULES.MAX_HIGHLIGHT_TAGS} tags allowed per highlight` });
+        }
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Rich text limits apply to the visible text, with headroom for formatting markup
+   */
+  private static validateRichText(value: string | undefined, field: string, label: string): ValidationError[] {
+    if (!value) return [];
+
+    if (RichTextUtil.toPlainText(value).length > VALIDATION_RULES.DESCRIPTION.MAX_LENGTH) {
+      return [{ field, message: `${label} must not exceed ${VALIDATION_RULES.DESCRIPTION.MAX_LENGTH} characters` }];
+    }
+
+    if (value.length > VALIDATION_RULES.RICH_TEXT.MAX_LENGTH) {
+      return [{ field, message: `${label} has too much formatting` }];
+    }
+
+    return [];
+  }
+
+  private static isValidUrl(value: string): boolean {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static validateSectionConfig(config: CVSectionConfig | null): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    // null resets the CV to the default layout
+    if (config === null) {
+      return errors;
+    }
+
+    if (typeof config !== 'object' || Array.isArray(config)) {
+      errors.push({ field: 'section_config', message: 'Section config must be an object' });
+      return errors;
+    }
+
+    const validSections: string[] = Object.values(CV_LAYOUT_SECTIONS);
+    const validateList = (field: 'order' | 'hidden', list: unknown) => {
+      if (list === undefined) return;
+      if (!Array.isArray(list) || list.some((section) => !validSections.includes(section))) {
+        errors.push({ field: `section_config.${field}`, message: `Sections must be any of: ${validSections.join(', ')}` });
+      } else if (new Set(list).size !== list.length) {
+        errors.push({ field: `section_config.${field}`, message: 'Sections must not be listed twice' });
+      }
+    };
+
+    validateList('order', config.order);
+    validateList('hidden', config.hidden);
+
+    if (config.titles !== undefined) {
+      if (!config.titles || typeof config.titles !== 'object' || Array.isArray(config.titles)) {
+        errors.push({ field: 'section_config.titles', message: 'Section titles must be an object' });
+        return errors;
+      }
+
+      Object.entries(config.titles).forEach(([section, title]) => {
+        if (!validSections.includes(section)) {
+          errors.push({ field: `section_config.titles.${section}`, message: 'Unknown section' });
+        } else if (typeof title !== 'string' || title.trim().length === 0) {
+          errors.push({ field: `section_config.titles.${section}`, message: 'Section title must not be empty' });
+        } else if (title.trim().length > VALIDATION_RULES.SECTION_TITLE.MAX_LENGTH) {
+          errors.push({
+            field: `section_config.titles.${section}`,
+            message: `Section title must not exceed ${VALIDATION_RULES.SECTION_TITLE.MAX_LENGTH} characters`
+          });
+        }
+      });
+    }
+
+    return errors;
+  }
+
   static validateBasicDetails(basicDetails: BasicDetails): ValidationError[] {
     const errors: ValidationError[] = [];
     
@@ -247,12 +610,7 @@ export class CVRules {
       errors.push({ field: 'phone', message: 'Please provide a valid phone number' });
     }
 
-    if (basicDetails.introduction && basicDetails.introduction.length > VALIDATION_RULES.DESCRIPTION.MAX_LENGTH) {
-      errors.push({ 
-        field: 'introduction', 
-        message: `Introduction must not exceed ${VALIDATION_RULES.DESCRIPTION.MAX_LENGTH} characters` 
-      });
-    }
+    errors.push(...CVRules.validateRichText(basicDetails.introduction, 'introduction', 'Introduction'));
 
     return errors;
   }
@@ -314,6 +672,9 @@ export class CVRules {
       if (!exp.joining_date) {
         errors.push({ field: `experience[${index}].joining_date`, message: 'Joining date is required' });
       }
+
+      errors.push(...CVRules.validateRichText(exp.description, `experience[${index}].description`, 'Description'));
+      errors.push(...CVRules.validateHighlights(exp.highlights, `experience[${index}].highlights`));
     });
 
     return errors;
@@ -351,6 +712,9 @@ export class CVRules {
       if (project.team_size && project.team_size < 1) {
         errors.push({ field: `projects[${index}].team_size`, message: 'Team size must be at least 1' });
       }
+
+      errors.push(...CVRules.validateRichText(project.description, `projects[${index}].description`, 'Description'));
+      errors.push(...CVRules.validateHighlights(project.highlights, `projects[${index}].highlights`));
     });
 
     return errors;
@@ -480,6 +844,104 @@ export class CVRules {
   }
 }
 
+// Public Share Link Rules
+export class ShareLinkRules {
+  static validateExpiry(expiresAt?: string | null): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (expiresAt === undefined || expiresAt === null || expiresAt === '') {
+      return errors;
+    }
+
+    const expiry = new Date(expiresAt);
+    if (isNaN(expiry.getTime())) {
+      errors.push({ field: 'expires_at', message: 'Expiry must be a valid date' });
+      return errors;
+    }
+
+    if (expiry.getTime() <= Date.now()) {
+      errors.push({ field: 'expires_at', message: 'Expiry must be in the future' });
+    }
+
+    const maxExpiry = Date.now() + BUSINESS_RULES.MAX_SHARE_LINK_EXPIRY_DAYS * 24 * 60 * 60 * 1000;
+    if (expiry.getTime() > maxExpiry) {
+      errors.push({ 
+        field: 'expires_at', 
+        message: `Expiry cannot be more than ${BUSINESS_RULES.MAX_SHARE_LINK_EXPIRY_DAYS} days away` 
+      });
+    }
+
+    return errors;
+  }
+
+  static canCreateMoreLinks(activeLinkCount: number): { allowed: boolean; reason?: string } {
+    if (activeLinkCount >= BUSINESS_RULES.MAX_ACTIVE_SHARE_LINKS_PER_CV) {
+      return { 
+        allowed: false, 
+        reason: `Maximum active share links per CV reached (${BUSINESS_RULES.MAX_ACTIVE_SHARE_LINKS_PER_CV}). Revoke an existing link first.` 
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  static isLinkActive(link: CVShareLink): { allowed: boolean; reason?: string } {
+    if (link.revoked_at) {
+      return { allowed: false, reason: 'This share link has been revoked' };
+    }
+
+    if (link.expires_at && new Date(link.expires_at).getTime() <= Date.now()) {
+      return { allowed: false, reason: 'This share link has expired' };
+    }
+
+    return { allowed: true };
+  }
+
+  static canViewPublicly(link: CVShareLink, cv: CV): { allowed: boolean; reason?: string } {
+    const active = this.isLinkActive(link);
+    if (!active.allowed) {
+      return active;
+    }
+
+    return this.isCVPublic(cv);
+  }
+
+  static isCVPublic(cv: CV): { allowed: boolean; reason?: string } {
+    // Mirrors the "Public can view published public CVs" RLS policy
+    if (!cv.is_public || cv.status !== CV_STATUS.PUBLISHED) {
+      return { allowed: false, reason: 'This CV is not publicly available' };
+    }
+
+    return { allowed: true };
+  }
+}
+
+// CV Analytics Rules
+export class AnalyticsRules {
+  static validateDays(days?: string | number): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (days === undefined || days === '') {
+      return errors;
+    }
+
+    const value = Number(days);
+    if (!Number.isInteger(value) || value < 1 || value > BUSINESS_RULES.MAX_ANALYTICS_DAYS) {
+      errors.push({ 
+        field: 'days', 
+        message: `Days must be a whole number between 1 and ${BUSINESS_RULES.MAX_ANALYTICS_DAYS}` 
+      });
+    }
+
+    return errors;
+  }
+
+  static shouldRecordView(userAgentClass: string): boolean {
+    // Link unfurlers and crawlers are not people looking at the CV
+    return userAgentClass !== USER_AGENT_CLASSES.BOT;
+  }
+}
+
 // General Business Rules
 export class BusinessRules {
   static isProduction(): boolean {
@@ -19,7 +19,7 @@
  */
 
 import { Request } from 'express';
-import { USER_ROLES, CV_STATUS, CV_LAYOUTS, OAUTH_PROVIDERS } from './constants';
+import { USER_ROLES, CV_STATUS, CV_LAYOUTS, OAUTH_PROVIDERS, CV_LAYOUT_SECTIONS, LANGUAGE_PROFICIENCY_LEVELS } from './constants';
 
 /**
  * Base entity interface with common fields
@@ -57,7 +57,7 @@ export interface User extends BaseEntity {
   role: typeof USER_ROLES[keyof typeof USER_ROLES];
   is_verified: boolean;
   profile_image_url?: string;
-  oauth_provider?: keyof typeof OAUTH_PROVIDERS;
+  oauth_provider?: OAuthProvider;
   oauth_id?: string;
   last_login?: string;
   is_active: boolean;
@@ -83,9 +83,41 @@ export interface CV extends BaseEntity {
   is_public: boolean;
   download_count: number;
   share_count: number;
+  view_count: number;
   last_modified: string;
+  section_config?: CVSectionConfig | null;
 }
 
+// Sections a CV layout can reorder, hide and rename
+export type CVLayoutSection = typeof CV_LAYOUT_SECTIONS[keyof typeof CV_LAYOUT_SECTIONS];
+
+// Per-CV section layout; sections left out keep their default place, heading and visibility
+export interface CVSectionConfig {
+  order?: CVLayoutSection[];
+  hidden?: CVLayoutSection[];
+  titles?: Partial<Record<CVLayoutSection, string>>;
+}
+
+// A section as it should be rendered
+export interface ResolvedCVSection {
+  key: CVLayoutSection;
+  title: string;
+  hidden: boolean;
+}
+
+// Formatted text run of a rich text field (descriptions, introduction)
+export interface RichTextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  href?: string;
+}
+
+// Paragraph (one run list per line) or bullet list (one run list per item)
+export type RichTextBlock =
+  | { type: 'paragraph'; lines: RichTextRun[][] }
+  | { type: 'list'; items: RichTextRun[][] };
+
 // Basic Details Interface
 export interface BasicDetails {
   id: string;
@@ -105,6 +137,7 @@ export interface BasicDetails {
 export interface Education {
   id: string;
   cv_id: string;
+  sort_order: number;
   degree_name: string;
   institution: string;
   percentage?: number;
@@ -119,6 +152,7 @@ export interface Education {
 export interface Experience {
   id: string;
   cv_id: string;
+  sort_order: number;
   organization_name: string;
   position: string;
   joining_location?: string;
@@ -128,17 +162,27 @@ export interface Experience {
   is_current: boolean;
   technologies?: string[];
   description?: string;
+  highlights?: Highlight[];
+}
+
+// Achievement bullet of an experience or project entry (kept in list order)
+export interface Highlight {
+  text: string;
+  metric?: string; // e.g. "-40% latency", shown next to the text
+  tags?: string[];
 }
 
 // Project Interface
 export interface Project {
   id: string;
   cv_id: string;
+  sort_order: number;
   title: string;
   team_size?: number;
   duration?: string;
   technologies?: string[];
   description?: string;
+  highlights?: Highlight[];
   project_url?: string;
   github_url?: string;
 }
@@ -147,6 +191,7 @@ export interface Project {
 export interface Skill {
   id: string;
   cv_id: string;
+  sort_order: number;
   skill_name: string;
   proficiency_percentage: number;
   category: 'technical' | 'interpersonal' | 'language';
@@ -156,11 +201,133 @@ export interface Skill {
 export interface SocialProfile {
   id: string;
   cv_id: string;
+  sort_order: number;
   platform_name: string;
   profile_url: string;
   is_public: boolean;
 }
 
+// Certification Interface
+export interface Certification {
+  id: string;
+  cv_id: string;
+  sort_order: number;
+  name: string;
+  issuer: string;
+  issue_date: string;
+  expiry_date?: string;
+  credential_id?: string;
+  credential_url?: string;
+}
+
+// Award Interface
+export interface Award {
+  id: string;
+  cv_id: string;
+  sort_order: number;
+  title: string;
+  issuer?: string;
+  award_date?: string;
+  description?: string;
+}
+
+// Publication Interface
+export interface Publication {
+  id: string;
+  cv_id: string;
+  sort_order: number;
+  title: string;
+  publisher?: string;
+  authors?: string;
+  publication_date?: string;
+  url?: string;
+  description?: string;
+}
+
+export type LanguageProficiency = typeof LANGUAGE_PROFICIENCY_LEVELS[number];
+
+// Language Interface
+export interface Language {
+  id: string;
+  cv_id: string;
+  sort_order: number;
+  language: string;
+  proficiency: LanguageProficiency;
+}
+
+// Volunteering Interface
+export interface Volunteering {
+  id: string;
+  cv_id: string;
+  sort_order: number;
+  organization: string;
+  role: string;
+  start_date: string;
+  end_date?: string;
+  is_current: boolean;
+  description?: string;
+}
+
+// Reference Interface
+export interface Reference {
+  id: string;
+  cv_id: string;
+  sort_order: number;
+  name: string;
+  position?: string;
+  organization?: string;
+  relationship?: string;
+  email?: string;
+  phone?: string;
+}
+
+// One entry of a user-defined section
+export interface CustomSectionItem {
+  title: string;
+  subtitle?: string;
+  date?: string;
+  url?: string;
+  description?: string;
+}
+
+// User-defined section with its own heading (stored with its items as one row)
+export interface CustomSection {
+  id: string;
+  cv_id: string;
+  sort_order: number;
+  title: string;
+  items: CustomSectionItem[];
+}
+
+// CV sections made of list items (everything except basic details)
+export type CVItemSection =
+  | 'education'
+  | 'experience'
+  | 'projects'
+  | 'skills'
+  | 'social_profiles'
+  | 'certifications'
+  | 'awards'
+  | 'publications'
+  | 'languages'
+  | 'volunteering'
+  | 'references'
+  | 'custom_sections';
+
+export type CVSectionItem =
+  | Education
+  | Experience
+  | Project
+  | Skill
+  | SocialProfile
+  | Certification
+  | Award
+  | Publication
+  | Language
+  | Volunteering
+  | Reference
+  | CustomSection;
+
 // Complete CV Data Interface
 export interface CVData {
   cv: CV;
@@ -170,6 +337,148 @@ export interface CVData {
   projects: Project[];
   skills: Skill[];
   social_profiles: SocialProfile[];
+  certifications: Certification[];
+  awards: Award[];
+  publications: Publication[];
+  languages: Language[];
+  volunteering: Volunteering[];
+  references: Reference[];
+  custom_sections: CustomSection[];
+}
+
+// CV Download History Interface
+export interface CVDownload {
+  id: string;
+  user_id: string;
+  cv_id: string;
+  download_type: 'pdf' | 'docx';
+  created_at: string;
+}
+
+// CV Share History Interface
+export interface CVShare {
+  id: string;
+  user_id: string;
+  cv_id: string;
+  share_platform: 'email' | 'linkedin' | 'twitter' | 'facebook' | 'whatsapp';
+  recipient_email?: string;
+  created_at: string;
+}
+
+// CV Public Share Link Interface
+export interface CVShareLink {
+  id: string;
+  user_id: string;
+  cv_id: string;
+  slug: string;
+  expires_at?: string | null;
+  revoked_at?: string | null;
+  created_at: string;
+}
+
+// CV View Interface (public/shared views, one per visitor per day)
+export interface CVView {
+  id: string;
+  user_id: string;
+  cv_id: string;
+  share_link_id?: string | null;
+  channel: 'direct' | CVShare['share_platform'];
+  referrer_host?: string | null;
+  user_agent_class: 'desktop' | 'mobile' | 'tablet' | 'other';
+  visitor_hash: string;
+  view_date: string;
+  created_at: string;
+}
+
+// Activity Log Interface
+export interface ActivityLog {
+  id: string;
+  user_id: string;
+  cv_id?: string | null;
+  action: 'cv_created' | 'cv_updated' | 'cv_deleted' | 'cv_duplicated' | 'cv_downloaded' | 'cv_shared' | 'cv_restored' | 'payment';
+  metadata: Record<string, any>;
+  cv?: { title: string } | null;
+  created_at: string;
+}
+
+// CV Version Interfaces
+export interface CVVersionSummary {
+  id: string;
+  cv_id: string;
+  user_id: string;
+  version_number: number;
+  source: 'create' | 'update' | 'restore' | 'autosave';
+  restored_from?: number | null;
+  fields: string[];
+  created_at: string;
+}
+
+export interface CVVersion extends CVVersionSummary {
+  snapshot: CVData;
+}
+
+// CV Diff Interfaces
+export interface CVFieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface CVSectionItemDiff<T = Record<string, any>> {
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  key: string;
+  before?: T;
+  after?: T;
+  changes: CVFieldChange[];
+}
+
+export interface CVDiffSide {
+  cv_id: string;
+  title: string;
+  version_number?: number;
+  updated_at?: string;
+}
+
+export interface CVDiff {
+  base: CVDiffSide;
+  target: CVDiffSide;
+  cv: CVFieldChange[];
+  basic_details: CVFieldChange[];
+  sections: Record<CVItemSection, CVSectionItemDiff[]>;
+  summary: {
+    added: number;
+    removed: number;
+    modified: number;
+    changed_fields: number;
+  };
+}
+
+// CV Analytics Interfaces
+export interface CVAnalyticsPoint {
+  date: string;
+  views: number;
+  downloads: number;
+  shares: number;
+}
+
+export interface CVAnalytics {
+  cv_id: string;
+  from: string;
+  to: string;
+  totals: {
+    views: number;
+    downloads: number;
+    shares: number;
+  };
+  series: CVAnalyticsPoint[];
+  views_by_channel: Record<string, number>;
+  views_by_device: Record<string, number>;
+  top_referrers: { host: string; views: number }[];
+}
+
+// Public (read-only) CV payload with owner-only fields removed
+export interface PublicCVData extends Omit<CVData, 'cv'> {
+  cv: Pick<CV, 'id' | 'title' | 'layout' | 'status' | 'last_modified' | 'section_config'>;
 }
 
 // API Response Interfaces
@@ -261,24 +570,226 @@ export interface CreateCVRequest {
   title: string;
   layout: 'modern' | 'classic' | 'creative';
   basic_details: Omit<BasicDetails, 'id' | 'cv_id'>;
-  education?: Omit<Education, 'id' | 'cv_id'>[];
-  experience?: Omit<Experience, 'id' | 'cv_id'>[];
-  projects?: Omit<Project, 'id' | 'cv_id'>[];
-  skills?: Omit<Skill, 'id' | 'cv_id'>[];
-  social_profiles?: Omit<SocialProfile, 'id' | 'cv_id'>[];
+  section_config?: CVSectionConfig | null;
+  education?: Omit<Education, 'id' | 'cv_id' | 'sort_order'>[];
+  experience?: Omit<Experience, 'id' | 'cv_id' | 'sort_order'>[];
+  projects?: Omit<Project, 'id' | 'cv_id' | 'sort_order'>[];
+  skills?: Omit<Skill, 'id' | 'cv_id' | 'sort_order'>[];
+  social_profiles?: Omit<SocialProfile, 'id' | 'cv_id' | 'sort_order'>[];
+  certifications?: Omit<Certification, 'id' | 'cv_id' | 'sort_order'>[];
+  awards?: Omit<Award, 'id' | 'cv_id' | 'sort_order'>[];
+  publications?: Omit<Publication, 'id' | 'cv_id' | 'sort_order'>[];
+  languages?: Omit<Language, 'id' | 'cv_id' | 'sort_order'>[];
+  volunteering?: Omit<Volunteering, 'id' | 'cv_id' | 'sort_order'>[];
+  references?: Omit<Reference, 'id' | 'cv_id' | 'sort_order'>[];
+  custom_sections?: Omit<CustomSection, 'id' | 'cv_id' | 'sort_order'>[];
 }
 
+// Section item in a full save; items sent with their id are updated in place, the rest are added
+export type CVItemInput<T> = Omit<T, 'id' | 'cv_id' | 'sort_order'> & { id?: string };
+
 export interface UpdateCVRequest {
   title?: string;
   layout?: 'modern' | 'classic' | 'creative';
   status?: 'draft' | 'published' | 'archived';
   is_public?: boolean;
+  section_config?: CVSectionConfig | null;
   basic_details?: Partial<Omit<BasicDetails, 'id' | 'cv_id'>>;
-  education?: Omit<Education, 'id' | 'cv_id'>[];
-  experience?: Omit<Experience, 'id' | 'cv_id'>[];
-  projects?: Omit<Project, 'id' | 'cv_id'>[];
-  skills?: Omit<Skill, 'id' | 'cv_id'>[];
-  social_profiles?: Omit<SocialProfile, 'id' | 'cv_id'>[];
+  education?: CVItemInput<Education>[];
+  experience?: CVItemInput<Experience>[];
+  projects?: CVItemInput<Project>[];
+  skills?: CVItemInput<Skill>[];
+  social_profiles?: CVItemInput<SocialProfile>[];
+  certifications?: CVItemInput<Certification>[];
+  awards?: CVItemInput<Award>[];
+  publications?: CVItemInput<Publication>[];
+  languages?: CVItemInput<Language>[];
+  volunteering?: CVItemInput<Volunteering>[];
+  references?: CVItemInput<Reference>[];
+  custom_sections?: CVItemInput<CustomSection>[];
+  /** `last_modified` of the copy being edited; the update is rejected if the CV changed since */
+  version?: string;
+  /** Background save from the editor; folded into the previous autosave version within a short window */
+  autosave?: boolean;
+}
+
+// JSON Resume Interfaces (https://jsonresume.org/schema; every field is optional)
+export interface JsonResumeLocation {
+  address?: string;
+  postalCode?: string;
+  city?: string;
+  countryCode?: string;
+  region?: string;
+}
+
+export interface JsonResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JsonResumeBasics {
+  name?: string;
+  label?: string;
+  image?: string;
+  email?: string;
+  phone?: string;
+  url?: string;
+  summary?: string;
+  location?: JsonResumeLocation;
+  profiles?: JsonResumeProfile[];
+}
+
+export interface JsonResumeWork {
+  name?: string;
+  location?: string;
+  description?: string;
+  position?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  url?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string;
+  courses?: string[];
+}
+
+export interface JsonResumeProject {
+  name?: string;
+  description?: string;
+  highlights?: string[];
+  keywords?: string[];
+  startDate?: string;
+  endDate?: string;
+  url?: string;
+  roles?: string[];
+  entity?: string;
+  type?: string;
+}
+
+export interface JsonResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+}
+
+export interface JsonResume {
+  $schema?: string;
+  meta?: { lastModified?: string; [field: string]: unknown };
+  basics?: JsonResumeBasics;
+  work?: JsonResumeWork[];
+  education?: JsonResumeEducation[];
+  projects?: JsonResumeProject[];
+  skills?: JsonResumeSkill[];
+  [section: string]: unknown;
+}
+
+// Native CV export: the full CVData tagged with the export schema version
+export interface CVNativeExport extends CVData {
+  schema_version: number;
+  exported_at: string;
+}
+
+// Europass CV Interfaces (SkillsPassport v3.4 JSON; the XML form is converted to this shape)
+export interface EuropassDate {
+  Year: number;
+  Month?: number;
+  Day?: number;
+}
+
+export interface EuropassPeriod {
+  From?: EuropassDate;
+  To?: EuropassDate;
+  Current?: boolean;
+}
+
+export interface EuropassCEFRLevels {
+  Listening?: string;
+  Reading?: string;
+  SpokenInteraction?: string;
+  SpokenProduction?: string;
+  Writing?: string;
+}
+
+export interface EuropassLanguage {
+  Description: { Code?: string; Label: string };
+  ProficiencyLevel?: EuropassCEFRLevels;
+}
+
+export interface EuropassAddress {
+  AddressLine?: string;
+  PostalCode?: string;
+  Municipality?: string;
+}
+
+export interface EuropassWorkExperience {
+  Period?: EuropassPeriod;
+  Position?: { Label: string };
+  Activities?: string;
+  Employer?: { Name: string; ContactInfo?: { Address?: { Contact: EuropassAddress } } };
+}
+
+export interface EuropassEducation {
+  Period?: EuropassPeriod;
+  Title?: string;
+  Skills?: string;
+  Organisation?: { Name: string };
+}
+
+// Free-text skill groups; each description is one "- skill (NN%)" line per skill
+export type EuropassSkillGroup = 'Communication' | 'Organisational' | 'JobRelated' | 'Computer';
+
+export interface EuropassSkills extends Partial<Record<EuropassSkillGroup, { Description: string }>> {
+  Linguistic?: {
+    MotherTongue?: EuropassLanguage[];
+    ForeignLanguage?: EuropassLanguage[];
+  };
+  [group: string]: unknown;
+}
+
+export interface EuropassLearnerInfo {
+  Identification?: {
+    PersonName?: { FirstName?: string; Surname?: string };
+    ContactInfo?: {
+      Address?: { Contact: EuropassAddress };
+      Email?: { Contact: string };
+      Telephone?: { Contact: string }[];
+      Website?: { Contact: string }[];
+    };
+    [field: string]: unknown;
+  };
+  Headline?: { Type?: { Code: string; Label?: string }; Description: { Label: string } };
+  WorkExperience?: EuropassWorkExperience[];
+  Education?: EuropassEducation[];
+  Skills?: EuropassSkills;
+  [section: string]: unknown;
+}
+
+export interface EuropassDocument {
+  SkillsPassport: {
+    Locale?: string;
+    DocumentInfo?: { DocumentType: string; CreationDate?: string; XSDVersion?: string; Generator?: string };
+    LearnerInfo: EuropassLearnerInfo;
+  };
+}
+
+// CV Import Interfaces
+export interface CVImportMapping {
+  cv: CreateCVRequest;
+  unmapped: string[]; // Paths of source fields with no CV counterpart, e.g. "work[0].url"
+}
+
+export interface CVImportResult extends CVData {
+  unmapped: string[];
 }
 
 // Payment Interface (for future implementation)
@@ -297,13 +808,53 @@ export interface EmailTemplate {
   text: string;
 }
 
+// Outgoing Mail Interfaces
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface MailMessage extends EmailTemplate {
+  to: string;
+  from?: string;
+  replyTo?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailDeliveryResult {
+  messageId: string;
+  transport: string;
+}
+
+// Email Outbox Interface
+export interface EmailOutboxEntry {
+  id: string;
+  user_id?: string | null;
+  to_email: string;
+  template: 'email_verification' | 'password_reset_link' | 'password_reset_otp';
+  subject: string;
+  html: string;
+  text: string;
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  last_error?: string | null;
+  next_attempt_at: string;
+  sent_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// OAuth Provider ('google' | 'facebook', as stored in users.oauth_provider)
+export type OAuthProvider = typeof OAUTH_PROVIDERS[keyof typeof OAUTH_PROVIDERS];
+
 // OAuth Profile Interface
 export interface OAuthProfile {
   id: string;
   email: string;
   name: string;
   picture?: string;
-  provider: keyof typeof OAUTH_PROVIDERS;
+  provider: OAuthProvider;
 }
 
 // Cache Interface
@@ -50,6 +50,8 @@ dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 export interface EnvironmentConfig {
   port: number;
   nodeEnv: string;
+  publicUrl: string;
+  appUrl: string;
   jwt: {
     secret: string;
     expiresIn: string;
@@ -72,10 +74,13 @@ export interface EnvironmentConfig {
     };
   };
   email: {
+    transport: 'smtp' | 'file' | 'memory';
+    from: string;
     smtpHost: string;
     smtpPort: number;
     smtpUser: string;
     smtpPass: string;
+    outputDir: string;
   };
   upload: {
     maxFileSize: number;
@@ -117,6 +122,9 @@ validateEnvironment();
 export const config: EnvironmentConfig = {
   port: parseInt(process.env.PORT || '3001', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
+  publicUrl: (process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || '3001'}`).replace(/\/+$/, ''),
+  // Frontend base URL used in email links
+  appUrl: (process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:3000').replace(/\/+$/, ''),
   jwt: {
     secret: process.env.JWT_SECRET!,
     expiresIn: process.env.JWT_EXPIRES_IN || '7d',
@@ -139,10 +147,15 @@ export const config: EnvironmentConfig = {
     },
   },
   email: {
+    // Outside production, mail is written to disk unless a transport is chosen explicitly
+    transport: (process.env.MAIL_TRANSPORT ||
+      (process.env.NODE_ENV === 'production' ? 'smtp' : 'file')) as 'smtp' | 'file' | 'memory',
+    from: process.env.MAIL_FROM || 'CV Builder <no-reply@cvbuilder.local>',
     smtpHost: process.env.SMTP_HOST || 'smtp.gmail.com',
     smtpPort: parseInt(process.env.SMTP_PORT || '587', 10),
     smtpUser: process.env.SMTP_USER || '',
     smtpPass: process.env.SMTP_PASS || '',
+    outputDir: process.env.MAIL_OUTPUT_DIR || 'logs/mail/',
   },
   upload: {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880', 10), // 5MB
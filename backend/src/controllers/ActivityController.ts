@@ -0,0 +1,61 @@
+/**
+ * Activity Controller
+ *
+ * Business Logic:
+ * - Serves the authenticated user's activity feed (CV changes, downloads, shares, payments)
+ *
+ * Code Conventions:
+ * - Guard-clause style validation and authorization
+ * - Delegates data access to `ActivityModel` only (no SQL here)
+ * - Produces consistent API responses through `ResponseUtil`
+ *
+ * @fileoverview HTTP adapter for the activity feed
+ * @author vicky neosoft test builder app
+ */
+
+import { Response } from 'express';
+import { ActivityModel } from '@/models/Activity';
+import { ResponseUtil } from '@/utils/response';
+import { AuthenticatedRequest } from '@/shared/types';
+import { logger } from '@/utils/logger';
+
+/**
+ * Activity Controller class
+ *
+ * Handles activity feed requests
+ *
+ * @class ActivityController
+ */
+export class ActivityController {
+  private activityModel: ActivityModel;
+
+  constructor() {
+    this.activityModel = new ActivityModel();
+  }
+
+  /**
+   * Get the user's activity feed, newest first (paginated)
+   */
+  getActivity = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const result = await this.activityModel.findByUserId(userId, { page, limit });
+
+      ResponseUtil.successWithPagination(res, result.activities, result.pagination, 'Activity retrieved successfully');
+    } catch (error: any) {
+      logger.error('Get activity error:', error);
+      ResponseUtil.error(res, 'Failed to get activity');
+    }
+  };
+}
+
+export default ActivityController;
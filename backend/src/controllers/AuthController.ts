@@ -21,6 +21,7 @@ import { AuthService } from '@/services/AuthService';
 import { ValidationUtil } from '@/utils/validation';
 import { ResponseUtil } from '@/utils/response';
 import { AuthenticatedRequest, RegisterRequest, LoginRequest } from '@/shared/types';
+import { HTTP_STATUS, OAUTH_PROVIDERS } from '@/shared/constants';
 import { logger } from '@/utils/logger';
 
 /**
@@ -38,12 +39,13 @@ export class AuthController {
    * 
    * Business Logic:
    * - Creates AuthService instance for business logic operations
+   *   (can be injected, e.g. with stub OAuth verifiers)
    * - Establishes dependency injection pattern
    * 
    * @constructor
    */
-  constructor() {
-    this.authService = new AuthService();
+  constructor(authService: AuthService = new AuthService()) {
+    this.authService = authService;
   }
 
   /**
@@ -391,9 +393,9 @@ export class AuthController {
    * 
    * Business Logic:
    * - Validates email format and existence
-   * - Generates 4-digit OTP (default: 1111 for development)
-   * - Stores OTP in database with expiration (5 minutes)
-   * - Sends OTP via email (or uses default for development)
+   * - `method: 'otp'` (default) emails a 4-digit OTP valid for 5 minutes
+   * - `method: 'link'` emails a single-use reset link instead
+   * - The OTP is only echoed back in development mode
    * - Implements rate limiting to prevent abuse
    * - Returns generic success message to prevent email enumeration
    * - Logs reset request for security monitoring
@@ -404,7 +406,7 @@ export class AuthController {
    */
   requestPasswordReset = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { email } = req.body;
+      const { email, method = 'otp' } = req.body;
 
       if (!email) {
         ResponseUtil.badRequest(res, 'Email is required');
@@ -417,6 +419,18 @@ export class AuthController {
         return;
       }
 
+      if (method !== 'otp' && method !== 'link') {
+        ResponseUtil.badRequest(res, "Method must be 'otp' or 'link'");
+        return;
+      }
+
+      // Reset link: same response whether or not the account exists
+      if (method === 'link') {
+        await this.authService.requestPasswordReset(email);
+        ResponseUtil.success(res, null, 'If an account exists for this email, a reset link has been sent');
+        return;
+      }
+
       // Request password reset with OTP
       const result = await this.authService.requestPasswordResetWithOTP(email);
 
@@ -565,12 +579,17 @@ export class AuthController {
         return;
       }
 
-      // TODO: Implement email verification logic
-      // This would typically verify the token and update user's verification status
-      
+      await this.authService.verifyEmail(token);
+
       ResponseUtil.success(res, null, 'Email verified successfully');
     } catch (error: any) {
       logger.error('Email verification error:', error);
+
+      if (error.message === 'Invalid verification token' || error.message === 'Verification token expired') {
+        ResponseUtil.badRequest(res, error.message);
+        return;
+      }
+
       ResponseUtil.error(res, 'Email verification failed');
     }
   };
@@ -599,12 +618,22 @@ export class AuthController {
         return;
       }
 
-      // TODO: Implement resend verification logic
-      // This would typically generate a new verification token and send email
-      
+      await this.authService.resendVerificationEmail(userId);
+
       ResponseUtil.success(res, null, 'Verification email sent');
     } catch (error: any) {
       logger.error('Resend verification error:', error);
+
+      if (error.message === 'Email already verified') {
+        ResponseUtil.badRequest(res, error.message);
+        return;
+      }
+
+      if (error.message === 'User not found') {
+        ResponseUtil.notFound(res, error.message);
+        return;
+      }
+
       ResponseUtil.error(res, 'Failed to resend verification email');
     }
   };
@@ -613,9 +642,9 @@ export class AuthController {
    * OAuth login with Google
    * 
    * Business Logic:
-   * - Validates Google access token
-   * - Fetches user profile from Google API
-   * - Creates or links OAuth account
+   * - Validates Google access token (must be issued to this app's client ID)
+   * - Fetches user profile from Google API (verified email required)
+   * - Creates or links OAuth account (linked by email)
    * - Generates JWT tokens
    * - Returns user data and tokens
    * 
@@ -632,12 +661,12 @@ export class AuthController {
         return;
       }
 
-      // TODO: Implement Google OAuth verification
-      // This would typically verify the token with Google API and get user profile
-      ResponseUtil.success(res, null, 'Google OAuth login - Implementation needed');
+      const result = await this.authService.oauthLoginWithToken(OAUTH_PROVIDERS.GOOGLE, access_token);
+
+      ResponseUtil.success(res, result, 'Login successful');
     } catch (error: any) {
       logger.error('Google OAuth error:', error);
-      ResponseUtil.error(res, 'Google OAuth login failed');
+      this.handleOAuthError(res, error, 'Google OAuth login failed');
     }
   };
 
@@ -645,9 +674,9 @@ export class AuthController {
    * OAuth login with Facebook
    * 
    * Business Logic:
-   * - Validates Facebook access token
-   * - Fetches user profile from Facebook API
-   * - Creates or links OAuth account
+   * - Validates Facebook access token (must be issued to this app)
+   * - Fetches user profile from Facebook API (email permission required)
+   * - Creates or links OAuth account (linked by email)
    * - Generates JWT tokens
    * - Returns user data and tokens
    * 
@@ -664,14 +693,37 @@ export class AuthController {
         return;
       }
 
-      // TODO: Implement Facebook OAuth verification
-      // This would typically verify the token with Facebook API and get user profile
-      ResponseUtil.success(res, null, 'Facebook OAuth login - Implementation needed');
+      const result = await this.authService.oauthLoginWithToken(OAUTH_PROVIDERS.FACEBOOK, access_token);
+
+      ResponseUtil.success(res, result, 'Login successful');
     } catch (error: any) {
       logger.error('Facebook OAuth error:', error);
-      ResponseUtil.error(res, 'Facebook OAuth login failed');
+      this.handleOAuthError(res, error, 'Facebook OAuth login failed');
     }
   };
+
+  /**
+   * Map OAuth verification and account errors to responses
+   */
+  private handleOAuthError(res: Response, error: any, fallbackMessage: string): void {
+    switch (error.message) {
+      case 'Invalid OAuth token':
+        ResponseUtil.unauthorized(res, error.message);
+        return;
+      case 'OAuth email not verified':
+      case 'OAuth account has no email address':
+        ResponseUtil.badRequest(res, error.message);
+        return;
+      case 'Account is deactivated':
+        ResponseUtil.forbidden(res, error.message);
+        return;
+      case 'OAuth provider unavailable':
+        ResponseUtil.error(res, error.message, HTTP_STATUS.BAD_GATEWAY);
+        return;
+      default:
+        ResponseUtil.error(res, fallbackMessage);
+    }
+  }
 }
 
 export default AuthController;
@@ -0,0 +1,113 @@
+import { Response } from 'express';
+import { AuthenticatedRequest, CVData } from '@/shared/types';
+import { CVController } from '@/controllers/CVController';
+import { MailService } from '@/services/MailService';
+
+const mockCVModel = {
+  update: jest.fn(),
+  findById: jest.fn(),
+  deleteSectionItem: jest.fn(),
+  reorderSection: jest.fn(),
+};
+
+jest.mock('@/config/database', () => ({ database: { getClient: () => ({}) } }));
+jest.mock('@/utils/logger', () => ({ logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn() } }));
+jest.mock('@/models/CV', () => ({ CVModel: jest.fn(() => mockCVModel) }));
+
+const STALE = 'CV has been modified since it was loaded';
+const loaded = '2025-01-01T10:00:00+00:00';
+const server = {
+  cv: { id: 'cv-1', title: 'Changed elsewhere', last_modified: '2025-01-03T10:00:00+00:00' },
+  basic_details: { full_name: 'Ada Lovelace', email: 'ada@example.com' },
+} as unknown as CVData;
+
+const buildRequest = (overrides: Partial<AuthenticatedRequest>): AuthenticatedRequest => ({
+  params: { cvId: 'cv-1' },
+  headers: {},
+  body: {},
+  user: { userId: 'user-1' },
+  ...overrides,
+} as unknown as AuthenticatedRequest);
+
+const buildResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn(), setHeader: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  return res;
+};
+
+describe('CVController preconditions', () => {
+  let controller: CVController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    controller = new CVController({} as MailService);
+    mockCVModel.findById.mockResolvedValue(server);
+  });
+
+  it('answers a stale version with 409 and the current server copy', async () => {
+    mockCVModel.update.mockRejectedValue(new Error(STALE));
+    const res = buildResponse();
+
+    await controller.updateCV(buildRequest({ body: { title: 'Mine', version: loaded } }), res as unknown as Response);
+
+    expect(mockCVModel.update).toHaveBeenCalledWith('cv-1', 'user-1', { title: 'Mine', version: loaded }, { autosave: false });
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.setHeader).toHaveBeenCalledWith('ETag', `"${server.cv.last_modified}"`);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      message: 'CV was changed in another session',
+      error: STALE,
+      data: server,
+    });
+  });
+
+  it('takes the version from If-Match', async () => {
+    mockCVModel.update.mockRejectedValue(new Error(STALE));
+    const res = buildResponse();
+
+    await controller.updateCV(
+      buildRequest({ body: { title: 'Mine' }, headers: { 'if-match': `W/"${loaded}"` } }),
+      res as unknown as Response
+    );
+
+    expect(mockCVModel.update).toHaveBeenCalledWith('cv-1', 'user-1', { title: 'Mine', version: loaded }, { autosave: false });
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+
+  it('rejects an If-Match header without a version', async () => {
+    const res = buildResponse();
+
+    await controller.updateCV(buildRequest({ body: { title: 'Mine' }, headers: { 'if-match': '"abc"' } }), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(mockCVModel.update).not.toHaveBeenCalled();
+  });
+
+  it('applies If-Match to item deletes', async () => {
+    mockCVModel.deleteSectionItem.mockRejectedValue(new Error(STALE));
+    const res = buildResponse();
+
+    await controller.deleteSectionItem(
+      buildRequest({ params: { cvId: 'cv-1', section: 'skills', itemId: 'item-1' }, headers: { 'if-match': `"${loaded}"` } }),
+      res as unknown as Response
+    );
+
+    expect(mockCVModel.deleteSectionItem).toHaveBeenCalledWith('cv-1', 'user-1', 'skills', 'item-1', loaded);
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ data: server }));
+  });
+
+  it('applies If-Match to reorders', async () => {
+    mockCVModel.reorderSection.mockResolvedValue([]);
+    const res = buildResponse();
+
+    await controller.reorderSection(
+      buildRequest({ params: { cvId: 'cv-1', section: 'skills' }, body: { ids: ['a', 'b'] }, headers: { 'if-match': `"${loaded}"` } }),
+      res as unknown as Response
+    );
+
+    expect(mockCVModel.reorderSection).toHaveBeenCalledWith('cv-1', 'user-1', 'skills', ['a', 'b'], loaded);
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+});
@@ -19,10 +19,18 @@
 import { Request, Response } from 'express';
 import { CVModel } from '@/models/CV';
 import { UserModel } from '@/models/User';
+import { ShareLinkModel } from '@/models/ShareLink';
+import { CVRenderService } from '@/services/CVRenderService';
+import { MailService } from '@/services/MailService';
+import { EmailTemplateService } from '@/services/EmailTemplateService';
 import { ValidationUtil } from '@/utils/validation';
+import { JsonResumeUtil } from '@/utils/jsonResume';
+import { CVExportUtil } from '@/utils/cvExport';
+import { EuropassUtil } from '@/utils/europass';
 import { ResponseUtil } from '@/utils/response';
-import { AuthenticatedRequest, CreateCVRequest, UpdateCVRequest, QueryOptions } from '@/shared/types';
-import { CVRules, UserRules } from '@/shared/rules';
+import { AuthenticatedRequest, CreateCVRequest, CVImportResult, JsonResume, UpdateCVRequest, QueryOptions, CVData, CVItemSection, User, MailAttachment } from '@/shared/types';
+import { CVRules, UserRules, ShareLinkRules } from '@/shared/rules';
+import { DOWNLOAD_FORMATS, DOWNLOAD_MIME_TYPES, EXPORT_FORMATS, BUSINESS_RULES, SHARE_PLATFORMS, HTTP_STATUS } from '@/shared/constants';
 import { logger } from '@/utils/logger';
 
 /**
@@ -35,6 +43,10 @@ import { logger } from '@/utils/logger';
 export class CVController {
   private cvModel: CVModel;
   private userModel: UserModel;
+  private renderService: CVRenderService;
+  private shareLinkModel: ShareLinkModel;
+  private mailService: MailService;
+  private emailTemplates: EmailTemplateService;
 
   /**
    * Constructor initializes CV and User model dependencies
@@ -42,13 +54,19 @@ export class CVController {
    * Business Logic:
    * - Creates CVModel instance for CV database operations
    * - Creates UserModel instance for user-related operations
+   * - Creates CVRenderService instance for document generation
+   * - Creates mail dependencies for email shares (transport can be injected)
    * - Establishes dependency injection pattern
    * 
    * @constructor
    */
-  constructor() {
+  constructor(mailService: MailService = new MailService()) {
     this.cvModel = new CVModel();
     this.userModel = new UserModel();
+    this.renderService = new CVRenderService();
+    this.shareLinkModel = new ShareLinkModel();
+    this.mailService = mailService;
+    this.emailTemplates = new EmailTemplateService();
   }
 
   /**
@@ -116,6 +134,70 @@ export class CVController {
     }
   };
 
+  /**
+   * Import a CV from a JSON Resume document, a native export or a Europass CV
+   *
+   * Business Logic:
+   * - JSON Resume: maps `basics`, `work`, `education`, `projects`, `skills` and profiles onto a new CV
+   * - Native export (has `schema_version`): recreates every section as exported
+   * - Europass (XML body, or JSON with `SkillsPassport`): maps details, education, experience and skills
+   * - The mapped CV passes the same validation and account limits as a regular create
+   * - Fields with no CV counterpart are listed in `unmapped` instead of failing the import
+   *
+   * @param {AuthenticatedRequest} req - Express request object with the import document as body
+   * @param {Response} res - Express response object
+   * @returns {Promise<void>} Created CV with the unmapped field paths
+   */
+  importCV = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const { cv: cvData, unmapped } = EuropassUtil.isEuropass(req.body)
+        ? EuropassUtil.fromEuropass(req.body)
+        : CVExportUtil.isNative(req.body)
+          ? CVExportUtil.fromNative(req.body)
+          : JsonResumeUtil.toCreateRequest(req.body as JsonResume);
+
+      const errors = ValidationUtil.validateCVCreation(cvData);
+      if (ValidationUtil.hasErrors(errors)) {
+        const errorMessage = ValidationUtil.formatErrors(errors);
+        ResponseUtil.validationError(res, 'Imported CV validation failed', errorMessage);
+        return;
+      }
+
+      const user = await this.userModel.findById(userId);
+      if (!user) {
+        ResponseUtil.notFound(res, 'User not found');
+        return;
+      }
+
+      const canCreate = UserRules.canCreateCV(user);
+      if (!canCreate.allowed) {
+        ResponseUtil.forbidden(res, canCreate.reason);
+        return;
+      }
+
+      const { cvs } = await this.cvModel.findByUserId(userId);
+      const canCreateMore = CVRules.canUserCreateMoreCVs(user, cvs.length);
+      if (!canCreateMore.allowed) {
+        ResponseUtil.forbidden(res, canCreateMore.reason);
+        return;
+      }
+
+      const result = await this.cvModel.create(userId, cvData);
+      const imported: CVImportResult = { ...result, unmapped };
+
+      ResponseUtil.created(res, imported, 'CV imported successfully');
+    } catch (error: any) {
+      logger.error('CV import error:', error);
+      ResponseUtil.error(res, 'CV import failed');
+    }
+  };
+
   /**
    * Get CV by ID
    */
@@ -136,6 +218,7 @@ export class CVController {
         return;
       }
 
+      res.setHeader('ETag', this.toETag(cv.cv.last_modified));
       ResponseUtil.success(res, cv, 'CV retrieved successfully');
     } catch (error: any) {
       logger.error('Get CV error:', error);
@@ -183,7 +266,7 @@ export class CVController {
     try {
       const { cvId } = req.params;
       const userId = req.user?.userId;
-      const updates: UpdateCVRequest = req.body;
+      const updates: UpdateCVRequest = { ...req.body };
 
       if (!cvId) {
         ResponseUtil.badRequest(res, 'CV ID is required');
@@ -203,9 +286,21 @@ export class CVController {
         return;
       }
 
-      // Update CV
-      const result = await this.cvModel.update(cvId, userId, updates);
+      // An If-Match header is the same precondition as `version` in the body
+      const ifMatch = this.readIfMatch(req);
+      if (ifMatch === null) {
+        ResponseUtil.badRequest(res, 'Invalid If-Match header');
+        return;
+      }
+      if (updates.version === undefined) {
+        updates.version = ifMatch;
+      }
 
+      // Update CV; the autosave flag only changes how the save is recorded in history
+      const { autosave, ...changes } = updates;
+      const result = await this.cvModel.update(cvId, userId, changes, { autosave: autosave === true });
+
+      res.setHeader('ETag', this.toETag(result.cv.last_modified));
       ResponseUtil.success(res, result, 'CV updated successfully');
     } catch (error: any) {
       logger.error('CV update error:', error);
@@ -215,10 +310,159 @@ export class CVController {
         return;
       }
 
+      if (error.message === 'CV has been modified since it was loaded') {
+        await this.respondConflict(res, req.params.cvId, req.user!.userId, error.message);
+        return;
+      }
+
       ResponseUtil.error(res, 'CV update failed');
     }
   };
 
+  /**
+   * Add one item to a CV section
+   */
+  addSectionItem = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const section = req.params.section as CVItemSection;
+      const userId = req.user?.userId;
+
+      if (!cvId) {
+        ResponseUtil.badRequest(res, 'CV ID is required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const errors = ValidationUtil.validateSectionItem(section, req.body);
+      if (ValidationUtil.hasErrors(errors)) {
+        ResponseUtil.validationError(res, 'Section item validation failed', ValidationUtil.formatErrors(errors));
+        return;
+      }
+
+      const version = this.readIfMatch(req);
+      if (version === null) {
+        ResponseUtil.badRequest(res, 'Invalid If-Match header');
+        return;
+      }
+
+      const result = await this.cvModel.addSectionItem(cvId, userId, section, req.body, version);
+
+      ResponseUtil.created(res, result, 'Section item added successfully');
+    } catch (error: any) {
+      await this.handleSectionItemError(req, res, error, 'Failed to add section item');
+    }
+  };
+
+  /**
+   * Patch one item of a CV section
+   */
+  updateSectionItem = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId, itemId } = req.params;
+      const section = req.params.section as CVItemSection;
+      const userId = req.user?.userId;
+
+      if (!cvId || !itemId) {
+        ResponseUtil.badRequest(res, 'CV ID and item ID are required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const errors = ValidationUtil.validateSectionItem(section, req.body, true);
+      if (ValidationUtil.hasErrors(errors)) {
+        ResponseUtil.validationError(res, 'Section item validation failed', ValidationUtil.formatErrors(errors));
+        return;
+      }
+
+      const version = this.readIfMatch(req);
+      if (version === null) {
+        ResponseUtil.badRequest(res, 'Invalid If-Match header');
+        return;
+      }
+
+      const result = await this.cvModel.updateSectionItem(cvId, userId, section, itemId, req.body, version);
+
+      ResponseUtil.success(res, result, 'Section item updated successfully');
+    } catch (error: any) {
+      await this.handleSectionItemError(req, res, error, 'Failed to update section item');
+    }
+  };
+
+  /**
+   * Remove one item from a CV section
+   */
+  deleteSectionItem = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId, itemId } = req.params;
+      const section = req.params.section as CVItemSection;
+      const userId = req.user?.userId;
+
+      if (!cvId || !itemId) {
+        ResponseUtil.badRequest(res, 'CV ID and item ID are required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const version = this.readIfMatch(req);
+      if (version === null) {
+        ResponseUtil.badRequest(res, 'Invalid If-Match header');
+        return;
+      }
+
+      await this.cvModel.deleteSectionItem(cvId, userId, section, itemId, version);
+
+      ResponseUtil.success(res, null, 'Section item deleted successfully');
+    } catch (error: any) {
+      await this.handleSectionItemError(req, res, error, 'Failed to delete section item');
+    }
+  };
+
+  /**
+   * Reorder the items of a CV section
+   */
+  reorderSection = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const section = req.params.section as CVItemSection;
+      const userId = req.user?.userId;
+
+      if (!cvId) {
+        ResponseUtil.badRequest(res, 'CV ID is required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const version = this.readIfMatch(req);
+      if (version === null) {
+        ResponseUtil.badRequest(res, 'Invalid If-Match header');
+        return;
+      }
+
+      const result = await this.cvModel.reorderSection(cvId, userId, section, req.body.ids, version);
+
+      ResponseUtil.success(res, result, 'Section reordered successfully');
+    } catch (error: any) {
+      await this.handleSectionItemError(req, res, error, 'Failed to reorder section');
+    }
+  };
+
   /**
    * Delete CV
    */
@@ -304,12 +548,18 @@ export class CVController {
   };
 
   /**
-   * Download CV (placeholder - would generate PDF)
+   * Download CV as a server-rendered PDF or DOCX
+   *
+   * Business Logic:
+   * - Enforces download permissions and monthly quota before rendering
+   * - Renders the full CV into a vector PDF (default) or Word document using its layout
+   * - Counts the download only once the file has been generated
    */
   downloadCV = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const { cvId } = req.params;
       const userId = req.user?.userId;
+      const format = req.body?.format || DOWNLOAD_FORMATS.PDF;
 
       if (!cvId) {
         ResponseUtil.badRequest(res, 'CV ID is required');
@@ -345,14 +595,20 @@ export class CVController {
         return;
       }
 
-      // TODO: Generate PDF and return file
-      // For now, just increment download count
-      await this.cvModel.incrementDownloadCount(cvId);
+      // Generate document
+      const file = format === DOWNLOAD_FORMATS.DOCX
+        ? await this.renderService.renderDOCX(cv)
+        : await this.renderService.renderPDF(cv);
 
-      // TODO: Create download record
-      // await this.createDownloadRecord(userId, cvId, 'pdf');
-
-      ResponseUtil.success(res, { message: 'Download initiated' }, 'CV download started');
+      await this.cvModel.incrementDownloadCount(cvId);
+      await this.cvModel.createDownloadRecord(userId, cvId, format);
+
+      ResponseUtil.download(
+        res,
+        file,
+        this.renderService.getFileName(cv.cv, format),
+        DOWNLOAD_MIME_TYPES[format as keyof typeof DOWNLOAD_MIME_TYPES]
+      );
     } catch (error: any) {
       logger.error('CV download error:', error);
       ResponseUtil.error(res, 'CV download failed');
@@ -360,13 +616,104 @@ export class CVController {
   };
 
   /**
-   * Share CV (placeholder - would send email/social media)
+   * Export CV data for use elsewhere
+   *
+   * Business Logic:
+   * - `jsonresume` (default): JSON Resume document for jsonresume.org tools
+   * - `native`: full CV data with the export schema version; imports back without loss
+   * - `europass-xml` / `europass-json`: Europass CV for EU applications
+   * - `markdown` / `latex`: editable document sources (LaTeX uses the moderncv class)
+   * - `text`: ATS-safe plain text for application forms and tracking systems
+   * - Data exports are not document downloads: no download limits and no download records
+   *
+   * @param {AuthenticatedRequest} req - Express request object with CV ID and optional `format` query
+   * @param {Response} res - Express response object
+   * @returns {Promise<void>} JSON, XML, Markdown, LaTeX or text file attachment
+   */
+  exportCV = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user?.userId;
+      const format = (req.query.format as string) || EXPORT_FORMATS.JSON_RESUME;
+
+      if (!cvId) {
+        ResponseUtil.badRequest(res, 'CV ID is required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const cv = await this.cvModel.findById(cvId, userId);
+      if (!cv) {
+        ResponseUtil.notFound(res, 'CV not found');
+        return;
+      }
+
+      let content: string;
+      let extension = 'json';
+      let contentType = 'application/json';
+
+      switch (format) {
+        case EXPORT_FORMATS.NATIVE:
+          content = JSON.stringify(CVExportUtil.toNative(cv), null, 2);
+          break;
+        case EXPORT_FORMATS.EUROPASS_XML:
+          content = EuropassUtil.toXml(EuropassUtil.toEuropass(cv));
+          extension = 'europass.xml';
+          contentType = 'application/xml';
+          break;
+        case EXPORT_FORMATS.EUROPASS_JSON:
+          content = JSON.stringify(EuropassUtil.toEuropass(cv), null, 2);
+          extension = 'europass.json';
+          break;
+        case EXPORT_FORMATS.MARKDOWN:
+          content = this.renderService.renderMarkdown(cv);
+          extension = 'md';
+          contentType = 'text/markdown';
+          break;
+        case EXPORT_FORMATS.LATEX:
+          content = this.renderService.renderLaTeX(cv);
+          extension = 'tex';
+          contentType = 'application/x-tex';
+          break;
+        case EXPORT_FORMATS.TEXT:
+          content = this.renderService.renderText(cv);
+          extension = 'txt';
+          contentType = 'text/plain; charset=utf-8';
+          break;
+        default:
+          content = JSON.stringify(JsonResumeUtil.fromCVData(cv), null, 2);
+          extension = 'resume.json';
+      }
+
+      ResponseUtil.download(
+        res,
+        Buffer.from(content),
+        this.renderService.getFileName(cv.cv, extension),
+        contentType
+      );
+    } catch (error: any) {
+      logger.error('CV export error:', error);
+      ResponseUtil.error(res, 'CV export failed');
+    }
+  };
+
+  /**
+   * Share CV
+   * 
+   * Business Logic:
+   * - Email shares deliver a message with the public link (public, published CVs)
+   *   and/or the PDF attached (`attach_pdf`); at least one of the two is required
+   * - Other platforms are recorded only; posting happens on the client
    */
   shareCV = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const { cvId } = req.params;
       const userId = req.user?.userId;
-      const { platform, recipient_email } = req.body;
+      const { platform, recipient_email, message, attach_pdf } = req.body;
 
       if (!cvId) {
         ResponseUtil.badRequest(res, 'CV ID is required');
@@ -407,20 +754,343 @@ export class CVController {
         return;
       }
 
-      // TODO: Implement sharing logic (email, social media, etc.)
-      // For now, just increment share count
-      await this.cvModel.incrementShareCount(cvId);
+      let delivery: { link_url?: string; attached_pdf: boolean } | undefined;
+
+      if (platform === SHARE_PLATFORMS.EMAIL) {
+        const isPublic = ShareLinkRules.isCVPublic(cv.cv).allowed;
+        if (!isPublic && attach_pdf !== true) {
+          ResponseUtil.badRequest(
+            res,
+            'Only public, published CVs can be shared by link. Publish the CV or attach the PDF instead.'
+          );
+          return;
+        }
+
+        delivery = await this.sendShareEmail(user, cv, recipient_email, {
+          message,
+          includeLink: isPublic,
+          attachPdf: attach_pdf === true,
+        });
+      }
 
-      // TODO: Create share record
-      // await this.createShareRecord(userId, cvId, platform, recipient_email);
+      await this.cvModel.incrementShareCount(cvId);
+      await this.cvModel.createShareRecord(userId, cvId, platform, recipient_email);
 
-      ResponseUtil.success(res, { message: 'Share initiated' }, 'CV shared successfully');
+      ResponseUtil.success(res, { message: 'Share initiated', platform, ...delivery }, 'CV shared successfully');
     } catch (error: any) {
       logger.error('CV share error:', error);
+
+      if (error.message?.startsWith('Failed to send share email')) {
+        ResponseUtil.error(res, 'Failed to send share email', HTTP_STATUS.BAD_GATEWAY);
+        return;
+      }
+
       ResponseUtil.error(res, 'CV share failed');
     }
   };
 
+  /**
+   * Email a CV to a recipient (public link and/or PDF attachment)
+   */
+  private async sendShareEmail(
+    user: User,
+    cv: CVData,
+    recipientEmail: string,
+    options: { message?: string; includeLink: boolean; attachPdf: boolean }
+  ): Promise<{ link_url?: string; attached_pdf: boolean }> {
+    let linkUrl: string | undefined;
+    if (options.includeLink) {
+      const link = await this.shareLinkModel.findActive(cv.cv.id, user.id)
+        || await this.shareLinkModel.create(cv.cv.id, user.id);
+      linkUrl = ShareLinkModel.getPublicUrl(link.slug, SHARE_PLATFORMS.EMAIL);
+    }
+
+    const attachments: MailAttachment[] = [];
+    if (options.attachPdf) {
+      attachments.push({
+        filename: this.renderService.getFileName(cv.cv, DOWNLOAD_FORMATS.PDF),
+        content: await this.renderService.renderPDF(cv),
+        contentType: DOWNLOAD_MIME_TYPES.pdf,
+      });
+    }
+
+    const template = this.emailTemplates.renderCVShare({
+      senderName: cv.basic_details?.full_name || user.username,
+      cvTitle: cv.cv.title,
+      link: linkUrl,
+      message: options.message,
+      hasAttachment: attachments.length > 0,
+    });
+
+    try {
+      await this.mailService.send(recipientEmail, template, { replyTo: user.email, attachments });
+    } catch (error: any) {
+      throw new Error(`Failed to send share email: ${error.message}`);
+    }
+
+    return { link_url: linkUrl, attached_pdf: attachments.length > 0 };
+  }
+
+  /**
+   * Get download history for a CV
+   */
+  getDownloadHistory = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!cvId) {
+        ResponseUtil.badRequest(res, 'CV ID is required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const result = await this.cvModel.getDownloadHistory(cvId, userId, { page, limit });
+
+      ResponseUtil.successWithPagination(res, result.downloads, result.pagination, 'Download history retrieved successfully');
+    } catch (error: any) {
+      logger.error('Get download history error:', error);
+
+      if (error.message === 'CV not found or access denied') {
+        ResponseUtil.notFound(res, 'CV not found or access denied');
+        return;
+      }
+
+      ResponseUtil.error(res, 'Failed to get download history');
+    }
+  };
+
+  /**
+   * Get share history for a CV
+   */
+  getShareHistory = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!cvId) {
+        ResponseUtil.badRequest(res, 'CV ID is required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const result = await this.cvModel.getShareHistory(cvId, userId, { page, limit });
+
+      ResponseUtil.successWithPagination(res, result.shares, result.pagination, 'Share history retrieved successfully');
+    } catch (error: any) {
+      logger.error('Get share history error:', error);
+
+      if (error.message === 'CV not found or access denied') {
+        ResponseUtil.notFound(res, 'CV not found or access denied');
+        return;
+      }
+
+      ResponseUtil.error(res, 'Failed to get share history');
+    }
+  };
+
+  /**
+   * Get daily view/download/share analytics for a CV
+   */
+  getAnalytics = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!cvId) {
+        ResponseUtil.badRequest(res, 'CV ID is required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const days = parseInt(req.query.days as string) || BUSINESS_RULES.DEFAULT_ANALYTICS_DAYS;
+
+      const analytics = await this.cvModel.getAnalytics(cvId, userId, days);
+
+      ResponseUtil.success(res, analytics, 'CV analytics retrieved successfully');
+    } catch (error: any) {
+      logger.error('Get CV analytics error:', error);
+
+      if (error.message === 'CV not found or access denied') {
+        ResponseUtil.notFound(res, 'CV not found or access denied');
+        return;
+      }
+
+      ResponseUtil.error(res, 'Failed to get CV analytics');
+    }
+  };
+
+  /**
+   * List saved versions of a CV
+   */
+  getVersions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!cvId) {
+        ResponseUtil.badRequest(res, 'CV ID is required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const result = await this.cvModel.getVersions(cvId, userId, { page, limit });
+
+      ResponseUtil.successWithPagination(res, result.versions, result.pagination, 'CV versions retrieved successfully');
+    } catch (error: any) {
+      logger.error('Get CV versions error:', error);
+
+      if (error.message === 'CV not found or access denied') {
+        ResponseUtil.notFound(res, 'CV not found or access denied');
+        return;
+      }
+
+      ResponseUtil.error(res, 'Failed to get CV versions');
+    }
+  };
+
+  /**
+   * Get one saved version of a CV, including its full content
+   */
+  getVersion = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user?.userId;
+      const versionNumber = this.parseVersionNumber(req.params.versionNumber);
+
+      if (!cvId) {
+        ResponseUtil.badRequest(res, 'CV ID is required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      if (!versionNumber) {
+        ResponseUtil.badRequest(res, 'Version number must be a positive integer');
+        return;
+      }
+
+      const version = await this.cvModel.getVersion(cvId, userId, versionNumber);
+
+      ResponseUtil.success(res, version, 'CV version retrieved successfully');
+    } catch (error: any) {
+      logger.error('Get CV version error:', error);
+
+      if (error.message === 'CV not found or access denied' || error.message === 'CV version not found') {
+        ResponseUtil.notFound(res, error.message);
+        return;
+      }
+
+      ResponseUtil.error(res, 'Failed to get CV version');
+    }
+  };
+
+  /**
+   * Restore a CV to a saved version (saved as a new version)
+   */
+  restoreVersion = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user?.userId;
+      const versionNumber = this.parseVersionNumber(req.params.versionNumber);
+
+      if (!cvId) {
+        ResponseUtil.badRequest(res, 'CV ID is required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      if (!versionNumber) {
+        ResponseUtil.badRequest(res, 'Version number must be a positive integer');
+        return;
+      }
+
+      const result = await this.cvModel.restoreVersion(cvId, userId, versionNumber);
+
+      ResponseUtil.success(res, result, `CV restored to version ${versionNumber}`);
+    } catch (error: any) {
+      logger.error('Restore CV version error:', error);
+
+      if (error.message === 'CV not found or access denied' || error.message === 'CV version not found') {
+        ResponseUtil.notFound(res, error.message);
+        return;
+      }
+
+      ResponseUtil.error(res, 'Failed to restore CV version');
+    }
+  };
+
+  /**
+   * Compare two versions of a CV, or a CV with another of the user's CVs
+   */
+  getDiff = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!cvId) {
+        ResponseUtil.badRequest(res, 'CV ID is required');
+        return;
+      }
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const { from, to, other_cv_id } = req.query as Record<string, string | undefined>;
+
+      const diff = await this.cvModel.getDiff(cvId, userId, {
+        from: from ? parseInt(from, 10) : undefined,
+        to: to ? parseInt(to, 10) : undefined,
+        otherCvId: other_cv_id,
+      });
+
+      ResponseUtil.success(res, diff, 'CV diff retrieved successfully');
+    } catch (error: any) {
+      logger.error('Get CV diff error:', error);
+
+      if (error.message === 'CV not found or access denied' || error.message === 'CV version not found') {
+        ResponseUtil.notFound(res, error.message);
+        return;
+      }
+
+      ResponseUtil.error(res, 'Failed to compare CVs');
+    }
+  };
+
   /**
    * Get CV statistics
    */
@@ -497,6 +1167,88 @@ export class CVController {
       ResponseUtil.error(res, 'Failed to retrieve dashboard statistics');
     }
   };
+
+  /**
+   * Map section item model errors to responses
+   */
+  private async handleSectionItemError(req: AuthenticatedRequest, res: Response, error: any, fallback: string): Promise<void> {
+    logger.error(`${fallback}:`, error);
+
+    if (error.message === 'CV not found or access denied' || error.message === 'CV section item not found') {
+      ResponseUtil.notFound(res, error.message);
+      return;
+    }
+
+    if (error.message === 'CV has been modified since it was loaded') {
+      await this.respondConflict(res, req.params.cvId, req.user!.userId, error.message);
+      return;
+    }
+
+    if (error.message?.startsWith('Maximum ') || error.message?.startsWith('Item ids must')) {
+      ResponseUtil.badRequest(res, error.message);
+      return;
+    }
+
+    ResponseUtil.error(res, fallback);
+  }
+
+  /**
+   * Entity tag of a CV; its `last_modified` doubles as the version used by `If-Match`
+   */
+  private toETag(lastModified: string): string {
+    return `"${lastModified}"`;
+  }
+
+  /**
+   * Read the version out of an `If-Match` value (first tag, weak prefix and quotes removed)
+   */
+  private fromETag(header: string): string {
+    return header.split(',')[0].trim().replace(/^W\//, '').replace(/^"|"$/g, '');
+  }
+
+  /**
+   * Version required by the request's `If-Match` header: undefined without one (or `*`),
+   * null when it does not hold a version
+   */
+  private readIfMatch(req: Request): string | undefined | null {
+    const ifMatch = req.headers['if-match'];
+    if (!ifMatch || ifMatch === '*') {
+      return undefined;
+    }
+
+    const version = this.fromETag(ifMatch);
+    return isNaN(Date.parse(version)) ? null : version;
+  }
+
+  /**
+   * 409 for a stale precondition, carrying the current server copy (and its ETag) so the
+   * client can merge without refetching
+   */
+  private async respondConflict(res: Response, cvId: string, userId: string, error: string): Promise<void> {
+    let current: CVData | null = null;
+    try {
+      current = await this.cvModel.findById(cvId, userId);
+    } catch (loadError: any) {
+      logger.error('Load CV after conflict error:', loadError);
+    }
+
+    if (current) {
+      res.setHeader('ETag', this.toETag(current.cv.last_modified));
+    }
+    ResponseUtil.conflict(res, 'CV was changed in another session', error, current || undefined);
+  }
+
+  /**
+   * Parse a `:versionNumber` route param; null unless it is a positive integer
+   */
+  private parseVersionNumber(value: string | undefined): number | null {
+    if (!value || !/^\d+$/.test(value)) {
+      return null;
+    }
+
+    const versionNumber = parseInt(value, 10);
+    return versionNumber > 0 ? versionNumber : null;
+  }
 }
 
 export default CVController;
@@ -0,0 +1,141 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest, CVData, CVShareLink } from '@/shared/types';
+import { BUSINESS_RULES } from '@/shared/constants';
+import { ShareLinkController } from '@/controllers/ShareLinkController';
+
+const mockCVModel = { findById: jest.fn(), findRecordById: jest.fn(), createViewRecord: jest.fn() };
+const mockShareLinkModel = { findBySlug: jest.fn(), countActive: jest.fn(), create: jest.fn(), revoke: jest.fn() };
+
+jest.mock('@/config/database', () => ({ database: { getClient: () => ({}) } }));
+jest.mock('@/utils/logger', () => ({ logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn() } }));
+jest.mock('@/models/CV', () => ({ CVModel: jest.fn(() => mockCVModel) }));
+jest.mock('@/models/ShareLink', () => {
+  const { ShareLinkModel } = jest.requireActual('@/models/ShareLink');
+  return { ShareLinkModel: Object.assign(jest.fn(() => mockShareLinkModel), { getPublicUrl: ShareLinkModel.getPublicUrl }) };
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+const SLUG = 'c2hhcmUtbGluay1zbHVnLTE';
+
+const buildLink = (overrides: Partial<CVShareLink> = {}): CVShareLink => ({
+  id: 'link-1',
+  user_id: 'user-1',
+  cv_id: 'cv-1',
+  slug: SLUG,
+  expires_at: null,
+  revoked_at: null,
+  created_at: '2025-01-01T10:00:00+00:00',
+  ...overrides,
+});
+
+const cvData = {
+  cv: { id: 'cv-1', user_id: 'user-1', title: 'My CV', layout: 'modern', status: 'published', is_public: true,
+    last_modified: '2025-01-02T10:00:00+00:00' },
+  basic_details: { full_name: 'Ada Lovelace', email: 'ada@example.com' },
+} as unknown as CVData;
+
+const buildPublicRequest = (slug = SLUG) => ({
+  params: { slug },
+  query: { format: 'json' },
+  ip: '203.0.113.7',
+  get: (header: string) => (header === 'user-agent' ? 'Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0' : undefined),
+  accepts: () => 'json',
+} as unknown as Request);
+
+const buildOwnerRequest = (overrides: Partial<AuthenticatedRequest>): AuthenticatedRequest => ({
+  params: { cvId: 'cv-1' },
+  body: {},
+  user: { userId: 'user-1' },
+  ...overrides,
+} as unknown as AuthenticatedRequest);
+
+const buildResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn(), setHeader: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  return res;
+};
+
+describe('ShareLinkController', () => {
+  let controller: ShareLinkController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    controller = new ShareLinkController();
+    mockCVModel.findById.mockResolvedValue(cvData);
+  });
+
+  describe('getPublicCV', () => {
+    it('serves the CV behind an active link and records the view', async () => {
+      mockShareLinkModel.findBySlug.mockResolvedValue(buildLink({ expires_at: new Date(Date.now() + DAY).toISOString() }));
+      const res = buildResponse();
+
+      await controller.getPublicCV(buildPublicRequest(), res as unknown as Response);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ cv: expect.not.objectContaining({ user_id: 'user-1' }) }),
+      }));
+      expect(mockCVModel.createViewRecord).toHaveBeenCalledWith(expect.objectContaining({ share_link_id: 'link-1' }));
+    });
+
+    it.each([
+      ['an expired link', buildLink({ expires_at: new Date(Date.now() - 1000).toISOString() })],
+      ['a revoked link', buildLink({ revoked_at: '2025-01-03T10:00:00+00:00' })],
+    ])('answers 404 for %s without recording a view', async (_case, link) => {
+      mockShareLinkModel.findBySlug.mockResolvedValue(link);
+      const res = buildResponse();
+
+      await controller.getPublicCV(buildPublicRequest(), res as unknown as Response);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(mockCVModel.createViewRecord).not.toHaveBeenCalled();
+    });
+
+    it('does not look up malformed slugs', async () => {
+      const res = buildResponse();
+
+      await controller.getPublicCV(buildPublicRequest('short'), res as unknown as Response);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(mockShareLinkModel.findBySlug).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeShareLink', () => {
+    it('returns the revoked link as inactive', async () => {
+      mockShareLinkModel.revoke.mockResolvedValue(buildLink({ revoked_at: '2025-01-03T10:00:00+00:00' }));
+      const res = buildResponse();
+
+      await controller.revokeShareLink(buildOwnerRequest({ params: { cvId: 'cv-1', linkId: 'link-1' } }), res as unknown as Response);
+
+      expect(mockShareLinkModel.revoke).toHaveBeenCalledWith('link-1', 'cv-1', 'user-1');
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ id: 'link-1', is_active: false, url: expect.stringContaining(`/api/public/cv/${SLUG}`) }),
+      }));
+    });
+
+    it('answers 404 for a link that is already revoked', async () => {
+      mockShareLinkModel.revoke.mockRejectedValue(new Error('Share link not found or already revoked'));
+      const res = buildResponse();
+
+      await controller.revokeShareLink(buildOwnerRequest({ params: { cvId: 'cv-1', linkId: 'link-1' } }), res as unknown as Response);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('createShareLink', () => {
+    it('refuses a new link once the active link limit is reached', async () => {
+      mockCVModel.findRecordById.mockResolvedValue(cvData.cv);
+      mockShareLinkModel.countActive.mockResolvedValue(BUSINESS_RULES.MAX_ACTIVE_SHARE_LINKS_PER_CV);
+      const res = buildResponse();
+
+      await controller.createShareLink(buildOwnerRequest({}), res as unknown as Response);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(mockShareLinkModel.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Share Link Controller
+ *
+ * Business Logic:
+ * - Lets CV owners create, list and revoke public share links
+ * - Serves the public, read-only view of a CV behind an active link (HTML or JSON)
+ * - Public view requires the CV to be public and published; owner-only fields are stripped
+ * - Each public view is recorded for analytics (deduped per visitor per day, bots ignored)
+ *
+ * Code Conventions:
+ * - Guard-clause style validation and authorization
+ * - Delegates data access to `ShareLinkModel`/`CVModel` only (no SQL here)
+ * - Produces consistent API responses through `ResponseUtil`
+ *
+ * @fileoverview HTTP adapter for CV share links and public CV views
+ * @author vicky neosoft test builder app
+ */
+
+import { Request, Response } from 'express';
+import { CVModel } from '@/models/CV';
+import { ShareLinkModel } from '@/models/ShareLink';
+import { CVRenderService } from '@/services/CVRenderService';
+import { ResponseUtil } from '@/utils/response';
+import { AuthenticatedRequest, CVData, CVShareLink, CVView, PublicCVData } from '@/shared/types';
+import { ShareLinkRules, AnalyticsRules } from '@/shared/rules';
+import { AnalyticsUtil } from '@/utils/analytics';
+import { logger } from '@/utils/logger';
+
+const SLUG_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+/**
+ * Share Link Controller class
+ *
+ * Handles owner link management and public CV access
+ *
+ * @class ShareLinkController
+ */
+export class ShareLinkController {
+  private cvModel: CVModel;
+  private shareLinkModel: ShareLinkModel;
+  private renderService: CVRenderService;
+
+  constructor() {
+    this.cvModel = new CVModel();
+    this.shareLinkModel = new ShareLinkModel();
+    this.renderService = new CVRenderService();
+  }
+
+  /**
+   * Create a public share link for a CV
+   *
+   * Business Logic:
+   * - Only the owner can create links; optional `expires_at` must be in the future
+   * - Caps the number of simultaneously active links per CV
+   * - Returns the link with its public URL
+   */
+  createShareLink = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user?.userId;
+      const { expires_at } = req.body;
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const cv = await this.cvModel.findRecordById(cvId, userId);
+      if (!cv) {
+        ResponseUtil.notFound(res, 'CV not found or access denied');
+        return;
+      }
+
+      const activeCount = await this.shareLinkModel.countActive(cvId);
+      const canCreate = ShareLinkRules.canCreateMoreLinks(activeCount);
+      if (!canCreate.allowed) {
+        ResponseUtil.forbidden(res, canCreate.reason);
+        return;
+      }
+
+      const link = await this.shareLinkModel.create(cvId, userId, expires_at);
+
+      ResponseUtil.created(res, this.presentLink(link), 'Share link created successfully');
+    } catch (error: any) {
+      logger.error('Create share link error:', error);
+      ResponseUtil.error(res, 'Failed to create share link');
+    }
+  };
+
+  /**
+   * List share links of a CV (owner only)
+   */
+  getShareLinks = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const cv = await this.cvModel.findRecordById(cvId, userId);
+      if (!cv) {
+        ResponseUtil.notFound(res, 'CV not found or access denied');
+        return;
+      }
+
+      const links = await this.shareLinkModel.findByCvId(cvId, userId);
+
+      ResponseUtil.success(res, links.map(this.presentLink), 'Share links retrieved successfully');
+    } catch (error: any) {
+      logger.error('Get share links error:', error);
+      ResponseUtil.error(res, 'Failed to get share links');
+    }
+  };
+
+  /**
+   * Revoke a share link (owner only)
+   */
+  revokeShareLink = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { cvId, linkId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        ResponseUtil.unauthorized(res, 'Authentication required');
+        return;
+      }
+
+      const link = await this.shareLinkModel.revoke(linkId, cvId, userId);
+
+      ResponseUtil.success(res, this.presentLink(link), 'Share link revoked successfully');
+    } catch (error: any) {
+      logger.error('Revoke share link error:', error);
+
+      if (error.message === 'Share link not found or already revoked') {
+        ResponseUtil.notFound(res, error.message);
+        return;
+      }
+
+      ResponseUtil.error(res, 'Failed to revoke share link');
+    }
+  };
+
+  /**
+   * Public, read-only CV view behind a share link
+   *
+   * Business Logic:
+   * - No authentication; the unguessable slug is the credential
+   * - Revoked/expired links and non-public CVs all answer 404
+   * - Returns rendered HTML for browsers, JSON for API clients (`?format=` overrides)
+   * - `?via=<platform>` attributes the view to a share channel
+   */
+  getPublicCV = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { slug } = req.params;
+
+      if (!slug || !SLUG_PATTERN.test(slug)) {
+        ResponseUtil.notFound(res, 'Share link not found');
+        return;
+      }
+
+      const link = await this.shareLinkModel.findBySlug(slug);
+      if (!link) {
+        ResponseUtil.notFound(res, 'Share link not found');
+        return;
+      }
+
+      const cvData = await this.cvModel.findById(link.cv_id);
+      if (!cvData) {
+        ResponseUtil.notFound(res, 'Share link not found');
+        return;
+      }
+
+      const canView = ShareLinkRules.canViewPublicly(link, cvData.cv);
+      if (!canView.allowed) {
+        ResponseUtil.notFound(res, canView.reason);
+        return;
+      }
+
+      await this.recordView(req, link);
+
+      const publicData = this.toPublicCVData(cvData);
+      const format = (req.query.format as string) || req.accepts(['json', 'html']) || 'json';
+
+      res.setHeader('Cache-Control', 'no-store');
+      res.setHeader('X-Robots-Tag', 'noindex, nofollow');
+
+      if (format === 'html') {
+        ResponseUtil.html(res, this.renderService.renderHTML(publicData));
+        return;
+      }
+
+      ResponseUtil.success(res, publicData, 'CV retrieved successfully');
+    } catch (error: any) {
+      logger.error('Get public CV error:', error);
+      ResponseUtil.error(res, 'Failed to get CV');
+    }
+  };
+
+  /**
+   * Record a public view; tracking failures never block the page
+   */
+  private async recordView(req: Request, link: CVShareLink): Promise<void> {
+    try {
+      const userAgent = req.get('user-agent');
+      const userAgentClass = AnalyticsUtil.classifyUserAgent(userAgent);
+
+      if (!AnalyticsRules.shouldRecordView(userAgentClass)) {
+        return;
+      }
+
+      const viewDate = AnalyticsUtil.toDateKey();
+
+      await this.cvModel.createViewRecord({
+        user_id: link.user_id,
+        cv_id: link.cv_id,
+        share_link_id: link.id,
+        channel: AnalyticsUtil.resolveChannel(req.query.via),
+        referrer_host: AnalyticsUtil.getReferrerHost(req.get('referer')),
+        user_agent_class: userAgentClass as CVView['user_agent_class'],
+        visitor_hash: AnalyticsUtil.getVisitorHash(link.cv_id, viewDate, req.ip, userAgent),
+        view_date: viewDate,
+      });
+    } catch (error: any) {
+      logger.warn('Record CV view error:', error);
+    }
+  }
+
+  /**
+   * Attach derived fields (public URL, active state) to a link
+   */
+  private presentLink = (link: CVShareLink) => ({
+    ...link,
+    url: ShareLinkModel.getPublicUrl(link.slug),
+    is_active: ShareLinkRules.isLinkActive(link).allowed,
+  });
+
+  /**
+   * Strip owner-only data before exposing a CV publicly
+   */
+  private toPublicCVData(cvData: CVData): PublicCVData {
+    const { id, title, layout, status, last_modified, section_config } = cvData.cv;
+
+    return {
+      ...cvData,
+      cv: { id, title, layout, status, last_modified, section_config },
+      social_profiles: (cvData.social_profiles || []).filter((profile) => profile.is_public !== false),
+      // Referees' contact details only go into documents the owner sends out themselves
+      references: (cvData.references || []).map(({ email, phone, ...reference }) => reference),
+    };
+  }
+}
+
+export default ShareLinkController;
@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from 'express';
 import { ValidationUtil } from '@/utils/validation';
 import { ResponseUtil } from '@/utils/response';
 import { ValidationError } from '@/shared/types';
+import { RICH_TEXT_FIELDS } from '@/shared/constants';
+import { RichTextUtil } from '@/utils/richText';
 import { logger } from '@/utils/logger';
 
 /**
@@ -130,6 +132,22 @@ export class ValidationMiddleware {
     }
   };
 
+  /**
+   * Convert the request body before sanitizing (e.g. parse an XML document); a body the
+   * parser rejects is a bad request
+   */
+  static parseBody = (parseFn: (body: unknown) => unknown, errorMessage: string = 'Invalid request body') => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      try {
+        req.body = parseFn(req.body);
+        next();
+      } catch (error) {
+        logger.warn('Request body parsing failed:', error);
+        ResponseUtil.badRequest(res, errorMessage);
+      }
+    };
+  };
+
   /**
    * Sanitize request data
    */
@@ -158,7 +176,7 @@ export class ValidationMiddleware {
   };
 
   /**
-   * Recursively sanitize object
+   * Recursively sanitize object (rich text fields keep their allowed markdown)
    */
   private static sanitizeObject(obj: any): any {
     if (typeof obj === 'string') {
@@ -172,7 +190,9 @@ export class ValidationMiddleware {
     if (obj && typeof obj === 'object') {
       const sanitized: any = {};
       for (const [key, value] of Object.entries(obj)) {
-        sanitized[key] = ValidationMiddleware.sanitizeObject(value);
+        sanitized[key] = typeof value === 'string' && RICH_TEXT_FIELDS.includes(key)
+          ? RichTextUtil.sanitize(value)
+          : ValidationMiddleware.sanitizeObject(value);
       }
       return sanitized;
     }
@@ -323,6 +343,7 @@ export const validateParams = ValidationMiddleware.validateParams;
 export const validateQuery = ValidationMiddleware.validateQuery;
 export const validateFile = ValidationMiddleware.validateFile;
 export const validatePagination = ValidationMiddleware.validatePagination;
+export const parseBody = ValidationMiddleware.parseBody;
 export const sanitizeInput = ValidationMiddleware.sanitizeInput;
 export const validateUUID = ValidationMiddleware.validateUUID;
 export const validateEmail = ValidationMiddleware.validateEmail;
@@ -0,0 +1,105 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { database } from '@/config/database';
+import { ActivityLog, QueryOptions } from '@/shared/types';
+import { PAGINATION } from '@/shared/constants';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '@/utils/logger';
+
+/**
+ * Activity Model
+ *
+ * Business Logic:
+ * - Append-only log of user actions (CV lifecycle, downloads, shares, payments)
+ * - Entries are returned with the current CV title; deleted CVs keep a title snapshot in `metadata`
+ * - Logging is best effort: a failed write is logged and never fails the action being recorded
+ *
+ * Code Conventions:
+ * - No HTTP concerns; returns plain data or throws Errors (except `log`)
+ * - All timestamps are ISO strings
+ *
+ * @fileoverview Data access layer for the user activity feed
+ * @author vicky neosoft test builder app
+ */
+export class ActivityModel {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    this.supabase = database.getClient();
+  }
+
+  /**
+   * Record an activity entry (never throws)
+   */
+  async log(
+    userId: string,
+    action: ActivityLog['action'],
+    cvId?: string | null,
+    metadata: Record<string, any> = {}
+  ): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('activity_log')
+        .insert({
+          id: uuidv4(),
+          user_id: userId,
+          cv_id: cvId || null,
+          action,
+          metadata,
+        });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    } catch (error: any) {
+      logger.warn(`Failed to log activity "${action}" for user ${userId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a user's activity feed with pagination, newest first
+   */
+  async findByUserId(
+    userId: string,
+    options: QueryOptions = {}
+  ): Promise<{ activities: ActivityLog[]; pagination: any }> {
+    const page = options.page || PAGINATION.DEFAULT_PAGE;
+    const limit = Math.min(options.limit || PAGINATION.DEFAULT_LIMIT, PAGINATION.MAX_LIMIT);
+    const offset = (page - 1) * limit;
+
+    const { data, error, count } = await this.supabase
+      .from('activity_log')
+      .select('*, cv:cvs(title)', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to get activity: ${error.message}`);
+    }
+
+    const total = count || 0;
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      activities: data || [],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Get the most recent activity entries of a user
+   */
+  async getRecent(userId: string, limit: number): Promise<ActivityLog[]> {
+    const { activities } = await this.findByUserId(userId, { page: 1, limit });
+    return activities;
+  }
+}
+
+export default ActivityModel;
@@ -0,0 +1,116 @@
+import { CVData } from '@/shared/types';
+import { ACTIVITY_ACTIONS } from '@/shared/constants';
+import { CVModel } from '@/models/CV';
+import { logger } from '@/utils/logger';
+
+const mockRpc = jest.fn();
+const mockVersionModel = { create: jest.fn(), getLatest: jest.fn(), mergeAutosave: jest.fn() };
+const mockActivityModel = { log: jest.fn() };
+
+jest.mock('@/config/database', () => ({ database: { getClient: () => ({ rpc: mockRpc }) } }));
+jest.mock('@/utils/logger', () => ({ logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn() } }));
+jest.mock('@/models/CVVersion', () => ({ CVVersionModel: jest.fn(() => mockVersionModel) }));
+jest.mock('@/models/Activity', () => ({ ActivityModel: jest.fn(() => mockActivityModel) }));
+
+const buildCV = (lastModified: string, title: string): CVData => ({
+  cv: { id: 'cv-1', user_id: 'user-1', title, layout: 'modern', last_modified: lastModified },
+  basic_details: { full_name: 'Ada Lovelace', email: 'ada@example.com' },
+  experience: [],
+} as unknown as CVData);
+
+describe('CVModel.update', () => {
+  const before = buildCV('2025-01-01T10:00:00+00:00', 'Before');
+  const after = buildCV('2025-01-02T10:00:00+00:00', 'After');
+  let model: CVModel;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    model = new CVModel();
+    jest.spyOn(model, 'findById').mockResolvedValueOnce(before).mockResolvedValueOnce(after);
+    mockVersionModel.getLatest.mockResolvedValue({ version_number: 4, last_modified: before.cv.last_modified });
+    mockVersionModel.create.mockResolvedValue({});
+    mockRpc.mockResolvedValue({ data: null, error: null });
+  });
+
+  it('writes nothing else when the transaction fails mid-write', async () => {
+    mockRpc.mockResolvedValue({
+      data: null,
+      error: { code: '23514', message: 'new row for relation "experience" violates check constraint' },
+    });
+
+    await expect(model.update('cv-1', 'user-1', { title: 'After' })).rejects.toThrow(
+      'Failed to update CV: new row for relation "experience" violates check constraint'
+    );
+    expect(mockVersionModel.create).not.toHaveBeenCalled();
+    expect(mockActivityModel.log).not.toHaveBeenCalled();
+  });
+
+  it('keeps the message of errors raised by the function itself', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { code: '40001', message: 'CV has been modified since it was loaded' } });
+
+    await expect(model.update('cv-1', 'user-1', { title: 'After' })).rejects.toThrow('CV has been modified since it was loaded');
+  });
+
+  it('records a version and an activity after a committed update', async () => {
+    await expect(model.update('cv-1', 'user-1', { title: 'After' })).resolves.toBe(after);
+
+    expect(mockRpc).toHaveBeenCalledWith('update_cv_with_sections', {
+      p_cv_id: 'cv-1',
+      p_user_id: 'user-1',
+      p_data: { title: 'After' },
+    });
+    expect(mockVersionModel.create).toHaveBeenCalledTimes(1);
+    expect(mockVersionModel.create).toHaveBeenCalledWith(after, 'user-1', { source: 'update', fields: ['title'] });
+    expect(mockActivityModel.log).toHaveBeenCalledWith('user-1', ACTIVITY_ACTIONS.CV_UPDATED, 'cv-1', { fields: ['title'] });
+  });
+
+  it('keeps a committed update when its version snapshot fails', async () => {
+    mockVersionModel.create.mockRejectedValue(new Error('Failed to create CV version: timeout'));
+
+    await expect(model.update('cv-1', 'user-1', { title: 'After' })).resolves.toBe(after);
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('Failed to record version of CV cv-1'));
+    expect(mockActivityModel.log).toHaveBeenCalled();
+  });
+
+  it('records a missed snapshot before the next update', async () => {
+    mockVersionModel.getLatest.mockResolvedValue({ version_number: 4, last_modified: '2024-12-31T10:00:00+00:00' });
+
+    await model.update('cv-1', 'user-1', { title: 'After' });
+
+    expect(mockVersionModel.create).toHaveBeenNthCalledWith(1, before, 'user-1', { source: 'update' });
+    expect(mockVersionModel.create).toHaveBeenNthCalledWith(2, after, 'user-1', { source: 'update', fields: ['title'] });
+  });
+
+  it('records a baseline for CVs without version history', async () => {
+    mockVersionModel.getLatest.mockResolvedValue(null);
+
+    await model.update('cv-1', 'user-1', { title: 'After' });
+
+    expect(mockVersionModel.create).toHaveBeenNthCalledWith(1, before, 'user-1', { source: 'create' });
+  });
+
+  it('folds an autosave into a recent autosave version without logging activity', async () => {
+    mockVersionModel.mergeAutosave.mockResolvedValue(true);
+
+    await model.update('cv-1', 'user-1', { title: 'After' }, { autosave: true });
+
+    expect(mockVersionModel.mergeAutosave).toHaveBeenCalledWith(after, ['title']);
+    expect(mockVersionModel.create).not.toHaveBeenCalled();
+    expect(mockActivityModel.log).not.toHaveBeenCalled();
+  });
+
+  it('starts a new autosave version when there is none to merge into', async () => {
+    mockVersionModel.mergeAutosave.mockResolvedValue(false);
+
+    await model.update('cv-1', 'user-1', { title: 'After' }, { autosave: true });
+
+    expect(mockVersionModel.create).toHaveBeenCalledWith(after, 'user-1', { source: 'autosave', fields: ['title'] });
+    expect(mockActivityModel.log).toHaveBeenCalledWith('user-1', ACTIVITY_ACTIONS.CV_UPDATED, 'cv-1', { fields: ['title'] });
+  });
+
+  it('never merges explicit saves', async () => {
+    await model.update('cv-1', 'user-1', { title: 'After' });
+
+    expect(mockVersionModel.mergeAutosave).not.toHaveBeenCalled();
+  });
+});
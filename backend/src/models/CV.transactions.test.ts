@@ -0,0 +1,113 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Extension, PGlite } from '@electric-sql/pglite';
+
+// Subpath export; the `node` module resolution of tsconfig.json cannot type it
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { uuid_ossp } = require('@electric-sql/pglite/contrib/uuid_ossp') as { uuid_ossp: Extension };
+
+// Runs the transactional write functions of database/schema.sql in an in-process Postgres.
+// Supabase provides the `auth` schema and the API roles; the test database gets minimal stand-ins.
+const SUPABASE_STANDINS = `
+  CREATE SCHEMA auth;
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql AS 'SELECT NULL::UUID';
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE ROLE service_role;
+`;
+
+const USER_ID = '5b7c2c7e-2f0e-4c5c-9a53-1f6f0d2b8a11';
+
+const validCV = {
+  title: 'Ada Lovelace CV',
+  layout: 'modern',
+  basic_details: { full_name: 'Ada Lovelace', email: 'ada@example.com' },
+  education: [{ degree_name: 'BSc', institution: 'University of London', start_date: '2015-09-01', is_current: false }],
+  skills: [{ skill_name: 'SQL', proficiency_percentage: 80, category: 'technical' }],
+};
+
+// Sections are written after the CV row and basic details, so this fails mid-write
+const failingSkills = [{ skill_name: 'SQL', proficiency_percentage: 150, category: 'technical' }];
+
+describe('transactional CV writes (database/schema.sql)', () => {
+  let db: PGlite;
+
+  const count = async (table: string): Promise<number> =>
+    (await db.query<{ count: number }>(`SELECT COUNT(*)::INT AS count FROM ${table}`)).rows[0].count;
+
+  const createCV = async (data: Record<string, unknown>): Promise<string> =>
+    (await db.query<{ id: string }>('SELECT create_cv_with_sections($1, $2) AS id', [USER_ID, data])).rows[0].id;
+
+  const snapshot = async (cvId: string) => ({
+    cv: (await db.query('SELECT title, last_modified FROM cvs WHERE id = $1', [cvId])).rows,
+    details: (await db.query('SELECT full_name FROM basic_details WHERE cv_id = $1', [cvId])).rows,
+    education: (await db.query('SELECT id, degree_name FROM education WHERE cv_id = $1', [cvId])).rows,
+    skills: (await db.query('SELECT id, skill_name, proficiency_percentage FROM skills WHERE cv_id = $1', [cvId])).rows,
+  });
+
+  beforeAll(async () => {
+    db = new PGlite({ extensions: { uuid_ossp } });
+    await db.exec(SUPABASE_STANDINS);
+    await db.exec(readFileSync(join(__dirname, '../../database/schema.sql'), 'utf8'));
+    await db.query('INSERT INTO users (id, username, email) VALUES ($1, $2, $3)', [USER_ID, 'ada', 'ada@example.com']);
+  }, 60000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.exec('DELETE FROM cvs');
+  });
+
+  it('creates nothing when a section insert fails after the CV row was written', async () => {
+    await expect(createCV({ ...validCV, skills: failingSkills })).rejects.toThrow(/skills_proficiency_percentage_check/);
+
+    expect(await count('cvs')).toBe(0);
+    expect(await count('basic_details')).toBe(0);
+    expect(await count('education')).toBe(0);
+    expect(await count('skills')).toBe(0);
+  });
+
+  it('leaves the CV untouched when a section insert fails during an update', async () => {
+    const cvId = await createCV(validCV);
+    const before = await snapshot(cvId);
+
+    await expect(db.query('SELECT update_cv_with_sections($1, $2, $3)', [cvId, USER_ID, {
+      title: 'Renamed',
+      basic_details: { full_name: 'Augusta Ada King', email: 'ada@example.com' },
+      education: [],
+      skills: failingSkills,
+    }])).rejects.toThrow(/skills_proficiency_percentage_check/);
+
+    expect(await snapshot(cvId)).toEqual(before);
+  });
+
+  it('rejects a stale version without writing', async () => {
+    const cvId = await createCV(validCV);
+    const before = await snapshot(cvId);
+
+    await expect(db.query('SELECT update_cv_with_sections($1, $2, $3)', [cvId, USER_ID, {
+      title: 'Renamed',
+      version: '2000-01-01T00:00:00Z',
+    }])).rejects.toThrow('CV has been modified since it was loaded');
+
+    expect(await snapshot(cvId)).toEqual(before);
+  });
+
+  it('commits every part of a valid update', async () => {
+    const cvId = await createCV(validCV);
+    const [skill] = (await snapshot(cvId)).skills as { id: string }[];
+
+    await db.query('SELECT update_cv_with_sections($1, $2, $3)', [cvId, USER_ID, {
+      title: 'Renamed',
+      education: [],
+      skills: [{ id: skill.id, skill_name: 'PostgreSQL', proficiency_percentage: 90, category: 'technical' }],
+    }]);
+
+    const after = await snapshot(cvId);
+    expect(after.cv[0]).toMatchObject({ title: 'Renamed' });
+    expect(after.education).toEqual([]);
+    expect(after.skills).toEqual([{ id: skill.id, skill_name: 'PostgreSQL', proficiency_percentage: 90 }]);
+  });
+});
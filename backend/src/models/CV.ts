@@ -9,13 +9,49 @@ import {
   Project, 
   Skill, 
   SocialProfile,
+  Certification,
+  Award,
+  Publication,
+  Language,
+  Volunteering,
+  Reference,
+  CustomSection,
+  CVDownload,
+  CVShare,
+  CVView,
+  CVAnalytics,
+  CVVersion,
+  CVVersionSummary,
+  CVDiff,
+  CVItemSection,
+  CVSectionItem,
   CreateCVRequest,
   UpdateCVRequest,
   QueryOptions
 } from '@/shared/types';
-import { CV_STATUS, CV_LAYOUTS, PAGINATION } from '@/shared/constants';
+import { CV_STATUS, CV_LAYOUTS, PAGINATION, ACTIVITY_ACTIONS, BUSINESS_RULES, CV_VERSION_SOURCES, SECTION_ITEM_FIELDS } from '@/shared/constants';
+import { ActivityModel } from '@/models/Activity';
+import { CVVersionModel } from '@/models/CVVersion';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '@/utils/logger';
+import { AnalyticsUtil } from '@/utils/analytics';
+import { CVDiffUtil } from '@/utils/cvDiff';
+
+// Entry limits for item-level writes, matching the list validation rules
+const SECTION_ITEM_LIMITS: Record<CVItemSection, number> = {
+  education: BUSINESS_RULES.MAX_EDUCATION_ENTRIES,
+  experience: BUSINESS_RULES.MAX_EXPERIENCE_ENTRIES,
+  projects: BUSINESS_RULES.MAX_PROJECT_ENTRIES,
+  skills: BUSINESS_RULES.MAX_SKILL_ENTRIES,
+  social_profiles: BUSINESS_RULES.MAX_SOCIAL_PROFILE_ENTRIES,
+  certifications: BUSINESS_RULES.MAX_CERTIFICATION_ENTRIES,
+  awards: BUSINESS_RULES.MAX_AWARD_ENTRIES,
+  publications: BUSINESS_RULES.MAX_PUBLICATION_ENTRIES,
+  languages: BUSINESS_RULES.MAX_LANGUAGE_ENTRIES,
+  volunteering: BUSINESS_RULES.MAX_VOLUNTEERING_ENTRIES,
+  references: BUSINESS_RULES.MAX_REFERENCE_ENTRIES,
+  custom_sections: BUSINESS_RULES.MAX_CUSTOM_SECTIONS,
+};
 
 /**
  * CV Model
@@ -24,6 +60,18 @@ import { logger } from '@/utils/logger';
  * - Encapsulates all persistence for CV entities against Supabase
  * - Provides user-scoped queries and dashboard aggregations
  * - Updates counters (download/share) atomically
+ * - Multi-table writes (create/update/delete/duplicate) run as one database transaction each,
+ *   so a CV is either fully written or untouched
+ * - Writes create/update/delete/duplicate, download and share events to the activity log
+ * - Snapshots the full CV into version history after every create, update and restore;
+ *   editor autosaves within `AUTOSAVE_VERSION_WINDOW_MINUTES` overwrite one 'autosave' version
+ *   and log a single update activity instead of one per save
+ * - The snapshot is written after the transaction commits; if it fails the save still stands
+ *   (the error is logged) and the next save records the missed state before its own changes
+ * - Single section items can be added, patched and removed in place, keeping their ids stable;
+ *   full saves update items sent with their id in place as well
+ * - Full saves and item writes take an optional version (`last_modified`); a stale one
+ *   fails with 'CV has been modified since it was loaded' and nothing is written
  *
  * Code Conventions:
  * - No HTTP concerns; returns plain data or throws Errors
@@ -34,89 +82,36 @@ import { logger } from '@/utils/logger';
  */
 export class CVModel {
   private supabase: SupabaseClient;
+  private activityModel: ActivityModel;
+  private versionModel: CVVersionModel;
 
   constructor() {
     this.supabase = database.getClient();
+    this.activityModel = new ActivityModel();
+    this.versionModel = new CVVersionModel();
   }
 
   /**
    * Create a new CV
    */
   async create(userId: string, cvData: CreateCVRequest): Promise<CVData> {
-    const cvId = uuidv4();
-    const now = new Date().toISOString();
-
-    // Create CV record
-    const cv: Omit<CV, 'created_at' | 'updated_at'> = {
-      id: cvId,
-      user_id: userId,
-      title: cvData.title,
-      layout: cvData.layout,
-      status: 'draft',
-      is_public: false,
-      download_count: 0,
-      share_count: 0,
-      last_modified: now,
-    };
-
-    const { data: createdCV, error: cvError } = await this.supabase
-      .from('cvs')
-      .insert(cv)
-      .select()
-      .single();
-
-    if (cvError) {
-      throw new Error(`Failed to create CV: ${cvError.message}`);
-    }
-
-    // Create basic details
-    const basicDetails: Omit<BasicDetails, 'id'> = {
-      cv_id: cvId,
-      ...cvData.basic_details,
-    };
-
-    const { data: createdBasicDetails, error: basicError } = await this.supabase
-      .from('basic_details')
-      .insert(basicDetails)
-      .select()
-      .single();
-
-    if (basicError) {
-      // Rollback CV creation
-      await this.supabase.from('cvs').delete().eq('id', cvId);
-      throw new Error(`Failed to create basic details: ${basicError.message}`);
-    }
-
-    const result: CVData = {
-      cv: createdCV,
-      basic_details: createdBasicDetails,
-      education: [],
-      experience: [],
-      projects: [],
-      skills: [],
-      social_profiles: [],
-    };
-
-    // Create additional sections if provided
-    if (cvData.education && cvData.education.length > 0) {
-      result.education = await this.createEducation(cvId, cvData.education);
-    }
-
-    if (cvData.experience && cvData.experience.length > 0) {
-      result.experience = await this.createExperience(cvId, cvData.experience);
-    }
-
-    if (cvData.projects && cvData.projects.length > 0) {
-      result.projects = await this.createProjects(cvId, cvData.projects);
-    }
+    const created = await this.insertCV(userId, cvData);
+    await this.activityModel.log(userId, ACTIVITY_ACTIONS.CV_CREATED, created.cv.id, { layout: created.cv.layout });
+    return created;
+  }
 
-    if (cvData.skills && cvData.skills.length > 0) {
-      result.skills = await this.createSkills(cvId, cvData.skills);
-    }
+  /**
+   * Insert a CV with all of its sections in one transaction
+   */
+  private async insertCV(userId: string, cvData: CreateCVRequest): Promise<CVData> {
+    const cvId = await this.runTransaction<string>(
+      'create_cv_with_sections',
+      { p_user_id: userId, p_data: cvData },
+      'Failed to create CV'
+    );
 
-    if (cvData.social_profiles && cvData.social_profiles.length > 0) {
-      result.social_profiles = await this.createSocialProfiles(cvId, cvData.social_profiles);
-    }
+    const result = await this.findById(cvId, userId) as CVData;
+    await this.recordVersion(result, userId, { source: CV_VERSION_SOURCES.CREATE });
 
     return result;
   }
@@ -146,13 +141,34 @@ export class CVModel {
     }
 
     // Get all related data
-    const [basicDetails, education, experience, projects, skills, socialProfiles] = await Promise.all([
+    const [
+      basicDetails,
+      education,
+      experience,
+      projects,
+      skills,
+      socialProfiles,
+      certifications,
+      awards,
+      publications,
+      languages,
+      volunteering,
+      references,
+      customSections,
+    ] = await Promise.all([
       this.getBasicDetails(id),
       this.getEducation(id),
       this.getExperience(id),
       this.getProjects(id),
       this.getSkills(id),
       this.getSocialProfiles(id),
+      this.getCertifications(id),
+      this.getAwards(id),
+      this.getPublications(id),
+      this.getLanguages(id),
+      this.getVolunteering(id),
+      this.getReferences(id),
+      this.getCustomSections(id),
     ]);
 
     return {
@@ -163,9 +179,38 @@ export class CVModel {
       projects,
       skills,
       social_profiles: socialProfiles,
+      certifications,
+      awards,
+      publications,
+      languages,
+      volunteering,
+      references,
+      custom_sections: customSections,
     };
   }
 
+  /**
+   * Get the CV record only (no sections), optionally scoped to its owner
+   */
+  async findRecordById(id: string, userId?: string): Promise<CV | null> {
+    let query = this.supabase
+      .from('cvs')
+      .select('*')
+      .eq('id', id);
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find CV: ${error.message}`);
+    }
+
+    return data;
+  }
+
   /**
    * Get CVs by user ID with pagination
    */
@@ -225,144 +270,292 @@ export class CVModel {
   /**
    * Update CV
    */
-  async update(id: string, userId: string, updates: UpdateCVRequest): Promise<CVData> {
+  async update(
+    id: string,
+    userId: string,
+    updates: UpdateCVRequest,
+    options: { restoredFrom?: number; autosave?: boolean } = {}
+  ): Promise<CVData> {
     // Verify ownership
     const existingCV = await this.findById(id, userId);
     if (!existingCV) {
       throw new Error('CV not found or access denied');
     }
 
-    const now = new Date().toISOString();
+    await this.catchUpVersion(existingCV.cv, userId, existingCV);
 
-    // Update CV record
-    const cvUpdates: Partial<CV> = {
-      updated_at: now,
-      last_modified: now,
-    };
+    // CV record, basic details and replaced sections are written in one transaction
+    await this.runTransaction<void>(
+      'update_cv_with_sections',
+      { p_cv_id: id, p_user_id: userId, p_data: updates },
+      'Failed to update CV'
+    );
 
-    if (updates.title !== undefined) cvUpdates.title = updates.title;
-    if (updates.layout !== undefined) cvUpdates.layout = updates.layout;
-    if (updates.status !== undefined) cvUpdates.status = updates.status;
-    if (updates.is_public !== undefined) cvUpdates.is_public = updates.is_public;
+    const fields = (Object.keys(updates) as (keyof UpdateCVRequest)[])
+      .filter((key) => key !== 'version' && updates[key] !== undefined);
+    const updatedCV = await this.findById(id, userId) as CVData;
 
-    if (Object.keys(cvUpdates).length > 2) { // More than just timestamps
-      const { data: updatedCV, error: cvError } = await this.supabase
-        .from('cvs')
-        .update(cvUpdates)
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (cvError) {
-        throw new Error(`Failed to update CV: ${cvError.message}`);
+    if (options.restoredFrom) {
+      await this.recordVersion(updatedCV, userId, {
+        source: CV_VERSION_SOURCES.RESTORE,
+        fields,
+        restoredFrom: options.restoredFrom,
+      });
+      await this.activityModel.log(userId, ACTIVITY_ACTIONS.CV_RESTORED, id, { version: options.restoredFrom });
+    } else if (options.autosave) {
+      // A burst of autosaves becomes one version and one activity entry
+      if (!(await this.mergeAutosave(updatedCV, fields))) {
+        await this.recordVersion(updatedCV, userId, { source: CV_VERSION_SOURCES.AUTOSAVE, fields });
+        await this.activityModel.log(userId, ACTIVITY_ACTIONS.CV_UPDATED, id, { fields });
       }
+    } else {
+      await this.recordVersion(updatedCV, userId, { source: CV_VERSION_SOURCES.UPDATE, fields });
+      await this.activityModel.log(userId, ACTIVITY_ACTIONS.CV_UPDATED, id, { fields });
     }
 
-    // Update basic details if provided
-    if (updates.basic_details) {
-      await this.updateBasicDetails(id, updates.basic_details);
-    }
+    // Return updated CV data
+    return updatedCV;
+  }
 
-    // Update sections if provided
-    if (updates.education !== undefined) {
-      await this.updateEducation(id, updates.education);
-    }
+  /**
+   * Add one item to a section of a CV (owner only)
+   */
+  async addSectionItem(
+    cvId: string,
+    userId: string,
+    section: CVItemSection,
+    item: Record<string, any>,
+    version?: string
+  ): Promise<CVSectionItem> {
+    const record = await this.assertOwnership(cvId, userId);
+    await this.catchUpVersion(record, userId);
+    await this.claimVersion(cvId, version);
+
+    const { data: existing, error: existingError } = await this.supabase
+      .from(section)
+      .select('sort_order')
+      .eq('cv_id', cvId);
 
-    if (updates.experience !== undefined) {
-      await this.updateExperience(id, updates.experience);
+    if (existingError) {
+      throw new Error(`Failed to add ${section} item: ${existingError.message}`);
     }
 
-    if (updates.projects !== undefined) {
-      await this.updateProjects(id, updates.projects);
+    if ((existing || []).length >= SECTION_ITEM_LIMITS[section]) {
+      throw new Error(`Maximum ${SECTION_ITEM_LIMITS[section]} ${section} entries allowed`);
     }
 
-    if (updates.skills !== undefined) {
-      await this.updateSkills(id, updates.skills);
-    }
+    // New items go to the end of the section
+    const sortOrder = Math.max(-1, ...(existing || []).map((row) => row.sort_order)) + 1;
+
+    const { data, error } = await this.supabase
+      .from(section)
+      .insert({ ...this.pickItemColumns(section, item), id: uuidv4(), cv_id: cvId, sort_order: sortOrder })
+      .select()
+      .single();
 
-    if (updates.social_profiles !== undefined) {
-      await this.updateSocialProfiles(id, updates.social_profiles);
+    if (error) {
+      throw new Error(`Failed to add ${section} item: ${error.message}`);
     }
 
-    // Return updated CV data
-    return this.findById(id, userId) as Promise<CVData>;
+    await this.afterSectionItemChange(cvId, userId, section);
+
+    return data;
   }
 
   /**
-   * Delete CV
+   * Patch one item of a section in place (owner only)
    */
-  async delete(id: string, userId: string): Promise<void> {
-    // Verify ownership
-    const existingCV = await this.findById(id, userId);
-    if (!existingCV) {
-      throw new Error('CV not found or access denied');
+  async updateSectionItem(
+    cvId: string,
+    userId: string,
+    section: CVItemSection,
+    itemId: string,
+    updates: Record<string, any>,
+    version?: string
+  ): Promise<CVSectionItem> {
+    const record = await this.assertOwnership(cvId, userId);
+    await this.catchUpVersion(record, userId);
+    await this.claimVersion(cvId, version);
+
+    const { data, error } = await this.supabase
+      .from(section)
+      .update(this.pickItemColumns(section, updates))
+      .eq('id', itemId)
+      .eq('cv_id', cvId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update ${section} item: ${error.message}`);
     }
 
-    // Delete all related data (cascade should handle this, but being explicit)
-    await Promise.all([
-      this.supabase.from('basic_details').delete().eq('cv_id', id),
-      this.supabase.from('education').delete().eq('cv_id', id),
-      this.supabase.from('experience').delete().eq('cv_id', id),
-      this.supabase.from('projects').delete().eq('cv_id', id),
-      this.supabase.from('skills').delete().eq('cv_id', id),
-      this.supabase.from('social_profiles').delete().eq('cv_id', id),
-    ]);
+    if (!data) {
+      throw new Error('CV section item not found');
+    }
 
-    // Delete CV
-    const { error } = await this.supabase
-      .from('cvs')
+    await this.afterSectionItemChange(cvId, userId, section);
+
+    return data;
+  }
+
+  /**
+   * Remove one item from a section (owner only)
+   */
+  async deleteSectionItem(
+    cvId: string,
+    userId: string,
+    section: CVItemSection,
+    itemId: string,
+    version?: string
+  ): Promise<void> {
+    const record = await this.assertOwnership(cvId, userId);
+    await this.catchUpVersion(record, userId);
+    await this.claimVersion(cvId, version);
+
+    const { data, error } = await this.supabase
+      .from(section)
       .delete()
-      .eq('id', id);
+      .eq('id', itemId)
+      .eq('cv_id', cvId)
+      .select('id');
 
     if (error) {
-      throw new Error(`Failed to delete CV: ${error.message}`);
+      throw new Error(`Failed to delete ${section} item: ${error.message}`);
     }
+
+    if (!data || data.length === 0) {
+      throw new Error('CV section item not found');
+    }
+
+    await this.afterSectionItemChange(cvId, userId, section);
+  }
+
+  /**
+   * Put the items of a section in the given order (owner only); `ids` must list every item once
+   */
+  async reorderSection(
+    cvId: string,
+    userId: string,
+    section: CVItemSection,
+    ids: string[],
+    version?: string
+  ): Promise<CVSectionItem[]> {
+    await this.assertOwnership(cvId, userId);
+    await this.claimVersion(cvId, version);
+
+    await this.runTransaction<void>(
+      'reorder_cv_section',
+      { p_cv_id: cvId, p_user_id: userId, p_section: section, p_ids: ids },
+      `Failed to reorder ${section}`
+    );
+
+    const updatedCV = await this.afterSectionItemChange(cvId, userId, section);
+
+    return updatedCV ? updatedCV[section] : [];
+  }
+
+  /**
+   * List the saved versions of a CV, newest first (owner only)
+   */
+  async getVersions(
+    cvId: string,
+    userId: string,
+    options: QueryOptions = {}
+  ): Promise<{ versions: CVVersionSummary[]; pagination: any }> {
+    await this.assertOwnership(cvId, userId);
+    return this.versionModel.findByCvId(cvId, userId, options);
+  }
+
+  /**
+   * Get one saved version with its full snapshot (owner only)
+   */
+  async getVersion(cvId: string, userId: string, versionNumber: number): Promise<CVVersion> {
+    await this.assertOwnership(cvId, userId);
+
+    const version = await this.versionModel.findByNumber(cvId, userId, versionNumber);
+    if (!version) {
+      throw new Error('CV version not found');
+    }
+
+    return version;
+  }
+
+  /**
+   * Restore the content of a saved version; the result is saved as a new version
+   *
+   * Title, layout, section layout and all sections come from the snapshot; status and visibility stay as they are.
+   */
+  async restoreVersion(cvId: string, userId: string, versionNumber: number): Promise<CVData> {
+    const { snapshot } = await this.getVersion(cvId, userId, versionNumber);
+
+    // Section rows keep their id, so items that still exist are restored in place
+    const stripRow = (row: Record<string, any>) => ({ ...(row.id ? { id: row.id } : {}), ...this.stripItemColumns(row) });
+
+    const restore: UpdateCVRequest = {
+      title: snapshot.cv.title,
+      layout: snapshot.cv.layout,
+      section_config: snapshot.cv.section_config ?? null,
+      basic_details: snapshot.basic_details ? this.stripItemColumns(snapshot.basic_details) as UpdateCVRequest['basic_details'] : undefined,
+      education: (snapshot.education || []).map(stripRow) as UpdateCVRequest['education'],
+      experience: (snapshot.experience || []).map(stripRow) as UpdateCVRequest['experience'],
+      projects: (snapshot.projects || []).map(stripRow) as UpdateCVRequest['projects'],
+      skills: (snapshot.skills || []).map(stripRow) as UpdateCVRequest['skills'],
+      social_profiles: (snapshot.social_profiles || []).map(stripRow) as UpdateCVRequest['social_profiles'],
+      // Snapshots taken before a section existed leave that section as it is
+      certifications: snapshot.certifications?.map(stripRow) as UpdateCVRequest['certifications'],
+      awards: snapshot.awards?.map(stripRow) as UpdateCVRequest['awards'],
+      publications: snapshot.publications?.map(stripRow) as UpdateCVRequest['publications'],
+      languages: snapshot.languages?.map(stripRow) as UpdateCVRequest['languages'],
+      volunteering: snapshot.volunteering?.map(stripRow) as UpdateCVRequest['volunteering'],
+      references: snapshot.references?.map(stripRow) as UpdateCVRequest['references'],
+      custom_sections: snapshot.custom_sections?.map(stripRow) as UpdateCVRequest['custom_sections'],
+    };
+
+    return this.update(cvId, userId, restore, { restoredFrom: versionNumber });
+  }
+
+  /**
+   * Delete CV
+   */
+  async delete(id: string, userId: string): Promise<void> {
+    // Ownership is checked by the function; sections, versions and history rows cascade with the CV row
+    const title = await this.runTransaction<string>(
+      'delete_cv_with_sections',
+      { p_cv_id: id, p_user_id: userId },
+      'Failed to delete CV'
+    );
+
+    // The CV row is gone, so keep its id and title in metadata only
+    await this.activityModel.log(userId, ACTIVITY_ACTIONS.CV_DELETED, null, {
+      cv_id: id,
+      title,
+    });
   }
 
   /**
    * Duplicate CV
    */
   async duplicate(id: string, userId: string, newTitle?: string): Promise<CVData> {
-    const originalCV = await this.findById(id, userId);
+    const originalCV = await this.findRecordById(id, userId);
     if (!originalCV) {
       throw new Error('CV not found or access denied');
     }
 
-    const duplicateData: CreateCVRequest = {
-      title: newTitle || `${originalCV.cv.title} (Copy)`,
-      layout: originalCV.cv.layout,
-      basic_details: {
-        ...originalCV.basic_details,
-        profile_image_url: undefined, // Don't copy profile image
-      },
-      education: originalCV.education.map(edu => ({
-        ...edu,
-        id: undefined,
-        cv_id: undefined,
-      })),
-      experience: originalCV.experience.map(exp => ({
-        ...exp,
-        id: undefined,
-        cv_id: undefined,
-      })),
-      projects: originalCV.projects.map(proj => ({
-        ...proj,
-        id: undefined,
-        cv_id: undefined,
-      })),
-      skills: originalCV.skills.map(skill => ({
-        ...skill,
-        id: undefined,
-        cv_id: undefined,
-      })),
-      social_profiles: originalCV.social_profiles.map(profile => ({
-        ...profile,
-        id: undefined,
-        cv_id: undefined,
-      })),
-    };
-
-    return this.create(userId, duplicateData);
+    // Copied inside the database so a failure never leaves a partial duplicate
+    const duplicateId = await this.runTransaction<string>(
+      'duplicate_cv_with_sections',
+      { p_cv_id: id, p_user_id: userId, p_title: newTitle || null },
+      'Failed to duplicate CV'
+    );
+
+    const duplicated = await this.findById(duplicateId, userId) as CVData;
+    await this.recordVersion(duplicated, userId, { source: CV_VERSION_SOURCES.CREATE });
+    await this.activityModel.log(userId, ACTIVITY_ACTIONS.CV_DUPLICATED, duplicated.cv.id, {
+      source_cv_id: id,
+      source_title: originalCV.title,
+    });
+
+    return duplicated;
   }
 
   /**
@@ -423,6 +616,444 @@ export class CVModel {
     }
   }
 
+  /**
+   * Increment view count
+   */
+  async incrementViewCount(id: string): Promise<void> {
+    // First get current count
+    const { data: cv, error: fetchError } = await this.supabase
+      .from('cvs')
+      .select('view_count')
+      .eq('id', id)
+      .single();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch CV for view increment: ${fetchError.message}`);
+    }
+
+    // Increment the count
+    const { error } = await this.supabase
+      .from('cvs')
+      .update({ view_count: (cv.view_count || 0) + 1 })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to increment view count: ${error.message}`);
+    }
+  }
+
+  /**
+   * Record a public view, at most once per visitor per CV per day
+   * Returns null when the visitor was already counted today
+   */
+  async createViewRecord(view: Omit<CVView, 'id' | 'created_at'>): Promise<CVView | null> {
+    const { data, error } = await this.supabase
+      .from('cv_views')
+      .upsert(
+        { id: uuidv4(), ...view },
+        { onConflict: 'cv_id,visitor_hash,view_date', ignoreDuplicates: true }
+      )
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to create view record: ${error.message}`);
+    }
+
+    const created = data?.[0] || null;
+    if (created) {
+      await this.incrementViewCount(view.cv_id);
+    }
+
+    return created;
+  }
+
+  /**
+   * Record a download in the history table
+   */
+  async createDownloadRecord(
+    userId: string,
+    cvId: string,
+    downloadType: CVDownload['download_type']
+  ): Promise<CVDownload> {
+    const { data, error } = await this.supabase
+      .from('cv_downloads')
+      .insert({
+        id: uuidv4(),
+        user_id: userId,
+        cv_id: cvId,
+        download_type: downloadType,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create download record: ${error.message}`);
+    }
+
+    await this.activityModel.log(userId, ACTIVITY_ACTIONS.CV_DOWNLOADED, cvId, { format: downloadType });
+
+    return data;
+  }
+
+  /**
+   * Record a share in the history table
+   */
+  async createShareRecord(
+    userId: string,
+    cvId: string,
+    platform: CVShare['share_platform'],
+    recipientEmail?: string
+  ): Promise<CVShare> {
+    const { data, error } = await this.supabase
+      .from('cv_shares')
+      .insert({
+        id: uuidv4(),
+        user_id: userId,
+        cv_id: cvId,
+        share_platform: platform,
+        recipient_email: recipientEmail || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create share record: ${error.message}`);
+    }
+
+    await this.activityModel.log(userId, ACTIVITY_ACTIONS.CV_SHARED, cvId, { platform });
+
+    return data;
+  }
+
+  /**
+   * Get download history for a CV with pagination (owner only)
+   */
+  async getDownloadHistory(
+    cvId: string,
+    userId: string,
+    options: QueryOptions = {}
+  ): Promise<{ downloads: CVDownload[]; pagination: any }> {
+    const { rows, pagination } = await this.getHistory<CVDownload>('cv_downloads', cvId, userId, options);
+    return { downloads: rows, pagination };
+  }
+
+  /**
+   * Get share history for a CV with pagination (owner only)
+   */
+  async getShareHistory(
+    cvId: string,
+    userId: string,
+    options: QueryOptions = {}
+  ): Promise<{ shares: CVShare[]; pagination: any }> {
+    const { rows, pagination } = await this.getHistory<CVShare>('cv_shares', cvId, userId, options);
+    return { shares: rows, pagination };
+  }
+
+  /**
+   * Get daily views/downloads/shares for a CV over the last `days` days (owner only)
+   */
+  async getAnalytics(cvId: string, userId: string, days: number): Promise<CVAnalytics> {
+    await this.assertOwnership(cvId, userId);
+
+    const from = AnalyticsUtil.getRangeStart(days);
+    const since = `${from}T00:00:00.000Z`;
+
+    const [views, downloads, shares] = await Promise.all([
+      this.getEventsSince<Pick<CVView, 'created_at' | 'channel' | 'user_agent_class' | 'referrer_host'>>(
+        'cv_views', 'created_at, channel, user_agent_class, referrer_host', cvId, since
+      ),
+      this.getEventsSince<Pick<CVDownload, 'created_at'>>('cv_downloads', 'created_at', cvId, since),
+      this.getEventsSince<Pick<CVShare, 'created_at'>>('cv_shares', 'created_at', cvId, since),
+    ]);
+
+    const viewSeries = AnalyticsUtil.bucketByDay(views.map(v => v.created_at), from, days);
+    const downloadSeries = AnalyticsUtil.bucketByDay(downloads.map(d => d.created_at), from, days);
+    const shareSeries = AnalyticsUtil.bucketByDay(shares.map(s => s.created_at), from, days);
+
+    const fromTime = new Date(since).getTime();
+    const series = viewSeries.map((count, index) => ({
+      date: AnalyticsUtil.toDateKey(new Date(fromTime + index * 24 * 60 * 60 * 1000)),
+      views: count,
+      downloads: downloadSeries[index],
+      shares: shareSeries[index],
+    }));
+
+    const referrers = AnalyticsUtil.countBy(views.map(v => v.referrer_host));
+
+    return {
+      cv_id: cvId,
+      from,
+      to: AnalyticsUtil.toDateKey(),
+      totals: {
+        views: views.length,
+        downloads: downloads.length,
+        shares: shares.length,
+      },
+      series,
+      views_by_channel: AnalyticsUtil.countBy(views.map(v => v.channel)),
+      views_by_device: AnalyticsUtil.countBy(views.map(v => v.user_agent_class)),
+      top_referrers: Object.entries(referrers)
+        .map(([host, count]) => ({ host, views: count }))
+        .sort((a, b) => b.views - a.views)
+        .slice(0, 10),
+    };
+  }
+
+  /**
+   * Compare two states of a user's CVs (owner only)
+   *
+   * Base is version `from` of the CV (or its current content); target is version `to`,
+   * the current content of `otherCvId` (e.g. a duplicate), or the CV's current content.
+   */
+  async getDiff(
+    cvId: string,
+    userId: string,
+    options: { from?: number; to?: number; otherCvId?: string }
+  ): Promise<CVDiff> {
+    const loadCurrent = async (id: string) => {
+      const cvData = await this.findById(id, userId);
+      if (!cvData) {
+        throw new Error('CV not found or access denied');
+      }
+      return cvData;
+    };
+
+    const [base, target] = await Promise.all([
+      options.from ? this.getVersion(cvId, userId, options.from) : loadCurrent(cvId),
+      options.to
+        ? this.getVersion(cvId, userId, options.to)
+        : loadCurrent(options.otherCvId || cvId),
+    ]);
+
+    const baseData = 'snapshot' in base ? base.snapshot : base;
+    const targetData = 'snapshot' in target ? target.snapshot : target;
+
+    return CVDiffUtil.compare(baseData, targetData, {
+      base: 'snapshot' in base ? { version_number: base.version_number, updated_at: base.created_at } : {},
+      target: 'snapshot' in target ? { version_number: target.version_number, updated_at: target.created_at } : {},
+    });
+  }
+
+  /**
+   * Keep only the writable columns of a section from client-supplied item data
+   */
+  private pickItemColumns(section: CVItemSection, item: Record<string, any>): Record<string, any> {
+    const allowed: readonly string[] = SECTION_ITEM_FIELDS[section];
+    return Object.fromEntries(Object.entries(item).filter(([field]) => allowed.includes(field)));
+  }
+
+  /**
+   * Keep storage columns out of item data (order changes go through reorderSection)
+   */
+  private stripItemColumns(item: Record<string, any>): Record<string, any> {
+    const { id, cv_id, sort_order, created_at, updated_at, ...content } = item;
+    return content;
+  }
+
+  /**
+   * Bump the CV's modification time and record the change like a full update would
+   */
+  private async afterSectionItemChange(cvId: string, userId: string, section: CVItemSection): Promise<CVData | null> {
+    const { error } = await this.supabase
+      .from('cvs')
+      .update({ last_modified: new Date().toISOString() })
+      .eq('id', cvId);
+
+    if (error) {
+      throw new Error(`Failed to update CV: ${error.message}`);
+    }
+
+    const updatedCV = await this.findById(cvId, userId);
+    if (updatedCV) {
+      await this.recordVersion(updatedCV, userId, { source: CV_VERSION_SOURCES.UPDATE, fields: [section] });
+    }
+    await this.activityModel.log(userId, ACTIVITY_ACTIONS.CV_UPDATED, cvId, { fields: [section] });
+
+    return updatedCV;
+  }
+
+  /**
+   * Enforce an item-level write precondition: move `last_modified` on only if it still equals
+   * `version`, so of two writers holding the same version exactly one gets through
+   */
+  private async claimVersion(cvId: string, version?: string): Promise<void> {
+    if (version === undefined) {
+      return;
+    }
+
+    const { data, error } = await this.supabase
+      .from('cvs')
+      .update({ last_modified: new Date().toISOString() })
+      .eq('id', cvId)
+      .eq('last_modified', version)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update CV: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error('CV has been modified since it was loaded');
+    }
+  }
+
+  /**
+   * Call a transactional write function (see database/schema.sql)
+   *
+   * The function either commits every row or none. Errors it raises itself (ownership,
+   * invalid arguments, stale versions) keep their message; anything else is prefixed with `failure`.
+   */
+  private async runTransaction<T>(fn: string, params: Record<string, unknown>, failure: string): Promise<T> {
+    const { data, error } = await this.supabase.rpc(fn, params);
+
+    if (error) {
+      if (error.code === 'P0002' || error.code === '22023' || error.code === '40001') {
+        throw new Error(error.message);
+      }
+      throw new Error(`${failure}: ${error.message}`);
+    }
+
+    return data as T;
+  }
+
+  /**
+   * Snapshot a CV into its version history; a failed snapshot is logged and never fails the save
+   */
+  private async recordVersion(
+    cvData: CVData,
+    userId: string,
+    meta: { source: CVVersion['source']; fields?: string[]; restoredFrom?: number }
+  ): Promise<void> {
+    try {
+      await this.versionModel.create(cvData, userId, meta);
+    } catch (error: any) {
+      logger.error(`Failed to record version of CV ${cvData.cv.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fold an autosave into the newest version if that is a recent autosave; false when a new version is needed
+   */
+  private async mergeAutosave(cvData: CVData, fields: string[]): Promise<boolean> {
+    try {
+      return await this.versionModel.mergeAutosave(cvData, fields);
+    } catch (error: any) {
+      logger.error(`Failed to merge autosave of CV ${cvData.cv.id}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Record the current state of a CV if its newest version does not hold it
+   *
+   * Covers CVs created before version history existed (baseline) and a snapshot that failed
+   * after an earlier save had committed, so history never skips a saved state.
+   */
+  private async catchUpVersion(record: CV, userId: string, loaded?: CVData): Promise<void> {
+    try {
+      const latest = await this.versionModel.getLatest(record.id);
+      if (latest && latest.last_modified === record.last_modified) {
+        return;
+      }
+
+      const current = loaded || await this.findById(record.id, userId);
+      if (current) {
+        await this.recordVersion(current, userId, {
+          source: latest ? CV_VERSION_SOURCES.UPDATE : CV_VERSION_SOURCES.CREATE,
+        });
+      }
+    } catch (error: any) {
+      logger.error(`Failed to check version history of CV ${record.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Verify CV ownership without loading its sections
+   */
+  private async assertOwnership(cvId: string, userId: string): Promise<CV> {
+    const cv = await this.findRecordById(cvId, userId);
+    if (!cv) {
+      throw new Error('CV not found or access denied');
+    }
+    return cv;
+  }
+
+  /**
+   * Paginated, newest-first read of a per-CV history table
+   */
+  private async getHistory<T>(
+    table: 'cv_downloads' | 'cv_shares',
+    cvId: string,
+    userId: string,
+    options: QueryOptions
+  ): Promise<{ rows: T[]; pagination: any }> {
+    await this.assertOwnership(cvId, userId);
+
+    const page = options.page || PAGINATION.DEFAULT_PAGE;
+    const limit = Math.min(options.limit || PAGINATION.DEFAULT_LIMIT, PAGINATION.MAX_LIMIT);
+    const offset = (page - 1) * limit;
+
+    const { data, error, count } = await this.supabase
+      .from(table)
+      .select('*', { count: 'exact' })
+      .eq('cv_id', cvId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to get ${table === 'cv_downloads' ? 'download' : 'share'} history: ${error.message}`);
+    }
+
+    const total = count || 0;
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      rows: (data || []) as T[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Read every event row of a CV created since `since`, paging past the API row cap
+   */
+  private async getEventsSince<T>(
+    table: 'cv_views' | 'cv_downloads' | 'cv_shares',
+    columns: string,
+    cvId: string,
+    since: string
+  ): Promise<T[]> {
+    const pageSize = 1000;
+    const rows: T[] = [];
+
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await this.supabase
+        .from(table)
+        .select(columns)
+        .eq('cv_id', cvId)
+        .gte('created_at', since)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + pageSize - 1);
+
+      if (error) {
+        throw new Error(`Failed to get CV analytics: ${error.message}`);
+      }
+
+      rows.push(...((data || []) as unknown as T[]));
+
+      if (!data || data.length < pageSize) {
+        return rows;
+      }
+    }
+  }
+
   // Private helper methods for section management
 
   private async getBasicDetails(cvId: string): Promise<BasicDetails | null> {
@@ -447,6 +1078,7 @@ export class CVModel {
       .from('education')
       .select('*')
       .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
       .order('start_date', { ascending: false });
 
     if (error) {
@@ -461,6 +1093,7 @@ export class CVModel {
       .from('experience')
       .select('*')
       .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
       .order('joining_date', { ascending: false });
 
     if (error) {
@@ -475,6 +1108,7 @@ export class CVModel {
       .from('projects')
       .select('*')
       .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -489,6 +1123,7 @@ export class CVModel {
       .from('skills')
       .select('*')
       .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
       .order('category', { ascending: true });
 
     if (error) {
@@ -503,6 +1138,7 @@ export class CVModel {
       .from('social_profiles')
       .select('*')
       .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
       .order('platform_name', { ascending: true });
 
     if (error) {
@@ -512,160 +1148,109 @@ export class CVModel {
     return data || [];
   }
 
-  private async createEducation(cvId: string, education: Omit<Education, 'id' | 'cv_id'>[]): Promise<Education[]> {
-    const educationData = education.map(edu => ({
-      id: uuidv4(),
-      cv_id: cvId,
-      ...edu,
-    }));
-
+  private async getCertifications(cvId: string): Promise<Certification[]> {
     const { data, error } = await this.supabase
-      .from('education')
-      .insert(educationData)
-      .select();
+      .from('certifications')
+      .select('*')
+      .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
+      .order('issue_date', { ascending: false });
 
     if (error) {
-      throw new Error(`Failed to create education: ${error.message}`);
+      throw new Error(`Failed to get certifications: ${error.message}`);
     }
 
     return data || [];
   }
 
-  private async createExperience(cvId: string, experience: Omit<Experience, 'id' | 'cv_id'>[]): Promise<Experience[]> {
-    const experienceData = experience.map(exp => ({
-      id: uuidv4(),
-      cv_id: cvId,
-      ...exp,
-    }));
-
+  private async getAwards(cvId: string): Promise<Award[]> {
     const { data, error } = await this.supabase
-      .from('experience')
-      .insert(experienceData)
-      .select();
+      .from('awards')
+      .select('*')
+      .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
+      .order('award_date', { ascending: false });
 
     if (error) {
-      throw new Error(`Failed to create experience: ${error.message}`);
+      throw new Error(`Failed to get awards: ${error.message}`);
     }
 
     return data || [];
   }
 
-  private async createProjects(cvId: string, projects: Omit<Project, 'id' | 'cv_id'>[]): Promise<Project[]> {
-    const projectsData = projects.map(proj => ({
-      id: uuidv4(),
-      cv_id: cvId,
-      ...proj,
-    }));
-
+  private async getPublications(cvId: string): Promise<Publication[]> {
     const { data, error } = await this.supabase
-      .from('projects')
-      .insert(projectsData)
-      .select();
+      .from('publications')
+      .select('*')
+      .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
+      .order('publication_date', { ascending: false });
 
     if (error) {
-      throw new Error(`Failed to create projects: ${error.message}`);
+      throw new Error(`Failed to get publications: ${error.message}`);
     }
 
     return data || [];
   }
 
-  private async createSkills(cvId: string, skills: Omit<Skill, 'id' | 'cv_id'>[]): Promise<Skill[]> {
-    const skillsData = skills.map(skill => ({
-      id: uuidv4(),
-      cv_id: cvId,
-      ...skill,
-    }));
-
+  private async getLanguages(cvId: string): Promise<Language[]> {
     const { data, error } = await this.supabase
-      .from('skills')
-      .insert(skillsData)
-      .select();
+      .from('languages')
+      .select('*')
+      .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
+      .order('language', { ascending: true });
 
     if (error) {
-      throw new Error(`Failed to create skills: ${error.message}`);
+      throw new Error(`Failed to get languages: ${error.message}`);
     }
 
     return data || [];
   }
 
-  private async createSocialProfiles(cvId: string, profiles: Omit<SocialProfile, 'id' | 'cv_id'>[]): Promise<SocialProfile[]> {
-    const profilesData = profiles.map(profile => ({
-      id: uuidv4(),
-      cv_id: cvId,
-      ...profile,
-    }));
-
+  private async getVolunteering(cvId: string): Promise<Volunteering[]> {
     const { data, error } = await this.supabase
-      .from('social_profiles')
-      .insert(profilesData)
-      .select();
+      .from('volunteering')
+      .select('*')
+      .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
+      .order('start_date', { ascending: false });
 
     if (error) {
-      throw new Error(`Failed to create social profiles: ${error.message}`);
+      throw new Error(`Failed to get volunteering: ${error.message}`);
     }
 
     return data || [];
   }
 
-  private async updateBasicDetails(cvId: string, updates: Partial<Omit<BasicDetails, 'id' | 'cv_id'>>): Promise<void> {
-    const { error } = await this.supabase
-      .from('basic_details')
-      .update(updates)
-      .eq('cv_id', cvId);
+  private async getReferences(cvId: string): Promise<Reference[]> {
+    const { data, error } = await this.supabase
+      .from('references')
+      .select('*')
+      .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
 
     if (error) {
-      throw new Error(`Failed to update basic details: ${error.message}`);
-    }
-  }
-
-  private async updateEducation(cvId: string, education: Omit<Education, 'id' | 'cv_id'>[]): Promise<void> {
-    // Delete existing education
-    await this.supabase.from('education').delete().eq('cv_id', cvId);
-    
-    // Create new education if provided
-    if (education.length > 0) {
-      await this.createEducation(cvId, education);
+      throw new Error(`Failed to get references: ${error.message}`);
     }
-  }
 
-  private async updateExperience(cvId: string, experience: Omit<Experience, 'id' | 'cv_id'>[]): Promise<void> {
-    // Delete existing experience
-    await this.supabase.from('experience').delete().eq('cv_id', cvId);
-    
-    // Create new experience if provided
-    if (experience.length > 0) {
-      await this.createExperience(cvId, experience);
-    }
+    return data || [];
   }
 
-  private async updateProjects(cvId: string, projects: Omit<Project, 'id' | 'cv_id'>[]): Promise<void> {
-    // Delete existing projects
-    await this.supabase.from('projects').delete().eq('cv_id', cvId);
-    
-    // Create new projects if provided
-    if (projects.length > 0) {
-      await this.createProjects(cvId, projects);
-    }
-  }
+  private async getCustomSections(cvId: string): Promise<CustomSection[]> {
+    const { data, error } = await this.supabase
+      .from('custom_sections')
+      .select('*')
+      .eq('cv_id', cvId)
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
 
-  private async updateSkills(cvId: string, skills: Omit<Skill, 'id' | 'cv_id'>[]): Promise<void> {
-    // Delete existing skills
-    await this.supabase.from('skills').delete().eq('cv_id', cvId);
-    
-    // Create new skills if provided
-    if (skills.length > 0) {
-      await this.createSkills(cvId, skills);
+    if (error) {
+      throw new Error(`Failed to get custom sections: ${error.message}`);
     }
-  }
 
-  private async updateSocialProfiles(cvId: string, profiles: Omit<SocialProfile, 'id' | 'cv_id'>[]): Promise<void> {
-    // Delete existing social profiles
-    await this.supabase.from('social_profiles').delete().eq('cv_id', cvId);
-    
-    // Create new social profiles if provided
-    if (profiles.length > 0) {
-      await this.createSocialProfiles(cvId, profiles);
-    }
+    return data || [];
   }
 
   /**
@@ -676,7 +1261,7 @@ export class CVModel {
     try {
       const { data: cvs, error } = await this.supabase
         .from('cvs')
-        .select('status, download_count, share_count')
+        .select('status, download_count, share_count, view_count')
         .eq('user_id', userId);
 
       if (error) {
@@ -690,8 +1275,8 @@ export class CVModel {
         archived_cvs: cvs?.filter(cv => cv.status === 'archived').length || 0,
         total_downloads: cvs?.reduce((sum, cv) => sum + (cv.download_count || 0), 0) || 0,
         total_shares: cvs?.reduce((sum, cv) => sum + (cv.share_count || 0), 0) || 0,
-        total_views: 0, // TODO: Implement view tracking when view_count column is added
-        recent_activity: [] // TODO: Implement recent activity tracking
+        total_views: cvs?.reduce((sum, cv) => sum + (cv.view_count || 0), 0) || 0,
+        recent_activity: await this.activityModel.getRecent(userId, BUSINESS_RULES.DASHBOARD_RECENT_ACTIVITY_LIMIT)
       };
 
       return stats;
@@ -0,0 +1,122 @@
+import { CVData } from '@/shared/types';
+import { BUSINESS_RULES, CV_VERSION_SOURCES } from '@/shared/constants';
+import { CVVersionModel } from '@/models/CVVersion';
+
+// Records every query builder call; each awaited query resolves to the next queued result
+const mockCalls: [string, unknown[]][] = [];
+const mockResults: { data?: unknown; error: unknown }[] = [];
+
+jest.mock('@/config/database', () => {
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => unknown) =>
+      Promise.resolve(mockResults.shift() || { data: null, error: null }).then(resolve),
+  };
+  ['from', 'select', 'insert', 'update', 'delete', 'eq', 'lt', 'order', 'limit', 'maybeSingle', 'single'].forEach((method) => {
+    builder[method] = (...args: unknown[]) => {
+      mockCalls.push([method, args]);
+      return builder;
+    };
+  });
+  return { database: { getClient: () => builder } };
+});
+
+const callsTo = (method: string) => mockCalls.filter(([name]) => name === method).map(([, args]) => args);
+
+const snapshot = {
+  cv: { id: 'cv-1', title: 'My CV', layout: 'modern', last_modified: '2025-01-02T10:00:00+00:00' },
+  basic_details: { full_name: 'Ada Lovelace', email: 'ada@example.com' },
+} as unknown as CVData;
+
+describe('CVVersionModel', () => {
+  let model: CVVersionModel;
+
+  beforeEach(() => {
+    mockCalls.length = 0;
+    mockResults.length = 0;
+    model = new CVVersionModel();
+  });
+
+  describe('create', () => {
+    const appendAfter = (latestNumber: number) => {
+      mockResults.push(
+        { data: { version_number: latestNumber }, error: null },
+        { data: { version_number: latestNumber + 1 }, error: null }
+      );
+    };
+
+    it('keeps every version while the CV has no more than the retention limit', async () => {
+      appendAfter(BUSINESS_RULES.MAX_CV_VERSIONS - 1);
+
+      await model.create(snapshot, 'user-1', { source: CV_VERSION_SOURCES.UPDATE, fields: ['title'] });
+
+      expect(callsTo('insert')).toEqual([[expect.objectContaining({ version_number: BUSINESS_RULES.MAX_CV_VERSIONS })]]);
+      expect(callsTo('delete')).toEqual([]);
+    });
+
+    it('drops the versions that fall out of the retention window', async () => {
+      appendAfter(BUSINESS_RULES.MAX_CV_VERSIONS + 4);
+
+      await model.create(snapshot, 'user-1', { source: CV_VERSION_SOURCES.UPDATE });
+
+      // The new version is MAX + 5, so the newest MAX versions start at 6
+      expect(callsTo('delete')).toHaveLength(1);
+      expect(callsTo('lt')).toEqual([['version_number', 6]]);
+      expect(callsTo('eq')).toContainEqual(['cv_id', 'cv-1']);
+    });
+
+    it('takes the next number when a concurrent save claimed the same one', async () => {
+      mockResults.push(
+        { data: { version_number: 3 }, error: null },
+        { data: null, error: { code: '23505', message: 'duplicate key value' } },
+        { data: { version_number: 4 }, error: null },
+        { data: { version_number: 5 }, error: null }
+      );
+
+      await expect(model.create(snapshot, 'user-1', { source: CV_VERSION_SOURCES.UPDATE }))
+        .resolves.toEqual({ version_number: 5 });
+
+      expect(callsTo('insert').map(([row]) => (row as { version_number: number }).version_number)).toEqual([4, 5]);
+    });
+
+    it('reports a failed prune', async () => {
+      appendAfter(BUSINESS_RULES.MAX_CV_VERSIONS);
+      mockResults.push({ error: { message: 'permission denied' } });
+
+      await expect(model.create(snapshot, 'user-1', { source: CV_VERSION_SOURCES.UPDATE }))
+        .rejects.toThrow('Failed to prune CV versions: permission denied');
+    });
+  });
+
+  describe('mergeAutosave', () => {
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+    it('folds an autosave into a recent autosave version and unions the fields', async () => {
+      mockResults.push({
+        data: { id: 'version-7', source: CV_VERSION_SOURCES.AUTOSAVE, fields: ['title', 'skills'], created_at: minutesAgo(2) },
+        error: null,
+      });
+
+      await expect(model.mergeAutosave(snapshot, ['skills', 'experience'])).resolves.toBe(true);
+
+      expect(callsTo('update')).toEqual([[{ fields: ['title', 'skills', 'experience'], snapshot }]]);
+      expect(callsTo('eq')).toContainEqual(['id', 'version-7']);
+    });
+
+    it.each([
+      ['the CV has no versions', null],
+      ['the newest version is a manual save', { id: 'version-7', source: CV_VERSION_SOURCES.UPDATE, fields: [], created_at: minutesAgo(2) }],
+      ['the autosave version is older than the window', {
+        id: 'version-7',
+        source: CV_VERSION_SOURCES.AUTOSAVE,
+        fields: [],
+        created_at: minutesAgo(BUSINESS_RULES.AUTOSAVE_VERSION_WINDOW_MINUTES + 1),
+      }],
+    ])('leaves the history alone when %s', async (_case, latest) => {
+      mockResults.push({ data: latest, error: null });
+
+      await expect(model.mergeAutosave(snapshot, ['title'])).resolves.toBe(false);
+
+      expect(callsTo('update')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { database } from '@/config/database';
+import { CVData, CVVersion, CVVersionSummary, QueryOptions } from '@/shared/types';
+import { BUSINESS_RULES, CV_VERSION_SOURCES, PAGINATION } from '@/shared/constants';
+import { v4 as uuidv4 } from 'uuid';
+
+// Everything except the (large) snapshot
+const SUMMARY_COLUMNS = 'id, cv_id, user_id, version_number, source, restored_from, fields, created_at';
+
+/**
+ * CV Version Model
+ *
+ * Business Logic:
+ * - Stores a full `CVData` snapshot after every create, update and restore
+ * - Autosaves share one version: while the newest version is an autosave younger than
+ *   `AUTOSAVE_VERSION_WINDOW_MINUTES`, later autosaves overwrite its snapshot and add their fields
+ * - Versions are numbered per CV from 1; only the newest `MAX_CV_VERSIONS` are kept
+ * - Listing returns summaries only; the snapshot is loaded per version
+ * - Snapshots are written after the CV's own transaction commits; `getLatest` exposes the
+ *   snapshot's `last_modified` so a missed snapshot can be detected and caught up on the next save
+ *
+ * Code Conventions:
+ * - No HTTP concerns; returns plain data or throws Errors
+ * - Ownership is enforced by filtering on `user_id`
+ *
+ * @fileoverview Data access layer for CV version history
+ * @author vicky neosoft test builder app
+ */
+export class CVVersionModel {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    this.supabase = database.getClient();
+  }
+
+  /**
+   * Append a snapshot as the next version of a CV
+   */
+  async create(
+    snapshot: CVData,
+    userId: string,
+    meta: { source: CVVersion['source']; fields?: string[]; restoredFrom?: number }
+  ): Promise<CVVersionSummary> {
+    const cvId = snapshot.cv.id;
+
+    // Two concurrent saves can pick the same number; the unique constraint rejects one, so retry
+    for (let attempt = 0; ; attempt++) {
+      const versionNumber = (await this.getLatestNumber(cvId)) + 1;
+
+      const { data, error } = await this.supabase
+        .from('cv_versions')
+        .insert({
+          id: uuidv4(),
+          cv_id: cvId,
+          user_id: userId,
+          version_number: versionNumber,
+          source: meta.source,
+          restored_from: meta.restoredFrom ?? null,
+          fields: meta.fields || [],
+          snapshot,
+        })
+        .select(SUMMARY_COLUMNS)
+        .single();
+
+      if (!error) {
+        await this.prune(cvId, versionNumber);
+        return data as CVVersionSummary;
+      }
+
+      if (error.code !== '23505' || attempt >= 2) {
+        throw new Error(`Failed to create CV version: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Overwrite the newest version with an autosave snapshot if it is itself a recent autosave
+   *
+   * Returns false when there is no such version, so the caller appends a new one instead.
+   */
+  async mergeAutosave(snapshot: CVData, fields: string[]): Promise<boolean> {
+    const cvId = snapshot.cv.id;
+
+    const { data: latest, error } = await this.supabase
+      .from('cv_versions')
+      .select('id, source, fields, created_at')
+      .eq('cv_id', cvId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get latest CV version: ${error.message}`);
+    }
+
+    const windowStart = Date.now() - BUSINESS_RULES.AUTOSAVE_VERSION_WINDOW_MINUTES * 60 * 1000;
+    if (!latest || latest.source !== CV_VERSION_SOURCES.AUTOSAVE || Date.parse(latest.created_at) < windowStart) {
+      return false;
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('cv_versions')
+      .update({
+        fields: Array.from(new Set([...(latest.fields || []), ...fields])),
+        snapshot,
+      })
+      .eq('id', latest.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update CV version: ${updateError.message}`);
+    }
+
+    return true;
+  }
+
+  /**
+   * List versions of a CV with pagination, newest first
+   */
+  async findByCvId(
+    cvId: string,
+    userId: string,
+    options: QueryOptions = {}
+  ): Promise<{ versions: CVVersionSummary[]; pagination: any }> {
+    const page = options.page || PAGINATION.DEFAULT_PAGE;
+    const limit = Math.min(options.limit || PAGINATION.DEFAULT_LIMIT, PAGINATION.MAX_LIMIT);
+    const offset = (page - 1) * limit;
+
+    const { data, error, count } = await this.supabase
+      .from('cv_versions')
+      .select(SUMMARY_COLUMNS, { count: 'exact' })
+      .eq('cv_id', cvId)
+      .eq('user_id', userId)
+      .order('version_number', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to get CV versions: ${error.message}`);
+    }
+
+    const total = count || 0;
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      versions: (data || []) as CVVersionSummary[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Get one version including its snapshot
+   */
+  async findByNumber(cvId: string, userId: string, versionNumber: number): Promise<CVVersion | null> {
+    const { data, error } = await this.supabase
+      .from('cv_versions')
+      .select('*')
+      .eq('cv_id', cvId)
+      .eq('user_id', userId)
+      .eq('version_number', versionNumber)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get CV version: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Number and snapshot modification time of the newest version of a CV (null when it has none)
+   */
+  async getLatest(cvId: string): Promise<{ version_number: number; last_modified: string | null } | null> {
+    const { data, error } = await this.supabase
+      .from('cv_versions')
+      .select('version_number, last_modified:snapshot->cv->>last_modified')
+      .eq('cv_id', cvId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get latest CV version: ${error.message}`);
+    }
+
+    return data as { version_number: number; last_modified: string | null } | null;
+  }
+
+  /**
+   * Highest version number of a CV (0 when it has none)
+   */
+  async getLatestNumber(cvId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('cv_versions')
+      .select('version_number')
+      .eq('cv_id', cvId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get latest CV version: ${error.message}`);
+    }
+
+    return data?.version_number || 0;
+  }
+
+  /**
+   * Drop versions older than the retention window
+   */
+  private async prune(cvId: string, latestNumber: number): Promise<void> {
+    const oldestKept = latestNumber - BUSINESS_RULES.MAX_CV_VERSIONS + 1;
+    if (oldestKept <= 1) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from('cv_versions')
+      .delete()
+      .eq('cv_id', cvId)
+      .lt('version_number', oldestKept);
+
+    if (error) {
+      throw new Error(`Failed to prune CV versions: ${error.message}`);
+    }
+  }
+}
+
+export default CVVersionModel;
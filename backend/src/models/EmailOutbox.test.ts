@@ -0,0 +1,63 @@
+import { EMAIL_OUTBOX } from '@/shared/constants';
+import { EmailOutboxModel } from '@/models/EmailOutbox';
+
+// Records every query builder call; awaiting the builder succeeds
+const mockCalls: [string, unknown[]][] = [];
+
+jest.mock('@/config/database', () => {
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve({ data: null, error: null }).then(resolve),
+  };
+  ['from', 'update', 'eq'].forEach((method) => {
+    builder[method] = (...args: unknown[]) => {
+      mockCalls.push([method, args]);
+      return builder;
+    };
+  });
+  return { database: { getClient: () => builder } };
+});
+
+const NOW = Date.parse('2025-01-01T10:00:00.000Z');
+
+type OutboxUpdate = { status: string; attempts: number; last_error: string; next_attempt_at: string };
+
+const lastUpdate = () =>
+  mockCalls.filter(([name]) => name === 'update').map(([, [row]]) => row as OutboxUpdate).pop()!;
+
+describe('EmailOutboxModel.markAttemptFailed', () => {
+  let model: EmailOutboxModel;
+
+  beforeEach(() => {
+    mockCalls.length = 0;
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    model = new EmailOutboxModel();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('doubles the retry delay after every failed attempt', async () => {
+    const delays: number[] = [];
+
+    for (let attempts = 1; attempts < EMAIL_OUTBOX.MAX_ATTEMPTS; attempts++) {
+      await model.markAttemptFailed('email-1', attempts, 'Connection refused');
+      expect(lastUpdate().status).toBe('pending');
+      delays.push(Date.parse(lastUpdate().next_attempt_at) - NOW);
+    }
+
+    expect(delays).toEqual([1, 2, 4, 8].map((factor) => factor * EMAIL_OUTBOX.RETRY_BASE_DELAY_MS));
+  });
+
+  it('gives up after the last attempt', async () => {
+    await model.markAttemptFailed('email-1', EMAIL_OUTBOX.MAX_ATTEMPTS, 'Connection refused');
+
+    expect(lastUpdate()).toMatchObject({ status: 'failed', attempts: EMAIL_OUTBOX.MAX_ATTEMPTS, last_error: 'Connection refused' });
+  });
+
+  it('keeps only the start of long error messages', async () => {
+    await model.markAttemptFailed('email-1', 1, 'x'.repeat(5000));
+
+    expect(lastUpdate().last_error).toHaveLength(1000);
+  });
+});
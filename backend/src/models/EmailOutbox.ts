@@ -0,0 +1,144 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { database } from '@/config/database';
+import { EmailOutboxEntry, EmailTemplate } from '@/shared/types';
+import { EMAIL_OUTBOX } from '@/shared/constants';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Email Outbox Model
+ *
+ * Business Logic:
+ * - Persists every transactional email before it is sent, so nothing is lost if delivery fails
+ * - A sender "claims" an entry by pushing its `next_attempt_at` forward; concurrent
+ *   workers therefore never deliver the same entry twice, and a crashed worker's claim expires
+ * - Failed deliveries are rescheduled with exponential backoff until `MAX_ATTEMPTS`
+ *
+ * Code Conventions:
+ * - No HTTP concerns; returns plain data or throws Errors
+ * - All timestamps are ISO strings
+ *
+ * @fileoverview Data access layer for the transactional email outbox
+ * @author vicky neosoft test builder app
+ */
+export class EmailOutboxModel {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    this.supabase = database.getClient();
+  }
+
+  /**
+   * Queue a rendered email for delivery
+   */
+  async enqueue(
+    toEmail: string,
+    templateName: EmailOutboxEntry['template'],
+    template: EmailTemplate,
+    userId?: string
+  ): Promise<EmailOutboxEntry> {
+    const { data, error } = await this.supabase
+      .from('email_outbox')
+      .insert({
+        id: uuidv4(),
+        user_id: userId || null,
+        to_email: toEmail,
+        template: templateName,
+        subject: template.subject,
+        html: template.html,
+        text: template.text,
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to queue email: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Pending entries whose next attempt is due, oldest first
+   */
+  async findDue(limit: number = EMAIL_OUTBOX.BATCH_SIZE): Promise<EmailOutboxEntry[]> {
+    const { data, error } = await this.supabase
+      .from('email_outbox')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to get due emails: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Claim an entry for delivery; returns null when another sender got it first
+   */
+  async claim(entry: EmailOutboxEntry): Promise<EmailOutboxEntry | null> {
+    const { data, error } = await this.supabase
+      .from('email_outbox')
+      .update({ next_attempt_at: new Date(Date.now() + EMAIL_OUTBOX.CLAIM_TIMEOUT_MS).toISOString() })
+      .eq('id', entry.id)
+      .eq('status', 'pending')
+      .eq('next_attempt_at', entry.next_attempt_at)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to claim email: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Mark an entry as delivered
+   */
+  async markSent(id: string, attempts: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('email_outbox')
+      .update({
+        status: 'sent',
+        attempts,
+        last_error: null,
+        sent_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to mark email as sent: ${error.message}`);
+    }
+  }
+
+  /**
+   * Record a failed attempt; reschedules with backoff or gives up after the last attempt
+   */
+  async markAttemptFailed(id: string, attempts: number, errorMessage: string): Promise<void> {
+    const exhausted = attempts >= EMAIL_OUTBOX.MAX_ATTEMPTS;
+    const delay = EMAIL_OUTBOX.RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1);
+
+    const { error } = await this.supabase
+      .from('email_outbox')
+      .update({
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        last_error: errorMessage.slice(0, 1000),
+        next_attempt_at: new Date(Date.now() + delay).toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to record email failure: ${error.message}`);
+    }
+  }
+}
+
+export default EmailOutboxModel;
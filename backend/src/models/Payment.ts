@@ -8,6 +8,8 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { logger } from '@/utils/logger';
+import { ActivityModel } from '@/models/Activity';
+import { ACTIVITY_ACTIONS } from '@/shared/constants';
 
 export interface PaymentTransaction {
   id: string;
@@ -46,6 +48,7 @@ export interface PaymentStats {
 
 export class PaymentModel {
   private supabase: ReturnType<typeof createClient>;
+  private activityModel: ActivityModel;
 
   constructor() {
     const supabaseUrl = process.env.SUPABASE_URL;
@@ -62,6 +65,8 @@ export class PaymentModel {
       }
     });
 
+    this.activityModel = new ActivityModel();
+
     logger.info('Payment model initialized successfully');
   }
 
@@ -81,7 +86,17 @@ export class PaymentModel {
       }
 
       logger.info(`Payment transaction created: ${data?.transaction_id}`);
-      return data as PaymentTransaction;
+
+      const payment = data as PaymentTransaction;
+      await this.activityModel.log(payment.user_id, ACTIVITY_ACTIONS.PAYMENT, payment.cv_id, {
+        transaction_id: payment.transaction_id,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: payment.status,
+        action_type: payment.action_type,
+      });
+
+      return payment;
     } catch (error: any) {
       logger.error('Create payment transaction error:', error);
       throw error;
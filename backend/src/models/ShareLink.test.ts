@@ -0,0 +1,73 @@
+import { ShareLinkModel } from '@/models/ShareLink';
+
+// Records every query builder call; awaiting the builder resolves to `mockResult`
+const mockCalls: [string, unknown[]][] = [];
+let mockResult: { data?: unknown; count?: number; error: unknown } = { data: null, error: null };
+
+jest.mock('@/config/database', () => {
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(mockResult).then(resolve),
+  };
+  ['from', 'select', 'insert', 'update', 'eq', 'is', 'or', 'order', 'limit', 'maybeSingle', 'single'].forEach((method) => {
+    builder[method] = (...args: unknown[]) => {
+      mockCalls.push([method, args]);
+      return builder;
+    };
+  });
+  return { database: { getClient: () => builder } };
+});
+
+const callsTo = (method: string) => mockCalls.filter(([name]) => name === method).map(([, args]) => args);
+
+describe('ShareLinkModel', () => {
+  let model: ShareLinkModel;
+
+  beforeEach(() => {
+    mockCalls.length = 0;
+    mockResult = { data: null, error: null };
+    model = new ShareLinkModel();
+  });
+
+  describe('revoke', () => {
+    it('stamps revoked_at on an unrevoked link of the owner', async () => {
+      mockResult = { data: { id: 'link-1', revoked_at: '2025-01-03T10:00:00.000Z' }, error: null };
+
+      await expect(model.revoke('link-1', 'cv-1', 'user-1')).resolves.toMatchObject({ id: 'link-1' });
+
+      expect(callsTo('update')).toEqual([[{ revoked_at: expect.any(String) }]]);
+      expect(callsTo('eq')).toEqual([['id', 'link-1'], ['cv_id', 'cv-1'], ['user_id', 'user-1']]);
+      expect(callsTo('is')).toEqual([['revoked_at', null]]);
+    });
+
+    it('fails when no unrevoked link matched', async () => {
+      await expect(model.revoke('link-1', 'cv-1', 'user-1')).rejects.toThrow('Share link not found or already revoked');
+    });
+  });
+
+  describe('expiry', () => {
+    it('only finds and counts links that are unrevoked and not yet expired', async () => {
+      const now = Date.now();
+
+      await model.findActive('cv-1', 'user-1');
+      mockResult = { count: 2, error: null };
+      await expect(model.countActive('cv-1')).resolves.toBe(2);
+
+      expect(callsTo('is')).toEqual([['revoked_at', null], ['revoked_at', null]]);
+      callsTo('or').forEach(([filter]) => {
+        const [, cutoff] = /^expires_at\.is\.null,expires_at\.gt\.(.+)$/.exec(filter as string)!;
+        expect(new Date(cutoff).getTime()).toBeGreaterThanOrEqual(now - 1000);
+      });
+      expect(callsTo('or')).toHaveLength(2);
+    });
+
+    it('stores a missing expiry as never expiring', async () => {
+      mockResult = { data: { id: 'link-1' }, error: null };
+
+      await model.create('cv-1', 'user-1');
+      await model.create('cv-1', 'user-1', '2025-02-01T10:00:00+01:00');
+
+      expect(callsTo('insert').map(([row]) => (row as { expires_at: string | null }).expires_at))
+        .toEqual([null, '2025-02-01T09:00:00.000Z']);
+    });
+  });
+});
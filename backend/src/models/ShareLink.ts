@@ -0,0 +1,162 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { randomBytes } from 'crypto';
+import { database } from '@/config/database';
+import { config } from '@/config/environment';
+import { CVShareLink } from '@/shared/types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Share Link Model
+ *
+ * Business Logic:
+ * - Persists public, revocable share links for CVs
+ * - Slugs are 128-bit random values (base64url), so links cannot be guessed or enumerated
+ * - Links are never deleted; revocation stamps `revoked_at` so history is preserved
+ *
+ * Code Conventions:
+ * - No HTTP concerns; returns plain data or throws Errors
+ * - All timestamps are ISO strings
+ *
+ * @fileoverview Data access layer for CV share links
+ * @author vicky neosoft test builder app
+ */
+export class ShareLinkModel {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    this.supabase = database.getClient();
+  }
+
+  /**
+   * Create a new share link for a CV
+   */
+  async create(cvId: string, userId: string, expiresAt?: string | null): Promise<CVShareLink> {
+    const { data, error } = await this.supabase
+      .from('cv_share_links')
+      .insert({
+        id: uuidv4(),
+        user_id: userId,
+        cv_id: cvId,
+        slug: randomBytes(16).toString('base64url'),
+        expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create share link: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Find share link by slug (regardless of state)
+   */
+  async findBySlug(slug: string): Promise<CVShareLink | null> {
+    const { data, error } = await this.supabase
+      .from('cv_share_links')
+      .select('*')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find share link: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Get all share links of a CV, newest first
+   */
+  async findByCvId(cvId: string, userId: string): Promise<CVShareLink[]> {
+    const { data, error } = await this.supabase
+      .from('cv_share_links')
+      .select('*')
+      .eq('cv_id', cvId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get share links: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Newest link of a CV that is neither revoked nor expired
+   */
+  async findActive(cvId: string, userId: string): Promise<CVShareLink | null> {
+    const { data, error } = await this.supabase
+      .from('cv_share_links')
+      .select('*')
+      .eq('cv_id', cvId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find share link: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Count links that are neither revoked nor expired
+   */
+  async countActive(cvId: string): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('cv_share_links')
+      .select('id', { count: 'exact', head: true })
+      .eq('cv_id', cvId)
+      .is('revoked_at', null)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+    if (error) {
+      throw new Error(`Failed to count share links: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Revoke a share link (owner only)
+   */
+  async revoke(linkId: string, cvId: string, userId: string): Promise<CVShareLink> {
+    const { data, error } = await this.supabase
+      .from('cv_share_links')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', linkId)
+      .eq('cv_id', cvId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to revoke share link: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Share link not found or already revoked');
+    }
+
+    return data;
+  }
+
+  /**
+   * Public URL of a link, optionally attributed to a share channel (`?via=`)
+   */
+  static getPublicUrl(slug: string, via?: string): string {
+    const url = `${config.publicUrl}/api/public/cv/${slug}`;
+    return via ? `${url}?via=${encodeURIComponent(via)}` : url;
+  }
+}
+
+export default ShareLinkModel;
@@ -2,6 +2,7 @@ import { SupabaseClient } from '@supabase/supabase-js';
 import { database } from '@/config/database';
 import { User, RegisterRequest, LoginRequest } from '@/shared/types';
 import { USER_ROLES } from '@/shared/constants';
+import { BusinessRules } from '@/shared/rules';
 import bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -26,7 +27,7 @@ export class UserModel {
       password_hash: hashedPassword,
       contact_number: userData.contact_number,
       role: USER_ROLES.USER,
-      is_verified: true, // Set to true for development - bypass email verification
+      is_verified: !BusinessRules.shouldRequireEmailVerification(), // verified by email link in production
       is_active: true,
     };
 
@@ -377,26 +378,25 @@ export class UserModel {
     const totalCVs = cvs?.length || 0;
     const publishedCVs = cvs?.filter(cv => cv.status === 'published').length || 0;
 
-    // Get download and share stats for current month
-    const currentMonth = new Date();
-    currentMonth.setDate(1);
-    currentMonth.setHours(0, 0, 0, 0);
+    // Get download and share stats for current month (UTC, matching date_trunc in the DB)
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
 
-    const { data: downloads, error: downloadError } = await this.supabase
+    const { count: downloadsThisMonth, error: downloadError } = await this.supabase
       .from('cv_downloads')
-      .select('id')
+      .select('id', { count: 'exact', head: true })
       .eq('user_id', userId)
-      .gte('created_at', currentMonth.toISOString());
+      .gte('created_at', monthStart);
 
     if (downloadError) {
       throw new Error(`Failed to get download stats: ${downloadError.message}`);
     }
 
-    const { data: shares, error: shareError } = await this.supabase
+    const { count: sharesThisMonth, error: shareError } = await this.supabase
       .from('cv_shares')
-      .select('id')
+      .select('id', { count: 'exact', head: true })
       .eq('user_id', userId)
-      .gte('created_at', currentMonth.toISOString());
+      .gte('created_at', monthStart);
 
     if (shareError) {
       throw new Error(`Failed to get share stats: ${shareError.message}`);
@@ -405,8 +405,8 @@ export class UserModel {
     return {
       totalCVs,
       publishedCVs,
-      downloadsThisMonth: downloads?.length || 0,
-      sharesThisMonth: shares?.length || 0,
+      downloadsThisMonth: downloadsThisMonth || 0,
+      sharesThisMonth: sharesThisMonth || 0,
     };
   }
 }
@@ -0,0 +1,36 @@
+/**
+ * Activity Routes
+ *
+ * Business Logic:
+ * - Exposes the authenticated user's activity feed
+ *
+ * Code Conventions:
+ * - Keep routes thin; delegate to controller methods
+ *
+ * @fileoverview Express routes for the activity feed
+ * @author vicky neosoft test builder app
+ */
+import { Router, Response } from 'express';
+import { ActivityController } from '@/controllers/ActivityController';
+import { authenticate, hasPermission } from '@/middleware/auth';
+import { validatePagination } from '@/middleware/validation';
+
+const router = Router();
+const activityController = new ActivityController();
+
+/**
+ * @route   GET /api/activity
+ * @desc    Get the user's activity feed (paginated, newest first)
+ * @access  Private
+ */
+router.get(
+  '/',
+  authenticate,
+  validatePagination,
+  hasPermission('read:own'),
+  (req: any, res: Response) => {
+    activityController.getActivity(req, res);
+  }
+);
+
+export default router;
@@ -11,8 +11,9 @@
  * @fileoverview Express routes for CV feature
  * @author vicky neosoft test builder app
  */
-import { Router, Request, Response, NextFunction } from 'express';
+import express, { Router, Request, Response, NextFunction } from 'express';
 import { CVController } from '@/controllers/CVController';
+import { ShareLinkController } from '@/controllers/ShareLinkController';
 import { 
   authenticate, 
   requireOwnership,
@@ -21,16 +22,25 @@ import {
 import { 
   validateBody, 
   validateParams,
+  validateQuery,
   validatePagination, 
   sanitizeInput,
+  parseBody,
   validateUUID,
-  requireFields 
+  requireFields,
+  validateEnum
 } from '@/middleware/validation';
 import { ValidationUtil } from '@/utils/validation';
+import { EuropassUtil } from '@/utils/europass';
 import { AuthenticatedRequest } from '@/shared/types';
+import { DOWNLOAD_FORMATS, CV_SECTIONS } from '@/shared/constants';
 
 const router = Router();
 const cvController = new CVController();
+const shareLinkController = new ShareLinkController();
+
+// `:section` only matches list sections, so item routes never shadow other CV routes
+const ITEM_SECTIONS = Object.values(CV_SECTIONS).filter((section) => section !== CV_SECTIONS.BASIC_DETAILS).join('|');
 
 /**
  * @route   POST /api/cv
@@ -48,6 +58,25 @@ router.post(
   }
 );
 
+/**
+ * @route   POST /api/cv/import
+ * @desc    Create a CV from a JSON Resume (resume.json) document, a native export or a Europass CV
+ *          (JSON, or XML sent as application/xml); unmappable fields are reported
+ * @access  Private
+ */
+router.post(
+  '/import',
+  authenticate,
+  express.text({ type: ['application/xml', 'text/xml'], limit: '10mb' }),
+  parseBody(EuropassUtil.parseImportBody, 'Invalid Europass XML document'),
+  sanitizeInput,
+  validateBody(ValidationUtil.validateCVImport),
+  hasPermission('write:own'),
+  (req: any, res: Response) => {
+    cvController.importCV(req, res);
+  }
+);
+
 /**
  * @route   GET /api/cv
  * @desc    Get user's CVs with pagination
@@ -101,12 +130,12 @@ router.get(
 /**
  * @route   GET /api/cv/:cvId
  * @desc    Get CV by ID
- * @access  Private (or Public if CV is public)
+ * @access  Private (public CVs are served via share links at /api/public/cv/:slug)
  */
 router.get(
   '/:cvId',
   validateUUID('cvId'),
-  authenticate, // Optional authentication for public CVs
+  authenticate,
   (req: any, res: Response) => {
     cvController.getCV(req, res);
   }
@@ -114,7 +143,8 @@ router.get(
 
 /**
  * @route   PUT /api/cv/:cvId
- * @desc    Update CV
+ * @desc    Update CV (optional `version` or If-Match precondition; 409 with the current CV when it changed since)
+ *          `autosave: true` marks editor background saves, which share one history version per window
  * @access  Private
  */
 router.put(
@@ -129,6 +159,74 @@ router.put(
   }
 );
 
+/**
+ * @route   POST /api/cv/:cvId/:section
+ * @desc    Add one item to a list section (any CV section except basic details);
+ *          optional If-Match precondition, 409 with the current CV when it changed since
+ * @access  Private
+ */
+router.post(
+  `/:cvId/:section(${ITEM_SECTIONS})`,
+  validateUUID('cvId'),
+  authenticate,
+  sanitizeInput,
+  hasPermission('write:own'),
+  (req: any, res: Response) => {
+    cvController.addSectionItem(req, res);
+  }
+);
+
+/**
+ * @route   PUT /api/cv/:cvId/:section/order
+ * @desc    Reorder a section; body `{ ids }` lists every item ID in the new order;
+ *          optional If-Match precondition, 409 with the current CV when it changed since
+ * @access  Private
+ */
+router.put(
+  `/:cvId/:section(${ITEM_SECTIONS})/order`,
+  validateUUID('cvId'),
+  authenticate,
+  validateBody(ValidationUtil.validateSectionOrder),
+  hasPermission('write:own'),
+  (req: any, res: Response) => {
+    cvController.reorderSection(req, res);
+  }
+);
+
+/**
+ * @route   PATCH /api/cv/:cvId/:section/:itemId
+ * @desc    Update fields of one section item; its id stays the same;
+ *          optional If-Match precondition, 409 with the current CV when it changed since
+ * @access  Private
+ */
+router.patch(
+  `/:cvId/:section(${ITEM_SECTIONS})/:itemId`,
+  validateUUID('cvId'),
+  validateUUID('itemId'),
+  authenticate,
+  sanitizeInput,
+  hasPermission('write:own'),
+  (req: any, res: Response) => {
+    cvController.updateSectionItem(req, res);
+  }
+);
+
+/**
+ * @route   DELETE /api/cv/:cvId/:section/:itemId
+ * @desc    Remove one section item; optional If-Match precondition, 409 with the current CV when it changed since
+ * @access  Private
+ */
+router.delete(
+  `/:cvId/:section(${ITEM_SECTIONS})/:itemId`,
+  validateUUID('cvId'),
+  validateUUID('itemId'),
+  authenticate,
+  hasPermission('write:own'),
+  (req: any, res: Response) => {
+    cvController.deleteSectionItem(req, res);
+  }
+);
+
 /**
  * @route   DELETE /api/cv/:cvId
  * @desc    Delete CV
@@ -162,19 +260,36 @@ router.post(
 
 /**
  * @route   POST /api/cv/:cvId/download
- * @desc    Download CV as PDF
+ * @desc    Download CV as PDF (default) or DOCX via `format`
  * @access  Private
  */
 router.post(
   '/:cvId/download',
   validateUUID('cvId'),
   authenticate,
+  validateEnum('format', Object.values(DOWNLOAD_FORMATS)),
   hasPermission('download:own'),
   (req: any, res: Response) => {
     cvController.downloadCV(req, res);
   }
 );
 
+/**
+ * @route   GET /api/cv/:cvId/export
+ * @desc    Export CV data as a file (?format=jsonresume (default) | native | europass-xml | europass-json | markdown | latex | text)
+ * @access  Private
+ */
+router.get(
+  '/:cvId/export',
+  validateUUID('cvId'),
+  authenticate,
+  validateQuery(ValidationUtil.validateExportQuery),
+  hasPermission('read:own'),
+  (req: any, res: Response) => {
+    cvController.exportCV(req, res);
+  }
+);
+
 /**
  * @route   POST /api/cv/:cvId/share
  * @desc    Share CV
@@ -186,10 +301,170 @@ router.post(
   authenticate,
   sanitizeInput,
   requireFields(['platform']),
+  validateBody(ValidationUtil.validateCVShare),
   hasPermission('share:own'),
   (req: any, res: Response) => {
     cvController.shareCV(req, res);
   }
 );
 
+/**
+ * @route   GET /api/cv/:cvId/downloads
+ * @desc    Get download history for a CV
+ * @access  Private
+ */
+router.get(
+  '/:cvId/downloads',
+  validateUUID('cvId'),
+  authenticate,
+  validatePagination,
+  hasPermission('read:own'),
+  (req: any, res: Response) => {
+    cvController.getDownloadHistory(req, res);
+  }
+);
+
+/**
+ * @route   GET /api/cv/:cvId/shares
+ * @desc    Get share history for a CV
+ * @access  Private
+ */
+router.get(
+  '/:cvId/shares',
+  validateUUID('cvId'),
+  authenticate,
+  validatePagination,
+  hasPermission('read:own'),
+  (req: any, res: Response) => {
+    cvController.getShareHistory(req, res);
+  }
+);
+
+/**
+ * @route   GET /api/cv/:cvId/versions
+ * @desc    List saved versions of a CV (newest first)
+ * @access  Private
+ */
+router.get(
+  '/:cvId/versions',
+  validateUUID('cvId'),
+  authenticate,
+  validatePagination,
+  hasPermission('read:own'),
+  (req: any, res: Response) => {
+    cvController.getVersions(req, res);
+  }
+);
+
+/**
+ * @route   GET /api/cv/:cvId/versions/:versionNumber
+ * @desc    Get a saved version of a CV with its full content
+ * @access  Private
+ */
+router.get(
+  '/:cvId/versions/:versionNumber',
+  validateUUID('cvId'),
+  authenticate,
+  hasPermission('read:own'),
+  (req: any, res: Response) => {
+    cvController.getVersion(req, res);
+  }
+);
+
+/**
+ * @route   POST /api/cv/:cvId/versions/:versionNumber/restore
+ * @desc    Restore a CV to a saved version
+ * @access  Private
+ */
+router.post(
+  '/:cvId/versions/:versionNumber/restore',
+  validateUUID('cvId'),
+  authenticate,
+  hasPermission('write:own'),
+  (req: any, res: Response) => {
+    cvController.restoreVersion(req, res);
+  }
+);
+
+/**
+ * @route   GET /api/cv/:cvId/diff
+ * @desc    Compare CV states section by section (?from=n base version, ?to=n target version
+ *          or ?other_cv_id=uuid target CV; omitted sides use the current content)
+ * @access  Private
+ */
+router.get(
+  '/:cvId/diff',
+  validateUUID('cvId'),
+  authenticate,
+  validateQuery(ValidationUtil.validateDiffQuery),
+  hasPermission('read:own'),
+  (req: any, res: Response) => {
+    cvController.getDiff(req, res);
+  }
+);
+
+/**
+ * @route   GET /api/cv/:cvId/analytics
+ * @desc    Get daily views, downloads and shares for a CV (?days=1-365, default 30)
+ * @access  Private
+ */
+router.get(
+  '/:cvId/analytics',
+  validateUUID('cvId'),
+  authenticate,
+  validateQuery(ValidationUtil.validateAnalyticsQuery),
+  hasPermission('read:own'),
+  (req: any, res: Response) => {
+    cvController.getAnalytics(req, res);
+  }
+);
+
+/**
+ * @route   GET /api/cv/:cvId/share-links
+ * @desc    List public share links of a CV
+ * @access  Private
+ */
+router.get(
+  '/:cvId/share-links',
+  validateUUID('cvId'),
+  authenticate,
+  hasPermission('read:own'),
+  (req: any, res: Response) => {
+    shareLinkController.getShareLinks(req, res);
+  }
+);
+
+/**
+ * @route   POST /api/cv/:cvId/share-links
+ * @desc    Create a public share link (optional `expires_at`)
+ * @access  Private
+ */
+router.post(
+  '/:cvId/share-links',
+  validateUUID('cvId'),
+  authenticate,
+  sanitizeInput,
+  validateBody(ValidationUtil.validateShareLinkCreation),
+  hasPermission('share:own'),
+  (req: any, res: Response) => {
+    shareLinkController.createShareLink(req, res);
+  }
+);
+
+/**
+ * @route   DELETE /api/cv/:cvId/share-links/:linkId
+ * @desc    Revoke a public share link
+ * @access  Private
+ */
+router.delete(
+  '/:cvId/share-links/:linkId',
+  validateUUID('cvId'),
+  validateUUID('linkId'),
+  authenticate,
+  hasPermission('share:own'),
+  (req: any, res: Response) => {
+    shareLinkController.revokeShareLink(req, res);
+  }
+);
+
 export default router;
@@ -16,6 +16,8 @@ import { Router } from 'express';
 import authRoutes from './auth';
 import cvRoutes from './cv';
 import paymentRoutes from './payment';
+import publicRoutes from './public';
+import activityRoutes from './activity';
 
 const router = Router();
 
@@ -33,6 +35,8 @@ router.get('/health', (req, res) => {
 router.use('/auth', authRoutes);
 router.use('/cv', cvRoutes);
 router.use('/payment', paymentRoutes);
+router.use('/public', publicRoutes);
+router.use('/activity', activityRoutes);
 
 // 404 handler for API routes
 router.use('*', (req, res) => {
@@ -0,0 +1,32 @@
+/**
+ * Public Routes
+ *
+ * Business Logic:
+ * - Serves read-only CV views behind unguessable share-link slugs
+ * - No authentication; access is governed by link state and CV visibility
+ *
+ * Code Conventions:
+ * - Keep routes thin; delegate to controller methods
+ *
+ * @fileoverview Express routes for unauthenticated public access
+ * @author vicky neosoft test builder app
+ */
+import { Router, Request, Response } from 'express';
+import { ShareLinkController } from '@/controllers/ShareLinkController';
+
+const router = Router();
+const shareLinkController = new ShareLinkController();
+
+/**
+ * @route   GET /api/public/cv/:slug
+ * @desc    View a shared CV (HTML for browsers, JSON for API clients, `?format=html|json`)
+ * @access  Public
+ */
+router.get(
+  '/cv/:slug',
+  (req: Request, res: Response) => {
+    shareLinkController.getPublicCV(req, res);
+  }
+);
+
+export default router;
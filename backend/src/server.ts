@@ -27,6 +27,7 @@ import { logger, morganStream } from '@/utils/logger';
 import { errorHandler, notFoundHandler } from '@/middleware/errorHandler';
 import { generalRateLimiter } from '@/middleware/rateLimiter';
 import routes from '@/routes';
+import { EmailOutboxService } from '@/services/EmailOutboxService';
 
 /**
  * Server class that manages the Express application lifecycle
@@ -42,6 +43,7 @@ import routes from '@/routes';
 class Server {
   private app: express.Application;
   private port: number;
+  private emailOutbox = new EmailOutboxService();
 
   /**
    * Constructor initializes the Express application
@@ -93,7 +95,8 @@ class Server {
       origin: true, // Allow all origins in development
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'If-Match'],
+      exposedHeaders: ['Content-Disposition', 'ETag'],
     }));
 
     // Rate limiting
@@ -191,6 +194,7 @@ class Server {
    * - Starts HTTP server on configured port
    * - Sets up graceful shutdown handlers
    * - Logs server startup information
+   * - Starts the email outbox retry worker
    * - Exits process if startup fails
    * 
    * @public
@@ -217,6 +221,9 @@ class Server {
       server.maxHeadersCount = 2000; // Increase from default 2000
       server.headersTimeout = 60000; // Increase timeout
 
+      // Retry transactional emails that could not be sent immediately
+      this.emailOutbox.startWorker();
+
       // Graceful shutdown
       this.setupGracefulShutdown();
     } catch (error) {
@@ -240,6 +247,7 @@ class Server {
   private setupGracefulShutdown(): void {
     const shutdown = (signal: string) => {
       logger.info(`Received ${signal}. Starting graceful shutdown...`);
+      this.emailOutbox.stopWorker();
       
       // Close server
       const server = this.app.listen(this.port);
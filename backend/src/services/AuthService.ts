@@ -41,19 +41,25 @@
 
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import { randomBytes, randomInt } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '@/config/environment';
 import { database } from '@/config/database';
 import { UserModel } from '@/models/User';
+import { EmailOutboxService } from '@/services/EmailOutboxService';
+import { EmailTemplateService } from '@/services/EmailTemplateService';
+import { OAuthService } from '@/services/OAuthService';
 import { 
   User, 
   RegisterRequest, 
   LoginRequest, 
   AuthResponse, 
   JWTPayload,
-  OAuthProfile 
+  OAuthProfile,
+  OAuthProvider
 } from '@/shared/types';
-import { TOKEN_TYPES, OAUTH_PROVIDERS } from '@/shared/constants';
+import { TOKEN_TYPES, OAUTH_PROVIDERS, EMAIL_TEMPLATES, AUTH_TOKEN_TTL } from '@/shared/constants';
+import { BusinessRules } from '@/shared/rules';
 import { logger } from '@/utils/logger';
 
 /**
@@ -65,6 +71,9 @@ import { logger } from '@/utils/logger';
  */
 export class AuthService {
   private userModel: UserModel;
+  private emailOutbox: EmailOutboxService;
+  private emailTemplates: EmailTemplateService;
+  private oauthService: OAuthService;
   private supabase = database.getClient();
 
   /**
@@ -72,13 +81,21 @@ export class AuthService {
    * 
    * Business Logic:
    * - Creates UserModel instance for user database operations
+   * - Creates the email outbox used for verification and reset emails
+   * - Creates the OAuth token verifiers (injectable for tests against a stub provider)
    * - Gets Supabase client for direct database access
    * - Establishes dependency injection pattern
    * 
    * @constructor
    */
-  constructor() {
+  constructor(
+    emailOutbox: EmailOutboxService = new EmailOutboxService(),
+    oauthService: OAuthService = new OAuthService()
+  ) {
     this.userModel = new UserModel();
+    this.emailOutbox = emailOutbox;
+    this.emailTemplates = new EmailTemplateService();
+    this.oauthService = oauthService;
   }
 
   /**
@@ -113,6 +130,15 @@ export class AuthService {
       // Create user
       const user = await this.userModel.create(userData);
 
+      // Send verification email (registration still succeeds if queuing fails; user can resend)
+      if (!user.is_verified) {
+        try {
+          await this.sendVerificationEmail(user);
+        } catch (error) {
+          logger.error('Failed to queue verification email:', error);
+        }
+      }
+
       // Generate tokens
       const tokens = await this.generateTokens(user);
 
@@ -179,8 +205,22 @@ export class AuthService {
     }
   }
 
+  /**
+   * OAuth login with a provider access token
+   */
+  async oauthLoginWithToken(provider: OAuthProvider, accessToken: string): Promise<AuthResponse> {
+    const profile = await this.oauthService.verify(provider, accessToken);
+    return this.oauthLogin(profile);
+  }
+
   /**
    * OAuth login/register
+   * 
+   * Business Logic:
+   * - Signs in the user already linked to this provider account
+   * - Otherwise links to the existing account with the same (provider-verified) email;
+   *   the first linked provider is kept on the user, later ones sign in by email
+   * - Otherwise creates a new, pre-verified user
    */
   async oauthLogin(profile: OAuthProfile): Promise<AuthResponse> {
     try {
@@ -188,19 +228,32 @@ export class AuthService {
       let user = await this.userModel.findOAuthUser(profile.provider, profile.id);
 
       if (user) {
+        if (!user.is_active) {
+          throw new Error('Account is deactivated');
+        }
+
         // User exists, update last login
         await this.userModel.updateLastLogin(user.id);
       } else {
         // Check if email already exists with different provider
         const existingUser = await this.userModel.findByEmail(profile.email);
         if (existingUser) {
-          // Link OAuth account to existing user
-          user = await this.userModel.update(existingUser.id, {
-            oauth_provider: profile.provider as any,
-            oauth_id: profile.id,
-            profile_image_url: profile.picture,
-            is_verified: true,
-          });
+          if (!existingUser.is_active) {
+            throw new Error('Account is deactivated');
+          }
+
+          // Link OAuth account to existing user; the provider has verified the email
+          const updates: Partial<User> = { is_verified: true };
+          if (!existingUser.oauth_provider) {
+            updates.oauth_provider = profile.provider;
+            updates.oauth_id = profile.id;
+          }
+          if (!existingUser.profile_image_url && profile.picture) {
+            updates.profile_image_url = profile.picture;
+          }
+
+          user = await this.userModel.update(existingUser.id, updates);
+          await this.userModel.updateLastLogin(user.id);
         } else {
           // Create new OAuth user
           user = await this.userModel.createOAuthUser({
@@ -381,7 +434,100 @@ export class AuthService {
   }
 
   /**
-   * Request password reset
+   * Send (or re-send) the email verification link
+   * 
+   * Business Logic:
+   * - Invalidates any earlier unused verification tokens
+   * - Emails a single-use link to the frontend `/verify-email` page
+   * 
+   * @param {User} user - User to verify
+   * @returns {Promise<void>} Promise that resolves when the email is queued
+   * @throws {Error} If the user is already verified
+   */
+  async sendVerificationEmail(user: User): Promise<void> {
+    if (user.is_verified) {
+      throw new Error('Email already verified');
+    }
+
+    await this.supabase
+      .from('email_verification_tokens')
+      .update({ used: true })
+      .eq('user_id', user.id)
+      .eq('used', false);
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + AUTH_TOKEN_TTL.EMAIL_VERIFICATION_HOURS * 60 * 60 * 1000);
+
+    const { error } = await this.supabase
+      .from('email_verification_tokens')
+      .insert({
+        user_id: user.id,
+        token,
+        expires_at: expiresAt.toISOString(),
+      });
+
+    if (error) {
+      throw new Error(`Failed to create verification token: ${error.message}`);
+    }
+
+    const template = this.emailTemplates.renderEmailVerification({
+      username: user.username,
+      link: `${config.appUrl}/verify-email?token=${encodeURIComponent(token)}`,
+      expiresInHours: AUTH_TOKEN_TTL.EMAIL_VERIFICATION_HOURS,
+    });
+    await this.emailOutbox.queue(user.email, EMAIL_TEMPLATES.EMAIL_VERIFICATION, template, user.id);
+
+    logger.info(`Verification email queued for: ${user.email}`);
+  }
+
+  /**
+   * Re-send the verification email to a signed-in user
+   */
+  async resendVerificationEmail(userId: string): Promise<void> {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * Verify email address with a verification token
+   */
+  async verifyEmail(token: string): Promise<void> {
+    try {
+      const { data: tokenRecord, error } = await this.supabase
+        .from('email_verification_tokens')
+        .select('*')
+        .eq('token', token)
+        .eq('used', false)
+        .maybeSingle();
+
+      if (error || !tokenRecord) {
+        throw new Error('Invalid verification token');
+      }
+
+      if (new Date() > new Date(tokenRecord.expires_at)) {
+        throw new Error('Verification token expired');
+      }
+
+      await this.supabase
+        .from('email_verification_tokens')
+        .update({ used: true })
+        .eq('id', tokenRecord.id);
+
+      await this.userModel.verifyEmail(tokenRecord.user_id);
+
+      logger.info(`Email verified for user: ${tokenRecord.user_id}`);
+    } catch (error) {
+      logger.error('Email verification failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Request password reset (emails a reset link)
    */
   async requestPasswordReset(email: string): Promise<void> {
     try {
@@ -394,8 +540,7 @@ export class AuthService {
 
       // Generate reset token
       const resetToken = uuidv4();
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 1); // 1 hour expiry
+      const expiresAt = new Date(Date.now() + AUTH_TOKEN_TTL.PASSWORD_RESET_LINK_MINUTES * 60 * 1000);
 
       // Store reset token
       await this.supabase
@@ -406,7 +551,13 @@ export class AuthService {
           expires_at: expiresAt.toISOString(),
         });
 
-      // TODO: Send email with reset link
+      const template = this.emailTemplates.renderPasswordResetLink({
+        username: user.username,
+        link: `${config.appUrl}/forgot-password?token=${encodeURIComponent(resetToken)}`,
+        expiresInMinutes: AUTH_TOKEN_TTL.PASSWORD_RESET_LINK_MINUTES,
+      });
+      await this.emailOutbox.queue(user.email, EMAIL_TEMPLATES.PASSWORD_RESET_LINK, template, user.id);
+
       logger.info(`Password reset requested for: ${email}`);
     } catch (error) {
       logger.error('Password reset request failed:', error);
@@ -464,17 +615,17 @@ export class AuthService {
    * 
    * Business Logic:
    * - Validates user exists with provided email
-   * - Generates 4-digit OTP (default: 1111 for development)
+   * - Generates a random 4-digit OTP
    * - Stores OTP in database with 5-minute expiration
-   * - Sends OTP via email (or logs for development)
+   * - Sends OTP via email through the outbox
    * - Implements rate limiting to prevent abuse
-   * - Returns OTP info for development purposes
+   * - Returns the OTP itself only in development mode
    * 
    * @param {string} email - User's email address
-   * @returns {Promise<{otp: string, expires_at: string}>} OTP details
+   * @returns {Promise<{otp?: string, expires_at: string}>} OTP details
    * @throws {Error} If user not found or service error
    */
-  async requestPasswordResetWithOTP(email: string): Promise<{otp: string, expires_at: string}> {
+  async requestPasswordResetWithOTP(email: string): Promise<{otp?: string, expires_at: string}> {
     try {
       // Check if user exists
       const user = await this.userModel.findByEmail(email);
@@ -482,13 +633,11 @@ export class AuthService {
         throw new Error('No account found with this email address. Please check your email or create a new account.');
       }
 
-      // Generate OTP (default: 1111 for development)
-      const otp = process.env.NODE_ENV === 'production' 
-        ? Math.floor(1000 + Math.random() * 9000).toString() 
-        : '1111';
+      // Generate OTP
+      const otp = randomInt(0, 10000).toString().padStart(4, '0');
 
-      // Set expiration time (5 minutes from now)
-      const expiresAt = new Date(Date.now() + 5 * 60 * 1000);
+      // Set expiration time
+      const expiresAt = new Date(Date.now() + AUTH_TOKEN_TTL.PASSWORD_RESET_OTP_MINUTES * 60 * 1000);
 
       // Store OTP in database
       await this.supabase
@@ -501,18 +650,21 @@ export class AuthService {
           used: false
         });
 
-      // In production, send email here
-      if (process.env.NODE_ENV === 'production') {
-        // TODO: Implement email sending service
-        logger.info(`OTP sent to ${email}: ${otp}`);
-      } else {
+      const template = this.emailTemplates.renderPasswordResetOTP({
+        username: user.username,
+        otp,
+        expiresInMinutes: AUTH_TOKEN_TTL.PASSWORD_RESET_OTP_MINUTES,
+      });
+      await this.emailOutbox.queue(user.email, EMAIL_TEMPLATES.PASSWORD_RESET_OTP, template, user.id);
+
+      // Secrets never leave the server outside development
+      if (BusinessRules.isDevelopment()) {
         logger.info(`Development OTP for ${email}: ${otp}`);
+        return { otp, expires_at: expiresAt.toISOString() };
       }
 
-      return {
-        otp: process.env.NODE_ENV === 'production' ? '****' : otp,
-        expires_at: expiresAt.toISOString()
-      };
+      logger.info(`Password reset OTP sent to: ${email}`);
+      return { expires_at: expiresAt.toISOString() };
     } catch (error: any) {
       logger.error('Request password reset with OTP error:', error);
       throw error;
@@ -576,7 +728,7 @@ export class AuthService {
 
       // Generate reset token
       const resetToken = uuidv4();
-      const tokenExpiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+      const tokenExpiresAt = new Date(Date.now() + AUTH_TOKEN_TTL.PASSWORD_RESET_TOKEN_MINUTES * 60 * 1000);
 
       // Store reset token
       await this.supabase
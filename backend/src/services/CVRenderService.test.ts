@@ -0,0 +1,113 @@
+import { CVData } from '@/shared/types';
+import { CVRenderService } from '@/services/CVRenderService';
+
+// Characters with a meaning in Markdown or LaTeX
+const SPECIAL = '_ % # & { } ~ ^ \\';
+
+const cvData = {
+  cv: { id: 'cv-1', title: 'My CV', layout: 'modern', section_config: null },
+  basic_details: {
+    full_name: 'Ada Lovelace',
+    email: 'ada_l@example.com',
+    city: 'London',
+    introduction: `# Not a heading\n1. Not a list\nWrites **engines** with ${SPECIAL} and [docs](https://ada.dev/a_b?x=1%20&y#top)\n- Fast`,
+  },
+  experience: [{
+    position: `Lead ${SPECIAL}`,
+    organization_name: 'Lovelace & Babbage',
+    joining_date: '2020-01-01',
+    is_current: true,
+    description: 'Built the *mill*',
+    highlights: [{ text: 'Cut ~costs~', metric: '30%', tags: ['C#'] }],
+    technologies: ['C++'],
+  }],
+  skills: [{ skill_name: 'C#', proficiency_percentage: 80, category: 'technical' }],
+} as unknown as CVData;
+
+describe('CVRenderService', () => {
+  const renderService = new CVRenderService();
+
+  describe('renderMarkdown', () => {
+    const markdown = renderService.renderMarkdown(cvData);
+
+    it('escapes special characters in plain fields', () => {
+      expect(markdown).toContain('ada\\_l@example.com · London');
+      expect(markdown).toContain('### Lead \\_ % \\# \\& { } \\~ ^ \\\\\n');
+      expect(markdown).toContain('*Lovelace \\& Babbage* · Jan 2020 – Present');
+      expect(markdown).toContain('- Cut \\~costs\\~ **30%** *(C\\#)*');
+      expect(markdown).toContain('- **Technical:** C\\#');
+    });
+
+    it('keeps rich text formatting and escapes the text around it', () => {
+      expect(markdown).toContain([
+        '\\# Not a heading  ',
+        '1\\. Not a list  ',
+        'Writes **engines** with \\_ % \\# \\& { } \\~ ^ \\\\ and [docs](https://ada.dev/a_b?x=1%20&y#top)',
+        '',
+        '- Fast',
+      ].join('\n'));
+      expect(markdown).toContain('Built the *mill*');
+    });
+  });
+
+  describe('renderLaTeX', () => {
+    const latex = renderService.renderLaTeX(cvData);
+
+    it('escapes special characters in every field', () => {
+      expect(latex).toContain('\\email{ada\\_l@example.com}');
+      expect(latex).toContain(
+        '\\cventry{Jan 2020 – Present}{Lead \\_ \\% \\# \\& \\{ \\} \\textasciitilde{} \\textasciicircum{} \\textbackslash{}}{Lovelace \\& Babbage}{}{}'
+      );
+      expect(latex).toContain('\\item Cut \\textasciitilde{}costs\\textasciitilde{} \\textbf{30\\%} \\emph{(C\\#)}');
+      expect(latex).toContain('\\cvitem{Technical}{C\\#}');
+    });
+
+    it('maps rich text to LaTeX commands and escapes link targets', () => {
+      expect(latex).toContain(
+        '\\cvitem{}{\\# Not a heading\\newline 1. Not a list\\newline Writes \\textbf{engines} with ' +
+        '\\_ \\% \\# \\& \\{ \\} \\textasciitilde{} \\textasciicircum{} \\textbackslash{} and ' +
+        '\\href{https://ada.dev/a_b?x=1\\%20\\&y\\#top}{docs}\\par \\begin{itemize}\\item Fast\\end{itemize}}'
+      );
+      expect(latex).toContain('{Built the \\emph{mill}\\par \\begin{itemize}');
+    });
+
+    it('wraps the sections in a moderncv document for the layout', () => {
+      expect(latex).toMatch(/^\\documentclass\[11pt,a4paper,sans\]\{moderncv\}\n\\moderncvstyle\{banking\}\n\\moderncvcolor\{blue\}/);
+      expect(latex).toContain('\\name{Ada}{Lovelace}');
+      expect(latex.trim().endsWith('\\end{document}')).toBe(true);
+    });
+  });
+
+  describe('renderText', () => {
+    it('writes ATS-safe text with standard headings and numeric dates', () => {
+      const text = renderService.renderText({
+        ...cvData,
+        cv: { ...cvData.cv, section_config: { order: ['skills', 'experience', 'summary'], titles: { experience: 'Where I’ve worked' } } },
+      } as CVData);
+
+      expect(text).toBe([
+        'ADA LOVELACE',
+        'ada_l@example.com | London',
+        '',
+        'SKILLS',
+        'Technical: C#',
+        '',
+        'EXPERIENCE',
+        `Lead ${SPECIAL}`,
+        'Lovelace & Babbage',
+        '01/2020 - Present',
+        'Built the mill',
+        '- Cut ~costs~ (30%)',
+        'Technologies: C++',
+        '',
+        'SUMMARY',
+        '# Not a heading',
+        '1. Not a list',
+        `Writes engines with ${SPECIAL} and docs (https://ada.dev/a_b?x=1%20&y#top)`,
+        '',
+        '- Fast',
+        '',
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,1278 @@
+/**
+ * CV Render Service
+ *
+ * Business Logic:
+ * - Turns a complete `CVData` payload into print-ready HTML per layout
+ * - Renders that HTML into a vector PDF (real, selectable text) via headless Chromium
+ * - Maps the same sections into a styled Word (.docx) document for recruiters who require it
+ * - Writes Markdown and LaTeX (moderncv) sources for users who keep their CV in version control
+ * - Writes an ATS-safe plain-text version: one column, standard headings, MM/YYYY dates
+ * - Section order, visibility and headings follow the CV's `section_config` in every format
+ *   (the plain-text version keeps order and visibility but uses the standard headings)
+ * - Keeps a single shared browser instance so downloads do not pay the launch cost
+ *
+ * Code Conventions:
+ * - Throws typed Errors; no HTTP objects here
+ * - Every user-supplied value is escaped for the target format before interpolation
+ *
+ * @fileoverview Server-side CV document rendering
+ * @author vicky neosoft test builder app
+ */
+
+import puppeteer, { Browser } from 'puppeteer';
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  TabStopPosition,
+  TabStopType,
+  TextRun,
+} from 'docx';
+import {
+  CV,
+  CVData,
+  CVLayoutSection,
+  PublicCVData,
+  Education,
+  Experience,
+  Project,
+  Skill,
+  SocialProfile,
+  Certification,
+  Award,
+  Publication,
+  Language,
+  Volunteering,
+  Reference,
+  CustomSection,
+  Highlight,
+  RichTextRun,
+} from '@/shared/types';
+import { DEFAULT_SECTION_TITLES, LANGUAGE_PROFICIENCY_LABELS } from '@/shared/constants';
+import { RichTextUtil } from '@/utils/richText';
+import { logger } from '@/utils/logger';
+import { SectionLayoutUtil } from '@/utils/sectionLayout';
+
+/**
+ * Visual theme applied to the shared document skeleton
+ */
+interface LayoutTheme {
+  fontFamily: string;
+  docxFont: string;
+  accent: string;
+  headerBackground: string;
+  headerColor: string;
+  headerAlign: 'left' | 'center';
+  sectionTitleTransform: 'uppercase' | 'none';
+}
+
+const LAYOUT_THEMES: Record<CV['layout'], LayoutTheme> = {
+  modern: {
+    fontFamily: "'Helvetica Neue', Arial, sans-serif",
+    docxFont: 'Arial',
+    accent: '#2563eb',
+    headerBackground: '#eff6ff',
+    headerColor: '#1e3a8a',
+    headerAlign: 'left',
+    sectionTitleTransform: 'uppercase',
+  },
+  classic: {
+    fontFamily: "Georgia, 'Times New Roman', serif",
+    docxFont: 'Georgia',
+    accent: '#374151',
+    headerBackground: '#ffffff',
+    headerColor: '#111827',
+    headerAlign: 'center',
+    sectionTitleTransform: 'none',
+  },
+  creative: {
+    fontFamily: "'Trebuchet MS', 'Segoe UI', sans-serif",
+    docxFont: 'Trebuchet MS',
+    accent: '#9333ea',
+    headerBackground: '#faf5ff',
+    headerColor: '#581c87',
+    headerAlign: 'left',
+    sectionTitleTransform: 'uppercase',
+  },
+};
+
+/**
+ * Escape a value for safe inclusion in HTML text or attribute context
+ */
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// moderncv style and colour closest to each layout
+const LATEX_THEMES: Record<CV['layout'], { style: string; color: string }> = {
+  modern: { style: 'banking', color: 'blue' },
+  classic: { style: 'classic', color: 'grey' },
+  creative: { style: 'casual', color: 'purple' },
+};
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '&': '\\&',
+  '%': '\\%',
+  '$': '\\$',
+  '#': '\\#',
+  '_': '\\_',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+/**
+ * Escape a value for LaTeX text
+ */
+const escapeLatex = (value: unknown): string =>
+  String(value ?? '').replace(/[\\&%$#_{}~^]/g, (char) => LATEX_ESCAPES[char]);
+
+/**
+ * Escape a URL for the first argument of \href
+ */
+const escapeLatexUrl = (url: string): string => url.replace(/[\\%#&{}]/g, (char) => `\\${char}`);
+
+/**
+ * Escape Markdown syntax characters in plain text (`~` strikes through, `&` starts an entity, `#` a heading)
+ */
+const escapeMarkdown = (value: unknown): string => String(value ?? '').replace(/([\\`*_[\]<>|~#&])/g, '\\$1');
+
+/**
+ * Text-export view of a section entry (Markdown, LaTeX)
+ */
+interface OutlineEntry {
+  title: string;
+  meta?: string;
+  subtitle?: string;
+  text?: string | null; // rich text
+  highlights?: Highlight[];
+  notes?: string[]; // plain lines: technologies, links, contact
+}
+
+/**
+ * Text-export view of a section: a summary text, label/value rows or entries
+ */
+interface OutlineSection {
+  title: string;
+  text?: string | null;
+  rows?: { label: string; value: string }[];
+  entries?: OutlineEntry[];
+}
+
+/**
+ * Format an ISO date as "Jan 2024"; falls back to the raw value
+ */
+const formatMonth = (value?: string): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', timeZone: 'UTC' });
+};
+
+/**
+ * Format an ISO date as "01/2024" (ATS-friendly); falls back to the raw value
+ */
+const formatNumericMonth = (value?: string): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return `${String(date.getUTCMonth() + 1).padStart(2, '0')}/${date.getUTCFullYear()}`;
+};
+
+/**
+ * Format a start/end pair as "Jan 2020 – Present"
+ */
+const formatRange = (start?: string, end?: string, isCurrent?: boolean, format = formatMonth): string => {
+  const from = format(start);
+  const to = isCurrent ? 'Present' : format(end);
+  return [from, to].filter(Boolean).join(' – ');
+};
+
+// Typographic characters that some applicant tracking systems misread
+const ASCII_PUNCTUATION: Record<string, string> = {
+  '–': '-',
+  '—': '-',
+  '·': '|',
+  '•': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '…': '...',
+  '\u00a0': ' ',
+};
+
+/**
+ * CV Render Service class
+ *
+ * Produces HTML, PDF and DOCX representations of a CV
+ *
+ * @class CVRenderService
+ */
+export class CVRenderService {
+  private static browser: Promise<Browser> | null = null;
+
+  /**
+   * Render a CV into a standalone HTML document
+   *
+   * Business Logic:
+   * - Uses the CV's layout to pick fonts, colours and header alignment
+   * - Renders sections in the CV's configured order and headings, skipping hidden ones
+   * - Omits empty sections so the document never shows blank headings
+   *
+   * @param {PublicCVData} cvData - Complete (or public) CV payload
+   * @returns {string} HTML document
+   */
+  renderHTML(cvData: PublicCVData): string {
+    const theme = LAYOUT_THEMES[cvData.cv.layout] || LAYOUT_THEMES.modern;
+
+    const renderers: Record<CVLayoutSection, (title: string) => string> = {
+      summary: (title) => this.renderSummary(cvData, title),
+      experience: (title) => this.renderExperience(cvData.experience || [], title),
+      education: (title) => this.renderEducation(cvData.education || [], title),
+      projects: (title) => this.renderProjects(cvData.projects || [], title),
+      skills: (title) => this.renderSkills(cvData.skills || [], title),
+      social_profiles: (title) => this.renderSocialProfiles(cvData.social_profiles || [], title),
+      certifications: (title) => this.renderCertifications(cvData.certifications || [], title),
+      awards: (title) => this.renderAwards(cvData.awards || [], title),
+      publications: (title) => this.renderPublications(cvData.publications || [], title),
+      languages: (title) => this.renderLanguages(cvData.languages || [], title),
+      volunteering: (title) => this.renderVolunteering(cvData.volunteering || [], title),
+      references: (title) => this.renderReferences(cvData.references || [], title),
+      custom_sections: () => this.renderCustomSections(cvData.custom_sections || []),
+    };
+
+    const sections = SectionLayoutUtil.visible(cvData.cv.section_config)
+      .map((section) => renderers[section.key](section.title))
+      .filter(Boolean);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(cvData.basic_details?.full_name || cvData.cv.title)}</title>
+<style>${this.renderStyles(theme)}</style>
+</head>
+<body class="layout-${escapeHtml(cvData.cv.layout)}">
+${this.renderHeader(cvData)}
+<main>
+${sections.join('\n')}
+</main>
+</body>
+</html>`;
+  }
+
+  /**
+   * Render a CV into a vector PDF
+   *
+   * @param {CVData} cvData - Complete CV payload
+   * @returns {Promise<Buffer>} PDF file contents
+   * @throws {Error} If the browser cannot render the document
+   */
+  async renderPDF(cvData: CVData): Promise<Buffer> {
+    const browser = await this.getBrowser();
+    const page = await browser.newPage();
+
+    try {
+      await page.setContent(this.renderHTML(cvData), { waitUntil: 'load' });
+      const pdf = await page.pdf({
+        format: 'A4',
+        printBackground: true,
+        margin: { top: '16mm', right: '14mm', bottom: '16mm', left: '14mm' },
+      });
+
+      return Buffer.from(pdf);
+    } catch (error: any) {
+      logger.error('PDF rendering failed:', error);
+      throw new Error(`Failed to render PDF: ${error.message}`);
+    } finally {
+      await page.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Render a CV into a Word (.docx) document
+   *
+   * Business Logic:
+   * - Mirrors the PDF section order and headings and skips empty or hidden sections
+   * - Uses the layout's font and accent colour for headings
+   *
+   * @param {CVData} cvData - Complete CV payload
+   * @returns {Promise<Buffer>} DOCX file contents
+   * @throws {Error} If the document cannot be packed
+   */
+  async renderDOCX(cvData: CVData): Promise<Buffer> {
+    const theme = LAYOUT_THEMES[cvData.cv.layout] || LAYOUT_THEMES.modern;
+    const accent = theme.accent.replace('#', '');
+
+    const sections: Record<CVLayoutSection, (title: string) => Paragraph[]> = {
+      summary: (title) => this.docxSummary(cvData, title, accent),
+      experience: (title) => this.docxExperience(cvData.experience || [], title, accent),
+      education: (title) => this.docxEducation(cvData.education || [], title, accent),
+      projects: (title) => this.docxProjects(cvData.projects || [], title, accent),
+      skills: (title) => this.docxSkills(cvData.skills || [], title, accent),
+      social_profiles: (title) => this.docxSocialProfiles(cvData.social_profiles || [], title, accent),
+      certifications: (title) => this.docxCertifications(cvData.certifications || [], title, accent),
+      awards: (title) => this.docxAwards(cvData.awards || [], title, accent),
+      publications: (title) => this.docxPublications(cvData.publications || [], title, accent),
+      languages: (title) => this.docxLanguages(cvData.languages || [], title, accent),
+      volunteering: (title) => this.docxVolunteering(cvData.volunteering || [], title, accent),
+      references: (title) => this.docxReferences(cvData.references || [], title, accent),
+      custom_sections: () => this.docxCustomSections(cvData.custom_sections || [], accent),
+    };
+
+    const children: Paragraph[] = [
+      ...this.docxHeader(cvData, theme),
+      ...SectionLayoutUtil.visible(cvData.cv.section_config).flatMap((section) => sections[section.key](section.title)),
+    ];
+
+    const document = new Document({
+      creator: 'CV Builder',
+      title: cvData.cv.title,
+      styles: {
+        default: {
+          document: { run: { font: theme.docxFont, size: 21, color: '1F2937' } },
+        },
+      },
+      sections: [
+        {
+          properties: {
+            page: { margin: { top: 900, right: 800, bottom: 900, left: 800 } },
+          },
+          children,
+        },
+      ],
+    });
+
+    try {
+      return await Packer.toBuffer(document);
+    } catch (error: any) {
+      logger.error('DOCX rendering failed:', error);
+      throw new Error(`Failed to render DOCX: ${error.message}`);
+    }
+  }
+
+  /**
+   * Render a CV as a Markdown document
+   *
+   * Business Logic:
+   * - Name as the title, contact line, then one `##` heading per visible section
+   * - Entries get a `###` heading with the organisation and dates below
+   * - Descriptions keep their bold, italic, link and list formatting
+   *
+   * @param {CVData} cvData - Complete CV payload
+   * @returns {string} Markdown source
+   */
+  renderMarkdown(cvData: CVData): string {
+    const details = cvData.basic_details;
+    const location = [details.address, details.city, details.state, details.pincode].filter(Boolean).join(', ');
+    const lines = [
+      `# ${escapeMarkdown(details.full_name || cvData.cv.title)}`,
+      '',
+      [details.email, details.phone, location].filter(Boolean).map(escapeMarkdown).join(' · '),
+    ];
+
+    this.outline(cvData).forEach((section) => {
+      lines.push('', `## ${escapeMarkdown(section.title)}`, '');
+      if (section.text) {
+        lines.push(this.markdownRichText(section.text));
+      }
+      (section.rows || []).forEach((row) => lines.push(`- **${escapeMarkdown(row.label)}:** ${escapeMarkdown(row.value)}`));
+      (section.entries || []).forEach((entry) => {
+        lines.push(
+          `### ${escapeMarkdown(entry.title)}`,
+          '',
+          [entry.subtitle && `*${escapeMarkdown(entry.subtitle)}*`, entry.meta && escapeMarkdown(entry.meta)].filter(Boolean).join(' · '),
+          '',
+          this.markdownRichText(entry.text),
+          '',
+          ...(entry.highlights || []).map((highlight) => `- ${[
+            escapeMarkdown(highlight.text),
+            highlight.metric && `**${escapeMarkdown(highlight.metric)}**`,
+            highlight.tags?.length && `*(${escapeMarkdown(highlight.tags.join(', '))})*`,
+          ].filter(Boolean).join(' ')}`),
+          '',
+          (entry.notes || []).map(escapeMarkdown).join('  \n'),
+          ''
+        );
+      });
+    });
+
+    return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`;
+  }
+
+  /**
+   * Render a CV as a LaTeX source using the moderncv class
+   *
+   * Business Logic:
+   * - The layout picks the moderncv style and colour (modern: banking/blue,
+   *   classic: classic/grey, creative: casual/purple)
+   * - Entries map to `\cventry{dates}{title}{subtitle}{}{}{description}`,
+   *   label/value rows (skills, languages, profiles) to `\cvitem`
+   * - All user text is escaped, so titles and descriptions may contain LaTeX special characters
+   *
+   * @param {CVData} cvData - Complete CV payload
+   * @returns {string} LaTeX source (compile with pdflatex or xelatex)
+   */
+  renderLaTeX(cvData: CVData): string {
+    const details = cvData.basic_details;
+    const theme = LATEX_THEMES[cvData.cv.layout] || LATEX_THEMES.modern;
+    const names = (details.full_name || cvData.cv.title).trim().split(/\s+/);
+    const firstName = names.length > 1 ? names.slice(0, -1).join(' ') : names[0];
+    const lastName = names.length > 1 ? names[names.length - 1] : '';
+    const locality = [details.city, details.state, details.pincode].filter(Boolean).join(', ');
+
+    const lines = [
+      '\\documentclass[11pt,a4paper,sans]{moderncv}',
+      `\\moderncvstyle{${theme.style}}`,
+      `\\moderncvcolor{${theme.color}}`,
+      '\\usepackage[utf8]{inputenc}',
+      '\\usepackage[T1]{fontenc}',
+      '\\usepackage[scale=0.8]{geometry}',
+      '',
+      `\\name{${escapeLatex(firstName)}}{${escapeLatex(lastName)}}`,
+      ...(details.address || locality ? [`\\address{${escapeLatex(details.address)}}{${escapeLatex(locality)}}{}`] : []),
+      ...(details.phone ? [`\\phone[mobile]{${escapeLatex(details.phone)}}`] : []),
+      ...(details.email ? [`\\email{${escapeLatex(details.email)}}`] : []),
+      '',
+      '\\begin{document}',
+      '\\makecvtitle',
+    ];
+
+    this.outline(cvData).forEach((section) => {
+      lines.push('', `\\section{${escapeLatex(section.title)}}`);
+      if (section.text) {
+        lines.push(`\\cvitem{}{${this.latexRichText(section.text)}}`);
+      }
+      (section.rows || []).forEach((row) => lines.push(`\\cvitem{${escapeLatex(row.label)}}{${escapeLatex(row.value)}}`));
+      (section.entries || []).forEach((entry) => {
+        const highlights = (entry.highlights || []).map((highlight) => `\\item ${[
+          escapeLatex(highlight.text),
+          highlight.metric && `\\textbf{${escapeLatex(highlight.metric)}}`,
+          highlight.tags?.length && `\\emph{(${escapeLatex(highlight.tags.join(', '))})}`,
+        ].filter(Boolean).join(' ')}`);
+        const description = [
+          this.latexRichText(entry.text),
+          highlights.length ? `\\begin{itemize}${highlights.join(' ')}\\end{itemize}` : '',
+          (entry.notes || []).map(escapeLatex).join('\\newline '),
+        ].filter(Boolean).join('\\par ');
+
+        lines.push(`\\cventry{${escapeLatex(entry.meta)}}{${escapeLatex(entry.title)}}{${escapeLatex(entry.subtitle)}}{}{}{${description}}`);
+      });
+    });
+
+    lines.push('', '\\end{document}', '');
+    return lines.join('\n');
+  }
+
+  /**
+   * Render a CV as ATS-safe plain text
+   *
+   * Business Logic:
+   * - Single column with upper-case standard headings (EXPERIENCE, EDUCATION, ...),
+   *   so parsers find each section whatever the layout or custom headings
+   * - Dates as MM/YYYY, formatting and icons dropped, typographic punctuation made ASCII
+   * - Highlight metrics stay in the bullet text; links are written out in full
+   *
+   * @param {CVData} cvData - Complete CV payload
+   * @returns {string} Plain text
+   */
+  renderText(cvData: CVData): string {
+    const details = cvData.basic_details;
+    const location = [details.address, details.city, details.state, details.pincode].filter(Boolean).join(', ');
+    const lines = [
+      (details.full_name || cvData.cv.title).toUpperCase(),
+      [details.email, details.phone, location].filter(Boolean).join(' | '),
+    ];
+
+    this.outline(cvData, { standardTitles: true, numericDates: true }).forEach((section) => {
+      lines.push('', section.title.toUpperCase());
+      if (section.text) {
+        lines.push(this.plainRichText(section.text));
+      }
+      (section.rows || []).forEach((row) => lines.push(`${row.label}: ${row.value}`));
+      (section.entries || []).forEach((entry, index) => {
+        lines.push(
+          ...(index > 0 ? [''] : []),
+          entry.title,
+          ...[entry.subtitle, entry.meta].filter(Boolean) as string[],
+          ...(entry.text ? [this.plainRichText(entry.text)] : []),
+          ...(entry.highlights || []).map((highlight) =>
+            `- ${highlight.text}${highlight.metric ? ` (${highlight.metric})` : ''}`),
+          ...(entry.notes || [])
+        );
+      });
+    });
+
+    return `${lines.join('\n').replace(/[–—·•‘’“”…\u00a0]/g, (char) => ASCII_PUNCTUATION[char]).trim()}\n`;
+  }
+
+  /**
+   * Build a filesystem-safe download name for a CV
+   *
+   * @param {CV} cv - CV record
+   * @param {string} extension - File extension without the dot
+   * @returns {string} File name such as `my_resume_cv.pdf`
+   */
+  getFileName(cv: CV, extension: string): string {
+    const base = (cv.title || 'cv').replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '').toLowerCase();
+    return `${base || 'cv'}_cv.${extension}`;
+  }
+
+  /**
+   * Lazily launch (or reuse) the shared headless browser
+   */
+  private async getBrowser(): Promise<Browser> {
+    if (!CVRenderService.browser) {
+      CVRenderService.browser = puppeteer
+        .launch({
+          headless: true,
+          args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
+        })
+        .then((browser) => {
+          browser.on('disconnected', () => {
+            CVRenderService.browser = null;
+          });
+          return browser;
+        })
+        .catch((error) => {
+          CVRenderService.browser = null;
+          throw error;
+        });
+    }
+
+    return CVRenderService.browser;
+  }
+
+  /**
+   * Layout-specific stylesheet
+   */
+  private renderStyles(theme: LayoutTheme): string {
+    return `
+* { box-sizing: border-box; }
+body { margin: 0; font-family: ${theme.fontFamily}; font-size: 10.5pt; line-height: 1.45; color: #1f2937; }
+header { background: ${theme.headerBackground}; color: ${theme.headerColor}; text-align: ${theme.headerAlign}; padding: 14pt 16pt; border-bottom: 3pt solid ${theme.accent}; }
+header h1 { margin: 0 0 4pt; font-size: 22pt; }
+header .contact { font-size: 9.5pt; color: #4b5563; }
+header .contact span + span::before { content: ' · '; }
+main { padding: 4pt 16pt; }
+section { margin-top: 12pt; page-break-inside: auto; }
+section h2 { font-size: 11.5pt; color: ${theme.accent}; text-transform: ${theme.sectionTitleTransform}; letter-spacing: 0.5pt; border-bottom: 1pt solid #e5e7eb; padding-bottom: 2pt; margin: 0 0 6pt; }
+.entry { margin-bottom: 8pt; page-break-inside: avoid; }
+.entry-head { display: flex; justify-content: space-between; gap: 8pt; }
+.entry-title { font-weight: bold; }
+.entry-meta { color: #6b7280; font-size: 9.5pt; white-space: nowrap; }
+.entry-sub { color: #4b5563; font-style: italic; }
+.entry p { margin: 3pt 0 0; white-space: pre-line; }
+.entry ul { margin: 3pt 0 0; padding-left: 14pt; }
+.entry li { margin-bottom: 1pt; }
+.metric { color: ${theme.accent}; }
+.highlight-tags { color: #6b7280; font-size: 9pt; }
+.tags { color: #4b5563; font-size: 9.5pt; margin-top: 2pt; }
+.skill-group { margin-bottom: 4pt; }
+.skill-group strong { margin-right: 4pt; }
+a { color: ${theme.accent}; text-decoration: none; }
+`;
+  }
+
+  /**
+   * Header with name and contact line
+   */
+  private renderHeader(cvData: PublicCVData): string {
+    const details = cvData.basic_details || ({} as CVData['basic_details']);
+    const location = [details.address, details.city, details.state, details.pincode].filter(Boolean).join(', ');
+    const contact = [details.email, details.phone, location]
+      .filter(Boolean)
+      .map((item) => `<span>${escapeHtml(item)}</span>`)
+      .join('');
+
+    return `<header>
+<h1>${escapeHtml(details.full_name || cvData.cv.title)}</h1>
+<div class="contact">${contact}</div>
+</header>`;
+  }
+
+  /**
+   * Rich text field as paragraphs and bullet lists (see RichTextUtil)
+   */
+  private renderRichText(text?: string | null): string {
+    const runs = (items: RichTextRun[]) => items
+      .map((run) => {
+        let html = escapeHtml(run.text);
+        if (run.bold) html = `<strong>${html}</strong>`;
+        if (run.italic) html = `<em>${html}</em>`;
+        return run.href ? `<a href="${escapeHtml(run.href)}">${html}</a>` : html;
+      })
+      .join('');
+
+    return RichTextUtil.parse(text)
+      .map((block) => block.type === 'list'
+        ? `<ul>${block.items.map((item) => `<li>${runs(item)}</li>`).join('')}</ul>`
+        : `<p>${block.lines.map(runs).join('<br>')}</p>`)
+      .join('');
+  }
+
+  /**
+   * Achievement bullets; the metric is emphasised and tags follow in muted text
+   */
+  private renderHighlights(highlights?: Highlight[]): string {
+    if (!highlights?.length) return '';
+    const items = highlights
+      .map((highlight) => {
+        const metric = highlight.metric ? ` <strong class="metric">${escapeHtml(highlight.metric)}</strong>` : '';
+        const tags = highlight.tags?.length ? ` <span class="highlight-tags">${escapeHtml(highlight.tags.join(', '))}</span>` : '';
+        return `<li>${escapeHtml(highlight.text)}${metric}${tags}</li>`;
+      })
+      .join('');
+    return `<ul class="highlights">${items}</ul>`;
+  }
+
+  /**
+   * Wrap section body with its heading
+   */
+  private renderSection(title: string, body: string): string {
+    return `<section><h2>${escapeHtml(title)}</h2>${body}</section>`;
+  }
+
+  private renderSummary(cvData: PublicCVData, title: string): string {
+    const introduction = cvData.basic_details?.introduction;
+    if (!introduction) return '';
+    return this.renderSection(title, `<div class="entry">${this.renderRichText(introduction)}</div>`);
+  }
+
+  private renderExperience(items: Experience[], title: string): string {
+    if (items.length === 0) return '';
+    const body = items
+      .map((item) => {
+        const sub = [item.organization_name, item.joining_location].filter(Boolean).join(', ');
+        const technologies = item.technologies?.length
+          ? `<div class="tags">${escapeHtml(item.technologies.join(', '))}</div>`
+          : '';
+        return `<div class="entry">
+<div class="entry-head"><span class="entry-title">${escapeHtml(item.position)}</span><span class="entry-meta">${escapeHtml(formatRange(item.joining_date, item.leaving_date, item.is_current))}</span></div>
+<div class="entry-sub">${escapeHtml(sub)}</div>
+${this.renderRichText(item.description)}
+${this.renderHighlights(item.highlights)}
+${technologies}
+</div>`;
+      })
+      .join('');
+    return this.renderSection(title, body);
+  }
+
+  private renderEducation(items: Education[], title: string): string {
+    if (items.length === 0) return '';
+    const body = items
+      .map((item) => {
+        const score = item.percentage ? `${item.percentage}%` : item.cgpa ? `CGPA ${item.cgpa}` : '';
+        const sub = [item.institution, score].filter(Boolean).join(' · ');
+        return `<div class="entry">
+<div class="entry-head"><span class="entry-title">${escapeHtml(item.degree_name)}</span><span class="entry-meta">${escapeHtml(formatRange(item.start_date, item.end_date, item.is_current))}</span></div>
+<div class="entry-sub">${escapeHtml(sub)}</div>
+${this.renderRichText(item.description)}
+</div>`;
+      })
+      .join('');
+    return this.renderSection(title, body);
+  }
+
+  private renderProjects(items: Project[], title: string): string {
+    if (items.length === 0) return '';
+    const body = items
+      .map((item) => {
+        const meta = [item.duration, item.team_size ? `Team of ${item.team_size}` : ''].filter(Boolean).join(' · ');
+        const links = [item.project_url, item.github_url]
+          .filter(Boolean)
+          .map((url) => `<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`)
+          .join(' · ');
+        const technologies = item.technologies?.length
+          ? `<div class="tags">${escapeHtml(item.technologies.join(', '))}</div>`
+          : '';
+        return `<div class="entry">
+<div class="entry-head"><span class="entry-title">${escapeHtml(item.title)}</span><span class="entry-meta">${escapeHtml(meta)}</span></div>
+${this.renderRichText(item.description)}
+${this.renderHighlights(item.highlights)}
+${technologies}
+${links ? `<div class="tags">${links}</div>` : ''}
+</div>`;
+      })
+      .join('');
+    return this.renderSection(title, body);
+  }
+
+  private renderSkills(items: Skill[], title: string): string {
+    if (items.length === 0) return '';
+    const labels: Record<Skill['category'], string> = {
+      technical: 'Technical',
+      interpersonal: 'Interpersonal',
+      language: 'Languages',
+    };
+    const body = (Object.keys(labels) as Skill['category'][])
+      .map((category) => {
+        const names = items.filter((skill) => skill.category === category).map((skill) => skill.skill_name);
+        if (names.length === 0) return '';
+        return `<div class="skill-group"><strong>${labels[category]}:</strong>${escapeHtml(names.join(', '))}</div>`;
+      })
+      .join('');
+    return this.renderSection(title, body);
+  }
+
+  private renderSocialProfiles(items: SocialProfile[], title: string): string {
+    const visible = items.filter((profile) => profile.is_public !== false);
+    if (visible.length === 0) return '';
+    const body = visible
+      .map((profile) => `<div class="skill-group"><strong>${escapeHtml(profile.platform_name)}:</strong><a href="${escapeHtml(profile.profile_url)}">${escapeHtml(profile.profile_url)}</a></div>`)
+      .join('');
+    return this.renderSection(title, body);
+  }
+
+  private renderCertifications(items: Certification[], title: string): string {
+    if (items.length === 0) return '';
+    const body = items
+      .map((item) => {
+        const meta = item.expiry_date
+          ? `${formatMonth(item.issue_date)} – ${formatMonth(item.expiry_date)}`
+          : formatMonth(item.issue_date);
+        const sub = [item.issuer, item.credential_id ? `Credential ID ${item.credential_id}` : ''].filter(Boolean).join(' · ');
+        return `<div class="entry">
+<div class="entry-head"><span class="entry-title">${escapeHtml(item.name)}</span><span class="entry-meta">${escapeHtml(meta)}</span></div>
+<div class="entry-sub">${escapeHtml(sub)}</div>
+${item.credential_url ? `<div class="tags"><a href="${escapeHtml(item.credential_url)}">${escapeHtml(item.credential_url)}</a></div>` : ''}
+</div>`;
+      })
+      .join('');
+    return this.renderSection(title, body);
+  }
+
+  private renderAwards(items: Award[], title: string): string {
+    if (items.length === 0) return '';
+    const body = items
+      .map((item) => `<div class="entry">
+<div class="entry-head"><span class="entry-title">${escapeHtml(item.title)}</span><span class="entry-meta">${escapeHtml(formatMonth(item.award_date))}</span></div>
+${item.issuer ? `<div class="entry-sub">${escapeHtml(item.issuer)}</div>` : ''}
+${this.renderRichText(item.description)}
+</div>`)
+      .join('');
+    return this.renderSection(title, body);
+  }
+
+  private renderPublications(items: Publication[], title: string): string {
+    if (items.length === 0) return '';
+    const body = items
+      .map((item) => {
+        const sub = [item.authors, item.publisher].filter(Boolean).join(' · ');
+        return `<div class="entry">
+<div class="entry-head"><span class="entry-title">${escapeHtml(item.title)}</span><span class="entry-meta">${escapeHtml(formatMonth(item.publication_date))}</span></div>
+${sub ? `<div class="entry-sub">${escapeHtml(sub)}</div>` : ''}
+${this.renderRichText(item.description)}
+${item.url ? `<div class="tags"><a href="${escapeHtml(item.url)}">${escapeHtml(item.url)}</a></div>` : ''}
+</div>`;
+      })
+      .join('');
+    return this.renderSection(title, body);
+  }
+
+  private renderLanguages(items: Language[], title: string): string {
+    if (items.length === 0) return '';
+    const body = items
+      .map((item) => `<div class="skill-group"><strong>${escapeHtml(item.language)}:</strong>${escapeHtml(LANGUAGE_PROFICIENCY_LABELS[item.proficiency] || item.proficiency)}</div>`)
+      .join('');
+    return this.renderSection(title, body);
+  }
+
+  private renderVolunteering(items: Volunteering[], title: string): string {
+    if (items.length === 0) return '';
+    const body = items
+      .map((item) => `<div class="entry">
+<div class="entry-head"><span class="entry-title">${escapeHtml(item.role)}</span><span class="entry-meta">${escapeHtml(formatRange(item.start_date, item.end_date, item.is_current))}</span></div>
+<div class="entry-sub">${escapeHtml(item.organization)}</div>
+${this.renderRichText(item.description)}
+</div>`)
+      .join('');
+    return this.renderSection(title, body);
+  }
+
+  private renderReferences(items: Reference[], title: string): string {
+    if (items.length === 0) return '';
+    const body = items
+      .map((item) => {
+        const sub = [item.position, item.organization].filter(Boolean).join(', ');
+        const contact = [item.email, item.phone].filter(Boolean).join(' · ');
+        return `<div class="entry">
+<div class="entry-head"><span class="entry-title">${escapeHtml(item.name)}</span><span class="entry-meta">${escapeHtml(item.relationship)}</span></div>
+${sub ? `<div class="entry-sub">${escapeHtml(sub)}</div>` : ''}
+${contact ? `<div class="tags">${escapeHtml(contact)}</div>` : ''}
+</div>`;
+      })
+      .join('');
+    return this.renderSection(title, body);
+  }
+
+  /**
+   * Every custom section under its own heading
+   */
+  private renderCustomSections(sections: CustomSection[]): string {
+    return sections
+      .filter((section) => (section.items || []).length > 0)
+      .map((section) => this.renderSection(section.title, section.items
+        .map((item) => `<div class="entry">
+<div class="entry-head"><span class="entry-title">${escapeHtml(item.title)}</span><span class="entry-meta">${escapeHtml(item.date)}</span></div>
+${item.subtitle ? `<div class="entry-sub">${escapeHtml(item.subtitle)}</div>` : ''}
+${this.renderRichText(item.description)}
+${item.url ? `<div class="tags"><a href="${escapeHtml(item.url)}">${escapeHtml(item.url)}</a></div>` : ''}
+</div>`)
+        .join('')))
+      .join('\n');
+  }
+
+  /**
+   * DOCX header: name, contact line and accent rule
+   */
+  private docxHeader(cvData: CVData, theme: LayoutTheme): Paragraph[] {
+    const details = cvData.basic_details || ({} as CVData['basic_details']);
+    const location = [details.address, details.city, details.state, details.pincode].filter(Boolean).join(', ');
+    const alignment = theme.headerAlign === 'center' ? AlignmentType.CENTER : AlignmentType.LEFT;
+
+    return [
+      new Paragraph({
+        alignment,
+        children: [
+          new TextRun({
+            text: details.full_name || cvData.cv.title,
+            bold: true,
+            size: 44,
+            color: theme.headerColor.replace('#', ''),
+          }),
+        ],
+      }),
+      new Paragraph({
+        alignment,
+        spacing: { after: 120 },
+        border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: theme.accent.replace('#', ''), space: 4 } },
+        children: [
+          new TextRun({
+            text: [details.email, details.phone, location].filter(Boolean).join('  ·  '),
+            size: 19,
+            color: '4B5563',
+          }),
+        ],
+      }),
+    ];
+  }
+
+  /**
+   * DOCX section heading with a thin bottom rule
+   */
+  private docxHeading(title: string, accent: string): Paragraph {
+    return new Paragraph({
+      spacing: { before: 240, after: 80 },
+      border: { bottom: { style: BorderStyle.SINGLE, size: 4, color: 'E5E7EB', space: 2 } },
+      children: [new TextRun({ text: title.toUpperCase(), bold: true, size: 23, color: accent })],
+    });
+  }
+
+  /**
+   * DOCX entry line: bold title left, dates/meta right-aligned on a tab stop
+   */
+  private docxEntryHead(title: string, meta: string): Paragraph {
+    return new Paragraph({
+      spacing: { before: 120 },
+      tabStops: [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX }],
+      children: [
+        new TextRun({ text: title, bold: true }),
+        ...(meta ? [new TextRun({ text: `\t${meta}`, size: 19, color: '6B7280' })] : []),
+      ],
+    });
+  }
+
+  /**
+   * Rich text field as Word paragraphs; bullet items use Word's bullet list
+   */
+  private docxBody(text?: string | null): Paragraph[] {
+    const runs = (items: RichTextRun[]): ParagraphChild[] => items.map((run) => {
+      const textRun = new TextRun({ text: run.text, bold: run.bold, italics: run.italic, style: run.href ? 'Hyperlink' : undefined });
+      return run.href ? new ExternalHyperlink({ link: run.href, children: [textRun] }) : textRun;
+    });
+
+    return RichTextUtil.parse(text).flatMap((block) => block.type === 'list'
+      ? block.items.map((item) => new Paragraph({ spacing: { before: 20 }, bullet: { level: 0 }, children: runs(item) }))
+      : block.lines.map((line) => new Paragraph({ spacing: { before: 40 }, children: runs(line) })));
+  }
+
+  private docxHighlights(highlights: Highlight[] | undefined, accent: string): Paragraph[] {
+    return (highlights || []).map((highlight) => new Paragraph({
+      spacing: { before: 20 },
+      bullet: { level: 0 },
+      children: [
+        new TextRun(highlight.text),
+        ...(highlight.metric ? [new TextRun({ text: ` ${highlight.metric}`, bold: true, color: accent })] : []),
+        ...(highlight.tags?.length ? [new TextRun({ text: ` ${highlight.tags.join(', ')}`, size: 18, color: '6B7280' })] : []),
+      ],
+    }));
+  }
+
+  private docxMuted(text: string, italics: boolean = false): Paragraph[] {
+    if (!text) return [];
+    return [new Paragraph({ children: [new TextRun({ text, italics, size: 19, color: '4B5563' })] })];
+  }
+
+  private docxLink(url: string): ExternalHyperlink {
+    return new ExternalHyperlink({
+      link: url,
+      children: [new TextRun({ text: url, style: 'Hyperlink' })],
+    });
+  }
+
+  private docxSummary(cvData: CVData, title: string, accent: string): Paragraph[] {
+    const introduction = cvData.basic_details?.introduction;
+    if (!introduction) return [];
+    return [this.docxHeading(title, accent), ...this.docxBody(introduction)];
+  }
+
+  private docxExperience(items: Experience[], title: string, accent: string): Paragraph[] {
+    if (items.length === 0) return [];
+    return [
+      this.docxHeading(title, accent),
+      ...items.flatMap((item) => [
+        this.docxEntryHead(item.position, formatRange(item.joining_date, item.leaving_date, item.is_current)),
+        ...this.docxMuted([item.organization_name, item.joining_location].filter(Boolean).join(', '), true),
+        ...this.docxBody(item.description),
+        ...this.docxHighlights(item.highlights, accent),
+        ...this.docxMuted(item.technologies?.join(', ') || ''),
+      ]),
+    ];
+  }
+
+  private docxEducation(items: Education[], title: string, accent: string): Paragraph[] {
+    if (items.length === 0) return [];
+    return [
+      this.docxHeading(title, accent),
+      ...items.flatMap((item) => {
+        const score = item.percentage ? `${item.percentage}%` : item.cgpa ? `CGPA ${item.cgpa}` : '';
+        return [
+          this.docxEntryHead(item.degree_name, formatRange(item.start_date, item.end_date, item.is_current)),
+          ...this.docxMuted([item.institution, score].filter(Boolean).join(' · '), true),
+          ...this.docxBody(item.description),
+        ];
+      }),
+    ];
+  }
+
+  private docxProjects(items: Project[], title: string, accent: string): Paragraph[] {
+    if (items.length === 0) return [];
+    return [
+      this.docxHeading(title, accent),
+      ...items.flatMap((item) => {
+        const meta = [item.duration, item.team_size ? `Team of ${item.team_size}` : ''].filter(Boolean).join(' · ');
+        const links = [item.project_url, item.github_url].filter(Boolean) as string[];
+        const linkRuns: ParagraphChild[] = links.flatMap((url, index) =>
+          index === 0 ? [this.docxLink(url)] : [new TextRun(' · '), this.docxLink(url)]
+        );
+        return [
+          this.docxEntryHead(item.title, meta),
+          ...this.docxBody(item.description),
+          ...this.docxHighlights(item.highlights, accent),
+          ...this.docxMuted(item.technologies?.join(', ') || ''),
+          ...(linkRuns.length ? [new Paragraph({ children: linkRuns })] : []),
+        ];
+      }),
+    ];
+  }
+
+  private docxSkills(items: Skill[], title: string, accent: string): Paragraph[] {
+    if (items.length === 0) return [];
+    const labels: Record<Skill['category'], string> = {
+      technical: 'Technical',
+      interpersonal: 'Interpersonal',
+      language: 'Languages',
+    };
+    const rows = (Object.keys(labels) as Skill['category'][])
+      .map((category) => ({
+        label: labels[category],
+        names: items.filter((skill) => skill.category === category).map((skill) => skill.skill_name),
+      }))
+      .filter((row) => row.names.length > 0)
+      .map((row) => new Paragraph({
+        spacing: { before: 40 },
+        children: [new TextRun({ text: `${row.label}: `, bold: true }), new TextRun(row.names.join(', '))],
+      }));
+    return [this.docxHeading(title, accent), ...rows];
+  }
+
+  private docxSocialProfiles(items: SocialProfile[], title: string, accent: string): Paragraph[] {
+    const visible = items.filter((profile) => profile.is_public !== false);
+    if (visible.length === 0) return [];
+    return [
+      this.docxHeading(title, accent),
+      ...visible.map((profile) => new Paragraph({
+        spacing: { before: 40 },
+        children: [new TextRun({ text: `${profile.platform_name}: `, bold: true }), this.docxLink(profile.profile_url)],
+      })),
+    ];
+  }
+
+  private docxCertifications(items: Certification[], title: string, accent: string): Paragraph[] {
+    if (items.length === 0) return [];
+    return [
+      this.docxHeading(title, accent),
+      ...items.flatMap((item) => {
+        const meta = item.expiry_date
+          ? `${formatMonth(item.issue_date)} – ${formatMonth(item.expiry_date)}`
+          : formatMonth(item.issue_date);
+        return [
+          this.docxEntryHead(item.name, meta),
+          ...this.docxMuted([item.issuer, item.credential_id ? `Credential ID ${item.credential_id}` : ''].filter(Boolean).join(' · '), true),
+          ...(item.credential_url ? [new Paragraph({ children: [this.docxLink(item.credential_url)] })] : []),
+        ];
+      }),
+    ];
+  }
+
+  private docxAwards(items: Award[], title: string, accent: string): Paragraph[] {
+    if (items.length === 0) return [];
+    return [
+      this.docxHeading(title, accent),
+      ...items.flatMap((item) => [
+        this.docxEntryHead(item.title, formatMonth(item.award_date)),
+        ...this.docxMuted(item.issuer || '', true),
+        ...this.docxBody(item.description),
+      ]),
+    ];
+  }
+
+  private docxPublications(items: Publication[], title: string, accent: string): Paragraph[] {
+    if (items.length === 0) return [];
+    return [
+      this.docxHeading(title, accent),
+      ...items.flatMap((item) => [
+        this.docxEntryHead(item.title, formatMonth(item.publication_date)),
+        ...this.docxMuted([item.authors, item.publisher].filter(Boolean).join(' · '), true),
+        ...this.docxBody(item.description),
+        ...(item.url ? [new Paragraph({ children: [this.docxLink(item.url)] })] : []),
+      ]),
+    ];
+  }
+
+  private docxLanguages(items: Language[], title: string, accent: string): Paragraph[] {
+    if (items.length === 0) return [];
+    return [
+      this.docxHeading(title, accent),
+      ...items.map((item) => new Paragraph({
+        spacing: { before: 40 },
+        children: [
+          new TextRun({ text: `${item.language}: `, bold: true }),
+          new TextRun(LANGUAGE_PROFICIENCY_LABELS[item.proficiency] || item.proficiency),
+        ],
+      })),
+    ];
+  }
+
+  private docxVolunteering(items: Volunteering[], title: string, accent: string): Paragraph[] {
+    if (items.length === 0) return [];
+    return [
+      this.docxHeading(title, accent),
+      ...items.flatMap((item) => [
+        this.docxEntryHead(item.role, formatRange(item.start_date, item.end_date, item.is_current)),
+        ...this.docxMuted(item.organization, true),
+        ...this.docxBody(item.description),
+      ]),
+    ];
+  }
+
+  private docxReferences(items: Reference[], title: string, accent: string): Paragraph[] {
+    if (items.length === 0) return [];
+    return [
+      this.docxHeading(title, accent),
+      ...items.flatMap((item) => [
+        this.docxEntryHead(item.name, item.relationship || ''),
+        ...this.docxMuted([item.position, item.organization].filter(Boolean).join(', '), true),
+        ...this.docxMuted([item.email, item.phone].filter(Boolean).join(' · ')),
+      ]),
+    ];
+  }
+
+  private docxCustomSections(sections: CustomSection[], accent: string): Paragraph[] {
+    return sections
+      .filter((section) => (section.items || []).length > 0)
+      .flatMap((section) => [
+        this.docxHeading(section.title, accent),
+        ...section.items.flatMap((item) => [
+          this.docxEntryHead(item.title, item.date || ''),
+          ...this.docxMuted(item.subtitle || '', true),
+          ...this.docxBody(item.description),
+          ...(item.url ? [new Paragraph({ children: [this.docxLink(item.url)] })] : []),
+        ]),
+      ]);
+  }
+
+  /**
+   * Visible, non-empty sections in the CV's order as format-neutral entries (text exports)
+   */
+  private outline(cvData: CVData, options: { standardTitles?: boolean; numericDates?: boolean } = {}): OutlineSection[] {
+    const month = options.numericDates ? formatNumericMonth : formatMonth;
+    const range = (start?: string, end?: string, isCurrent?: boolean) => formatRange(start, end, isCurrent, month);
+    const section = (title: string, entries: OutlineEntry[]): OutlineSection[] =>
+      entries.length > 0 ? [{ title, entries }] : [];
+    const rows = (title: string, items: { label: string; value: string }[]): OutlineSection[] =>
+      items.length > 0 ? [{ title, rows: items }] : [];
+    const links = (...urls: (string | undefined)[]) => urls.filter(Boolean) as string[];
+    const skillLabels: Record<Skill['category'], string> = {
+      technical: 'Technical',
+      interpersonal: 'Interpersonal',
+      language: 'Languages',
+    };
+
+    const builders: Record<CVLayoutSection, (title: string) => OutlineSection[]> = {
+      summary: (title) => cvData.basic_details.introduction ? [{ title, text: cvData.basic_details.introduction }] : [],
+      experience: (title) => section(title, (cvData.experience || []).map((item) => ({
+        title: item.position,
+        meta: range(item.joining_date, item.leaving_date, item.is_current),
+        subtitle: [item.organization_name, item.joining_location].filter(Boolean).join(', '),
+        text: item.description,
+        highlights: item.highlights,
+        notes: item.technologies?.length ? [`Technologies: ${item.technologies.join(', ')}`] : [],
+      }))),
+      education: (title) => section(title, (cvData.education || []).map((item) => ({
+        title: item.degree_name,
+        meta: range(item.start_date, item.end_date, item.is_current),
+        subtitle: [item.institution, item.percentage ? `${item.percentage}%` : item.cgpa ? `CGPA ${item.cgpa}` : ''].filter(Boolean).join(' · '),
+        text: item.description,
+      }))),
+      projects: (title) => section(title, (cvData.projects || []).map((item) => ({
+        title: item.title,
+        meta: [item.duration, item.team_size ? `Team of ${item.team_size}` : ''].filter(Boolean).join(' · '),
+        text: item.description,
+        highlights: item.highlights,
+        notes: [
+          ...(item.technologies?.length ? [`Technologies: ${item.technologies.join(', ')}`] : []),
+          ...links(item.project_url, item.github_url),
+        ],
+      }))),
+      skills: (title) => rows(title, (Object.keys(skillLabels) as Skill['category'][])
+        .map((category) => ({
+          label: skillLabels[category],
+          value: (cvData.skills || []).filter((skill) => skill.category === category).map((skill) => skill.skill_name).join(', '),
+        }))
+        .filter((row) => row.value)),
+      social_profiles: (title) => rows(title, (cvData.social_profiles || [])
+        .filter((profile) => profile.is_public !== false)
+        .map((profile) => ({ label: profile.platform_name, value: profile.profile_url }))),
+      certifications: (title) => section(title, (cvData.certifications || []).map((item) => ({
+        title: item.name,
+        meta: item.expiry_date ? `${month(item.issue_date)} – ${month(item.expiry_date)}` : month(item.issue_date),
+        subtitle: [item.issuer, item.credential_id ? `Credential ID ${item.credential_id}` : ''].filter(Boolean).join(' · '),
+        notes: links(item.credential_url),
+      }))),
+      awards: (title) => section(title, (cvData.awards || []).map((item) => ({
+        title: item.title,
+        meta: month(item.award_date),
+        subtitle: item.issuer,
+        text: item.description,
+      }))),
+      publications: (title) => section(title, (cvData.publications || []).map((item) => ({
+        title: item.title,
+        meta: month(item.publication_date),
+        subtitle: [item.authors, item.publisher].filter(Boolean).join(' · '),
+        text: item.description,
+        notes: links(item.url),
+      }))),
+      languages: (title) => rows(title, (cvData.languages || []).map((item) => ({
+        label: item.language,
+        value: LANGUAGE_PROFICIENCY_LABELS[item.proficiency] || item.proficiency,
+      }))),
+      volunteering: (title) => section(title, (cvData.volunteering || []).map((item) => ({
+        title: item.role,
+        meta: range(item.start_date, item.end_date, item.is_current),
+        subtitle: item.organization,
+        text: item.description,
+      }))),
+      references: (title) => section(title, (cvData.references || []).map((item) => ({
+        title: item.name,
+        meta: item.relationship,
+        subtitle: [item.position, item.organization].filter(Boolean).join(', '),
+        notes: [[item.email, item.phone].filter(Boolean).join(' · ')].filter(Boolean),
+      }))),
+      custom_sections: () => (cvData.custom_sections || []).flatMap((custom) => section(custom.title, (custom.items || []).map((item) => ({
+        title: item.title,
+        meta: item.date,
+        subtitle: item.subtitle,
+        text: item.description,
+        notes: links(item.url),
+      })))),
+    };
+
+    return SectionLayoutUtil.visible(cvData.cv.section_config).flatMap((visible) =>
+      builders[visible.key](options.standardTitles ? DEFAULT_SECTION_TITLES[visible.key] : visible.title));
+  }
+
+  /**
+   * Rich text field re-written as Markdown (stored text is re-escaped, not copied)
+   */
+  private markdownRichText(text?: string | null): string {
+    const runs = (items: RichTextRun[]) => items
+      .map((run) => {
+        let markdown = escapeMarkdown(run.text);
+        if (run.bold) markdown = `**${markdown}**`;
+        if (run.italic) markdown = `*${markdown}*`;
+        return run.href ? `[${markdown}](${run.href.replace(/[()]/g, (char) => encodeURIComponent(char))})` : markdown;
+      })
+      .join('');
+    // Paragraph lines must not start like a heading, quote or list item
+    const line = (items: RichTextRun[]) => runs(items)
+      .replace(/^([#>+-])(?=\s)/, '\\$1')
+      .replace(/^(\d+)\.(?=\s)/, '$1\\.');
+
+    return RichTextUtil.parse(text)
+      .map((block) => block.type === 'list'
+        ? block.items.map((item) => `- ${runs(item)}`).join('\n')
+        : block.lines.map(line).join('  \n'))
+      .join('\n\n');
+  }
+
+  /**
+   * Rich text field without formatting; link targets follow their text in parentheses
+   */
+  private plainRichText(text?: string | null): string {
+    const runs = (items: RichTextRun[]) => items
+      .map((run) => run.href && run.href !== run.text ? `${run.text} (${run.href.replace(/^mailto:/, '')})` : run.text)
+      .join('');
+
+    return RichTextUtil.parse(text)
+      .map((block) => block.type === 'list'
+        ? block.items.map((item) => `- ${runs(item)}`).join('\n')
+        : block.lines.map(runs).join('\n'))
+      .join('\n\n');
+  }
+
+  /**
+   * Rich text field as LaTeX: itemize lists, \textbf, \emph and \href
+   */
+  private latexRichText(text?: string | null): string {
+    const runs = (items: RichTextRun[]) => items
+      .map((run) => {
+        let latex = escapeLatex(run.text);
+        if (run.bold) latex = `\\textbf{${latex}}`;
+        if (run.italic) latex = `\\emph{${latex}}`;
+        return run.href ? `\\href{${escapeLatexUrl(run.href)}}{${latex}}` : latex;
+      })
+      .join('');
+
+    return RichTextUtil.parse(text)
+      .map((block) => block.type === 'list'
+        ? `\\begin{itemize}${block.items.map((item) => `\\item ${runs(item)}`).join(' ')}\\end{itemize}`
+        : block.lines.map(runs).join('\\newline '))
+      .join('\\par ');
+  }
+}
+
+export default CVRenderService;
@@ -0,0 +1,116 @@
+import { EmailOutboxEntry, MailDeliveryResult, MailMessage } from '@/shared/types';
+import { EmailOutboxModel } from '@/models/EmailOutbox';
+import { EmailOutboxService } from '@/services/EmailOutboxService';
+import { MailService, MailTransport, MemoryTransport } from '@/services/MailService';
+
+jest.mock('@/config/database', () => ({ database: { getClient: () => ({}) } }));
+jest.mock('@/utils/logger', () => ({ logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn() } }));
+
+// Fails the first `failures` sends, then delivers
+class FlakyTransport implements MailTransport {
+  readonly name = 'flaky';
+  readonly sent: MailMessage[] = [];
+
+  constructor(private failures: number) {}
+
+  async send(message: MailMessage): Promise<MailDeliveryResult> {
+    if (this.failures > 0) {
+      this.failures -= 1;
+      throw new Error('Connection refused');
+    }
+    this.sent.push(message);
+    return { messageId: '<1@flaky>', transport: this.name };
+  }
+}
+
+const buildEntry = (overrides: Partial<EmailOutboxEntry> = {}): EmailOutboxEntry => ({
+  id: 'email-1',
+  to_email: 'ada@example.com',
+  template: 'email_verification',
+  subject: 'Verify your email',
+  html: '<p>Verify</p>',
+  text: 'Verify',
+  status: 'pending',
+  attempts: 0,
+  next_attempt_at: '2025-01-01T10:00:00.000Z',
+  created_at: '2025-01-01T10:00:00.000Z',
+  updated_at: '2025-01-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const buildOutboxModel = () => ({
+  enqueue: jest.fn(async () => buildEntry()),
+  findDue: jest.fn(async (): Promise<EmailOutboxEntry[]> => []),
+  claim: jest.fn(async (entry: EmailOutboxEntry): Promise<EmailOutboxEntry | null> => entry),
+  markSent: jest.fn(async () => undefined),
+  markAttemptFailed: jest.fn(async () => undefined),
+});
+
+describe('EmailOutboxService', () => {
+  let outboxModel: ReturnType<typeof buildOutboxModel>;
+
+  const buildService = (transport: MailTransport) =>
+    new EmailOutboxService(new MailService(transport), outboxModel as unknown as EmailOutboxModel);
+
+  beforeEach(() => {
+    outboxModel = buildOutboxModel();
+  });
+
+  it('sends a queued email right away', async () => {
+    const transport = new MemoryTransport();
+
+    await buildService(transport).queue('ada@example.com', 'email_verification', { subject: 'Verify your email', html: '', text: '' });
+
+    expect(transport.sent).toHaveLength(1);
+    expect(outboxModel.markSent).toHaveBeenCalledWith('email-1', 1);
+    expect(outboxModel.markAttemptFailed).not.toHaveBeenCalled();
+  });
+
+  it('keeps a failed email for retry instead of failing the caller', async () => {
+    const service = buildService(new FlakyTransport(1));
+
+    await expect(service.queue('ada@example.com', 'email_verification', { subject: 'Verify your email', html: '', text: '' }))
+      .resolves.toMatchObject({ id: 'email-1' });
+
+    expect(outboxModel.markAttemptFailed).toHaveBeenCalledWith('email-1', 1, 'Connection refused');
+    expect(outboxModel.markSent).not.toHaveBeenCalled();
+  });
+
+  it('retries due emails and counts the ones delivered', async () => {
+    const transport = new FlakyTransport(1);
+    outboxModel.findDue.mockResolvedValue([
+      buildEntry({ id: 'email-1', attempts: 2 }),
+      buildEntry({ id: 'email-2', attempts: 0 }),
+    ]);
+
+    await expect(buildService(transport).processDue()).resolves.toBe(1);
+
+    expect(outboxModel.markAttemptFailed).toHaveBeenCalledWith('email-1', 3, 'Connection refused');
+    expect(outboxModel.markSent).toHaveBeenCalledWith('email-2', 1);
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it('skips emails another sender has claimed', async () => {
+    const transport = new MemoryTransport();
+    outboxModel.findDue.mockResolvedValue([buildEntry()]);
+    outboxModel.claim.mockResolvedValue(null);
+
+    await expect(buildService(transport).processDue()).resolves.toBe(0);
+
+    expect(transport.sent).toEqual([]);
+    expect(outboxModel.markSent).not.toHaveBeenCalled();
+  });
+
+  it('does not start a second run while one is in progress', async () => {
+    let finishFirstRun: (entries: EmailOutboxEntry[]) => void = () => undefined;
+    outboxModel.findDue.mockReturnValueOnce(new Promise((resolve) => { finishFirstRun = resolve; }));
+    const service = buildService(new MemoryTransport());
+
+    const firstRun = service.processDue();
+    await expect(service.processDue()).resolves.toBe(0);
+    finishFirstRun([]);
+    await firstRun;
+
+    expect(outboxModel.findDue).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Email Outbox Service
+ *
+ * Business Logic:
+ * - Transactional emails are written to the outbox first, then sent immediately
+ * - Anything that could not be sent is retried by a background worker with exponential backoff
+ * - Callers never fail because a mail server is down; the outbox keeps the message
+ *
+ * Code Conventions:
+ * - Rendering lives in `EmailTemplateService`, delivery in `MailService`
+ * - Both collaborators are injectable for tests and scripts
+ *
+ * @fileoverview Reliable delivery of transactional email
+ * @author vicky neosoft test builder app
+ */
+import { EmailOutboxModel } from '@/models/EmailOutbox';
+import { MailService } from '@/services/MailService';
+import { EmailOutboxEntry, EmailTemplate } from '@/shared/types';
+import { EMAIL_OUTBOX } from '@/shared/constants';
+import { logger } from '@/utils/logger';
+
+/**
+ * Email Outbox Service class
+ *
+ * @class EmailOutboxService
+ */
+export class EmailOutboxService {
+  private outboxModel: EmailOutboxModel;
+  private mailService: MailService;
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  constructor(mailService: MailService = new MailService(), outboxModel: EmailOutboxModel = new EmailOutboxModel()) {
+    this.mailService = mailService;
+    this.outboxModel = outboxModel;
+  }
+
+  /**
+   * Queue an email and try to deliver it right away
+   */
+  async queue(
+    toEmail: string,
+    templateName: EmailOutboxEntry['template'],
+    template: EmailTemplate,
+    userId?: string
+  ): Promise<EmailOutboxEntry> {
+    const entry = await this.outboxModel.enqueue(toEmail, templateName, template, userId);
+    await this.deliver(entry);
+    return entry;
+  }
+
+  /**
+   * Deliver every due entry once; returns the number of emails sent
+   */
+  async processDue(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+    try {
+      const entries = await this.outboxModel.findDue();
+      let sent = 0;
+
+      for (const entry of entries) {
+        if (await this.deliver(entry)) {
+          sent += 1;
+        }
+      }
+
+      return sent;
+    } catch (error: any) {
+      logger.error('Email outbox processing error:', error);
+      return 0;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Start retrying due emails in the background
+   */
+  startWorker(intervalMs: number = EMAIL_OUTBOX.POLL_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.processDue();
+    }, intervalMs);
+    this.timer.unref();
+
+    logger.info(`Email outbox worker started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  /**
+   * Stop the background worker
+   */
+  stopWorker(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send a single entry; failures are recorded for retry, never thrown
+   */
+  private async deliver(entry: EmailOutboxEntry): Promise<boolean> {
+    let claimed: EmailOutboxEntry | null;
+    try {
+      claimed = await this.outboxModel.claim(entry);
+    } catch (error: any) {
+      logger.warn(`Email ${entry.id} could not be claimed: ${error.message}`);
+      return false;
+    }
+
+    if (!claimed) {
+      return false;
+    }
+
+    const attempts = claimed.attempts + 1;
+
+    try {
+      await this.mailService.send(claimed.to_email, {
+        subject: claimed.subject,
+        html: claimed.html,
+        text: claimed.text,
+      });
+      await this.outboxModel.markSent(claimed.id, attempts);
+      return true;
+    } catch (error: any) {
+      logger.warn(`Email ${claimed.id} (${claimed.template}) attempt ${attempts} failed: ${error.message}`);
+      await this.outboxModel
+        .markAttemptFailed(claimed.id, attempts, error.message || 'Unknown error')
+        .catch((markError: Error) => logger.error('Failed to record email failure:', markError));
+      return false;
+    }
+  }
+}
+
+export default EmailOutboxService;
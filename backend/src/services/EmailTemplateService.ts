@@ -0,0 +1,156 @@
+/**
+ * Email Template Service
+ *
+ * Business Logic:
+ * - Renders every outgoing email as an `EmailTemplate` (subject, HTML and plain-text bodies)
+ * - All templates share one branded HTML layout; the text body carries the same content
+ *
+ * Code Conventions:
+ * - Pure rendering; no delivery and no data access
+ * - All interpolated values are HTML-escaped
+ *
+ * @fileoverview Email template rendering
+ * @author vicky neosoft test builder app
+ */
+import { EmailTemplate } from '@/shared/types';
+
+const APP_NAME = 'CV Builder';
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Email Template Service class
+ *
+ * @class EmailTemplateService
+ */
+export class EmailTemplateService {
+  /**
+   * CV shared by email
+   */
+  renderCVShare(data: {
+    senderName: string;
+    cvTitle: string;
+    link?: string;
+    message?: string;
+    hasAttachment: boolean;
+  }): EmailTemplate {
+    const subject = `${data.senderName} shared their CV with you`;
+
+    const intro = `${data.senderName} has shared their CV "${data.cvTitle}" with you.`;
+    const note = data.message ? data.message.trim() : '';
+    const attachmentLine = data.hasAttachment ? 'A PDF copy is attached to this email.' : '';
+
+    const html = this.layout(subject, [
+      `<p>${escapeHtml(intro)}</p>`,
+      note ? `<blockquote style="margin:16px 0;padding:8px 16px;border-left:3px solid #2563eb;color:#374151;">${escapeHtml(note).replace(/\n/g, '<br>')}</blockquote>` : '',
+      data.link ? this.button('View CV', data.link) : '',
+      attachmentLine ? `<p>${escapeHtml(attachmentLine)}</p>` : '',
+    ]);
+
+    const text = [
+      intro,
+      note ? `\nMessage:\n${note}` : '',
+      data.link ? `\nView CV: ${data.link}` : '',
+      attachmentLine ? `\n${attachmentLine}` : '',
+      this.textFooter(),
+    ].filter(Boolean).join('\n');
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Email address verification after sign-up
+   */
+  renderEmailVerification(data: { username: string; link: string; expiresInHours: number }): EmailTemplate {
+    const subject = `Verify your ${APP_NAME} email address`;
+    const intro = `Hi ${data.username}, please confirm your email address to finish setting up your account.`;
+    const expiry = `This link expires in ${data.expiresInHours} hours. If you did not create an account, you can ignore this email.`;
+
+    return {
+      subject,
+      html: this.layout(subject, [
+        `<p>${escapeHtml(intro)}</p>`,
+        this.button('Verify email', data.link),
+        `<p style="font-size:13px;color:#6b7280;">${escapeHtml(expiry)}</p>`,
+      ]),
+      text: [intro, `\nVerify email: ${data.link}`, `\n${expiry}`, this.textFooter()].join('\n'),
+    };
+  }
+
+  /**
+   * Password reset by link
+   */
+  renderPasswordResetLink(data: { username: string; link: string; expiresInMinutes: number }): EmailTemplate {
+    const subject = `Reset your ${APP_NAME} password`;
+    const intro = `Hi ${data.username}, we received a request to reset your password.`;
+    const expiry = `This link expires in ${data.expiresInMinutes} minutes and can be used once. If you did not ask for a reset, you can ignore this email.`;
+
+    return {
+      subject,
+      html: this.layout(subject, [
+        `<p>${escapeHtml(intro)}</p>`,
+        this.button('Reset password', data.link),
+        `<p style="font-size:13px;color:#6b7280;">${escapeHtml(expiry)}</p>`,
+      ]),
+      text: [intro, `\nReset password: ${data.link}`, `\n${expiry}`, this.textFooter()].join('\n'),
+    };
+  }
+
+  /**
+   * Password reset by one-time code
+   */
+  renderPasswordResetOTP(data: { username: string; otp: string; expiresInMinutes: number }): EmailTemplate {
+    const subject = `Your ${APP_NAME} password reset code`;
+    const intro = `Hi ${data.username}, use this code to reset your password:`;
+    const expiry = `The code expires in ${data.expiresInMinutes} minutes. Never share it with anyone; we will never ask for it.`;
+
+    return {
+      subject,
+      html: this.layout(subject, [
+        `<p>${escapeHtml(intro)}</p>`,
+        `<p style="margin:24px 0;font-size:32px;font-weight:700;letter-spacing:8px;">${escapeHtml(data.otp)}</p>`,
+        `<p style="font-size:13px;color:#6b7280;">${escapeHtml(expiry)}</p>`,
+      ]),
+      text: [intro, `\n${data.otp}`, `\n${expiry}`, this.textFooter()].join('\n'),
+    };
+  }
+
+  /**
+   * Call-to-action button (with the raw URL as a fallback for clients that strip styles)
+   */
+  private button(label: string, url: string): string {
+    const safeUrl = escapeHtml(url);
+    return `<p style="margin:24px 0;"><a href="${safeUrl}" style="display:inline-block;padding:12px 24px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px;font-weight:600;">${escapeHtml(label)}</a></p>`
+      + `<p style="font-size:12px;color:#6b7280;">Or open this link: <a href="${safeUrl}">${safeUrl}</a></p>`;
+  }
+
+  /**
+   * Shared HTML layout
+   */
+  private layout(title: string, blocks: string[]): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+    <h1 style="font-size:20px;margin:0 0 16px;">${escapeHtml(title)}</h1>
+    ${blocks.filter(Boolean).join('\n    ')}
+    <hr style="border:none;border-top:1px solid #e5e7eb;margin:24px 0;">
+    <p style="font-size:12px;color:#6b7280;">Sent by ${APP_NAME}.</p>
+  </div>
+</body>
+</html>`;
+  }
+
+  private textFooter(): string {
+    return `\n--\nSent by ${APP_NAME}.`;
+  }
+}
+
+export default EmailTemplateService;
@@ -0,0 +1,147 @@
+/**
+ * Mail Service
+ *
+ * Business Logic:
+ * - Sends rendered `EmailTemplate`s through a pluggable transport
+ * - `smtp` delivers for real; `file` writes .eml files for local development;
+ *   `memory` keeps messages in-process for tests and scripts
+ * - The transport is chosen by `config.email.transport` unless one is injected
+ *
+ * Code Conventions:
+ * - Transports implement `MailTransport` and know nothing about templates
+ * - Delivery failures are thrown to the caller; nothing is retried here
+ *
+ * @fileoverview Outgoing email delivery
+ * @author vicky neosoft test builder app
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '@/config/environment';
+import { EmailTemplate, MailAttachment, MailDeliveryResult, MailMessage } from '@/shared/types';
+import { logger } from '@/utils/logger';
+
+/**
+ * Contract every mail transport implements
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<MailDeliveryResult>;
+}
+
+/**
+ * Delivers mail through an SMTP server (nodemailer)
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: config.email.smtpHost,
+      port: config.email.smtpPort,
+      secure: config.email.smtpPort === 465,
+      auth: config.email.smtpUser
+        ? { user: config.email.smtpUser, pass: config.email.smtpPass }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<MailDeliveryResult> {
+    const info = await this.transporter.sendMail(message);
+    return { messageId: info.messageId, transport: this.name };
+  }
+}
+
+/**
+ * Writes each message as an .eml file (open it with any mail client)
+ */
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+  private transporter: Transporter;
+
+  constructor(private outputDir: string = config.email.outputDir) {
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  }
+
+  async send(message: MailMessage): Promise<MailDeliveryResult> {
+    const info = await this.transporter.sendMail(message);
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${uuidv4()}.eml`;
+
+    await fs.mkdir(this.outputDir, { recursive: true });
+    await fs.writeFile(path.join(this.outputDir, fileName), info.message as Buffer);
+
+    logger.info(`Email to ${message.to} written to ${path.join(this.outputDir, fileName)}`);
+    return { messageId: info.messageId, transport: this.name };
+  }
+}
+
+/**
+ * Keeps sent messages in memory
+ */
+export class MemoryTransport implements MailTransport {
+  readonly name = 'memory';
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<MailDeliveryResult> {
+    this.sent.push(message);
+    return { messageId: `<${uuidv4()}@memory>`, transport: this.name };
+  }
+}
+
+/**
+ * Mail Service class
+ *
+ * @class MailService
+ */
+export class MailService {
+  private static defaultTransport: MailTransport | null = null;
+  private transport: MailTransport;
+
+  constructor(transport?: MailTransport) {
+    this.transport = transport || MailService.getDefaultTransport();
+  }
+
+  /**
+   * Send a rendered template to a single recipient
+   */
+  async send(
+    to: string,
+    template: EmailTemplate,
+    options: { replyTo?: string; attachments?: MailAttachment[] } = {}
+  ): Promise<MailDeliveryResult> {
+    const result = await this.transport.send({
+      ...template,
+      to,
+      from: config.email.from,
+      replyTo: options.replyTo,
+      attachments: options.attachments,
+    });
+
+    logger.info(`Email "${template.subject}" sent to ${to} via ${result.transport}`);
+    return result;
+  }
+
+  /**
+   * Shared transport built from configuration (one SMTP pool per process)
+   */
+  private static getDefaultTransport(): MailTransport {
+    if (!MailService.defaultTransport) {
+      switch (config.email.transport) {
+        case 'smtp':
+          MailService.defaultTransport = new SmtpTransport();
+          break;
+        case 'memory':
+          MailService.defaultTransport = new MemoryTransport();
+          break;
+        default:
+          MailService.defaultTransport = new FileTransport();
+      }
+    }
+
+    return MailService.defaultTransport;
+  }
+}
+
+export default MailService;
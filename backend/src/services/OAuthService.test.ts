@@ -0,0 +1,168 @@
+import { OAuthProfile, User } from '@/shared/types';
+import { OAUTH_PROVIDERS } from '@/shared/constants';
+import { GoogleOAuthVerifier, OAuthService, OAuthVerifier } from '@/services/OAuthService';
+import { AuthService } from '@/services/AuthService';
+import { EmailOutboxService } from '@/services/EmailOutboxService';
+
+const mockUserModel = {
+  findOAuthUser: jest.fn(),
+  findByEmail: jest.fn(),
+  update: jest.fn(),
+  updateLastLogin: jest.fn(),
+  createOAuthUser: jest.fn(),
+};
+
+jest.mock('@/config/database', () => ({
+  database: { getClient: () => ({ from: () => ({ insert: jest.fn().mockResolvedValue({ error: null }) }) }) },
+}));
+jest.mock('@/utils/logger', () => ({ logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn() } }));
+jest.mock('@/models/User', () => ({ UserModel: jest.fn(() => mockUserModel) }));
+
+const profile: OAuthProfile = {
+  id: 'google-123',
+  email: 'ada@example.com',
+  name: 'Ada Lovelace',
+  picture: 'https://example.com/ada.png',
+  provider: OAUTH_PROVIDERS.GOOGLE,
+};
+
+const user = {
+  id: 'user-1',
+  username: 'ada',
+  email: 'ada@example.com',
+  password_hash: 'hash',
+  role: 'user',
+  is_active: true,
+  is_verified: false,
+} as User;
+
+// Stands in for the provider round trip: known tokens map to a profile, anything else is rejected
+class FakeVerifier implements OAuthVerifier {
+  readonly provider = OAUTH_PROVIDERS.GOOGLE;
+  verify = jest.fn(async (accessToken: string): Promise<OAuthProfile> => {
+    if (accessToken !== 'valid-token') {
+      throw new Error('Invalid OAuth token');
+    }
+    return profile;
+  });
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('OAuth login', () => {
+  let verifier: FakeVerifier;
+  let authService: AuthService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    verifier = new FakeVerifier();
+    authService = new AuthService({} as EmailOutboxService, new OAuthService([verifier]));
+  });
+
+  it('signs in the user linked to a valid token', async () => {
+    mockUserModel.findOAuthUser.mockResolvedValue({ ...user, oauth_provider: 'google', oauth_id: 'google-123' });
+
+    const response = await authService.oauthLoginWithToken(OAUTH_PROVIDERS.GOOGLE, 'valid-token');
+
+    expect(verifier.verify).toHaveBeenCalledWith('valid-token');
+    expect(mockUserModel.findOAuthUser).toHaveBeenCalledWith('google', 'google-123');
+    expect(mockUserModel.updateLastLogin).toHaveBeenCalledWith('user-1');
+    expect(response.user).toMatchObject({ id: 'user-1', email: 'ada@example.com' });
+    expect(response.user).not.toHaveProperty('password_hash');
+    expect(response.access_token).toEqual(expect.any(String));
+  });
+
+  it('rejects an expired or foreign token before touching any account', async () => {
+    await expect(authService.oauthLoginWithToken(OAUTH_PROVIDERS.GOOGLE, 'expired-token'))
+      .rejects.toThrow('Invalid OAuth token');
+
+    expect(mockUserModel.findOAuthUser).not.toHaveBeenCalled();
+    expect(mockUserModel.createOAuthUser).not.toHaveBeenCalled();
+  });
+
+  it('rejects providers without a verifier', async () => {
+    await expect(authService.oauthLoginWithToken(OAUTH_PROVIDERS.FACEBOOK, 'valid-token'))
+      .rejects.toThrow('OAuth provider not configured');
+  });
+
+  it('links the provider to an existing account with the same email', async () => {
+    mockUserModel.findOAuthUser.mockResolvedValue(null);
+    mockUserModel.findByEmail.mockResolvedValue(user);
+    mockUserModel.update.mockImplementation(async (id: string, updates: Partial<User>) => ({ ...user, ...updates, id }));
+
+    const response = await authService.oauthLoginWithToken(OAUTH_PROVIDERS.GOOGLE, 'valid-token');
+
+    expect(mockUserModel.findByEmail).toHaveBeenCalledWith('ada@example.com');
+    expect(mockUserModel.update).toHaveBeenCalledWith('user-1', {
+      is_verified: true,
+      oauth_provider: 'google',
+      oauth_id: 'google-123',
+      profile_image_url: 'https://example.com/ada.png',
+    });
+    expect(mockUserModel.createOAuthUser).not.toHaveBeenCalled();
+    expect(response.user).toMatchObject({ id: 'user-1', is_verified: true, oauth_provider: 'google' });
+  });
+
+  it('keeps the first linked provider when another one signs in by email', async () => {
+    mockUserModel.findOAuthUser.mockResolvedValue(null);
+    mockUserModel.findByEmail.mockResolvedValue({ ...user, oauth_provider: 'facebook', oauth_id: 'fb-1', profile_image_url: 'x' });
+    mockUserModel.update.mockImplementation(async (id: string, updates: Partial<User>) => ({ ...user, ...updates, id }));
+
+    await authService.oauthLoginWithToken(OAUTH_PROVIDERS.GOOGLE, 'valid-token');
+
+    expect(mockUserModel.update).toHaveBeenCalledWith('user-1', { is_verified: true });
+  });
+});
+
+describe('GoogleOAuthVerifier', () => {
+  const verifier = new GoogleOAuthVerifier({
+    clientId: 'client-1',
+    tokenInfoUrl: 'https://oauth.test/tokeninfo',
+    userInfoUrl: 'https://oauth.test/userinfo',
+  });
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('rejects a token the provider no longer accepts', async () => {
+    fetchMock.mockResolvedValueOnce(json({ error: 'invalid_token' }, 400));
+
+    await expect(verifier.verify('expired-token')).rejects.toThrow('Invalid OAuth token');
+  });
+
+  it('rejects a token issued to another app', async () => {
+    fetchMock.mockResolvedValueOnce(json({ aud: 'other-client', sub: 'google-123' }));
+
+    await expect(verifier.verify('foreign-token')).rejects.toThrow('Invalid OAuth token');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a provider account without an email address', async () => {
+    fetchMock
+      .mockResolvedValueOnce(json({ aud: 'client-1', sub: 'google-123' }))
+      .mockResolvedValueOnce(json({ sub: 'google-123', name: 'Ada Lovelace' }));
+
+    await expect(verifier.verify('valid-token')).rejects.toThrow('OAuth account has no email address');
+  });
+
+  it('returns the normalised profile for a valid token', async () => {
+    fetchMock
+      .mockResolvedValueOnce(json({ aud: 'client-1', sub: 'google-123' }))
+      .mockResolvedValueOnce(json({ sub: 'google-123', email: 'Ada@Example.com', email_verified: true, name: 'Ada Lovelace' }));
+
+    await expect(verifier.verify('valid-token')).resolves.toEqual({
+      id: 'google-123',
+      email: 'ada@example.com',
+      name: 'Ada Lovelace',
+      picture: undefined,
+      provider: 'google',
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * OAuth Service
+ *
+ * Business Logic:
+ * - Verifies access tokens obtained by the frontend from Google or Facebook
+ * - A token is only accepted if the provider confirms it was issued to this app
+ *   (Google `aud`/`azp`, Facebook `debug_token.app_id`)
+ * - Returns a normalised `OAuthProfile`; only provider-verified email addresses are accepted,
+ *   since accounts are linked by email
+ *
+ * Code Conventions:
+ * - One `OAuthVerifier` per provider; endpoints are constructor options so a
+ *   local stub server (or a fake verifier) can stand in for the real provider
+ * - Verification failures throw `Error('Invalid OAuth token')` or another message the controller maps
+ *
+ * @fileoverview Social login token verification
+ * @author vicky neosoft test builder app
+ */
+import crypto from 'crypto';
+import { config } from '@/config/environment';
+import { OAUTH_PROVIDERS } from '@/shared/constants';
+import { OAuthProfile, OAuthProvider } from '@/shared/types';
+import { logger } from '@/utils/logger';
+
+/**
+ * Contract every provider verifier implements
+ */
+export interface OAuthVerifier {
+  readonly provider: OAuthProvider;
+  verify(accessToken: string): Promise<OAuthProfile>;
+}
+
+/**
+ * GET a JSON document; any non-2xx response means the token was rejected
+ */
+const getJson = async (url: string, headers: Record<string, string> = {}): Promise<any> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { Accept: 'application/json', ...headers } });
+  } catch (error: any) {
+    logger.error(`OAuth provider request failed: ${error.message}`);
+    throw new Error('OAuth provider unavailable');
+  }
+
+  if (!response.ok) {
+    throw new Error('Invalid OAuth token');
+  }
+
+  return response.json();
+};
+
+/**
+ * Google: token info (audience, verified email) plus the OpenID userinfo profile
+ */
+export class GoogleOAuthVerifier implements OAuthVerifier {
+  readonly provider = OAUTH_PROVIDERS.GOOGLE;
+
+  constructor(
+    private options: { clientId: string; tokenInfoUrl: string; userInfoUrl: string } = {
+      clientId: config.oauth.google.clientId,
+      tokenInfoUrl: 'https://oauth2.googleapis.com/tokeninfo',
+      userInfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo',
+    }
+  ) {}
+
+  async verify(accessToken: string): Promise<OAuthProfile> {
+    if (!this.options.clientId) {
+      throw new Error('OAuth provider not configured');
+    }
+
+    const tokenInfo = await getJson(`${this.options.tokenInfoUrl}?access_token=${encodeURIComponent(accessToken)}`);
+    if (tokenInfo.aud !== this.options.clientId && tokenInfo.azp !== this.options.clientId) {
+      throw new Error('Invalid OAuth token');
+    }
+
+    const userInfo = await getJson(this.options.userInfoUrl, { Authorization: `Bearer ${accessToken}` });
+    if (!userInfo.sub || userInfo.sub !== tokenInfo.sub) {
+      throw new Error('Invalid OAuth token');
+    }
+
+    if (!userInfo.email) {
+      throw new Error('OAuth account has no email address');
+    }
+
+    // Google sends the flag as a boolean from userinfo and a string from tokeninfo
+    if (userInfo.email_verified !== true && userInfo.email_verified !== 'true') {
+      throw new Error('OAuth email not verified');
+    }
+
+    return {
+      id: userInfo.sub,
+      email: String(userInfo.email).toLowerCase(),
+      name: userInfo.name || userInfo.email,
+      picture: userInfo.picture,
+      provider: this.provider,
+    };
+  }
+}
+
+/**
+ * Facebook: Graph API `debug_token` (app check) plus `/me`
+ */
+export class FacebookOAuthVerifier implements OAuthVerifier {
+  readonly provider = OAUTH_PROVIDERS.FACEBOOK;
+
+  constructor(
+    private options: { appId: string; appSecret: string; graphUrl: string } = {
+      appId: config.oauth.facebook.appId,
+      appSecret: config.oauth.facebook.appSecret,
+      graphUrl: 'https://graph.facebook.com/v19.0',
+    }
+  ) {}
+
+  async verify(accessToken: string): Promise<OAuthProfile> {
+    const { appId, appSecret, graphUrl } = this.options;
+    if (!appId || !appSecret) {
+      throw new Error('OAuth provider not configured');
+    }
+
+    const debug = await getJson(
+      `${graphUrl}/debug_token?input_token=${encodeURIComponent(accessToken)}&access_token=${encodeURIComponent(`${appId}|${appSecret}`)}`
+    );
+    if (!debug.data?.is_valid || String(debug.data.app_id) !== String(appId)) {
+      throw new Error('Invalid OAuth token');
+    }
+
+    const proof = crypto.createHmac('sha256', appSecret).update(accessToken).digest('hex');
+    const me = await getJson(
+      `${graphUrl}/me?fields=id,name,email,picture.width(256)&access_token=${encodeURIComponent(accessToken)}&appsecret_proof=${proof}`
+    );
+    if (!me.id || String(me.id) !== String(debug.data.user_id)) {
+      throw new Error('Invalid OAuth token');
+    }
+
+    // Facebook only returns confirmed email addresses, and only with the `email` permission
+    if (!me.email) {
+      throw new Error('OAuth account has no email address');
+    }
+
+    return {
+      id: String(me.id),
+      email: String(me.email).toLowerCase(),
+      name: me.name || me.email,
+      picture: me.picture?.data?.is_silhouette ? undefined : me.picture?.data?.url,
+      provider: this.provider,
+    };
+  }
+}
+
+/**
+ * OAuth Service class
+ *
+ * @class OAuthService
+ */
+export class OAuthService {
+  private verifiers: Map<OAuthProvider, OAuthVerifier>;
+
+  constructor(verifiers: OAuthVerifier[] = [new GoogleOAuthVerifier(), new FacebookOAuthVerifier()]) {
+    this.verifiers = new Map(verifiers.map((verifier) => [verifier.provider, verifier]));
+  }
+
+  /**
+   * Verify a provider access token and return the user's profile
+   */
+  async verify(provider: OAuthProvider, accessToken: string): Promise<OAuthProfile> {
+    const verifier = this.verifiers.get(provider);
+    if (!verifier) {
+      throw new Error('OAuth provider not configured');
+    }
+
+    return verifier.verify(accessToken);
+  }
+}
+
+export default OAuthService;
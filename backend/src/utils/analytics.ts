@@ -0,0 +1,136 @@
+/**
+ * Analytics Utilities
+ *
+ * Business Logic:
+ * - Derives privacy-friendly view attributes from a raw request (no IPs or full UAs are stored)
+ * - Visitor hashes are salted per CV and per day, so visitors cannot be followed across CVs or days
+ * - Buckets timestamped events into zero-filled daily (UTC) series
+ *
+ * Code Conventions:
+ * - Pure static helpers; no I/O and no logging
+ *
+ * @fileoverview CV view attribution and time-series helpers
+ * @author vicky neosoft test builder app
+ */
+import { createHash } from 'crypto';
+import { config } from '@/config/environment';
+import { USER_AGENT_CLASSES, VIEW_CHANNELS } from '@/shared/constants';
+import { CVView } from '@/shared/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Utility class for view tracking and analytics aggregation
+ */
+export class AnalyticsUtil {
+  /**
+   * Classify a user-agent string into a coarse device class
+   */
+  static classifyUserAgent(userAgent?: string): CVView['user_agent_class'] | 'bot' {
+    if (!userAgent) {
+      return USER_AGENT_CLASSES.OTHER;
+    }
+
+    const ua = userAgent.toLowerCase();
+
+    if (/bot|crawl|spider|slurp|preview|facebookexternalhit|headless|curl|wget|python-requests/.test(ua)) {
+      return USER_AGENT_CLASSES.BOT;
+    }
+
+    if (/ipad|tablet|kindle|silk|(android(?!.*mobile))/.test(ua)) {
+      return USER_AGENT_CLASSES.TABLET;
+    }
+
+    if (/mobi|iphone|ipod|android|blackberry|opera mini|iemobile/.test(ua)) {
+      return USER_AGENT_CLASSES.MOBILE;
+    }
+
+    if (/windows|macintosh|x11|linux|cros/.test(ua)) {
+      return USER_AGENT_CLASSES.DESKTOP;
+    }
+
+    return USER_AGENT_CLASSES.OTHER;
+  }
+
+  /**
+   * Resolve the share channel from the `via` query parameter
+   */
+  static resolveChannel(via?: unknown): CVView['channel'] {
+    const channels = Object.values(VIEW_CHANNELS) as string[];
+    return typeof via === 'string' && channels.includes(via.toLowerCase())
+      ? (via.toLowerCase() as CVView['channel'])
+      : VIEW_CHANNELS.DIRECT;
+  }
+
+  /**
+   * Reduce a referrer URL to its host name (paths may contain personal data)
+   */
+  static getReferrerHost(referrer?: string): string | null {
+    if (!referrer) {
+      return null;
+    }
+
+    try {
+      const host = new URL(referrer).hostname.toLowerCase();
+      const publicHost = new URL(config.publicUrl).hostname.toLowerCase();
+      return host && host !== publicHost ? host.slice(0, 255) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Build the per-day visitor hash used to dedupe views
+   */
+  static getVisitorHash(cvId: string, viewDate: string, ip?: string, userAgent?: string): string {
+    return createHash('sha256')
+      .update([config.jwt.secret, cvId, viewDate, ip || '', userAgent || ''].join('|'))
+      .digest('hex');
+  }
+
+  /**
+   * Current UTC date as YYYY-MM-DD
+   */
+  static toDateKey(date: Date | string = new Date()): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+
+  /**
+   * First day (UTC, inclusive) of a range of `days` days ending today
+   */
+  static getRangeStart(days: number): string {
+    const today = new Date(`${this.toDateKey()}T00:00:00.000Z`);
+    return this.toDateKey(new Date(today.getTime() - (days - 1) * DAY_MS));
+  }
+
+  /**
+   * Count events per day over `days` days starting at `from`, filling gaps with zero
+   */
+  static bucketByDay(dates: string[], from: string, days: number): number[] {
+    const start = new Date(`${from}T00:00:00.000Z`).getTime();
+    const buckets = new Array<number>(days).fill(0);
+
+    dates.forEach((date) => {
+      const index = Math.floor((new Date(date).getTime() - start) / DAY_MS);
+      if (index >= 0 && index < days) {
+        buckets[index] += 1;
+      }
+    });
+
+    return buckets;
+  }
+
+  /**
+   * Count occurrences of each value
+   */
+  static countBy(values: (string | null | undefined)[]): Record<string, number> {
+    return values.reduce<Record<string, number>>((counts, value) => {
+      if (value) {
+        counts[value] = (counts[value] || 0) + 1;
+      }
+      return counts;
+    }, {});
+  }
+}
+
+export default AnalyticsUtil;
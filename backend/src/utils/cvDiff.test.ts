@@ -0,0 +1,74 @@
+import { CVData } from '@/shared/types';
+import { CVDiffUtil } from '@/utils/cvDiff';
+
+const buildCV = (projects: Record<string, any>[]): CVData => ({
+  cv: { id: 'cv-1', title: 'My CV', layout: 'modern' },
+  basic_details: { full_name: 'Ada Lovelace', email: 'ada@example.com' },
+  projects,
+} as unknown as CVData);
+
+describe('CVDiffUtil.compareSection', () => {
+  it('reports an edited title as modified when the item keeps its id', () => {
+    const diff = CVDiffUtil.compareSection(
+      'projects',
+      [{ id: 'p1', title: 'Compiler', description: 'A toy compiler' }],
+      [{ id: 'p1', title: 'Optimising compiler', description: 'A toy compiler' }]
+    );
+
+    expect(diff).toHaveLength(1);
+    expect(diff[0].status).toBe('modified');
+    expect(diff[0].changes).toEqual([{ field: 'title', before: 'Compiler', after: 'Optimising compiler' }]);
+  });
+
+  it('prefers the id over a natural key shared with another item', () => {
+    const diff = CVDiffUtil.compareSection(
+      'projects',
+      [
+        { id: 'p1', title: 'Compiler' },
+        { id: 'p2', title: 'Website' },
+      ],
+      [
+        { id: 'p1', title: 'Website' },
+        { id: 'p2', title: 'Blog' },
+      ]
+    );
+
+    expect(diff.map((item) => [item.status, item.before?.id, item.after?.id])).toEqual([
+      ['modified', 'p1', 'p1'],
+      ['modified', 'p2', 'p2'],
+    ]);
+  });
+
+  it('falls back to the natural key when ids differ (duplicates, imports)', () => {
+    const diff = CVDiffUtil.compareSection(
+      'projects',
+      [{ id: 'p1', title: 'Compiler', team_size: 2 }],
+      [{ id: 'copy-1', title: 'Compiler', team_size: 3 }]
+    );
+
+    expect(diff).toHaveLength(1);
+    expect(diff[0].status).toBe('modified');
+    expect(diff[0].changes).toEqual([{ field: 'team_size', before: 2, after: 3 }]);
+  });
+
+  it('reports an edited title without matching ids as removed and added', () => {
+    const diff = CVDiffUtil.compareSection(
+      'projects',
+      [{ title: 'Compiler' }],
+      [{ title: 'Optimising compiler' }]
+    );
+
+    expect(diff.map((item) => item.status)).toEqual(['added', 'removed']);
+  });
+});
+
+describe('CVDiffUtil.compare', () => {
+  it('counts an edited title once in the summary', () => {
+    const diff = CVDiffUtil.compare(
+      buildCV([{ id: 'p1', cv_id: 'cv-1', title: 'Compiler', updated_at: '2025-01-01' }]),
+      buildCV([{ id: 'p1', cv_id: 'cv-1', title: 'Optimising compiler', updated_at: '2025-02-01' }])
+    );
+
+    expect(diff.summary).toEqual({ added: 0, removed: 0, modified: 1, changed_fields: 1 });
+  });
+});
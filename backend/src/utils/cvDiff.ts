@@ -0,0 +1,175 @@
+/**
+ * CV Diff Utilities
+ *
+ * Business Logic:
+ * - Compares two `CVData` payloads section by section (two versions, or a CV and its duplicate)
+ * - Items are matched by id when both sides carry it (versions of one CV keep item ids), so
+ *   editing an item's title or position reports `modified`
+ * - The rest (duplicates, imports, older snapshots) are matched by a natural key per section
+ *   (e.g. organisation + position); equal keys pair up in order
+ * - Matched items are `modified` or `unchanged`; the rest are `added` (target only) or `removed` (base only)
+ *
+ * Code Conventions:
+ * - Pure static helpers; no I/O and no logging
+ * - Storage columns (ids, timestamps) are never reported as changes
+ *
+ * @fileoverview Structured comparison of two CVs
+ * @author vicky neosoft test builder app
+ */
+import { CVData, CVDiff, CVItemSection, CVDiffSide, CVFieldChange, CVSectionItemDiff } from '@/shared/types';
+
+// Columns that differ between copies of the same content (order shows in the item sequence)
+const IGNORED_FIELDS = new Set(['id', 'cv_id', 'sort_order', 'created_at', 'updated_at']);
+
+// Compared CV record columns (counters and status are not content)
+const CV_FIELDS = ['title', 'layout', 'section_config'];
+
+const SECTION_KEYS: Record<CVItemSection, (item: Record<string, any>) => string> = {
+  education: (item) => `${item.degree_name} @ ${item.institution}`,
+  experience: (item) => `${item.position} @ ${item.organization_name}`,
+  projects: (item) => `${item.title}`,
+  skills: (item) => `${item.skill_name}`,
+  social_profiles: (item) => `${item.platform_name}`,
+  certifications: (item) => `${item.name} @ ${item.issuer}`,
+  awards: (item) => `${item.title}`,
+  publications: (item) => `${item.title}`,
+  languages: (item) => `${item.language}`,
+  volunteering: (item) => `${item.role} @ ${item.organization}`,
+  references: (item) => `${item.name}`,
+  custom_sections: (item) => `${item.title}`,
+};
+
+/**
+ * Utility class for comparing CVs
+ */
+export class CVDiffUtil {
+  /**
+   * Compare `base` (before) with `target` (after)
+   */
+  static compare(
+    base: CVData,
+    target: CVData,
+    sides: { base?: Partial<CVDiffSide>; target?: Partial<CVDiffSide> } = {}
+  ): CVDiff {
+    const sections = {} as CVDiff['sections'];
+    (Object.keys(SECTION_KEYS) as CVItemSection[]).forEach((section) => {
+      sections[section] = CVDiffUtil.compareSection(section, base[section] || [], target[section] || []);
+    });
+
+    const cv = CVDiffUtil.compareFields(base.cv, target.cv, CV_FIELDS);
+    const basicDetails = CVDiffUtil.compareFields(base.basic_details || {}, target.basic_details || {});
+
+    const items = Object.values(sections).flat();
+    const summary = {
+      added: items.filter((item) => item.status === 'added').length,
+      removed: items.filter((item) => item.status === 'removed').length,
+      modified: items.filter((item) => item.status === 'modified').length,
+      changed_fields: cv.length + basicDetails.length + items.reduce((total, item) => total + item.changes.length, 0),
+    };
+
+    return {
+      base: { cv_id: base.cv.id, title: base.cv.title, updated_at: base.cv.updated_at, ...sides.base },
+      target: { cv_id: target.cv.id, title: target.cv.title, updated_at: target.cv.updated_at, ...sides.target },
+      cv,
+      basic_details: basicDetails,
+      sections,
+      summary,
+    };
+  }
+
+  /**
+   * Field-level changes between two records (all content fields unless `fields` is given)
+   */
+  static compareFields(
+    before: Record<string, any>,
+    after: Record<string, any>,
+    fields?: string[]
+  ): CVFieldChange[] {
+    const names = fields || Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+      .filter((field) => !IGNORED_FIELDS.has(field))
+      .sort();
+
+    return names
+      .filter((field) => !CVDiffUtil.isEqual(before[field], after[field]))
+      .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+  }
+
+  /**
+   * Match and compare the items of one section
+   */
+  static compareSection(
+    section: CVItemSection,
+    before: Record<string, any>[],
+    after: Record<string, any>[]
+  ): CVSectionItemDiff[] {
+    const keyOf = (item: Record<string, any>) => SECTION_KEYS[section](item).trim().toLowerCase();
+    const beforeById = new Map(before.filter((item) => item.id).map((item) => [item.id, item]));
+    const idMatches = new Map<Record<string, any>, Record<string, any>>();
+    after.forEach((item) => {
+      const match = item.id ? beforeById.get(item.id) : undefined;
+      if (match) {
+        idMatches.set(item, match);
+        beforeById.delete(item.id);
+      }
+    });
+
+    const matchedById = new Set(idMatches.values());
+    const unmatched = new Map<string, Record<string, any>[]>();
+
+    before.filter((item) => !matchedById.has(item)).forEach((item) => {
+      const key = keyOf(item);
+      unmatched.set(key, [...(unmatched.get(key) || []), item]);
+    });
+
+    // Target order drives the result; removed items follow at the end
+    const result: CVSectionItemDiff[] = after.map((item) => {
+      const match = idMatches.get(item) ?? unmatched.get(keyOf(item))?.shift();
+
+      if (!match) {
+        return { status: 'added', key: SECTION_KEYS[section](item), after: item, changes: [] };
+      }
+
+      const changes = CVDiffUtil.compareFields(match, item);
+      return {
+        status: changes.length > 0 ? 'modified' : 'unchanged',
+        key: SECTION_KEYS[section](item),
+        before: match,
+        after: item,
+        changes,
+      };
+    });
+
+    unmatched.forEach((items) => {
+      items.forEach((item) => {
+        result.push({ status: 'removed', key: SECTION_KEYS[section](item), before: item, changes: [] });
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Value equality for JSON-like field values; empty values are treated alike
+   */
+  private static isEqual(a: any, b: any): boolean {
+    const normalize = (value: any) =>
+      value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0) ? null : value;
+    const left = normalize(a);
+    const right = normalize(b);
+
+    if (Array.isArray(left) || Array.isArray(right) || (typeof left === 'object' && left !== null)) {
+      return JSON.stringify(left) === JSON.stringify(right);
+    }
+
+    // Numeric columns may come back as strings (e.g. NUMERIC percentage)
+    const isNumeric = (value: any) =>
+      (typeof value === 'number' || typeof value === 'string') && value !== '' && !isNaN(Number(value));
+    if (isNumeric(left) && isNumeric(right)) {
+      return Number(left) === Number(right);
+    }
+
+    return left === right;
+  }
+}
+
+export default CVDiffUtil;
@@ -0,0 +1,79 @@
+import { CVData } from '@/shared/types';
+import { CV_EXPORT_SCHEMA_VERSION } from '@/shared/constants';
+import { CVExportUtil } from '@/utils/cvExport';
+import { ValidationUtil } from '@/utils/validation';
+
+const storage = { cv_id: 'cv-1', created_at: '2025-01-01T10:00:00+00:00', updated_at: '2025-01-02T10:00:00+00:00' };
+
+const cvData = {
+  cv: {
+    id: 'cv-1',
+    user_id: 'user-1',
+    title: 'Ada Lovelace CV',
+    layout: 'classic',
+    status: 'published',
+    section_config: { order: ['skills', 'experience'], hidden: ['projects'] },
+    download_count: 3,
+    last_modified: '2025-01-02T10:00:00+00:00',
+  },
+  basic_details: { id: 'bd-1', cv_id: 'cv-1', full_name: 'Ada Lovelace', email: 'ada@example.com', introduction: 'Writes **engines**' },
+  experience: [
+    { id: 'e1', sort_order: 0, ...storage, organization_name: 'Engines Ltd', position: 'Engineer', joining_date: '2020-01-01', is_current: true,
+      highlights: [{ text: 'Cut costs', metric: '30%' }] },
+  ],
+  skills: [
+    { id: 's1', sort_order: 0, ...storage, skill_name: 'SQL', proficiency_percentage: 80, category: 'technical' },
+    { id: 's2', sort_order: 1, ...storage, skill_name: 'Mentoring', proficiency_percentage: 60, category: 'interpersonal' },
+  ],
+  projects: [],
+} as unknown as CVData;
+
+describe('CVExportUtil', () => {
+  it('imports its own export as the same CV without storage columns', () => {
+    const exported = JSON.parse(JSON.stringify(CVExportUtil.toNative(cvData)));
+
+    expect(exported.schema_version).toBe(CV_EXPORT_SCHEMA_VERSION);
+    expect(CVExportUtil.isNative(exported)).toBe(true);
+    expect(ValidationUtil.validateCVImport(exported)).toEqual([]);
+
+    const { cv, unmapped } = CVExportUtil.fromNative(exported);
+
+    expect(unmapped).toEqual([]);
+    expect(cv).toMatchObject({
+      title: 'Ada Lovelace CV',
+      layout: 'classic',
+      section_config: { order: ['skills', 'experience'], hidden: ['projects'] },
+      basic_details: { full_name: 'Ada Lovelace', email: 'ada@example.com', introduction: 'Writes **engines**' },
+      experience: [{ organization_name: 'Engines Ltd', position: 'Engineer', joining_date: '2020-01-01', is_current: true,
+        highlights: [{ text: 'Cut costs', metric: '30%' }] }],
+      skills: [
+        { skill_name: 'SQL', proficiency_percentage: 80, category: 'technical' },
+        { skill_name: 'Mentoring', proficiency_percentage: 60, category: 'interpersonal' },
+      ],
+      projects: [],
+      education: [],
+    });
+    expect(cv).not.toHaveProperty('status');
+    expect(cv.basic_details).not.toHaveProperty('id');
+    expect(cv.skills!.every((skill) => !('id' in skill) && !('cv_id' in skill) && !('sort_order' in skill))).toBe(true);
+  });
+});
+
+describe('ValidationUtil.validateCVImport (native exports)', () => {
+  const exported = { schema_version: 1, cv: {}, basic_details: {} };
+
+  it.each([
+    ['a newer schema version', { ...exported, schema_version: CV_EXPORT_SCHEMA_VERSION + 1 }, 'schema_version'],
+    ['a schema version of 0', { ...exported, schema_version: 0 }, 'schema_version'],
+    ['a schema version that is not an integer', { ...exported, schema_version: '1' }, 'schema_version'],
+    ['a missing cv object', { ...exported, cv: undefined }, 'cv'],
+    ['basic details that are not an object', { ...exported, basic_details: [] }, 'basic_details'],
+    ['a section that is not a list of objects', { ...exported, skills: ['SQL'] }, 'skills'],
+  ])('rejects %s', (_case, document, field) => {
+    expect(ValidationUtil.validateCVImport(document as Record<string, unknown>).map((error) => error.field)).toEqual([field]);
+  });
+
+  it('validates documents without a schema version as JSON Resume', () => {
+    expect(ValidationUtil.validateCVImport({ cv: {} }).map((error) => error.field)).toEqual(['basics']);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * CV Export Utilities
+ *
+ * Business Logic:
+ * - The native export is the full `CVData` tagged with `schema_version` and `exported_at`
+ * - A native export posted to the import endpoint creates an equivalent CV: storage columns
+ *   (ids, owner, status, counters, timestamps) are dropped and sections keep their order
+ * - Exports from a newer schema version than this server knows are rejected by validation
+ *
+ * Code Conventions:
+ * - Pure static helpers; no I/O and no logging
+ *
+ * @fileoverview Native CV export and its import mapping
+ * @author vicky neosoft test builder app
+ */
+import { CreateCVRequest, CVData, CVImportMapping, CVItemSection, CVNativeExport } from '@/shared/types';
+import { CV_EXPORT_SCHEMA_VERSION, CV_SECTIONS } from '@/shared/constants';
+
+// Columns owned by the stored copy, never carried into a new CV
+const STORAGE_FIELDS = ['id', 'cv_id', 'sort_order', 'created_at', 'updated_at'];
+
+const ITEM_SECTIONS = Object.values(CV_SECTIONS)
+  .filter((section) => section !== CV_SECTIONS.BASIC_DETAILS) as CVItemSection[];
+
+/**
+ * Utility class for native CV exports
+ */
+export class CVExportUtil {
+  /**
+   * Wrap a CV in a native export document
+   */
+  static toNative(cvData: CVData): CVNativeExport {
+    return {
+      schema_version: CV_EXPORT_SCHEMA_VERSION,
+      exported_at: new Date().toISOString(),
+      ...cvData,
+    };
+  }
+
+  /**
+   * Whether an import document is a native export (JSON Resume documents have no schema_version)
+   */
+  static isNative(data: unknown): data is CVNativeExport {
+    return !!data && typeof data === 'object' && 'schema_version' in data;
+  }
+
+  /**
+   * Map a native export to a CV creation request
+   */
+  static fromNative(exported: CVNativeExport): CVImportMapping {
+    const { id, cv_id, ...basicDetails } = exported.basic_details;
+
+    const cv: CreateCVRequest = {
+      title: exported.cv.title,
+      layout: exported.cv.layout,
+      section_config: exported.cv.section_config ?? null,
+      basic_details: basicDetails,
+    };
+
+    // Items keep their section's fields minus the storage columns
+    const copySection = <K extends CVItemSection>(section: K): void => {
+      const items: object[] = exported[section] || [];
+      cv[section] = items.map((item) =>
+        Object.fromEntries(Object.entries(item).filter(([field]) => !STORAGE_FIELDS.includes(field)))) as CreateCVRequest[K];
+    };
+    ITEM_SECTIONS.forEach(copySection);
+
+    return { cv, unmapped: [] };
+  }
+}
+
+export default CVExportUtil;
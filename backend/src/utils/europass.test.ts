@@ -0,0 +1,139 @@
+import { CVData, EuropassDocument } from '@/shared/types';
+import { EuropassUtil } from '@/utils/europass';
+import { ValidationUtil } from '@/utils/validation';
+
+const cvData = {
+  cv: { id: 'cv-1', title: 'My CV', layout: 'modern', last_modified: '2025-01-02T10:00:00+00:00' },
+  basic_details: {
+    full_name: 'Ada King Lovelace',
+    email: 'ada@example.com',
+    phone: '+44 20 7946 0958',
+    address: '12 St James\'s Square',
+    pincode: 'SW1',
+    city: 'London',
+    introduction: 'Writes **engines** at < 5 W & small',
+  },
+  experience: [{
+    organization_name: 'Lovelace & Babbage',
+    position: 'Engineer',
+    joining_location: 'London',
+    joining_date: '2020-01-01',
+    leaving_date: '2022-06-30',
+    is_current: false,
+    description: 'Built the mill',
+    highlights: [{ text: 'Cut costs', metric: '30%' }],
+  }],
+  education: [{
+    degree_name: 'BSc Mathematics',
+    institution: 'University of London',
+    percentage: 82,
+    start_date: '2015-09-01',
+    end_date: '2019-06-30',
+    is_current: false,
+    description: '- Calculus',
+  }],
+  skills: [
+    { skill_name: 'SQL', proficiency_percentage: 80, category: 'technical' },
+    { skill_name: 'Mentoring', proficiency_percentage: 60, category: 'interpersonal' },
+    { skill_name: 'Latin', proficiency_percentage: 50, category: 'language' },
+  ],
+  languages: [
+    { language: 'English', proficiency: 'native' },
+    { language: 'French', proficiency: 'B2' },
+  ],
+  social_profiles: [{ platform_name: 'GitHub', profile_url: 'https://github.com/ada', is_public: true }],
+} as unknown as CVData;
+
+// The request an exported CV maps back to; highlights travel inside the activities text
+const expectedRequest = {
+  title: 'Ada King Lovelace CV',
+  layout: 'modern',
+  basic_details: {
+    full_name: 'Ada King Lovelace',
+    email: 'ada@example.com',
+    phone: '+44 20 7946 0958',
+    address: '12 St James\'s Square',
+    pincode: 'SW1',
+    city: 'London',
+    introduction: 'Writes **engines** at < 5 W & small',
+  },
+  experience: [{
+    organization_name: 'Lovelace & Babbage',
+    position: 'Engineer',
+    joining_location: 'London',
+    joining_date: '2020-01-01',
+    leaving_date: '2022-06-30',
+    is_current: false,
+    description: 'Built the mill\n\n- Cut costs (30%)',
+  }],
+  education: [{
+    degree_name: 'BSc Mathematics',
+    institution: 'University of London',
+    percentage: 82,
+    start_date: '2015-09-01',
+    end_date: '2019-06-30',
+    is_current: false,
+    description: '- Calculus',
+  }],
+  skills: [
+    { skill_name: 'SQL', proficiency_percentage: 80, category: 'technical' },
+    { skill_name: 'Mentoring', proficiency_percentage: 60, category: 'interpersonal' },
+    { skill_name: 'Latin', proficiency_percentage: 50, category: 'language' },
+  ],
+  languages: [
+    { language: 'English', proficiency: 'native' },
+    { language: 'French', proficiency: 'B2' },
+  ],
+  social_profiles: [{ platform_name: 'github.com', profile_url: 'https://github.com/ada', is_public: true }],
+};
+
+describe('EuropassUtil', () => {
+  it('imports its own JSON export as the same CV', () => {
+    const body = EuropassUtil.parseImportBody(JSON.parse(JSON.stringify(EuropassUtil.toEuropass(cvData))));
+
+    expect(ValidationUtil.validateCVImport(body as Record<string, unknown>)).toEqual([]);
+    expect(EuropassUtil.fromEuropass(body as EuropassDocument)).toEqual({ cv: expectedRequest, unmapped: [] });
+  });
+
+  it('imports its own XML export as the same CV', () => {
+    const xml = EuropassUtil.toXml(EuropassUtil.toEuropass(cvData));
+
+    expect(xml).toContain('<Name>Lovelace &amp; Babbage</Name>');
+    expect(xml).toContain('<Label>Writes **engines** at &lt; 5 W &amp; small</Label>');
+    expect(xml).toContain('<From year="2020" month="--01" day="---01"/>');
+
+    const body = EuropassUtil.parseImportBody(xml);
+
+    expect(ValidationUtil.validateCVImport(body as Record<string, unknown>)).toEqual([]);
+    expect(EuropassUtil.fromEuropass(body as EuropassDocument)).toEqual({ cv: expectedRequest, unmapped: [] });
+  });
+
+  it('turns Europass HTML into the markdown subset', () => {
+    const body = EuropassUtil.parseImportBody({
+      SkillsPassport: {
+        LearnerInfo: {
+          Headline: { Description: { Label: '<p>Writes <b>engines</b> &amp; <a href="https://ada.dev">more</a></p><ul><li>Fast</li></ul>' } },
+        },
+      },
+    });
+
+    expect(EuropassUtil.fromEuropass(body as EuropassDocument).cv.basic_details.introduction)
+      .toBe('Writes **engines** & [more](https://ada.dev)\n\n- Fast');
+  });
+
+  it('rejects malformed XML and other XML documents', () => {
+    expect(() => EuropassUtil.parseImportBody('<SkillsPassport><LearnerInfo></SkillsPassport>')).toThrow();
+    expect(() => EuropassUtil.parseImportBody('<resume><name>Ada</name></resume>')).toThrow('Not a Europass document');
+  });
+});
+
+describe('ValidationUtil.validateCVImport (Europass)', () => {
+  it.each([
+    ['a passport without LearnerInfo', { SkillsPassport: {} }, 'SkillsPassport.LearnerInfo'],
+    ['a passport that is not an object', { SkillsPassport: 'ECV' }, 'SkillsPassport.LearnerInfo'],
+    ['work experience that is not a list', { SkillsPassport: { LearnerInfo: { WorkExperience: {} } } }, 'LearnerInfo.WorkExperience'],
+    ['education with non-object entries', { SkillsPassport: { LearnerInfo: { Education: ['BSc'] } } }, 'LearnerInfo.Education'],
+  ])('rejects %s', (_case, document, field) => {
+    expect(ValidationUtil.validateCVImport(document as Record<string, unknown>).map((error) => error.field)).toEqual([field]);
+  });
+});
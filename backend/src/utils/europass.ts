@@ -0,0 +1,520 @@
+/**
+ * Europass Utilities
+ *
+ * Business Logic:
+ * - Converts CVs to and from the Europass CV (SkillsPassport v3.4) in its JSON and XML forms;
+ *   the XML form is converted to the JSON shape first, so both share one mapping
+ * - Mapped parts: basic details (name, contact, personal statement), education (the
+ *   `percentage` / `cgpa` travels as a "Grade: 82%" / "CGPA: 8.5" first line of the
+ *   education skills text), experience, skills by `category` and language skills
+ * - Skill categories map to Europass skill groups: technical to Computer (digital skills),
+ *   interpersonal to Communication; language skills and the languages section go to
+ *   Linguistic, where CEFR levels match `LANGUAGE_PROFICIENCY_LEVELS`
+ * - Europass has no free text per skill, so each group is written as "- Skill (80%)" lines
+ *   and read back the same way; on import, JobRelated reads as technical and
+ *   Organisational as interpersonal
+ * - Europass text fields may hold HTML; on import it is turned into the markdown subset
+ *   descriptions use (lists, bold, italic, links) before the request body is sanitised
+ * - Imported fields without a CV counterpart are returned as `unmapped`
+ *
+ * Code Conventions:
+ * - Pure static helpers; no I/O and no logging
+ * - The mapped request is not validated here; callers run it through `ValidationUtil`
+ *
+ * @fileoverview Europass CV import/export mapping
+ * @author vicky neosoft test builder app
+ */
+import { js2xml, xml2js } from 'xml-js';
+import {
+  CreateCVRequest,
+  CVData,
+  CVImportMapping,
+  EuropassDate,
+  EuropassDocument,
+  EuropassLanguage,
+  EuropassPeriod,
+  EuropassSkillGroup,
+  Highlight,
+  LanguageProficiency,
+} from '@/shared/types';
+import { CV_LAYOUTS, LANGUAGE_PROFICIENCY_LEVELS } from '@/shared/constants';
+import { RichTextUtil } from '@/utils/richText';
+
+const EUROPASS_NAMESPACE = 'http://europass.cedefop.europa.eu/Europass';
+const EUROPASS_XSD_VERSION = 'V3.4';
+const GENERATOR = 'cv-builder';
+
+// Fields the import reads; any other non-empty field is reported as unmapped
+const MAPPED_FIELDS = {
+  learnerInfo: ['Identification', 'Headline', 'WorkExperience', 'Education', 'Skills'],
+  identification: ['PersonName', 'ContactInfo'],
+  contactInfo: ['Address', 'Email', 'Telephone', 'Website'],
+  work: ['Period', 'Position', 'Activities', 'Employer'],
+  education: ['Period', 'Title', 'Skills', 'Organisation'],
+  skills: ['Linguistic', 'Communication', 'Organisational', 'JobRelated', 'Computer'],
+};
+
+// Skill category written on export, and the category each group reads as on import
+const EXPORT_SKILL_GROUPS: Record<'technical' | 'interpersonal', EuropassSkillGroup> = {
+  technical: 'Computer',
+  interpersonal: 'Communication',
+};
+const IMPORT_SKILL_GROUPS: Record<EuropassSkillGroup, 'technical' | 'interpersonal'> = {
+  Computer: 'technical',
+  JobRelated: 'technical',
+  Communication: 'interpersonal',
+  Organisational: 'interpersonal',
+};
+
+// XML wraps repeated elements in "<Name>List" and writes dates as attributes
+const LIST_ELEMENTS = ['WorkExperience', 'Education', 'Telephone', 'Website', 'MotherTongue', 'ForeignLanguage'];
+const DATE_ELEMENTS = ['From', 'To'];
+const CEFR_SKILLS = ['Listening', 'Reading', 'SpokenInteraction', 'SpokenProduction', 'Writing'] as const;
+const CEFR_LEVELS = LANGUAGE_PROFICIENCY_LEVELS.filter((level) => level !== 'native');
+
+const DEFAULT_SKILL_PROFICIENCY = 50;
+const SKILL_LINE_PATTERN = /^(.*?)\s*\((\d{1,3})%\)$/;
+const GRADE_PATTERNS = {
+  percentage: /^Grade:\s*(\d+(?:\.\d+)?)\s*%$/i,
+  cgpa: /^CGPA:\s*(\d+(?:\.\d+)?)$/i,
+};
+
+/**
+ * Utility class for Europass documents
+ */
+export class EuropassUtil {
+  /**
+   * Map a CV to a Europass document
+   */
+  static toEuropass(cvData: CVData): EuropassDocument {
+    const details = cvData.basic_details;
+    const names = details.full_name.trim().split(/\s+/);
+    const address = EuropassUtil.compact({
+      AddressLine: details.address,
+      PostalCode: details.pincode,
+      Municipality: details.city,
+    });
+
+    const languageSkills = cvData.skills.filter((skill) => skill.category === 'language');
+    const foreignLanguages: EuropassLanguage[] = [
+      ...cvData.languages
+        .filter((language) => language.proficiency !== 'native')
+        .map((language) => ({
+          Description: { Label: language.language },
+          ProficiencyLevel: Object.fromEntries(CEFR_SKILLS.map((skill) => [skill, language.proficiency])),
+        })),
+      ...languageSkills
+        .filter((skill) => !cvData.languages.some((language) => language.language === skill.skill_name))
+        .map((skill) => ({ Description: { Label: skill.skill_name } })),
+    ];
+    const motherTongues = cvData.languages
+      .filter((language) => language.proficiency === 'native')
+      .map((language) => ({ Description: { Label: language.language } }));
+
+    const skillGroups = Object.fromEntries(
+      (Object.keys(EXPORT_SKILL_GROUPS) as (keyof typeof EXPORT_SKILL_GROUPS)[])
+        .map((category) => [category, cvData.skills.filter((skill) => skill.category === category)] as const)
+        .filter(([, skills]) => skills.length > 0)
+        .map(([category, skills]) => [
+          EXPORT_SKILL_GROUPS[category],
+          { Description: skills.map((skill) => `- ${skill.skill_name} (${skill.proficiency_percentage}%)`).join('\n') },
+        ])
+    );
+
+    return {
+      SkillsPassport: {
+        Locale: 'en',
+        DocumentInfo: {
+          DocumentType: 'ECV',
+          CreationDate: new Date().toISOString(),
+          XSDVersion: EUROPASS_XSD_VERSION,
+          Generator: GENERATOR,
+        },
+        LearnerInfo: EuropassUtil.compact({
+          Identification: {
+            PersonName: EuropassUtil.compact({
+              FirstName: names.length > 1 ? names.slice(0, -1).join(' ') : names[0],
+              Surname: names.length > 1 ? names[names.length - 1] : undefined,
+            }),
+            ContactInfo: EuropassUtil.compact({
+              Address: Object.keys(address).length > 0 ? { Contact: address } : undefined,
+              Email: { Contact: details.email },
+              Telephone: details.phone ? [{ Contact: details.phone }] : undefined,
+              Website: cvData.social_profiles.map((profile) => ({ Contact: profile.profile_url })),
+            }),
+          },
+          Headline: details.introduction
+            ? { Type: { Code: 'personal_statement', Label: 'Personal statement' }, Description: { Label: details.introduction } }
+            : undefined,
+          WorkExperience: cvData.experience.map((exp) => EuropassUtil.compact({
+            Period: EuropassUtil.toPeriod(exp.joining_date, exp.leaving_date, exp.is_current),
+            Position: { Label: exp.position },
+            Activities: [exp.description, EuropassUtil.fromHighlights(exp.highlights)].filter(Boolean).join('\n\n'),
+            Employer: EuropassUtil.compact({
+              Name: exp.organization_name,
+              ContactInfo: exp.joining_location ? { Address: { Contact: { Municipality: exp.joining_location } } } : undefined,
+            }),
+          })),
+          Education: cvData.education.map((edu) => {
+            const grade = edu.percentage != null ? `Grade: ${edu.percentage}%` : edu.cgpa != null ? `CGPA: ${edu.cgpa}` : undefined;
+
+            return EuropassUtil.compact({
+              Period: EuropassUtil.toPeriod(edu.start_date, edu.end_date, edu.is_current),
+              Title: edu.degree_name,
+              Skills: [grade, edu.description].filter(Boolean).join('\n\n'),
+              Organisation: { Name: edu.institution },
+            });
+          }),
+          Skills: EuropassUtil.compact({
+            Linguistic: motherTongues.length > 0 || foreignLanguages.length > 0
+              ? EuropassUtil.compact({ MotherTongue: motherTongues, ForeignLanguage: foreignLanguages })
+              : undefined,
+            ...skillGroups,
+          }),
+        }),
+      },
+    };
+  }
+
+  /**
+   * Map a Europass document to a CV creation request
+   */
+  static fromEuropass(europass: EuropassDocument): CVImportMapping {
+    const unmapped: string[] = [];
+    const learner = europass.SkillsPassport.LearnerInfo;
+    const identification = learner.Identification || {};
+    const contact = identification.ContactInfo || {};
+    const address = contact.Address?.Contact;
+
+    EuropassUtil.collectUnmapped(learner, MAPPED_FIELDS.learnerInfo, 'LearnerInfo', unmapped);
+    EuropassUtil.collectUnmapped(identification, MAPPED_FIELDS.identification, 'LearnerInfo.Identification', unmapped);
+    EuropassUtil.collectUnmapped(contact, MAPPED_FIELDS.contactInfo, 'LearnerInfo.Identification.ContactInfo', unmapped);
+    EuropassUtil.collectUnmapped(learner.Skills, MAPPED_FIELDS.skills, 'LearnerInfo.Skills', unmapped);
+
+    const name = [identification.PersonName?.FirstName, identification.PersonName?.Surname]
+      .map(EuropassUtil.text)
+      .filter(Boolean)
+      .join(' ');
+    const phones = EuropassUtil.list(contact.Telephone).map((phone) => EuropassUtil.text(phone?.Contact)).filter(Boolean);
+    if (phones.length > 1) {
+      unmapped.push('LearnerInfo.Identification.ContactInfo.Telephone[1]');
+    }
+
+    const cv: CreateCVRequest = {
+      title: name ? `${name} CV` : 'Europass CV',
+      layout: CV_LAYOUTS.MODERN,
+      basic_details: {
+        full_name: name,
+        email: EuropassUtil.text(contact.Email?.Contact),
+        phone: phones[0] || undefined,
+        address: EuropassUtil.text(address?.AddressLine) || undefined,
+        city: EuropassUtil.text(address?.Municipality) || undefined,
+        pincode: EuropassUtil.text(address?.PostalCode) || undefined,
+        introduction: EuropassUtil.richText(learner.Headline?.Description?.Label),
+      },
+      experience: EuropassUtil.list(learner.WorkExperience).map((work, index) => {
+        EuropassUtil.collectUnmapped(work, MAPPED_FIELDS.work, `LearnerInfo.WorkExperience[${index}]`, unmapped);
+
+        return {
+          organization_name: EuropassUtil.text(work.Employer?.Name),
+          position: EuropassUtil.text(work.Position?.Label),
+          joining_location: EuropassUtil.text(work.Employer?.ContactInfo?.Address?.Contact?.Municipality) || undefined,
+          joining_date: EuropassUtil.fromDate(work.Period?.From) || '',
+          leaving_date: EuropassUtil.fromDate(work.Period?.To),
+          is_current: !!work.Period?.Current || !work.Period?.To,
+          description: EuropassUtil.richText(work.Activities),
+        };
+      }),
+      education: EuropassUtil.list(learner.Education).map((education, index) => {
+        EuropassUtil.collectUnmapped(education, MAPPED_FIELDS.education, `LearnerInfo.Education[${index}]`, unmapped);
+
+        const [firstLine = '', ...rest] = EuropassUtil.text(education.Skills).split('\n');
+        const percentage = firstLine.trim().match(GRADE_PATTERNS.percentage);
+        const cgpa = firstLine.trim().match(GRADE_PATTERNS.cgpa);
+        const description = percentage || cgpa ? rest.join('\n') : EuropassUtil.text(education.Skills);
+
+        return {
+          degree_name: EuropassUtil.text(education.Title),
+          institution: EuropassUtil.text(education.Organisation?.Name),
+          percentage: percentage ? parseFloat(percentage[1]) : undefined,
+          cgpa: cgpa ? parseFloat(cgpa[1]) : undefined,
+          start_date: EuropassUtil.fromDate(education.Period?.From) || '',
+          end_date: EuropassUtil.fromDate(education.Period?.To),
+          is_current: !!education.Period?.Current || !education.Period?.To,
+          description: EuropassUtil.richText(description),
+        };
+      }),
+      skills: [],
+      languages: [],
+      social_profiles: EuropassUtil.list(contact.Website)
+        .map((website) => EuropassUtil.text(website?.Contact))
+        .filter(Boolean)
+        .map((url) => ({ platform_name: EuropassUtil.platformName(url), profile_url: url, is_public: true })),
+    };
+
+    (Object.keys(IMPORT_SKILL_GROUPS) as EuropassSkillGroup[]).forEach((group) => {
+      EuropassUtil.text(learner.Skills?.[group]?.Description)
+        .split('\n')
+        .map((line) => line.replace(/^\s*[-*•]\s*/, '').trim())
+        .filter(Boolean)
+        .forEach((line) => {
+          const match = line.match(SKILL_LINE_PATTERN);
+          cv.skills!.push({
+            skill_name: match ? match[1] : line,
+            proficiency_percentage: match ? Math.min(parseInt(match[2], 10), 100) : DEFAULT_SKILL_PROFICIENCY,
+            category: IMPORT_SKILL_GROUPS[group],
+          });
+        });
+    });
+
+    const linguistic = learner.Skills?.Linguistic;
+    EuropassUtil.list(linguistic?.MotherTongue).forEach((language) => {
+      const label = EuropassUtil.text(language?.Description?.Label);
+      if (label) cv.languages!.push({ language: label, proficiency: 'native' });
+    });
+    EuropassUtil.list(linguistic?.ForeignLanguage).forEach((language, index) => {
+      const label = EuropassUtil.text(language?.Description?.Label);
+      if (!label) return;
+
+      // Europass rates five skills; the CV keeps one level, the lowest rated
+      const levels = CEFR_SKILLS
+        .map((skill) => EuropassUtil.text(language.ProficiencyLevel?.[skill]).toUpperCase())
+        .filter((level) => (CEFR_LEVELS as string[]).includes(level))
+        .sort();
+      if (levels.length > 0) {
+        cv.languages!.push({ language: label, proficiency: levels[0] as LanguageProficiency });
+      } else {
+        cv.skills!.push({ skill_name: label, proficiency_percentage: DEFAULT_SKILL_PROFICIENCY, category: 'language' });
+      }
+      if (levels.length > 0 && new Set(levels).size > 1) {
+        unmapped.push(`LearnerInfo.Skills.Linguistic.ForeignLanguage[${index}].ProficiencyLevel`);
+      }
+    });
+
+    return { cv, unmapped };
+  }
+
+  /**
+   * Whether an import document is a Europass document (JSON form)
+   */
+  static isEuropass(data: unknown): data is EuropassDocument {
+    return !!data && typeof data === 'object' && 'SkillsPassport' in data;
+  }
+
+  /**
+   * Prepare an import body: Europass XML is parsed and Europass HTML text becomes markdown;
+   * other bodies are returned unchanged (throws on malformed Europass XML)
+   */
+  static parseImportBody(body: unknown): unknown {
+    if (typeof body === 'string') {
+      return EuropassUtil.normalize(EuropassUtil.fromXml(body));
+    }
+
+    return EuropassUtil.isEuropass(body) ? EuropassUtil.normalize(body) : body;
+  }
+
+  /**
+   * Serialise a Europass document as Europass XML
+   */
+  static toXml(europass: EuropassDocument): string {
+    const { Locale, ...passport } = europass.SkillsPassport;
+
+    return js2xml({
+      _declaration: { _attributes: { version: '1.0', encoding: 'UTF-8' } },
+      SkillsPassport: {
+        _attributes: { xmlns: EUROPASS_NAMESPACE, locale: Locale || 'en' },
+        ...EuropassUtil.toXmlNode(passport, 'SkillsPassport'),
+      },
+    }, { compact: true, spaces: 2 });
+  }
+
+  /**
+   * Parse Europass XML into the JSON form (throws on malformed XML or another root element)
+   */
+  static fromXml(xml: string): EuropassDocument {
+    const parsed: any = xml2js(xml, { compact: true, trim: true });
+    const root = parsed.SkillsPassport;
+    if (!root || typeof root !== 'object') {
+      throw new Error('Not a Europass document');
+    }
+
+    return {
+      SkillsPassport: {
+        Locale: root._attributes?.locale,
+        ...EuropassUtil.fromXmlNode(root, 'SkillsPassport'),
+      },
+    };
+  }
+
+  private static toXmlNode(value: any, name: string): any {
+    if (DATE_ELEMENTS.includes(name)) {
+      const date = value as EuropassDate;
+      return {
+        _attributes: EuropassUtil.compact({
+          year: `${date.Year}`,
+          month: date.Month ? `--${String(date.Month).padStart(2, '0')}` : undefined,
+          day: date.Day ? `---${String(date.Day).padStart(2, '0')}` : undefined,
+        }),
+      };
+    }
+
+    if (value && typeof value === 'object') {
+      const node: Record<string, any> = {};
+      Object.entries(value).forEach(([key, child]) => {
+        if (child === undefined) return;
+        if (LIST_ELEMENTS.includes(key) && Array.isArray(child)) {
+          node[`${key}List`] = { [key]: child.map((item) => EuropassUtil.toXmlNode(item, key)) };
+        } else {
+          node[key] = EuropassUtil.toXmlNode(child, key);
+        }
+      });
+      return node;
+    }
+
+    return { _text: `${value}` };
+  }
+
+  private static fromXmlNode(node: any, name: string): any {
+    if (Array.isArray(node)) {
+      return node.map((item) => EuropassUtil.fromXmlNode(item, name));
+    }
+
+    if (DATE_ELEMENTS.includes(name)) {
+      const attributes = node?._attributes || {};
+      const part = (value?: string) => value ? parseInt(value.replace(/-/g, ''), 10) : undefined;
+      return EuropassUtil.compact({ Year: part(attributes.year), Month: part(attributes.month), Day: part(attributes.day) });
+    }
+
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    const children = Object.keys(node).filter((key) => !key.startsWith('_'));
+    if (children.length === 0) {
+      const text = node._text ?? node._cdata ?? '';
+      return name === 'Current' ? text === 'true' : `${text}`;
+    }
+
+    const result: Record<string, any> = {};
+    children.forEach((key) => {
+      const item = key.endsWith('List') ? key.slice(0, -'List'.length) : '';
+      if (LIST_ELEMENTS.includes(item)) {
+        const items = node[key]?.[item];
+        result[item] = (items === undefined ? [] : [].concat(items)).map((child) => EuropassUtil.fromXmlNode(child, item));
+      } else {
+        result[key] = EuropassUtil.fromXmlNode(node[key], key);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Convert HTML in every text value of a Europass document to markdown
+   */
+  private static normalize(value: any): any {
+    if (typeof value === 'string') {
+      return /<[a-z/][^>]*>/i.test(value) ? EuropassUtil.htmlToMarkdown(value) : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => EuropassUtil.normalize(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, EuropassUtil.normalize(child)]));
+    }
+    return value;
+  }
+
+  private static htmlToMarkdown(html: string): string {
+    const converted = html
+      .replace(/\s*<li[^>]*>\s*/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|ul|ol)>/gi, '\n\n')
+      .replace(/<(strong|b)>([\s\S]*?)<\/\1>/gi, '**$2**')
+      .replace(/<(em|i)>([\s\S]*?)<\/\1>/gi, '*$2*')
+      .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '[$2]($1)')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+
+    return RichTextUtil.sanitize(converted);
+  }
+
+  private static toPeriod(from?: string, to?: string, current?: boolean): EuropassPeriod | undefined {
+    const fromDate = EuropassUtil.toDate(from);
+    if (!fromDate) return undefined;
+
+    return EuropassUtil.compact({
+      From: fromDate,
+      To: current ? undefined : EuropassUtil.toDate(to),
+      Current: current || undefined,
+    });
+  }
+
+  private static toDate(value?: string): EuropassDate | undefined {
+    const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    return match ? { Year: +match[1], Month: +match[2], Day: +match[3] } : undefined;
+  }
+
+  private static fromDate(date?: EuropassDate): string | undefined {
+    const year = Number(date?.Year);
+    if (!Number.isInteger(year) || year < 1000) return undefined;
+
+    const pad = (value?: number) => String(Number(value) || 1).padStart(2, '0');
+    return `${year}-${pad(date?.Month)}-${pad(date?.Day)}`;
+  }
+
+  // Highlights have no Europass field, so they are appended to the activities as bullets
+  private static fromHighlights(highlights?: Highlight[]): string {
+    return (highlights || [])
+      .map((highlight) => `- ${highlight.text}${highlight.metric ? ` (${highlight.metric})` : ''}`)
+      .join('\n');
+  }
+
+  private static platformName(url: string): string {
+    try {
+      return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      return 'Website';
+    }
+  }
+
+  private static collectUnmapped(source: unknown, mapped: string[], path: string, unmapped: string[]): void {
+    if (!source || typeof source !== 'object' || Array.isArray(source)) return;
+
+    Object.entries(source).forEach(([key, value]) => {
+      const isEmpty = value === null || value === '' || (Array.isArray(value) && value.length === 0);
+      if (!mapped.includes(key) && !isEmpty) {
+        unmapped.push(`${path}.${key}`);
+      }
+    });
+  }
+
+  /**
+   * Drop empty values so the export only carries fields the CV has
+   */
+  private static compact<T extends Record<string, any>>(entry: T): T {
+    return Object.fromEntries(
+      Object.entries(entry).filter(([, value]) => value !== undefined && value !== null && value !== '' &&
+        !(Array.isArray(value) && value.length === 0) &&
+        !(typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0))
+    ) as T;
+  }
+
+  private static text(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+  }
+
+  private static richText(value: unknown): string | undefined {
+    const text = EuropassUtil.text(value);
+    return text ? RichTextUtil.sanitize(text) : undefined;
+  }
+
+  private static list<T>(value?: T[]): T[] {
+    return Array.isArray(value) ? value : [];
+  }
+}
+
+export default EuropassUtil;
@@ -0,0 +1,104 @@
+import { CreateCVRequest, CVData, JsonResume } from '@/shared/types';
+import { JsonResumeUtil } from '@/utils/jsonResume';
+import { ValidationUtil } from '@/utils/validation';
+
+// What the stored copy of an imported CV looks like (ids and counters play no part in the mapping)
+const toCVData = (request: CreateCVRequest): CVData => ({
+  cv: { id: 'cv-1', title: request.title, layout: request.layout, last_modified: '2025-01-01T10:00:00+00:00' },
+  basic_details: request.basic_details,
+  education: request.education || [],
+  experience: request.experience || [],
+  projects: request.projects || [],
+  skills: request.skills || [],
+  social_profiles: request.social_profiles || [],
+} as unknown as CVData);
+
+const resume: JsonResume = {
+  basics: {
+    name: 'Ada Lovelace',
+    email: 'ada@example.com',
+    phone: '+44 20 7946 0958',
+    url: 'https://ada.dev',
+    summary: 'Writes **analytical** engines',
+    location: { postalCode: 'N1', city: 'London', region: 'Greater London' },
+    profiles: [{ network: 'GitHub', url: 'https://github.com/ada' }],
+  },
+  work: [{
+    name: 'Analytical Engines Ltd',
+    position: 'Engineer',
+    startDate: '2020-01-01',
+    endDate: '2022-06-30',
+    summary: 'Built the *mill*',
+    highlights: ['Cut costs'],
+  }],
+  education: [{
+    institution: 'University of London',
+    studyType: 'BSc',
+    startDate: '2015-09-01',
+    endDate: '2019-06-30',
+    score: '85%',
+    courses: ['Calculus', 'Logic'],
+  }],
+  projects: [{
+    name: 'Difference Engine',
+    description: 'A calculator',
+    highlights: ['Computed tables'],
+    keywords: ['Brass'],
+    url: 'https://github.com/ada/engine',
+  }],
+  skills: [{ name: 'Mathematics', level: 'Expert' }],
+};
+
+describe('JsonResumeUtil', () => {
+  it('exports an imported document unchanged', () => {
+    const { cv, unmapped } = JsonResumeUtil.toCreateRequest(resume);
+    const { $schema, meta, ...exported } = JsonResumeUtil.fromCVData(toCVData(cv));
+
+    expect(unmapped).toEqual([]);
+    expect(exported).toEqual(resume);
+    expect(meta).toEqual({ lastModified: '2025-01-01T10:00:00+00:00' });
+  });
+
+  it('reports fields it cannot map', () => {
+    const { cv, unmapped } = JsonResumeUtil.toCreateRequest({
+      basics: { name: 'Ada Lovelace', email: 'ada@example.com', profiles: [{ network: 'Twitter', username: 'ada' }] },
+      work: [{ name: 'Analytical Engines Ltd', startDate: 'spring 2020', url: 'https://engines.example.com' }],
+      skills: [{ name: 'Mathematics', level: 'Wizard' }],
+      interests: [{ name: 'Poetry' }],
+    } as JsonResume);
+
+    expect(unmapped).toEqual([
+      'interests',
+      'work[0].url',
+      'work[0].startDate',
+      'skills[0].level',
+      'basics.profiles[0].username',
+      'basics.profiles[0]',
+    ]);
+    expect(cv.skills).toEqual([{ skill_name: 'Mathematics', proficiency_percentage: 50, category: 'technical' }]);
+  });
+
+  it('sanitizes imported descriptions', () => {
+    const { cv } = JsonResumeUtil.toCreateRequest({
+      basics: { name: 'Ada Lovelace', summary: 'Hi <script>alert(1)</script>[there](javascript:void0)' },
+    });
+
+    expect(cv.basic_details.introduction).toBe('Hi alert(1)there');
+  });
+});
+
+describe('ValidationUtil.validateJsonResume', () => {
+  it('accepts a well-formed document', () => {
+    expect(ValidationUtil.validateJsonResume(resume as Record<string, unknown>)).toEqual([]);
+  });
+
+  it.each([
+    ['a document without basics', { work: [] }, 'basics'],
+    ['basics that is not an object', { basics: 'Ada' }, 'basics'],
+    ['a section that is not a list', { basics: {}, work: { name: 'Engines' } }, 'work'],
+    ['a list with non-object entries', { basics: {}, skills: ['SQL'] }, 'skills'],
+    ['profiles that are not objects', { basics: { profiles: 'github.com/ada' } }, 'basics.profiles'],
+  ])('rejects %s', (_case, document, field) => {
+    expect(ValidationUtil.validateJsonResume(document as Record<string, unknown>).map((error) => error.field)).toEqual([field]);
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * JSON Resume Utilities
+ *
+ * Business Logic:
+ * - Maps a jsonresume.org `resume.json` onto a `CreateCVRequest`:
+ *   `basics` (with `location` and `profiles`), `work`, `education`, `projects` and `skills`
+ * - Partial ISO dates ("2014", "2014-06") become the first day of the year / month
+ * - Source fields without a CV counterpart are not dropped silently: their paths
+ *   (e.g. "work[0].url", "volunteer") are returned as `unmapped`
+ * - The mapped request is not validated here; callers run it through `ValidationUtil`
+ * - Export maps the same parts back, so an exported CV imports into an equivalent CV;
+ *   sections JSON Resume import does not read (certifications, awards, ...) are only
+ *   carried by the native export
+ *
+ * Code Conventions:
+ * - Pure static helpers; no I/O and no logging
+ *
+ * @fileoverview JSON Resume import mapping
+ * @author vicky neosoft test builder app
+ */
+import {
+  CreateCVRequest,
+  CVData,
+  CVImportMapping,
+  Highlight,
+  JsonResume,
+  JsonResumeBasics,
+  JsonResumeEducation,
+  JsonResumeProject,
+  JsonResumeSkill,
+  JsonResumeWork,
+} from '@/shared/types';
+import { CV_LAYOUTS } from '@/shared/constants';
+import { RichTextUtil } from '@/utils/richText';
+
+// Source fields each mapper reads; any other non-empty field is reported as unmapped
+const MAPPED_FIELDS = {
+  resume: ['$schema', 'meta', 'basics', 'work', 'education', 'projects', 'skills'], // document metadata is not content
+  basics: ['name', 'label', 'image', 'email', 'phone', 'url', 'summary', 'location', 'profiles'],
+  location: ['address', 'postalCode', 'city', 'region'],
+  profile: ['network', 'url'],
+  work: ['name', 'location', 'position', 'startDate', 'endDate', 'summary', 'highlights'],
+  education: ['institution', 'area', 'studyType', 'startDate', 'endDate', 'score', 'courses'],
+  project: ['name', 'description', 'highlights', 'keywords', 'startDate', 'endDate', 'url'],
+  skill: ['name', 'level'],
+};
+
+// JSON Resume skill levels are free text; common wordings map to a proficiency percentage
+const SKILL_LEVELS: Record<string, number> = {
+  beginner: 25,
+  novice: 25,
+  elementary: 25,
+  intermediate: 50,
+  competent: 50,
+  advanced: 75,
+  proficient: 75,
+  expert: 90,
+  master: 100,
+};
+
+// Proficiency thresholds for the exported skill level (highest first)
+const EXPORT_SKILL_LEVELS: [number, string][] = [
+  [100, 'Master'],
+  [90, 'Expert'],
+  [75, 'Advanced'],
+  [50, 'Intermediate'],
+  [0, 'Beginner'],
+];
+
+const DEFAULT_SKILL_PROFICIENCY = 50;
+const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+const WEBSITE_PLATFORM = 'Website';
+const PARTIAL_DATE_PATTERN = /^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/;
+
+/**
+ * Utility class for JSON Resume documents
+ */
+export class JsonResumeUtil {
+  /**
+   * Map a JSON Resume document to a CV creation request
+   */
+  static toCreateRequest(resume: JsonResume): CVImportMapping {
+    const unmapped: string[] = [];
+    const basics: JsonResumeBasics = resume.basics || {};
+
+    JsonResumeUtil.collectUnmapped(resume, MAPPED_FIELDS.resume, '', unmapped);
+    JsonResumeUtil.collectUnmapped(basics, MAPPED_FIELDS.basics, 'basics', unmapped);
+    JsonResumeUtil.collectUnmapped(basics.location, MAPPED_FIELDS.location, 'basics.location', unmapped);
+
+    const name = JsonResumeUtil.text(basics.name);
+    const label = JsonResumeUtil.text(basics.label);
+    const title = name && label ? `${name} - ${label}` : name ? `${name} CV` : 'Imported CV';
+
+    const cv: CreateCVRequest = {
+      title: title.slice(0, 100),
+      layout: CV_LAYOUTS.MODERN,
+      basic_details: {
+        full_name: name,
+        email: JsonResumeUtil.text(basics.email),
+        phone: JsonResumeUtil.text(basics.phone) || undefined,
+        address: JsonResumeUtil.text(basics.location?.address) || undefined,
+        city: JsonResumeUtil.text(basics.location?.city) || undefined,
+        state: JsonResumeUtil.text(basics.location?.region) || undefined,
+        pincode: JsonResumeUtil.text(basics.location?.postalCode) || undefined,
+        introduction: JsonResumeUtil.richText(basics.summary),
+        profile_image_url: JsonResumeUtil.text(basics.image) || undefined,
+      },
+      experience: JsonResumeUtil.list(resume.work).map((work, index) =>
+        JsonResumeUtil.mapWork(work, `work[${index}]`, unmapped)),
+      education: JsonResumeUtil.list(resume.education).map((education, index) =>
+        JsonResumeUtil.mapEducation(education, `education[${index}]`, unmapped)),
+      projects: JsonResumeUtil.list(resume.projects).map((project, index) =>
+        JsonResumeUtil.mapProject(project, `projects[${index}]`, unmapped)),
+      skills: JsonResumeUtil.list(resume.skills).map((skill, index) =>
+        JsonResumeUtil.mapSkill(skill, `skills[${index}]`, unmapped)),
+      social_profiles: [],
+    };
+
+    const website = JsonResumeUtil.text(basics.url);
+    if (website) {
+      cv.social_profiles!.push({ platform_name: WEBSITE_PLATFORM, profile_url: website, is_public: true });
+    }
+
+    JsonResumeUtil.list(basics.profiles).forEach((profile, index) => {
+      const path = `basics.profiles[${index}]`;
+      JsonResumeUtil.collectUnmapped(profile, MAPPED_FIELDS.profile, path, unmapped);
+
+      // A profile is stored as a link; username-only profiles cannot be linked
+      const url = JsonResumeUtil.text(profile.url);
+      if (!url) {
+        unmapped.push(path);
+        return;
+      }
+      cv.social_profiles!.push({
+        platform_name: JsonResumeUtil.text(profile.network) || 'Profile',
+        profile_url: url,
+        is_public: true,
+      });
+    });
+
+    return { cv, unmapped };
+  }
+
+  /**
+   * Map a CV to a JSON Resume document
+   */
+  static fromCVData(cvData: CVData): JsonResume {
+    const details = cvData.basic_details;
+    const website = cvData.social_profiles.find((profile) => profile.platform_name === WEBSITE_PLATFORM);
+    const location = JsonResumeUtil.compact({
+      address: details.address,
+      postalCode: details.pincode,
+      city: details.city,
+      region: details.state,
+    });
+
+    return {
+      $schema: JSON_RESUME_SCHEMA_URL,
+      basics: JsonResumeUtil.compact({
+        name: details.full_name,
+        image: details.profile_image_url,
+        email: details.email,
+        phone: details.phone,
+        url: website?.profile_url,
+        summary: details.introduction,
+        location: Object.keys(location).length > 0 ? location : undefined,
+        profiles: cvData.social_profiles
+          .filter((profile) => profile !== website)
+          .map((profile) => ({ network: profile.platform_name, url: profile.profile_url })),
+      }),
+      work: cvData.experience.map((exp) => JsonResumeUtil.compact({
+        name: exp.organization_name,
+        position: exp.position,
+        location: exp.joining_location,
+        startDate: exp.joining_date?.slice(0, 10),
+        endDate: exp.is_current ? undefined : exp.leaving_date?.slice(0, 10),
+        summary: exp.description,
+        highlights: JsonResumeUtil.fromHighlights(exp.highlights),
+      })),
+      education: cvData.education.map((edu) => {
+        // A description that is only a bullet list reads as the course list
+        const blocks = RichTextUtil.parse(edu.description);
+        const isCourseList = blocks.length > 0 && blocks.every((block) => block.type === 'list');
+
+        return JsonResumeUtil.compact({
+          institution: edu.institution,
+          studyType: edu.degree_name,
+          startDate: edu.start_date?.slice(0, 10),
+          endDate: edu.is_current ? undefined : edu.end_date?.slice(0, 10),
+          score: edu.percentage != null ? `${edu.percentage}%` : edu.cgpa != null ? `${edu.cgpa}` : undefined,
+          courses: isCourseList
+            ? blocks.flatMap((block) => block.type === 'list' ? block.items.map((runs) => runs.map((run) => run.text).join('')) : [])
+            : undefined,
+        });
+      }),
+      projects: cvData.projects.map((project) => JsonResumeUtil.compact({
+        name: project.title,
+        description: project.description,
+        highlights: JsonResumeUtil.fromHighlights(project.highlights),
+        keywords: project.technologies,
+        url: project.project_url || project.github_url,
+      })),
+      skills: cvData.skills.map((skill) => ({
+        name: skill.skill_name,
+        level: EXPORT_SKILL_LEVELS.find(([minimum]) => skill.proficiency_percentage >= minimum)?.[1],
+      })),
+      meta: { lastModified: cvData.cv.last_modified },
+    };
+  }
+
+  /**
+   * Normalise a full or partial ISO date to YYYY-MM-DD (undefined when missing or unreadable)
+   */
+  static toDate(value?: unknown): string | undefined {
+    const match = JsonResumeUtil.text(value).match(PARTIAL_DATE_PATTERN);
+    if (!match) return undefined;
+
+    const [, year, month = '01', day = '01'] = match;
+    return `${year}-${month}-${day}`;
+  }
+
+  private static mapWork(
+    work: JsonResumeWork,
+    path: string,
+    unmapped: string[]
+  ): NonNullable<CreateCVRequest['experience']>[number] {
+    JsonResumeUtil.collectUnmapped(work, MAPPED_FIELDS.work, path, unmapped);
+    JsonResumeUtil.checkDates(work, path, unmapped);
+
+    return {
+      organization_name: JsonResumeUtil.text(work.name),
+      position: JsonResumeUtil.text(work.position),
+      joining_location: JsonResumeUtil.text(work.location) || undefined,
+      joining_date: JsonResumeUtil.toDate(work.startDate) || '',
+      leaving_date: JsonResumeUtil.toDate(work.endDate),
+      is_current: !work.endDate,
+      description: JsonResumeUtil.richText(work.summary),
+      highlights: JsonResumeUtil.toHighlights(work.highlights),
+    };
+  }
+
+  private static mapEducation(
+    education: JsonResumeEducation,
+    path: string,
+    unmapped: string[]
+  ): NonNullable<CreateCVRequest['education']>[number] {
+    JsonResumeUtil.collectUnmapped(education, MAPPED_FIELDS.education, path, unmapped);
+    JsonResumeUtil.checkDates(education, path, unmapped);
+
+    const degree = [JsonResumeUtil.text(education.studyType), JsonResumeUtil.text(education.area)].filter(Boolean).join(' in ');
+    const courses = JsonResumeUtil.list(education.courses).map(JsonResumeUtil.text).filter(Boolean);
+
+    // "85%" or a number above 10 is a percentage, up to 10 a CGPA; anything else has no column
+    const scoreText = JsonResumeUtil.text(education.score);
+    const score = parseFloat(scoreText);
+    const isScore = /^\d+(\.\d+)?\s*%?$/.test(scoreText) && score <= 100;
+    if (scoreText && !isScore) {
+      unmapped.push(`${path}.score`);
+    }
+
+    return {
+      degree_name: degree,
+      institution: JsonResumeUtil.text(education.institution),
+      percentage: isScore && (scoreText.endsWith('%') || score > 10) ? score : undefined,
+      cgpa: isScore && !scoreText.endsWith('%') && score <= 10 ? score : undefined,
+      start_date: JsonResumeUtil.toDate(education.startDate) || '',
+      end_date: JsonResumeUtil.toDate(education.endDate),
+      is_current: !education.endDate,
+      description: courses.length > 0 ? courses.map((course) => `- ${course}`).join('\n') : undefined,
+    };
+  }
+
+  private static mapProject(
+    project: JsonResumeProject,
+    path: string,
+    unmapped: string[]
+  ): NonNullable<CreateCVRequest['projects']>[number] {
+    JsonResumeUtil.collectUnmapped(project, MAPPED_FIELDS.project, path, unmapped);
+
+    const url = JsonResumeUtil.text(project.url);
+    const isGithub = !!url && /^https?:\/\/(www\.)?github\.com\//i.test(url);
+    const start = JsonResumeUtil.text(project.startDate);
+    const end = JsonResumeUtil.text(project.endDate);
+
+    return {
+      title: JsonResumeUtil.text(project.name),
+      duration: start ? `${start} - ${end || 'Present'}` : end || undefined,
+      technologies: JsonResumeUtil.list(project.keywords).map(JsonResumeUtil.text).filter(Boolean),
+      description: JsonResumeUtil.richText(project.description),
+      highlights: JsonResumeUtil.toHighlights(project.highlights),
+      project_url: isGithub ? undefined : url || undefined,
+      github_url: isGithub ? url : undefined,
+    };
+  }
+
+  private static mapSkill(
+    skill: JsonResumeSkill,
+    path: string,
+    unmapped: string[]
+  ): NonNullable<CreateCVRequest['skills']>[number] {
+    JsonResumeUtil.collectUnmapped(skill, MAPPED_FIELDS.skill, path, unmapped);
+
+    const level = JsonResumeUtil.text(skill.level).toLowerCase();
+    if (level && SKILL_LEVELS[level] === undefined) {
+      unmapped.push(`${path}.level`);
+    }
+
+    return {
+      skill_name: JsonResumeUtil.text(skill.name),
+      proficiency_percentage: (level && SKILL_LEVELS[level]) || DEFAULT_SKILL_PROFICIENCY,
+      category: 'technical',
+    };
+  }
+
+  private static toHighlights(highlights?: string[]) {
+    return JsonResumeUtil.list(highlights)
+      .map(JsonResumeUtil.text)
+      .filter(Boolean)
+      .map((text) => ({ text }));
+  }
+
+  // Metrics have no JSON Resume field, so they are kept in the bullet text
+  private static fromHighlights(highlights?: Highlight[]): string[] | undefined {
+    return highlights?.map((highlight) => highlight.metric ? `${highlight.text} (${highlight.metric})` : highlight.text);
+  }
+
+  /**
+   * Drop empty values so the export only carries fields the CV has
+   */
+  private static compact<T extends Record<string, unknown>>(entry: T): T {
+    return Object.fromEntries(
+      Object.entries(entry).filter(([, value]) => value !== undefined && value !== null && value !== '' &&
+        !(Array.isArray(value) && value.length === 0))
+    ) as T;
+  }
+
+  /**
+   * Report dates that are present but not ISO dates (they cannot be stored)
+   */
+  private static checkDates(entry: { startDate?: string; endDate?: string }, path: string, unmapped: string[]): void {
+    (['startDate', 'endDate'] as const).forEach((field) => {
+      if (entry[field] && !JsonResumeUtil.toDate(entry[field])) {
+        unmapped.push(`${path}.${field}`);
+      }
+    });
+  }
+
+  private static collectUnmapped(source: unknown, mapped: string[], path: string, unmapped: string[]): void {
+    if (!source || typeof source !== 'object' || Array.isArray(source)) return;
+
+    Object.entries(source).forEach(([key, value]) => {
+      const isEmpty = value === null || value === '' || (Array.isArray(value) && value.length === 0);
+      if (!mapped.includes(key) && !isEmpty) {
+        unmapped.push(path ? `${path}.${key}` : key);
+      }
+    });
+  }
+
+  /**
+   * Trimmed string value ('' for anything that is not a string)
+   */
+  private static text(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+  }
+
+  private static richText(value: unknown): string | undefined {
+    const text = JsonResumeUtil.text(value);
+    return text ? RichTextUtil.sanitize(text) : undefined;
+  }
+
+  private static list<T>(value?: T[]): T[] {
+    return Array.isArray(value) ? value : [];
+  }
+}
+
+export default JsonResumeUtil;
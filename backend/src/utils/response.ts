@@ -70,16 +70,18 @@ export class ResponseUtil {
   /**
    * Send error response
    */
-  static error(
+  static error<T>(
     res: Response,
     message: string = API_MESSAGES.INTERNAL_ERROR,
     statusCode: number = HTTP_STATUS.INTERNAL_SERVER_ERROR,
-    error?: string
+    error?: string,
+    data?: T
   ): Response {
-    const response: ApiResponse = {
+    const response: ApiResponse<T> = {
       success: false,
       message,
       error,
+      ...(data !== undefined ? { data } : {}),
     };
 
     return res.status(statusCode).json(response);
@@ -130,14 +132,15 @@ export class ResponseUtil {
   }
 
   /**
-   * Send conflict response
+   * Send conflict response (optionally with the current server state)
    */
-  static conflict(
+  static conflict<T>(
     res: Response,
     message: string = API_MESSAGES.CONFLICT,
-    error?: string
+    error?: string,
+    data?: T
   ): Response {
-    return this.error(res, message, HTTP_STATUS.CONFLICT, error);
+    return this.error(res, message, HTTP_STATUS.CONFLICT, error, data);
   }
 
   /**
@@ -185,14 +188,24 @@ export class ResponseUtil {
   }
 
   /**
-   * Send file download response
+   * Send file download response (from disk path or in-memory buffer)
    */
   static download(
     res: Response,
-    filePath: string,
-    fileName: string
+    file: string | Buffer,
+    fileName: string,
+    contentType: string = 'application/octet-stream'
   ): void {
-    res.download(filePath, fileName, (err) => {
+    if (Buffer.isBuffer(file)) {
+      res.status(HTTP_STATUS.OK);
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Length', file.length);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.end(file);
+      return;
+    }
+
+    res.download(file, fileName, (err) => {
       if (err) {
         console.error('File download error:', err);
         this.error(res, 'File download failed');
@@ -200,6 +213,17 @@ export class ResponseUtil {
     });
   }
 
+  /**
+   * Send HTML document response
+   */
+  static html(
+    res: Response,
+    html: string,
+    statusCode: number = HTTP_STATUS.OK
+  ): Response {
+    return res.status(statusCode).type('html').send(html);
+  }
+
   /**
    * Send file stream response
    */
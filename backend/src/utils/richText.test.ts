@@ -0,0 +1,26 @@
+import { RichTextUtil } from '@/utils/richText';
+
+describe('RichTextUtil.sanitize', () => {
+  it('removes tags that reassemble after one pass', () => {
+    expect(RichTextUtil.sanitize('<<script>script>alert(1)<</script>/script>')).toBe('alert(1)');
+    expect(RichTextUtil.sanitize('<scr<b>ipt>alert(1)</scr</b>ipt>')).toBe('ipt>alert(1)ipt>');
+    expect(RichTextUtil.sanitize('<!<!-- x -->-- hidden -->text')).toBe('text');
+  });
+
+  it('leaves no tag opener behind', () => {
+    const sanitized = RichTextUtil.sanitize('Led <<img src=x>img src=x onerror=alert(1)> the team <script');
+
+    expect(sanitized).not.toMatch(/<[a-z/!?]/i);
+    expect(sanitized).toBe('Led  the team script');
+  });
+
+  it('keeps the markdown subset and plain comparisons', () => {
+    const input = 'Cut costs by **30%** for *all* teams\n- Wrote [docs](https://example.com/docs)\n- Kept latency < 5 ms';
+
+    expect(RichTextUtil.sanitize(input)).toBe(input);
+  });
+
+  it('drops links with disallowed schemes but keeps their text', () => {
+    expect(RichTextUtil.sanitize('[click](javascript:alert`1`)')).toBe('click');
+  });
+});
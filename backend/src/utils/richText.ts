@@ -0,0 +1,147 @@
+/**
+ * Rich Text Utilities
+ *
+ * Business Logic:
+ * - Descriptions and the introduction are stored as a restricted markdown subset:
+ *   `**bold**`, `*italic*`, `[text](https://...)` links and `- ` bullet lists
+ * - Sanitizing keeps only that subset: HTML is removed (repeatedly, so nested or split tags
+ *   cannot reassemble) and links are limited to http(s) and mailto URLs (other links keep their text only)
+ * - Parsing yields a small block/inline tree every renderer (PDF/HTML, DOCX, plain text)
+ *   formats the same way; anything outside the subset is shown as literal text
+ *
+ * Code Conventions:
+ * - Pure static helpers; renderers escape text themselves
+ *
+ * @fileoverview Restricted markdown for CV descriptions
+ * @author vicky neosoft test builder app
+ */
+import { RichTextBlock, RichTextRun } from '@/shared/types';
+
+const HTML_PATTERN = /<!--[\s\S]*?-->|<\/?[a-z][^>]*>/gi;
+// A `<` that could still open a tag or comment once text around it changes (e.g. an unclosed `<script`)
+const TAG_OPEN_PATTERN = /<(?=[a-z/!?])/gi;
+const LINK_PATTERN = /\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+const INLINE_PATTERN = /\*\*(?!\s)(.+?)\*\*|\*(?![\s*])(.+?)\*|\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+
+/**
+ * Utility class for rich text fields
+ */
+export class RichTextUtil {
+  /**
+   * Reduce input to the allowed markdown subset
+   */
+  static sanitize(input: string): string {
+    return RichTextUtil.stripHtml(input.replace(/\r\n?/g, '\n'))
+      .replace(/!\[/g, '[')
+      .replace(LINK_PATTERN, (_match, label: string, url: string) =>
+        RichTextUtil.isAllowedUrl(url) ? `[${label}](${url})` : label)
+      .replace(/^[ \t]*[*+][ \t]+/gm, '- ')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Remove HTML until none is left; removing one tag can join the text around it into another
+   * (`<<b>script>`), so a single pass is not enough
+   */
+  private static stripHtml(input: string): string {
+    let text = input;
+    let previous: string;
+    do {
+      previous = text;
+      text = text.replace(HTML_PATTERN, '');
+    } while (text !== previous);
+
+    return text.replace(TAG_OPEN_PATTERN, '');
+  }
+
+  /**
+   * Split text into paragraphs and bullet lists of formatted runs
+   */
+  static parse(text?: string | null): RichTextBlock[] {
+    const blocks: RichTextBlock[] = [];
+    let current: RichTextBlock | null = null;
+
+    for (const line of (text || '').replace(/\r\n?/g, '\n').split('\n')) {
+      if (!line.trim()) {
+        current = null;
+        continue;
+      }
+
+      const bullet = line.match(BULLET_PATTERN);
+      if (bullet) {
+        if (current?.type !== 'list') {
+          current = { type: 'list', items: [] };
+          blocks.push(current);
+        }
+        current.items.push(RichTextUtil.parseInline(bullet[1]));
+      } else {
+        if (current?.type !== 'paragraph') {
+          current = { type: 'paragraph', lines: [] };
+          blocks.push(current);
+        }
+        current.lines.push(RichTextUtil.parseInline(line.trim()));
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Text without formatting; bullets become "- " lines
+   */
+  static toPlainText(text?: string | null): string {
+    const runsText = (runs: RichTextRun[]) => runs.map((run) => run.text).join('');
+
+    return RichTextUtil.parse(text)
+      .map((block) => block.type === 'list'
+        ? block.items.map((item) => `- ${runsText(item)}`).join('\n')
+        : block.lines.map(runsText).join('\n'))
+      .join('\n\n');
+  }
+
+  /**
+   * Only web and mail links are kept
+   */
+  static isAllowedUrl(url: string): boolean {
+    try {
+      return ['http:', 'https:', 'mailto:'].includes(new URL(url).protocol);
+    } catch {
+      return false;
+    }
+  }
+
+  private static parseInline(text: string, marks: Omit<RichTextRun, 'text'> = {}): RichTextRun[] {
+    const runs: RichTextRun[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(INLINE_PATTERN)) {
+      const index = match.index ?? 0;
+      if (index > last) {
+        runs.push({ text: text.slice(last, index), ...marks });
+      }
+
+      const [, bold, italic, label, url] = match;
+      if (bold !== undefined) {
+        runs.push(...RichTextUtil.parseInline(bold, { ...marks, bold: true }));
+      } else if (italic !== undefined) {
+        runs.push(...RichTextUtil.parseInline(italic, { ...marks, italic: true }));
+      } else if (RichTextUtil.isAllowedUrl(url)) {
+        runs.push(...RichTextUtil.parseInline(label, { ...marks, href: url }));
+      } else {
+        runs.push({ text: label, ...marks });
+      }
+
+      last = index + match[0].length;
+    }
+
+    if (last < text.length) {
+      runs.push({ text: text.slice(last), ...marks });
+    }
+
+    return runs;
+  }
+}
+
+export default RichTextUtil;
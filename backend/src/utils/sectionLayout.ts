@@ -0,0 +1,48 @@
+/**
+ * Section Layout Utilities
+ *
+ * Business Logic:
+ * - Resolves a CV's `section_config` into the sections to render, in order, with their headings
+ * - Sections missing from the configured order follow in default order, so newly added
+ *   section types still show up on CVs saved before they existed
+ * - A missing or empty config means the default layout
+ *
+ * Code Conventions:
+ * - Pure static helpers shared by every renderer (PDF/HTML, DOCX, public view)
+ *
+ * @fileoverview Per-CV section order, visibility and headings
+ * @author vicky neosoft test builder app
+ */
+import { CVLayoutSection, CVSectionConfig, ResolvedCVSection } from '@/shared/types';
+import { DEFAULT_SECTION_TITLES } from '@/shared/constants';
+
+const DEFAULT_ORDER = Object.keys(DEFAULT_SECTION_TITLES) as CVLayoutSection[];
+
+/**
+ * Utility class for CV section layouts
+ */
+export class SectionLayoutUtil {
+  /**
+   * All sections in render order, including hidden ones
+   */
+  static resolve(config?: CVSectionConfig | null): ResolvedCVSection[] {
+    const configured = (config?.order || []).filter((section) => DEFAULT_ORDER.includes(section));
+    const order = Array.from(new Set([...configured, ...DEFAULT_ORDER]));
+    const hidden = new Set(config?.hidden || []);
+
+    return order.map((key) => ({
+      key,
+      title: config?.titles?.[key]?.trim() || DEFAULT_SECTION_TITLES[key],
+      hidden: hidden.has(key),
+    }));
+  }
+
+  /**
+   * Sections to render, in order
+   */
+  static visible(config?: CVSectionConfig | null): ResolvedCVSection[] {
+    return SectionLayoutUtil.resolve(config).filter((section) => !section.hidden);
+  }
+}
+
+export default SectionLayoutUtil;
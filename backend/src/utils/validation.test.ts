@@ -0,0 +1,34 @@
+import { ValidationUtil } from '@/utils/validation';
+
+describe('ValidationUtil.validateSectionItem', () => {
+  it('rejects fields that are not columns of the section', () => {
+    expect(ValidationUtil.validateSectionItem('skills', { skill_name: 'SQL', colour: 'red' }, true)).toEqual([
+      { field: 'colour', message: 'Unknown skills field' },
+    ]);
+  });
+
+  it('ignores storage columns and accepts a partial update of known fields', () => {
+    expect(ValidationUtil.validateSectionItem('skills', { id: 'x', cv_id: 'y', skill_name: 'SQL' }, true)).toEqual([]);
+  });
+
+  it('requires at least one writable field in a partial update', () => {
+    expect(ValidationUtil.validateSectionItem('languages', { id: 'x' }, true)).toEqual([
+      { field: 'languages', message: 'At least one of language, proficiency is required' },
+    ]);
+  });
+});
+
+describe('ValidationUtil.validateItemIds', () => {
+  const id = '5b7c2c7e-2f0e-4c5c-9a53-1f6f0d2b8a11';
+
+  it('accepts items without ids and items with unique valid ids', () => {
+    expect(ValidationUtil.validateItemIds({ skills: [{ id }, { skill_name: 'SQL' }] })).toEqual([]);
+  });
+
+  it('rejects malformed and repeated ids', () => {
+    expect(ValidationUtil.validateItemIds({ skills: [{ id: 'temp-1' }, { id }, { id }] })).toEqual([
+      { field: 'skills[0].id', message: 'Item id must be a valid ID' },
+      { field: 'skills[2].id', message: 'Item ids must be unique within a section' },
+    ]);
+  });
+});
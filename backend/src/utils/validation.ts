@@ -1,5 +1,9 @@
-import { ValidationError } from '@/shared/types';
-import { UserRules, CVRules } from '@/shared/rules';
+import { ValidationError, CVItemSection } from '@/shared/types';
+import { UserRules, CVRules, ShareLinkRules, AnalyticsRules } from '@/shared/rules';
+import { SHARE_PLATFORMS, VALIDATION_RULES, CV_EXPORT_SCHEMA_VERSION, CV_SECTIONS, EXPORT_FORMATS, SECTION_ITEM_FIELDS } from '@/shared/constants';
+
+// Item columns managed by the server; accepted in item payloads but never written from them
+const ITEM_STORAGE_FIELDS = ['id', 'cv_id', 'sort_order', 'created_at', 'updated_at'];
 
 /**
  * Utility class for validation operations
@@ -158,11 +162,19 @@ export class ValidationUtil {
     title: string;
     layout: string;
     basic_details: any;
+    section_config?: any;
     education?: any[];
     experience?: any[];
     projects?: any[];
     skills?: any[];
     social_profiles?: any[];
+    certifications?: any[];
+    awards?: any[];
+    publications?: any[];
+    languages?: any[];
+    volunteering?: any[];
+    references?: any[];
+    custom_sections?: any[];
   }): ValidationError[] {
     const errors: ValidationError[] = [];
 
@@ -175,6 +187,11 @@ export class ValidationUtil {
     // Validate basic details
     errors.push(...CVRules.validateBasicDetails(data.basic_details));
 
+    // Validate section layout (if provided)
+    if (data.section_config !== undefined) {
+      errors.push(...CVRules.validateSectionConfig(data.section_config));
+    }
+
     // Validate education (if provided)
     if (data.education && data.education.length > 0) {
       errors.push(...CVRules.validateEducation(data.education));
@@ -200,6 +217,43 @@ export class ValidationUtil {
       errors.push(...CVRules.validateSocialProfiles(data.social_profiles));
     }
 
+    // Validate certifications (if provided)
+    if (data.certifications && data.certifications.length > 0) {
+      errors.push(...CVRules.validateCertifications(data.certifications));
+    }
+
+    // Validate awards (if provided)
+    if (data.awards && data.awards.length > 0) {
+      errors.push(...CVRules.validateAwards(data.awards));
+    }
+
+    // Validate publications (if provided)
+    if (data.publications && data.publications.length > 0) {
+      errors.push(...CVRules.validatePublications(data.publications));
+    }
+
+    // Validate languages (if provided)
+    if (data.languages && data.languages.length > 0) {
+      errors.push(...CVRules.validateLanguages(data.languages));
+    }
+
+    // Validate volunteering (if provided)
+    if (data.volunteering && data.volunteering.length > 0) {
+      errors.push(...CVRules.validateVolunteering(data.volunteering));
+    }
+
+    // Validate references (if provided)
+    if (data.references && data.references.length > 0) {
+      errors.push(...CVRules.validateReferences(data.references));
+    }
+
+    // Validate custom sections (if provided)
+    if (data.custom_sections && data.custom_sections.length > 0) {
+      errors.push(...CVRules.validateCustomSections(data.custom_sections));
+    }
+
+    errors.push(...ValidationUtil.validateItemIds(data));
+
     return errors;
   }
 
@@ -211,15 +265,40 @@ export class ValidationUtil {
     layout?: string;
     status?: string;
     is_public?: boolean;
+    section_config?: any;
     basic_details?: any;
     education?: any[];
     experience?: any[];
     projects?: any[];
     skills?: any[];
     social_profiles?: any[];
+    certifications?: any[];
+    awards?: any[];
+    publications?: any[];
+    languages?: any[];
+    volunteering?: any[];
+    references?: any[];
+    custom_sections?: any[];
+    version?: string;
+    autosave?: boolean;
   }): ValidationError[] {
     const errors: ValidationError[] = [];
 
+    if (data.autosave !== undefined && typeof data.autosave !== 'boolean') {
+      errors.push({
+        field: 'autosave',
+        message: 'Autosave must be a boolean'
+      });
+    }
+
+    // Validate version precondition (if provided)
+    if (data.version !== undefined && (typeof data.version !== 'string' || isNaN(Date.parse(data.version)))) {
+      errors.push({
+        field: 'version',
+        message: 'Version must be the last_modified timestamp of the CV'
+      });
+    }
+
     // Validate title (if provided)
     if (data.title !== undefined) {
       errors.push(...CVRules.validateTitle(data.title));
@@ -246,6 +325,11 @@ export class ValidationUtil {
       errors.push(...CVRules.validateBasicDetails(data.basic_details));
     }
 
+    // Validate section layout (if provided)
+    if (data.section_config !== undefined) {
+      errors.push(...CVRules.validateSectionConfig(data.section_config));
+    }
+
     // Validate education (if provided)
     if (data.education !== undefined && data.education.length > 0) {
       errors.push(...CVRules.validateEducation(data.education));
@@ -271,6 +355,356 @@ export class ValidationUtil {
       errors.push(...CVRules.validateSocialProfiles(data.social_profiles));
     }
 
+    // Validate certifications (if provided)
+    if (data.certifications !== undefined && data.certifications.length > 0) {
+      errors.push(...CVRules.validateCertifications(data.certifications));
+    }
+
+    // Validate awards (if provided)
+    if (data.awards !== undefined && data.awards.length > 0) {
+      errors.push(...CVRules.validateAwards(data.awards));
+    }
+
+    // Validate publications (if provided)
+    if (data.publications !== undefined && data.publications.length > 0) {
+      errors.push(...CVRules.validatePublications(data.publications));
+    }
+
+    // Validate languages (if provided)
+    if (data.languages !== undefined && data.languages.length > 0) {
+      errors.push(...CVRules.validateLanguages(data.languages));
+    }
+
+    // Validate volunteering (if provided)
+    if (data.volunteering !== undefined && data.volunteering.length > 0) {
+      errors.push(...CVRules.validateVolunteering(data.volunteering));
+    }
+
+    // Validate references (if provided)
+    if (data.references !== undefined && data.references.length > 0) {
+      errors.push(...CVRules.validateReferences(data.references));
+    }
+
+    // Validate custom sections (if provided)
+    if (data.custom_sections !== undefined && data.custom_sections.length > 0) {
+      errors.push(...CVRules.validateCustomSections(data.custom_sections));
+    }
+
+    errors.push(...ValidationUtil.validateItemIds(data));
+
+    return errors;
+  }
+
+  /**
+   * Validate the ids of section items in a full save (items with an id are updated in place)
+   */
+  static validateItemIds(data: Record<string, any>): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    (Object.keys(SECTION_ITEM_FIELDS) as CVItemSection[]).forEach((section) => {
+      if (!Array.isArray(data[section])) {
+        return;
+      }
+
+      const seen = new Set<string>();
+      data[section].forEach((item: any, index: number) => {
+        const id = item?.id;
+        if (id === undefined || id === null) {
+          return;
+        }
+
+        if (typeof id !== 'string' || !ValidationUtil.isValidUUID(id)) {
+          errors.push({ field: `${section}[${index}].id`, message: 'Item id must be a valid ID' });
+        } else if (seen.has(id)) {
+          errors.push({ field: `${section}[${index}].id`, message: 'Item ids must be unique within a section' });
+        }
+        seen.add(id);
+      });
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validate a single section item (item-level endpoints)
+   *
+   * With `partial`, only the fields present in `data` are checked (PATCH).
+   */
+  static validateSectionItem(section: CVItemSection, data: any, partial: boolean = false): ValidationError[] {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return [{ field: section, message: 'Item must be an object' }];
+    }
+
+    const validators: Record<CVItemSection, (items: any[]) => ValidationError[]> = {
+      education: CVRules.validateEducation,
+      experience: CVRules.validateExperience,
+      projects: CVRules.validateProjects,
+      skills: CVRules.validateSkills,
+      social_profiles: CVRules.validateSocialProfiles,
+      certifications: CVRules.validateCertifications,
+      awards: CVRules.validateAwards,
+      publications: CVRules.validatePublications,
+      languages: CVRules.validateLanguages,
+      volunteering: CVRules.validateVolunteering,
+      references: CVRules.validateReferences,
+      custom_sections: CVRules.validateCustomSections,
+    };
+
+    // Storage columns are ignored; anything else outside the section's columns is rejected
+    const allowed: readonly string[] = SECTION_ITEM_FIELDS[section];
+    const fields = Object.keys(data).filter((field) => !ITEM_STORAGE_FIELDS.includes(field));
+    const unknown = fields.filter((field) => !allowed.includes(field));
+    if (unknown.length > 0) {
+      return unknown.map((field) => ({ field, message: `Unknown ${section} field` }));
+    }
+
+    if (partial && fields.length === 0) {
+      return [{ field: section, message: `At least one of ${allowed.join(', ')} is required` }];
+    }
+
+    // Rules address list entries (`education[0].institution`); report plain field names instead
+    return validators[section]([data])
+      .map((error) => ({ ...error, field: error.field.replace(`${section}[0].`, '') }))
+      // Nested fields (`items[0].title`) belong to their top-level field
+      .filter((error) => !partial || error.field.split(/[.[]/)[0] in data);
+  }
+
+  /**
+   * Validate a section reorder request (`ids` in the new order)
+   */
+  static validateSectionOrder(data: { ids?: unknown }): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!Array.isArray(data.ids) || data.ids.length === 0) {
+      errors.push({ field: 'ids', message: 'ids must be a non-empty array of item IDs' });
+      return errors;
+    }
+
+    if (data.ids.some((id) => typeof id !== 'string' || !ValidationUtil.isValidUUID(id))) {
+      errors.push({ field: 'ids', message: 'ids must only contain valid item IDs' });
+    } else if (new Set(data.ids).size !== data.ids.length) {
+      errors.push({ field: 'ids', message: 'ids must not contain duplicates' });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate an import document: a native CV export or a JSON Resume document
+   */
+  static validateCVImport(data: Record<string, unknown>): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+    if (isObject(data) && data.SkillsPassport !== undefined) {
+      return ValidationUtil.validateEuropass(data);
+    }
+
+    if (!isObject(data) || data.schema_version === undefined) {
+      return ValidationUtil.validateJsonResume(data);
+    }
+
+    const version = data.schema_version;
+    if (!Number.isInteger(version) || (version as number) < 1 || (version as number) > CV_EXPORT_SCHEMA_VERSION) {
+      errors.push({ field: 'schema_version', message: `Unsupported export schema version (supported: 1 to ${CV_EXPORT_SCHEMA_VERSION})` });
+      return errors;
+    }
+
+    if (!isObject(data.cv)) {
+      errors.push({ field: 'cv', message: 'cv must be an object' });
+    }
+
+    if (!isObject(data.basic_details)) {
+      errors.push({ field: 'basic_details', message: 'basic_details must be an object' });
+    }
+
+    Object.values(CV_SECTIONS).filter((section) => section !== CV_SECTIONS.BASIC_DETAILS).forEach((section) => {
+      const list = data[section];
+      if (list !== undefined && (!Array.isArray(list) || !list.every(isObject))) {
+        errors.push({ field: section, message: `${section} must be an array of objects` });
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validate the shape of a Europass document (content is validated after mapping)
+   */
+  static validateEuropass(data: Record<string, any>): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+    const learner = data.SkillsPassport?.LearnerInfo;
+
+    if (!isObject(data.SkillsPassport) || !isObject(learner)) {
+      errors.push({ field: 'SkillsPassport.LearnerInfo', message: 'A Europass document with LearnerInfo is required' });
+      return errors;
+    }
+
+    ['WorkExperience', 'Education'].forEach((section) => {
+      const list = learner[section];
+      if (list !== undefined && (!Array.isArray(list) || !list.every(isObject))) {
+        errors.push({ field: `LearnerInfo.${section}`, message: `${section} must be an array of objects` });
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validate CV export query (`format` defaults to JSON Resume)
+   */
+  static validateExportQuery(query: { format?: string }): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const formats: string[] = Object.values(EXPORT_FORMATS);
+
+    if (query.format !== undefined && !formats.includes(query.format)) {
+      errors.push({ field: 'format', message: `format must be one of: ${formats.join(', ')}` });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the shape of a JSON Resume document (content is validated after mapping)
+   */
+  static validateJsonResume(data: Record<string, unknown>): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+    if (!isObject(data) || !isObject(data.basics)) {
+      errors.push({ field: 'basics', message: 'A JSON Resume document with a basics object is required' });
+      return errors;
+    }
+
+    ['work', 'education', 'projects', 'skills'].forEach((section) => {
+      const list = data[section];
+      if (list !== undefined && (!Array.isArray(list) || !list.every(isObject))) {
+        errors.push({ field: section, message: `${section} must be an array of objects` });
+      }
+    });
+
+    const profiles = (data.basics as Record<string, unknown>).profiles;
+    if (profiles !== undefined && (!Array.isArray(profiles) || !profiles.every(isObject))) {
+      errors.push({ field: 'basics.profiles', message: 'basics.profiles must be an array of objects' });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate CV share request
+   */
+  static validateCVShare(data: {
+    platform?: string;
+    recipient_email?: string;
+    message?: string;
+    attach_pdf?: boolean;
+  }): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const validPlatforms: string[] = Object.values(SHARE_PLATFORMS);
+
+    if (!data.platform || !validPlatforms.includes(data.platform)) {
+      errors.push({
+        field: 'platform',
+        message: `Platform must be one of: ${validPlatforms.join(', ')}`
+      });
+    }
+
+    if (data.platform === SHARE_PLATFORMS.EMAIL && !data.recipient_email) {
+      errors.push({
+        field: 'recipient_email',
+        message: 'Recipient email is required for email shares'
+      });
+    }
+
+    if (data.recipient_email && !this.isValidEmail(data.recipient_email)) {
+      errors.push({
+        field: 'recipient_email',
+        message: 'Recipient email must be a valid email address'
+      });
+    }
+
+    if (data.message !== undefined && 
+        (typeof data.message !== 'string' || data.message.length > VALIDATION_RULES.SHARE_MESSAGE.MAX_LENGTH)) {
+      errors.push({
+        field: 'message',
+        message: `Message must be at most ${VALIDATION_RULES.SHARE_MESSAGE.MAX_LENGTH} characters`
+      });
+    }
+
+    if (data.attach_pdf !== undefined && typeof data.attach_pdf !== 'boolean') {
+      errors.push({
+        field: 'attach_pdf',
+        message: 'attach_pdf must be a boolean'
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate share link creation
+   */
+  static validateShareLinkCreation(data: {
+    expires_at?: string | null;
+  }): ValidationError[] {
+    return ShareLinkRules.validateExpiry(data.expires_at);
+  }
+
+  /**
+   * Validate CV analytics query
+   */
+  static validateAnalyticsQuery(query: {
+    days?: string;
+  }): ValidationError[] {
+    return AnalyticsRules.validateDays(query.days);
+  }
+
+  /**
+   * Validate CV diff query
+   * 
+   * - `from`: base version of the CV (default: current content)
+   * - `to`: target version of the CV, or `other_cv_id`: another CV to compare against (default: current content)
+   */
+  static validateDiffQuery(query: {
+    from?: string;
+    to?: string;
+    other_cv_id?: string;
+  }): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    (['from', 'to'] as const).forEach((field) => {
+      const value = query[field];
+      if (value !== undefined && (!/^\d+$/.test(value) || parseInt(value, 10) < 1)) {
+        errors.push({
+          field,
+          message: `${field} must be a positive version number`
+        });
+      }
+    });
+
+    if (query.other_cv_id !== undefined && !ValidationUtil.isValidUUID(query.other_cv_id)) {
+      errors.push({
+        field: 'other_cv_id',
+        message: 'other_cv_id must be a valid CV ID'
+      });
+    }
+
+    if (query.to !== undefined && query.other_cv_id !== undefined) {
+      errors.push({
+        field: 'to',
+        message: 'Use either to or other_cv_id, not both'
+      });
+    }
+
+    if (query.from === undefined && query.to === undefined && query.other_cv_id === undefined) {
+      errors.push({
+        field: 'from',
+        message: 'Specify from, to or other_cv_id'
+      });
+    }
+
     return errors;
   }
 
@@ -350,6 +784,13 @@ export class ValidationUtil {
     return emailRegex.test(email);
   }
 
+  /**
+   * Validate UUID format
+   */
+  static isValidUUID(value: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(value);
+  }
+
   /**
    * Validate URL format
    */
@@ -26,9 +26,11 @@ import { AuthProvider, useAuth } from './contexts/AuthContext';
 import RegisterPage from './pages/RegisterPage';
 import LoginPage from './pages/LoginPage';
 import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
 import DashboardPage from './pages/DashboardPage';
 import CVEditorPage from './pages/CVEditorPage';
 import CVPreviewPage from './pages/CVPreviewPage';
+import CVComparePage from './pages/CVComparePage';
 import TemplatesPage from './pages/TemplatesPage';
 import SettingsPage from './pages/SettingsPage';
 import PaymentPage from './pages/PaymentPage';
@@ -222,6 +224,7 @@ const App: React.FC = () => {
                   </PublicRoute>
                 }
               />
+              <Route path="/verify-email" element={<VerifyEmailPage />} />
 
               {/* Protected Routes */}
               <Route
@@ -248,6 +251,14 @@ const App: React.FC = () => {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/cv-compare/:id"
+                element={
+                  <ProtectedRoute>
+                    <CVComparePage />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/templates"
                 element={
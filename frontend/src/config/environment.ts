@@ -56,6 +56,8 @@ export const config = {
   services: {
     googleAnalyticsId: process.env.REACT_APP_GA_ID || '',
     sentryDsn: process.env.REACT_APP_SENTRY_DSN || '',
+    googleClientId: process.env.REACT_APP_GOOGLE_CLIENT_ID || '',
+    facebookAppId: process.env.REACT_APP_FACEBOOK_APP_ID || '',
   },
 } as const;
 
@@ -22,6 +22,7 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
 import apiService, { RegisterRequest, LoginRequest } from '../services/api';
 import toast from 'react-hot-toast';
+import { OAuthProvider } from '../utils/oauth';
 
 /**
  * Authentication state interface
@@ -76,6 +77,7 @@ interface AuthContextType {
   user: any | null;
   login: (credentials: LoginRequest) => Promise<void>;
   register: (userData: RegisterRequest) => Promise<void>;
+  oauthLogin: (provider: OAuthProvider, accessToken: string) => Promise<void>;
   logout: () => Promise<void>;
   clearError: () => void;
   refreshUser: () => Promise<void>;
@@ -301,6 +303,33 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  /**
+   * Log in (or sign up) with a Google or Facebook access token
+   * 
+   * Business Logic:
+   * - Exchanges the provider token for app tokens via the backend
+   * - Updates authentication state
+   * - Re-throws failures so the page can decide how to report them
+   * 
+   * @param {OAuthProvider} provider - OAuth provider
+   * @param {string} accessToken - Access token from the provider SDK
+   * @returns {Promise<void>} Promise that resolves when login is complete
+   * @author Vicky
+   */
+  const oauthLogin = async (provider: OAuthProvider, accessToken: string): Promise<void> => {
+    try {
+      dispatch({ type: 'AUTH_START' });
+      
+      const response = await apiService.oauthLogin(provider, accessToken);
+      
+      dispatch({ type: 'AUTH_SUCCESS', payload: response.user });
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Login failed';
+      dispatch({ type: 'AUTH_FAILURE', payload: errorMessage });
+      throw new Error(errorMessage);
+    }
+  };
+
   /**
    * Logout user
    * 
@@ -369,6 +398,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     user: state.user,
     login,
     register,
+    oauthLogin,
     logout,
     clearError,
     refreshUser,
@@ -0,0 +1,358 @@
+/**
+ * CV Compare Page Component
+ *
+ * Business Logic:
+ * - Shows what changed between two versions of a CV, or between a CV and another of the user's CVs
+ * - Base and target are picked from the CV's version history ("Current" = latest content)
+ * - Section items are shown side by side and colored by status; basic details list field changes
+ * - The selection lives in the URL (`?from=`, `?to=`, `?other=`) so a comparison can be linked
+ *
+ * @fileoverview CV diff view for CV Builder frontend
+ * @author Vicky
+ * @version 1.0.0
+ * @since 2025-01-17
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, GitCompare } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { apiService } from '../services/api';
+import { CV, CVDiff, CVItemSection, CVDiffStatus, CVFieldChange, CVSectionItemDiff, CVVersionSummary } from '../types';
+
+const SECTION_LABELS: Record<CVItemSection, string> = {
+  experience: 'Experience',
+  education: 'Education',
+  projects: 'Projects',
+  skills: 'Skills',
+  social_profiles: 'Social Profiles',
+  certifications: 'Certifications',
+  awards: 'Awards',
+  publications: 'Publications',
+  languages: 'Languages',
+  volunteering: 'Volunteering',
+  references: 'References',
+  custom_sections: 'Custom Sections',
+};
+
+const STATUS_STYLES: Record<CVDiffStatus, { row: string; badge: string }> = {
+  added: { row: 'border-green-200 bg-green-50', badge: 'bg-green-100 text-green-800' },
+  removed: { row: 'border-red-200 bg-red-50', badge: 'bg-red-100 text-red-800' },
+  modified: { row: 'border-yellow-200 bg-yellow-50', badge: 'bg-yellow-100 text-yellow-800' },
+  unchanged: { row: 'border-secondary-200 bg-white', badge: 'bg-secondary-100 text-secondary-600' },
+};
+
+// Enough history for the selectors; older versions can still be linked via the URL
+const VERSIONS_LIMIT = 50;
+
+const formatField = (field: string) =>
+  field.replace(/_/g, ' ').replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ') || '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const CVComparePage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [diff, setDiff] = useState<CVDiff | null>(null);
+  const [versions, setVersions] = useState<CVVersionSummary[]>([]);
+  const [otherCVs, setOtherCVs] = useState<CV[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+  const other = searchParams.get('other') || '';
+  const target = other ? `cv:${other}` : to ? `v:${to}` : '';
+
+  useEffect(() => {
+    if (id) {
+      fetchOptions();
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (id) {
+      fetchDiff();
+    }
+  }, [id, from, to, other]);
+
+  const fetchOptions = async () => {
+    try {
+      const [versionsResponse, cvsResponse] = await Promise.all([
+        apiService.getCVVersions(id!, 1, VERSIONS_LIMIT),
+        apiService.getCVs(),
+      ]);
+      if (versionsResponse.success && versionsResponse.data) {
+        setVersions(versionsResponse.data);
+      }
+      if (cvsResponse.success && cvsResponse.data) {
+        setOtherCVs(cvsResponse.data.filter((cv) => cv.id !== id));
+      }
+    } catch (error: any) {
+      console.error('Fetch compare options error:', error);
+    }
+  };
+
+  const fetchDiff = async () => {
+    // Current vs current has nothing to show; wait for a selection
+    if (!from && !to && !other) {
+      setIsLoading(false);
+      setDiff(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const response = await apiService.getCVDiff(id!, {
+        from: from ? Number(from) : undefined,
+        to: to ? Number(to) : undefined,
+        other_cv_id: other || undefined,
+      });
+      if (response.success && response.data) {
+        setDiff(response.data);
+      } else {
+        toast.error('Failed to compare CVs');
+      }
+    } catch (error: any) {
+      console.error('Fetch CV diff error:', error);
+      toast.error(error.response?.data?.message || 'Failed to compare CVs');
+      setDiff(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleBaseChange = (value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) {
+      params.set('from', value);
+    } else {
+      params.delete('from');
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const handleTargetChange = (value: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.delete('to');
+    params.delete('other');
+    if (value.startsWith('v:')) {
+      params.set('to', value.slice(2));
+    } else if (value.startsWith('cv:')) {
+      params.set('other', value.slice(3));
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const describeSide = (side: CVDiff['base']) =>
+    side.version_number ? `${side.title} · version ${side.version_number}` : `${side.title} · current`;
+
+  const renderFields = (item?: Record<string, any>, changes: CVFieldChange[] = []) => {
+    if (!item) {
+      return <p className="text-sm text-secondary-400 italic">Not present</p>;
+    }
+    const changed = new Set(changes.map((change) => change.field));
+    return (
+      <dl className="space-y-1">
+        {Object.entries(item)
+          .filter(([field, value]) => !['id', 'cv_id', 'created_at', 'updated_at'].includes(field) && formatValue(value) !== '—')
+          .map(([field, value]) => (
+            <div key={field} className="flex text-sm">
+              <dt className="w-36 shrink-0 text-secondary-500">{formatField(field)}</dt>
+              <dd className={`text-secondary-900 break-words min-w-0 ${changed.has(field) ? 'font-semibold' : ''}`}>
+                {formatValue(value)}
+              </dd>
+            </div>
+          ))}
+      </dl>
+    );
+  };
+
+  const renderFieldChanges = (title: string, changes: CVFieldChange[]) => (
+    <div className="bg-white rounded-lg shadow-sm border border-secondary-200 p-6">
+      <h2 className="text-lg font-semibold text-secondary-900 mb-4">{title}</h2>
+      {changes.length === 0 ? (
+        <p className="text-sm text-secondary-500">No changes.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-secondary-500">
+              <th className="pb-2 font-medium w-1/4">Field</th>
+              <th className="pb-2 font-medium">Before</th>
+              <th className="pb-2 font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-secondary-100">
+            {changes.map((change) => (
+              <tr key={change.field} className="align-top">
+                <td className="py-2 text-secondary-700">{formatField(change.field)}</td>
+                <td className="py-2 pr-4 text-red-700 break-words">{formatValue(change.before)}</td>
+                <td className="py-2 text-green-700 break-words">{formatValue(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  const renderSection = (section: CVItemSection, items: CVSectionItemDiff[]) => {
+    const visible = showUnchanged ? items : items.filter((item) => item.status !== 'unchanged');
+    return (
+      <div key={section} className="bg-white rounded-lg shadow-sm border border-secondary-200 p-6">
+        <h2 className="text-lg font-semibold text-secondary-900 mb-4">{SECTION_LABELS[section]}</h2>
+        {visible.length === 0 ? (
+          <p className="text-sm text-secondary-500">No changes.</p>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((item, index) => (
+              <div key={`${item.key}-${index}`} className={`border rounded-lg p-4 ${STATUS_STYLES[item.status].row}`}>
+                <div className="flex items-center justify-between mb-3">
+                  <p className="font-medium text-secondary-900 truncate">{item.key}</p>
+                  <span className={`text-xs px-2 py-0.5 rounded-full capitalize ${STATUS_STYLES[item.status].badge}`}>
+                    {item.status}
+                  </span>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {renderFields(item.before, item.changes)}
+                  {renderFields(item.after, item.changes)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-secondary-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => navigate(`/cv-editor/${id}`)}
+                className="flex items-center space-x-2 text-secondary-600 hover:text-secondary-800 transition-colors"
+              >
+                <ArrowLeft className="h-5 w-5" />
+                <span>Back to Editor</span>
+              </button>
+              <div className="h-6 w-px bg-secondary-300"></div>
+              <h1 className="text-xl font-semibold text-secondary-900 flex items-center space-x-2">
+                <GitCompare className="h-5 w-5" />
+                <span>Compare</span>
+              </h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Selection */}
+        <div className="bg-white rounded-lg shadow-sm border border-secondary-200 p-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">Before</label>
+              <select
+                value={from}
+                onChange={(e) => handleBaseChange(e.target.value)}
+                className="input-field"
+              >
+                <option value="">Current</option>
+                {versions.map((version) => (
+                  <option key={version.id} value={String(version.version_number)}>
+                    Version {version.version_number} · {new Date(version.created_at).toLocaleString()}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">After</label>
+              <select
+                value={target}
+                onChange={(e) => handleTargetChange(e.target.value)}
+                className="input-field"
+              >
+                <option value="">Current</option>
+                <optgroup label="Versions">
+                  {versions.map((version) => (
+                    <option key={version.id} value={`v:${version.version_number}`}>
+                      Version {version.version_number} · {new Date(version.created_at).toLocaleString()}
+                    </option>
+                  ))}
+                </optgroup>
+                {otherCVs.length > 0 && (
+                  <optgroup label="Other CVs">
+                    {otherCVs.map((cv) => (
+                      <option key={cv.id} value={`cv:${cv.id}`}>
+                        {cv.title}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+            <p className="text-secondary-600">Comparing...</p>
+          </div>
+        ) : !diff ? (
+          <div className="bg-white rounded-lg shadow-sm border border-secondary-200 p-6 text-center">
+            <p className="text-secondary-600">Pick a version or another CV to compare with.</p>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="bg-white rounded-lg shadow-sm border border-secondary-200 p-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 text-sm">
+                <p className="text-secondary-600">
+                  <span className="font-medium text-secondary-900">Before:</span> {describeSide(diff.base)}
+                </p>
+                <p className="text-secondary-600">
+                  <span className="font-medium text-secondary-900">After:</span> {describeSide(diff.target)}
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <span className={`text-sm px-3 py-1 rounded-full ${STATUS_STYLES.added.badge}`}>{diff.summary.added} added</span>
+                <span className={`text-sm px-3 py-1 rounded-full ${STATUS_STYLES.removed.badge}`}>{diff.summary.removed} removed</span>
+                <span className={`text-sm px-3 py-1 rounded-full ${STATUS_STYLES.modified.badge}`}>{diff.summary.modified} modified</span>
+                <span className="text-sm text-secondary-600">{diff.summary.changed_fields} changed fields</span>
+                <label className="flex items-center space-x-2 text-sm text-secondary-700 ml-auto">
+                  <input
+                    type="checkbox"
+                    checked={showUnchanged}
+                    onChange={(e) => setShowUnchanged(e.target.checked)}
+                    className="rounded border-secondary-300"
+                  />
+                  <span>Show unchanged</span>
+                </label>
+              </div>
+            </div>
+
+            {diff.cv.length > 0 && renderFieldChanges('CV Settings', diff.cv)}
+            {renderFieldChanges('Basic Details', diff.basic_details)}
+            {/* Sections empty on both sides are left out */}
+            {(Object.keys(SECTION_LABELS) as CVItemSection[])
+              .filter((section) => (diff.sections[section] || []).length > 0)
+              .map((section) => renderSection(section, diff.sections[section]))}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CVComparePage;
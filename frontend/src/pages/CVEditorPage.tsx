@@ -6,14 +6,137 @@
  * @since 2025-01-18
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Save, Eye, Download, Share2, Globe } from 'lucide-react';
+import { ArrowLeft, Save, Eye, Download, Share2, Globe, FileText, History, RotateCcw, GitCompare, GripVertical, ChevronUp, ChevronDown, EyeOff, Plus, AlertCircle, Check, Cloud, CloudOff, RefreshCw, Bold, Italic, Link, List, Trash2 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { apiService } from '../services/api';
-import { CV } from '../types';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import { CV, CVData, CVItemSection, CVLayoutSection, CVVersion, CVVersionSummary, DownloadFormat, Highlight, LanguageProficiency, UpdateCVRequest } from '../types';
+import { saveFile } from '../utils/download';
+import { mergeCVChanges } from '../utils/cvMerge';
+import { applyRichTextFormat, renderRichText, RichTextFormat } from '../utils/richText';
+import { clearDraft, getContentKey, loadDraft, replayPendingDrafts, saveDraft, toUpdatePayload } from '../utils/cvDraft';
+import {
+  DEFAULT_SECTION_TITLES,
+  FIXED_TITLE_SECTIONS,
+  LANGUAGE_PROFICIENCY_LABELS,
+  SECTION_TITLE_MAX_LENGTH,
+  ResolvedCVSection,
+  getVisibleSections,
+  resolveSectionLayout,
+  toSectionConfig
+} from '../utils/sectionLayout';
+
+const VERSIONS_PAGE_SIZE = 10;
+const AUTOSAVE_DELAY_MS = 2000;
+const MAX_HIGHLIGHTS_PER_ENTRY = 10;
+
+type ItemFieldType = 'text' | 'date' | 'url' | 'email' | 'tel' | 'textarea' | 'select' | 'checkbox';
+
+interface ItemField {
+  key: string;
+  label: string;
+  type: ItemFieldType;
+  placeholder?: string;
+  options?: { value: string; label: string }[];
+}
+
+/** Editor form of a list section whose items are flat records */
+interface ListSectionForm {
+  section: CVItemSection;
+  label: string;
+  addLabel: string;
+  blank: Record<string, any>;
+  fields: ItemField[];
+}
+
+const LIST_SECTION_FORMS: ListSectionForm[] = [
+  {
+    section: 'certifications',
+    label: 'Certifications',
+    addLabel: 'Add Certification',
+    blank: { name: '', issuer: '', issue_date: '', expiry_date: '', credential_id: '', credential_url: '' },
+    fields: [
+      { key: 'name', label: 'Certification', type: 'text', placeholder: 'e.g., AWS Certified Developer' },
+      { key: 'issuer', label: 'Issuer', type: 'text', placeholder: 'e.g., Amazon Web Services' },
+      { key: 'issue_date', label: 'Issue Date', type: 'date' },
+      { key: 'expiry_date', label: 'Expiry Date', type: 'date' },
+      { key: 'credential_id', label: 'Credential ID', type: 'text' },
+      { key: 'credential_url', label: 'Credential URL', type: 'url', placeholder: 'e.g., https://www.credly.com/badges/...' },
+    ],
+  },
+  {
+    section: 'awards',
+    label: 'Awards',
+    addLabel: 'Add Award',
+    blank: { title: '', issuer: '', award_date: '', description: '' },
+    fields: [
+      { key: 'title', label: 'Award', type: 'text', placeholder: 'e.g., Employee of the Year' },
+      { key: 'issuer', label: 'Issuer', type: 'text', placeholder: 'e.g., Company or organisation' },
+      { key: 'award_date', label: 'Date', type: 'date' },
+      { key: 'description', label: 'Description', type: 'textarea', placeholder: 'What the award recognised...' },
+    ],
+  },
+  {
+    section: 'publications',
+    label: 'Publications',
+    addLabel: 'Add Publication',
+    blank: { title: '', publisher: '', authors: '', publication_date: '', url: '', description: '' },
+    fields: [
+      { key: 'title', label: 'Title', type: 'text', placeholder: 'e.g., Scaling Event-Driven Systems' },
+      { key: 'publisher', label: 'Publisher', type: 'text', placeholder: 'e.g., IEEE Software' },
+      { key: 'authors', label: 'Authors', type: 'text', placeholder: 'e.g., J. Doe, A. Smith' },
+      { key: 'publication_date', label: 'Publication Date', type: 'date' },
+      { key: 'url', label: 'URL', type: 'url', placeholder: 'e.g., https://doi.org/...' },
+      { key: 'description', label: 'Description', type: 'textarea', placeholder: 'Short abstract...' },
+    ],
+  },
+  {
+    section: 'languages',
+    label: 'Languages',
+    addLabel: 'Add Language',
+    blank: { language: '', proficiency: 'B2' },
+    fields: [
+      { key: 'language', label: 'Language', type: 'text', placeholder: 'e.g., German' },
+      {
+        key: 'proficiency',
+        label: 'Proficiency',
+        type: 'select',
+        options: Object.entries(LANGUAGE_PROFICIENCY_LABELS).map(([value, label]) => ({ value, label })),
+      },
+    ],
+  },
+  {
+    section: 'volunteering',
+    label: 'Volunteering',
+    addLabel: 'Add Volunteering',
+    blank: { organization: '', role: '', start_date: '', end_date: '', is_current: false, description: '' },
+    fields: [
+      { key: 'role', label: 'Role', type: 'text', placeholder: 'e.g., Mentor' },
+      { key: 'organization', label: 'Organization', type: 'text', placeholder: 'e.g., Code Club' },
+      { key: 'start_date', label: 'Start Date', type: 'date' },
+      { key: 'end_date', label: 'End Date', type: 'date' },
+      { key: 'is_current', label: 'I currently volunteer here', type: 'checkbox' },
+      { key: 'description', label: 'Description', type: 'textarea', placeholder: 'What you did...' },
+    ],
+  },
+  {
+    section: 'references',
+    label: 'References',
+    addLabel: 'Add Reference',
+    blank: { name: '', position: '', organization: '', relationship: '', email: '', phone: '' },
+    fields: [
+      { key: 'name', label: 'Name', type: 'text', placeholder: 'e.g., Jane Smith' },
+      { key: 'relationship', label: 'Relationship', type: 'text', placeholder: 'e.g., Former manager' },
+      { key: 'position', label: 'Position', type: 'text', placeholder: 'e.g., Engineering Manager' },
+      { key: 'organization', label: 'Organization', type: 'text', placeholder: 'e.g., Company Name' },
+      { key: 'email', label: 'Email', type: 'email', placeholder: 'e.g., jane@example.com' },
+      { key: 'phone', label: 'Phone', type: 'tel', placeholder: 'e.g., +1 555 123 4567' },
+    ],
+  },
+];
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-secondary-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
 
 const CVEditorPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -24,6 +147,22 @@ const CVEditorPage: React.FC = () => {
   const [isDownloading, setIsDownloading] = useState(false);
   const [isPublishing, setIsPublishing] = useState(false);
   const [localStatus, setLocalStatus] = useState<string>('draft');
+  const [showHistory, setShowHistory] = useState(false);
+  const [versions, setVersions] = useState<CVVersionSummary[]>([]);
+  const [versionsPage, setVersionsPage] = useState(1);
+  const [hasMoreVersions, setHasMoreVersions] = useState(false);
+  const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+  const [previewVersion, setPreviewVersion] = useState<CVVersion | null>(null);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+  const [dragItem, setDragItem] = useState<{ section: CVItemSection; index: number } | null>(null);
+  const [dragHandle, setDragHandle] = useState<string | null>(null);
+  // Copy as last loaded or saved; the base for merging when a save hits a newer server copy
+  const [savedData, setSavedData] = useState<CVData | null>(null);
+  const [saveConflict, setSaveConflict] = useState<{ server: CVData; merged: CVData; conflicts: string[] } | null>(null);
+  const [autosaveState, setAutosaveState] = useState<'saved' | 'saving' | 'unsaved' | 'offline'>('saved');
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  // Content key of the last server copy; the editor copy differs from it when there is something to save
+  const savedKeyRef = useRef('');
 
   useEffect(() => {
     if (id) {
@@ -36,8 +175,23 @@ const CVEditorPage: React.FC = () => {
       setIsLoading(true);
       const response = await apiService.getCV(id!);
       if (response.success && response.data) {
-        setCvData(response.data);
-        setLocalStatus(response.data.cv.status);
+        const draft = loadDraft(id!);
+        adoptServerCopy(response.data);
+
+        // Changes that never reached the server are restored; autosave sends them
+        // (a conflict dialog follows if the CV changed elsewhere in the meantime)
+        if (draft?.pending && getContentKey(draft.data) !== savedKeyRef.current) {
+          setCvData(draft.data);
+          if (draft.base) {
+            setSavedData(draft.base);
+          }
+          setLocalStatus('draft');
+          toast.success('Restored changes that were not saved yet');
+        } else {
+          clearDraft(id!);
+          setCvData(response.data);
+          setLocalStatus(response.data.cv.status);
+        }
       }
     } catch (error: any) {
       console.error('Fetch CV error:', error);
@@ -48,110 +202,675 @@ const CVEditorPage: React.FC = () => {
     }
   };
 
+  /**
+   * Remember a server copy as the saved state (autosave compares against it, merges start from it)
+   */
+  const adoptServerCopy = (server: CVData) => {
+    savedKeyRef.current = getContentKey(server);
+    setSavedData(server);
+  };
+
+  /**
+   * Send the editor copy with the version it was edited from
+   *
+   * The status is only sent by publish; other saves keep the server's status.
+   * Edits made while the request is in flight are kept and saved by the next autosave.
+   */
+  const saveCV = async (status?: UpdateCVRequest['status'], autosave = false) => {
+    const sentKey = getContentKey(cvData);
+    const response = await apiService.updateCV(cvData.cv.id, {
+      ...toUpdatePayload(cvData, status),
+      version: cvData.cv.last_modified,
+      ...(autosave ? { autosave } : {})
+    });
+
+    if (response.success && response.data) {
+      const saved = response.data;
+      adoptServerCopy(saved);
+      setLocalStatus(saved.cv.status === 'published' ? 'published' : 'saved');
+      setCvData((current: any) => getContentKey(current) === sentKey
+        ? saved
+        : { ...current, cv: { ...current.cv, last_modified: saved.cv.last_modified, status: saved.cv.status } });
+    }
+
+    return response;
+  };
+
+  // Keep every change as a local draft and autosave once editing pauses
+  useEffect(() => {
+    if (!cvData || !id) return;
+
+    if (getContentKey(cvData) === savedKeyRef.current) {
+      clearDraft(id);
+      setAutosaveState('saved');
+      return;
+    }
+
+    saveDraft(id, { data: cvData, base: savedData, pending: true });
+
+    if (!isOnline) {
+      setAutosaveState('offline');
+      return;
+    }
+
+    setAutosaveState('unsaved');
+    if (saveConflict || isSaving || isPublishing) return;
+
+    const timer = setTimeout(handleAutosave, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [cvData, isOnline, saveConflict]);
+
+  // Track connectivity; on reconnect queued drafts of other CVs are replayed
+  useEffect(() => {
+    const handleOnline = async () => {
+      setIsOnline(true);
+      const replayed = await replayPendingDrafts(id);
+      if (replayed > 0) {
+        toast.success(`Saved offline changes to ${replayed} other CV${replayed === 1 ? '' : 's'}`);
+      }
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [id]);
+
+  const handleAutosave = async () => {
+    // The server requires these; until they are filled in the changes stay in the local draft
+    if (!cvData.basic_details.full_name?.trim() || !cvData.basic_details.email?.trim()) return;
+
+    try {
+      setAutosaveState('saving');
+      await saveCV(undefined, true);
+    } catch (error: any) {
+      console.error('Autosave error:', error);
+      setAutosaveState(error.response ? 'unsaved' : 'offline');
+      if (error.response?.status === 409) {
+        await handleSaveConflict(error.response.data?.data);
+      }
+    }
+  };
+
   const handleSave = async () => {
     if (!cvData) return;
 
     try {
       setIsSaving(true);
-      
-      // Ensure required fields have valid values
-      const basicDetails = {
-        full_name: cvData.basic_details.full_name?.trim() || '',
-        email: cvData.basic_details.email?.trim() || '',
-        phone: cvData.basic_details.phone?.trim() || '',
-        address: cvData.basic_details.address?.trim() || '',
-        introduction: cvData.basic_details.introduction?.trim() || '',
-        profile_image_url: cvData.basic_details.profile_image_url?.trim() || ''
-      };
 
       // Validate required fields
-      if (!basicDetails.full_name) {
+      if (!cvData.basic_details.full_name?.trim()) {
         toast.error('Full name is required');
         return;
       }
-      if (!basicDetails.email) {
+      if (!cvData.basic_details.email?.trim()) {
         toast.error('Email is required');
         return;
       }
 
-      const response = await apiService.updateCV(cvData.cv.id, {
-        title: cvData.cv.title,
-        layout: cvData.cv.layout,
-        status: 'draft',
-        basic_details: basicDetails,
-        education: cvData.education || [],
-        experience: cvData.experience || [],
-        projects: cvData.projects || [],
-        skills: cvData.skills || [],
-        social_profiles: cvData.social_profiles || []
-      });
+      const response = await saveCV();
 
       if (response.success) {
-        setLocalStatus('saved');
         toast.success('CV saved successfully!');
-        // Refresh CV data to get latest from backend
-        await fetchCV();
+        if (showHistory) {
+          await fetchVersions(1);
+        }
       }
     } catch (error: any) {
       console.error('Save CV error:', error);
+      if (error.response?.status === 409) {
+        await handleSaveConflict(error.response.data?.data);
+        return;
+      }
+      if (!error.response) {
+        toast.error('You are offline; changes are kept on this device and saved when you reconnect');
+        return;
+      }
       toast.error('Failed to save CV');
     } finally {
       setIsSaving(false);
     }
   };
 
+  /**
+   * Publish the CV; the only save that changes its status
+   */
   const handlePublish = async () => {
     if (!cvData) return;
 
     try {
       setIsPublishing(true);
-      
-      // First save the CV to ensure all changes are saved
-      const basicDetails = {
-        full_name: cvData.basic_details.full_name?.trim() || '',
-        email: cvData.basic_details.email?.trim() || '',
-        phone: cvData.basic_details.phone?.trim() || '',
-        address: cvData.basic_details.address?.trim() || '',
-        introduction: cvData.basic_details.introduction?.trim() || '',
-        profile_image_url: cvData.basic_details.profile_image_url?.trim() || ''
-      };
 
       // Validate required fields
-      if (!basicDetails.full_name) {
+      if (!cvData.basic_details.full_name?.trim()) {
         toast.error('Full name is required to publish CV');
         return;
       }
-      if (!basicDetails.email) {
+      if (!cvData.basic_details.email?.trim()) {
         toast.error('Email is required to publish CV');
         return;
       }
 
-      const response = await apiService.updateCV(cvData.cv.id, {
-        title: cvData.cv.title,
-        layout: cvData.cv.layout,
-        status: 'published', // Change status to published
-        basic_details: basicDetails,
-        education: cvData.education || [],
-        experience: cvData.experience || [],
-        projects: cvData.projects || [],
-        skills: cvData.skills || [],
-        social_profiles: cvData.social_profiles || []
-      });
+      // Saves all changes together with the new status
+      const response = await saveCV('published');
 
       if (response.success) {
-        setLocalStatus('published');
         toast.success('CV published successfully!');
-        // Refresh CV data to get latest from backend
-        await fetchCV();
       }
     } catch (error: any) {
       console.error('Publish CV error:', error);
+      if (error.response?.status === 409) {
+        await handleSaveConflict(error.response.data?.data);
+        return;
+      }
       toast.error('Failed to publish CV');
     } finally {
       setIsPublishing(false);
     }
   };
 
+  /**
+   * The CV changed elsewhere since it was loaded; offer reload or merge against the latest copy
+   *
+   * The 409 response carries that copy; it is only fetched when the response had none.
+   */
+  const handleSaveConflict = async (latest?: CVData) => {
+    try {
+      const server = latest || (await apiService.getCV(id!)).data;
+      if (server && savedData) {
+        const { merged, conflicts } = mergeCVChanges(savedData, cvData, server);
+        setSaveConflict({ server, merged, conflicts });
+      }
+    } catch (error: any) {
+      console.error('Fetch latest CV error:', error);
+      toast.error('Failed to load the latest version of this CV');
+    }
+  };
+
+  const handleReloadLatest = () => {
+    if (!saveConflict) return;
+
+    adoptServerCopy(saveConflict.server);
+    setCvData(saveConflict.server);
+    setLocalStatus(saveConflict.server.cv.status);
+    setSaveConflict(null);
+    toast.success('Loaded the latest version');
+  };
+
+  const handleMergeChanges = () => {
+    if (!saveConflict) return;
+
+    adoptServerCopy(saveConflict.server);
+    setCvData(saveConflict.merged);
+    setLocalStatus('draft');
+    setSaveConflict(null);
+    toast.success('Changes merged; they are saved automatically');
+  };
+
+  const handleKeepMine = () => {
+    if (!saveConflict) return;
+
+    // Adopting the server version lets the next save replace the other changes
+    adoptServerCopy(saveConflict.server);
+    setCvData({ ...cvData, cv: { ...cvData.cv, last_modified: saveConflict.server.cv.last_modified } });
+    setSaveConflict(null);
+    toast('Your version replaces the other changes with the next save');
+  };
+
+  const fetchVersions = async (page: number) => {
+    try {
+      setIsLoadingVersions(true);
+      const response = await apiService.getCVVersions(id!, page, VERSIONS_PAGE_SIZE);
+      if (response.success && response.data) {
+        setVersions(page === 1 ? response.data : [...versions, ...response.data]);
+        setVersionsPage(page);
+        setHasMoreVersions(!!response.pagination?.hasNext);
+      }
+    } catch (error: any) {
+      console.error('Fetch versions error:', error);
+      toast.error('Failed to load version history');
+    } finally {
+      setIsLoadingVersions(false);
+    }
+  };
+
+  const handleToggleHistory = () => {
+    if (showHistory) {
+      setShowHistory(false);
+      setPreviewVersion(null);
+      return;
+    }
+
+    setShowHistory(true);
+    fetchVersions(1);
+  };
+
+  const handlePreviewVersion = async (versionNumber: number) => {
+    if (previewVersion?.version_number === versionNumber) {
+      setPreviewVersion(null);
+      return;
+    }
+
+    try {
+      const response = await apiService.getCVVersion(id!, versionNumber);
+      if (response.success && response.data) {
+        setPreviewVersion(response.data);
+        handlePreview();
+      }
+    } catch (error: any) {
+      console.error('Fetch version error:', error);
+      toast.error('Failed to load version');
+    }
+  };
+
+  const handleRestoreVersion = async (versionNumber: number) => {
+    if (!window.confirm(`Restore version ${versionNumber}? Unsaved changes in the editor will be lost. The current content stays in the history.`)) {
+      return;
+    }
+
+    try {
+      setRestoringVersion(versionNumber);
+      const response = await apiService.restoreCVVersion(id!, versionNumber);
+      if (response.success && response.data) {
+        adoptServerCopy(response.data);
+        setCvData(response.data);
+        setLocalStatus(response.data.cv.status);
+        setPreviewVersion(null);
+        toast.success(`Restored version ${versionNumber}`);
+        await fetchVersions(1);
+      }
+    } catch (error: any) {
+      console.error('Restore version error:', error);
+      toast.error('Failed to restore version');
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
+  const describeVersion = (version: CVVersionSummary) => {
+    switch (version.source) {
+      case 'create':
+        return 'Initial version';
+      case 'restore':
+        return `Restored from version ${version.restored_from}`;
+      case 'autosave':
+        return version.fields.length > 0
+          ? `Autosaved: ${version.fields.map((field) => field.replace(/_/g, ' ')).join(', ')}`
+          : 'Autosaved';
+      default:
+        return version.fields.length > 0
+          ? `Saved: ${version.fields.map((field) => field.replace(/_/g, ' ')).join(', ')}`
+          : 'Saved';
+    }
+  };
+
+  const handleReorderItems = async (section: CVItemSection, from: number, to: number) => {
+    if (from === to) return;
+
+    const items = [...(cvData[section] || [])];
+    const [moved] = items.splice(from, 1);
+    items.splice(to, 0, moved);
+    setCvData({ ...cvData, [section]: items });
+
+    // Unsaved (temp) items get their order from the next save instead
+    if (items.some((item: any) => String(item.id).startsWith('temp-'))) {
+      if (localStatus === 'saved' || localStatus === 'published') {
+        setLocalStatus('draft');
+      }
+      return;
+    }
+
+    try {
+      await apiService.reorderCVSection(cvData.cv.id, section, items.map((item: any) => item.id), cvData.cv.last_modified);
+
+      // The reorder is saved and bumped the CV version; take it over so the next save is not a conflict
+      const latest = await apiService.getCV(cvData.cv.id);
+      if (latest.success && latest.data) {
+        const lastModified = latest.data.cv.last_modified;
+        adoptServerCopy(latest.data);
+        setCvData((current: any) => ({ ...current, cv: { ...current.cv, last_modified: lastModified } }));
+      }
+    } catch (error: any) {
+      // e.g. an item was removed locally but not saved yet; the next save stores the order
+      console.error('Reorder section error:', error);
+      if (error.response?.status === 409) {
+        await handleSaveConflict(error.response.data?.data);
+        return;
+      }
+      if (localStatus === 'saved' || localStatus === 'published') {
+        setLocalStatus('draft');
+      }
+    }
+  };
+
+  const getDragProps = (section: CVItemSection, index: number) => ({
+    draggable: dragHandle === `${section}-${index}`,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', `${section}-${index}`);
+      setDragItem({ section, index });
+    },
+    onDragOver: (e: React.DragEvent) => {
+      if (dragItem?.section === section) {
+        e.preventDefault();
+      }
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dragItem?.section === section) {
+        handleReorderItems(section, dragItem.index, index);
+      }
+      setDragItem(null);
+      setDragHandle(null);
+    },
+    onDragEnd: () => {
+      setDragItem(null);
+      setDragHandle(null);
+    },
+    className: `border border-secondary-200 rounded-lg p-4 bg-secondary-50 ${dragItem?.section === section && dragItem.index === index ? 'opacity-50' : ''}`,
+  });
+
+  const renderDragHandle = (section: CVItemSection, index: number) => (
+    <span
+      onMouseDown={() => setDragHandle(`${section}-${index}`)}
+      onMouseUp={() => setDragHandle(null)}
+      className="flex items-center space-x-1 text-xs text-secondary-400 hover:text-secondary-600 cursor-move select-none"
+      title="Drag to reorder"
+    >
+      <GripVertical className="h-4 w-4" />
+      <span>Drag to reorder</span>
+    </span>
+  );
+
+  const addListItem = (section: CVItemSection, blank: Record<string, any>) => {
+    setCvData({
+      ...cvData,
+      [section]: [...(cvData[section] || []), { ...blank, id: `temp-${Date.now()}`, cv_id: cvData.cv.id }]
+    });
+    if (localStatus === 'saved' || localStatus === 'published') {
+      setLocalStatus('draft');
+    }
+  };
+
+  const updateListItem = (section: CVItemSection, index: number, changes: Record<string, any>) => {
+    const items = [...(cvData[section] || [])];
+    items[index] = { ...items[index], ...changes };
+    setCvData({ ...cvData, [section]: items });
+    if (localStatus === 'saved' || localStatus === 'published') {
+      setLocalStatus('draft');
+    }
+  };
+
+  const removeListItem = (section: CVItemSection, index: number) => {
+    setCvData({ ...cvData, [section]: (cvData[section] || []).filter((_: any, i: number) => i !== index) });
+    if (localStatus === 'saved' || localStatus === 'published') {
+      setLocalStatus('draft');
+    }
+  };
+
+  const renderItemField = (section: CVItemSection, item: any, index: number, field: ItemField) => {
+    if (field.type === 'checkbox') {
+      return (
+        <label key={field.key} className="flex items-center space-x-2 text-sm text-secondary-700 md:mt-6">
+          <input
+            type="checkbox"
+            checked={Boolean(item[field.key])}
+            onChange={(e) => updateListItem(section, index, { [field.key]: e.target.checked })}
+            className="h-4 w-4 text-primary-600 border-secondary-300 rounded"
+          />
+          <span>{field.label}</span>
+        </label>
+      );
+    }
+
+    return (
+      <div key={field.key} className={field.type === 'textarea' ? 'md:col-span-2' : ''}>
+        <label className="block text-sm font-medium text-secondary-700 mb-1">{field.label}</label>
+        {field.type === 'textarea' && renderRichTextToolbar()}
+        {field.type === 'textarea' ? (
+          <textarea
+            value={item[field.key] || ''}
+            onChange={(e) => updateListItem(section, index, { [field.key]: e.target.value })}
+            rows={2}
+            className={INPUT_CLASS}
+            placeholder={field.placeholder}
+          />
+        ) : field.type === 'select' ? (
+          <select
+            value={item[field.key] || ''}
+            onChange={(e) => updateListItem(section, index, { [field.key]: e.target.value })}
+            className={INPUT_CLASS}
+          >
+            {field.options?.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type={field.type}
+            value={item[field.key] || ''}
+            onChange={(e) => updateListItem(section, index, { [field.key]: e.target.value })}
+            className={INPUT_CLASS}
+            placeholder={field.placeholder}
+          />
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * Formatting buttons for the rich text textarea that follows them in the same container
+   */
+  const renderRichTextToolbar = () => {
+    const handleFormat = (e: React.MouseEvent<HTMLButtonElement>, format: RichTextFormat) => {
+      const textarea = e.currentTarget.parentElement?.parentElement?.querySelector('textarea');
+      if (!textarea) return;
+
+      const edit = applyRichTextFormat(textarea.value, textarea.selectionStart, textarea.selectionEnd, format);
+
+      // Go through the native setter so React's onChange of the textarea handles the new value
+      Object.getOwnPropertyDescriptor(HTMLTextAreaElement.prototype, 'value')?.set?.call(textarea, edit.value);
+      textarea.dispatchEvent(new Event('input', { bubbles: true }));
+      textarea.focus();
+      requestAnimationFrame(() => textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd));
+    };
+
+    const buttons: { format: RichTextFormat; label: string; Icon: React.ElementType }[] = [
+      { format: 'bold', label: 'Bold', Icon: Bold },
+      { format: 'italic', label: 'Italic', Icon: Italic },
+      { format: 'link', label: 'Link', Icon: Link },
+      { format: 'list', label: 'Bullet list', Icon: List },
+    ];
+
+    return (
+      <div className="flex items-center space-x-1 mb-1">
+        {buttons.map(({ format, label, Icon }) => (
+          <button
+            key={format}
+            type="button"
+            title={label}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={(e) => handleFormat(e, format)}
+            className="p-1 rounded text-secondary-500 hover:text-secondary-800 hover:bg-secondary-100 transition-colors"
+          >
+            <Icon className="h-4 w-4" />
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  /**
+   * Editor for the achievement bullets of an experience or project entry
+   */
+  const renderHighlightsEditor = (section: 'experience' | 'projects', index: number) => {
+    const highlights: Highlight[] = cvData[section][index].highlights || [];
+    const update = (next: Highlight[]) => updateListItem(section, index, { highlights: next });
+    const change = (position: number, changes: Partial<Highlight>) =>
+      update(highlights.map((highlight, i) => i === position ? { ...highlight, ...changes } : highlight));
+    const move = (position: number, offset: number) => {
+      const next = [...highlights];
+      const [moved] = next.splice(position, 1);
+      next.splice(position + offset, 0, moved);
+      update(next);
+    };
+
+    return (
+      <div className="mt-4">
+        <div className="flex items-center justify-between mb-1">
+          <label className="block text-sm font-medium text-secondary-700">Highlights</label>
+          <button
+            onClick={() => update([...highlights, { text: '' }])}
+            disabled={highlights.length >= MAX_HIGHLIGHTS_PER_ENTRY}
+            className="flex items-center space-x-1 px-2 py-1 text-sm text-primary-600 hover:text-primary-800 transition-colors disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Highlight</span>
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {highlights.map((highlight, position) => (
+            <div key={position} className="flex items-start space-x-2">
+              <div className="flex flex-col pt-1">
+                <button
+                  onClick={() => move(position, -1)}
+                  disabled={position === 0}
+                  title="Move up"
+                  className="text-secondary-500 hover:text-secondary-800 disabled:opacity-30"
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => move(position, 1)}
+                  disabled={position === highlights.length - 1}
+                  title="Move down"
+                  className="text-secondary-500 hover:text-secondary-800 disabled:opacity-30"
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="flex-1 grid grid-cols-1 md:grid-cols-6 gap-2">
+                <input
+                  type="text"
+                  value={highlight.text}
+                  onChange={(e) => change(position, { text: e.target.value })}
+                  className={`${INPUT_CLASS} md:col-span-4`}
+                  placeholder="e.g., Moved pricing to an edge cache"
+                />
+                <input
+                  type="text"
+                  value={highlight.metric || ''}
+                  onChange={(e) => change(position, { metric: e.target.value })}
+                  className={`${INPUT_CLASS} md:col-span-2`}
+                  placeholder="Metric, e.g., -40% latency"
+                />
+                <input
+                  type="text"
+                  value={(highlight.tags || []).join(', ')}
+                  onChange={(e) => change(position, { tags: e.target.value ? e.target.value.split(',').map((tag) => tag.trimStart()) : [] })}
+                  className={`${INPUT_CLASS} md:col-span-6`}
+                  placeholder="Tags, comma separated (e.g., performance, caching)"
+                />
+              </div>
+              <button
+                onClick={() => update(highlights.filter((_, i) => i !== position))}
+                title="Remove highlight"
+                className="pt-2 text-red-600 hover:text-red-800 transition-colors"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  /**
+   * Editor for a section of flat items (certifications, awards, languages, ...)
+   */
+  const renderListSection = (form: ListSectionForm) => (
+    <div key={form.section} className="border-t border-secondary-200 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-md font-semibold text-secondary-900">{form.label}</h3>
+        <button
+          onClick={() => addListItem(form.section, form.blank)}
+          className="px-3 py-1 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+        >
+          {form.addLabel}
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {(cvData[form.section] || []).map((item: any, index: number) => (
+          <div key={item.id || index} {...getDragProps(form.section, index)}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {form.fields.map((field) => renderItemField(form.section, item, index, field))}
+            </div>
+            <div className="mt-2 flex items-center justify-between">
+              {renderDragHandle(form.section, index)}
+              <button
+                onClick={() => removeListItem(form.section, index)}
+                className="px-3 py-1 text-sm text-red-600 hover:text-red-800 transition-colors"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const updateCustomItem = (sectionIndex: number, itemIndex: number, changes: Record<string, any>) => {
+    const section = cvData.custom_sections[sectionIndex];
+    const items = [...(section.items || [])];
+    items[itemIndex] = { ...items[itemIndex], ...changes };
+    updateListItem('custom_sections', sectionIndex, { items });
+  };
+
+  /**
+   * Store an edited section layout on the CV; it is persisted with the next save
+   */
+  const updateSectionLayout = (sections: ResolvedCVSection[]) => {
+    setCvData({ ...cvData, cv: { ...cvData.cv, section_config: toSectionConfig(sections) } });
+    if (localStatus === 'saved' || localStatus === 'published') {
+      setLocalStatus('draft');
+    }
+  };
+
+  const handleMoveSection = (index: number, offset: number) => {
+    const sections = resolveSectionLayout(cvData.cv.section_config);
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) return;
+
+    const [moved] = sections.splice(index, 1);
+    sections.splice(target, 0, moved);
+    updateSectionLayout(sections);
+  };
+
+  const handleToggleSection = (index: number) => {
+    const sections = resolveSectionLayout(cvData.cv.section_config);
+    sections[index] = { ...sections[index], hidden: !sections[index].hidden };
+    updateSectionLayout(sections);
+  };
+
+  // Headings are kept as typed (even empty) until save, so the input can be cleared and retyped
+  const handleRenameSection = (section: CVLayoutSection, title: string) => {
+    const config = cvData.cv.section_config || {};
+    setCvData({
+      ...cvData,
+      cv: { ...cvData.cv, section_config: { ...config, titles: { ...config.titles, [section]: title } } }
+    });
+    if (localStatus === 'saved' || localStatus === 'published') {
+      setLocalStatus('draft');
+    }
+  };
+
   const handlePreview = () => {
     const previewElement = document.getElementById('cv-preview');
     if (previewElement) {
@@ -162,108 +881,26 @@ const CVEditorPage: React.FC = () => {
     }
   };
 
-  const handleDownload = async () => {
+  const handleDownload = async (format: DownloadFormat = 'pdf') => {
     if (!cvData) return;
 
+    const label = format === 'docx' ? 'Word document' : 'PDF';
+
     try {
       setIsDownloading(true);
-      toast.loading('Generating PDF...', { id: 'pdf-generation' });
+      toast.loading(`Generating ${label}...`, { id: 'pdf-generation' });
       
-      // First, increment download count via API
-      try {
-        await apiService.downloadCV(cvData.cv.id);
-      } catch (apiError) {
-        console.warn('Failed to track download:', apiError);
-        // Continue with PDF generation even if tracking fails
-      }
+      // Document is rendered server-side in the CV's layout (also enforces download limits)
+      const file = await apiService.downloadCV(cvData.cv.id, format);
+      saveFile(file);
       
-      // Create a temporary element for PDF generation
-      const pdfElement = document.createElement('div');
-      pdfElement.style.position = 'absolute';
-      pdfElement.style.left = '-9999px';
-      pdfElement.style.top = '0';
-      pdfElement.style.width = '210mm'; // A4 width
-      pdfElement.style.backgroundColor = 'white';
-      pdfElement.style.padding = '20mm';
-      pdfElement.style.fontFamily = 'Arial, sans-serif';
-      pdfElement.style.fontSize = '12px';
-      pdfElement.style.lineHeight = '1.4';
-      
-      // Build CV content
-      pdfElement.innerHTML = `
-        <div style="text-align: center; margin-bottom: 30px;">
-          <h1 style="font-size: 24px; margin-bottom: 10px; color: #333;">${cvData.cv.title}</h1>
-          <p style="font-size: 14px; color: #666;">${cvData.cv.layout.charAt(0).toUpperCase() + cvData.cv.layout.slice(1)} Layout</p>
-        </div>
-        
-          ${cvData.basic_details.introduction ? `
-            <div style="margin-bottom: 25px;">
-              <h2 style="font-size: 16px; margin-bottom: 10px; color: #333; border-bottom: 2px solid #007bff; padding-bottom: 5px;">Personal Summary</h2>
-              <p style="text-align: justify; line-height: 1.6;">${cvData.basic_details.introduction}</p>
-            </div>
-          ` : ''}
-        
-        <div style="margin-bottom: 25px;">
-          <h2 style="font-size: 16px; margin-bottom: 10px; color: #333; border-bottom: 2px solid #007bff; padding-bottom: 5px;">Contact Information</h2>
-          <div style="display: flex; flex-wrap: wrap; gap: 20px;">
-            ${cvData.basic_details.full_name ? `<p><strong>Name:</strong> ${cvData.basic_details.full_name}</p>` : ''}
-            ${cvData.basic_details.email ? `<p><strong>Email:</strong> ${cvData.basic_details.email}</p>` : ''}
-            ${cvData.basic_details.phone ? `<p><strong>Phone:</strong> ${cvData.basic_details.phone}</p>` : ''}
-            ${cvData.basic_details.address ? `<p><strong>Address:</strong> ${cvData.basic_details.address}</p>` : ''}
-          </div>
-        </div>
-        
-        <div style="margin-top: 40px; text-align: center; font-size: 10px; color: #666; border-top: 1px solid #ddd; padding-top: 10px;">
-          <p>Crafted by Neosoft | Developed by Vicky</p>
-        </div>
-      `;
-      
-      document.body.appendChild(pdfElement);
-      
-      // Generate PDF with cross-browser compatibility
-      const canvas = await html2canvas(pdfElement, {
-        scale: 2,
-        useCORS: true,
-        allowTaint: true,
-        backgroundColor: '#ffffff',
-        logging: false,
-        width: pdfElement.offsetWidth,
-        height: pdfElement.offsetHeight
-      });
-      
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      
-      const imgWidth = 210;
-      const pageHeight = 295;
-      const imgHeight = (canvas.height * imgWidth) / canvas.width;
-      let heightLeft = imgHeight;
-      
-      let position = 0;
-      
-      pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-      heightLeft -= pageHeight;
-      
-      while (heightLeft >= 0) {
-        position = heightLeft - imgHeight;
-        pdf.addPage();
-        pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-        heightLeft -= pageHeight;
-      }
-      
-      // Clean up
-      document.body.removeChild(pdfElement);
-      
-      // Download PDF
-      pdf.save(`${cvData.cv.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_cv.pdf`);
-      
-      toast.success('PDF downloaded successfully!', { id: 'pdf-generation' });
+      toast.success(`${label} downloaded successfully!`, { id: 'pdf-generation' });
       
       // Refresh CV data to get updated download count
       await fetchCV();
-    } catch (error) {
-      console.error('PDF generation error:', error);
-      toast.error('Failed to generate PDF', { id: 'pdf-generation' });
+    } catch (error: any) {
+      console.error('Document generation error:', error);
+      toast.error(error.response?.data?.message || `Failed to generate ${label}`, { id: 'pdf-generation' });
     } finally {
       setIsDownloading(false);
     }
@@ -346,6 +983,167 @@ const CVEditorPage: React.FC = () => {
     );
   }
 
+  // The preview shows a historical version while one is selected in the history panel
+  const previewData = previewVersion?.snapshot || cvData;
+
+  /**
+   * Render one section of the side preview with its (possibly customised) heading
+   */
+  const renderPreviewHighlights = (highlights?: Highlight[]) =>
+    highlights && highlights.length > 0 && (
+      <ul className="list-disc pl-4">
+        {highlights.map((highlight, index) => (
+          <li key={index}>
+            {highlight.text}
+            {highlight.metric && <strong className="ml-1 text-primary-700">{highlight.metric}</strong>}
+          </li>
+        ))}
+      </ul>
+    );
+
+  /**
+   * Compact preview of a list section as title / subtitle pairs
+   */
+  const renderPreviewList = (title: string, items: any[] | undefined, describe: (item: any) => [string, string | undefined]) =>
+    items && items.length > 0 && (
+      <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
+        <h5 className="text-sm font-semibold text-secondary-700 mb-2">{title}</h5>
+        <div className="text-xs text-secondary-600 text-left space-y-2">
+          {items.map((item: any, index: number) => {
+            const [heading, subheading] = describe(item);
+            return (
+              <div key={index} className="border-l-2 border-primary-200 pl-2">
+                <p><strong>{heading}</strong></p>
+                {subheading && <p>{subheading}</p>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+
+  const renderPreviewSection = (section: CVLayoutSection, title: string): React.ReactNode => {
+    switch (section) {
+      case 'summary':
+        return previewData.basic_details.introduction && (
+          <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
+            <h5 className="text-sm font-semibold text-secondary-700 mb-2">{title}</h5>
+            {renderRichText(previewData.basic_details.introduction, 'text-xs text-secondary-600 text-left leading-relaxed')}
+          </div>
+        );
+      case 'education':
+        return previewData.education && previewData.education.length > 0 && (
+          <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
+            <h5 className="text-sm font-semibold text-secondary-700 mb-2">{title}</h5>
+            <div className="text-xs text-secondary-600 text-left space-y-2">
+              {previewData.education.map((edu: any, index: number) => (
+                <div key={index} className="border-l-2 border-primary-200 pl-2">
+                  <p><strong>{edu.degree_name || 'Degree'}</strong></p>
+                  <p>{edu.institution || 'Institution'}</p>
+                  {(edu.percentage || edu.cgpa) && (
+                    <p>{edu.percentage ? `${edu.percentage}%` : `CGPA: ${edu.cgpa}`}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      case 'experience':
+        return previewData.experience && previewData.experience.length > 0 && (
+          <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
+            <h5 className="text-sm font-semibold text-secondary-700 mb-2">{title}</h5>
+            <div className="text-xs text-secondary-600 text-left space-y-2">
+              {previewData.experience.map((exp: any, index: number) => (
+                <div key={index} className="border-l-2 border-primary-200 pl-2">
+                  <p><strong>{exp.position || 'Position'}</strong></p>
+                  <p>{exp.organization_name || 'Organization'}</p>
+                  {renderRichText(exp.description, 'italic')}
+                  {renderPreviewHighlights(exp.highlights)}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      case 'skills':
+        return previewData.skills && previewData.skills.length > 0 && (
+          <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
+            <h5 className="text-sm font-semibold text-secondary-700 mb-2">{title}</h5>
+            <div className="text-xs text-secondary-600 text-left">
+              <div className="flex flex-wrap gap-1">
+                {previewData.skills.map((skill: any, index: number) => (
+                  <span key={index} className="px-2 py-1 bg-primary-100 text-primary-800 rounded text-xs">
+                    {skill.skill_name || 'Skill'} ({skill.proficiency_percentage || 0}%)
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+        );
+      case 'projects':
+        return previewData.projects && previewData.projects.length > 0 && (
+          <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
+            <h5 className="text-sm font-semibold text-secondary-700 mb-2">{title}</h5>
+            <div className="text-xs text-secondary-600 text-left space-y-2">
+              {previewData.projects.map((project: any, index: number) => (
+                <div key={index} className="border-l-2 border-primary-200 pl-2">
+                  <p><strong>{project.title || 'Project Title'}</strong></p>
+                  {renderRichText(project.description, 'italic')}
+                  {renderPreviewHighlights(project.highlights)}
+                  {project.project_url && <p className="text-primary-600">🔗 Project Link</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      case 'social_profiles':
+        return previewData.social_profiles && previewData.social_profiles.length > 0 && (
+          <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
+            <h5 className="text-sm font-semibold text-secondary-700 mb-2">{title}</h5>
+            <div className="text-xs text-secondary-600 text-left">
+              <div className="flex flex-wrap gap-1">
+                {previewData.social_profiles.map((profile: any, index: number) => (
+                  <span key={index} className="px-2 py-1 bg-secondary-100 text-secondary-800 rounded text-xs">
+                    {profile.platform_name || 'Platform'}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+        );
+      case 'certifications':
+        return renderPreviewList(title, previewData.certifications, (cert) => [cert.name || 'Certification', cert.issuer]);
+      case 'awards':
+        return renderPreviewList(title, previewData.awards, (award) => [award.title || 'Award', award.issuer]);
+      case 'publications':
+        return renderPreviewList(title, previewData.publications, (publication) => [publication.title || 'Publication', publication.publisher]);
+      case 'languages':
+        return previewData.languages && previewData.languages.length > 0 && (
+          <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
+            <h5 className="text-sm font-semibold text-secondary-700 mb-2">{title}</h5>
+            <div className="text-xs text-secondary-600 text-left">
+              <div className="flex flex-wrap gap-1">
+                {previewData.languages.map((language: any, index: number) => (
+                  <span key={index} className="px-2 py-1 bg-primary-100 text-primary-800 rounded text-xs">
+                    {language.language || 'Language'} ({LANGUAGE_PROFICIENCY_LABELS[language.proficiency as LanguageProficiency] || language.proficiency})
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+        );
+      case 'volunteering':
+        return renderPreviewList(title, previewData.volunteering, (entry) => [entry.role || 'Role', entry.organization]);
+      case 'references':
+        return renderPreviewList(title, previewData.references, (reference) => [reference.name || 'Referee', reference.relationship]);
+      case 'custom_sections':
+        return (previewData.custom_sections || []).map((section: any, index: number) => (
+          <React.Fragment key={index}>
+            {renderPreviewList(section.title || 'Custom Section', section.items, (item) => [item.title || 'Item', item.subtitle])}
+          </React.Fragment>
+        ));
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-100">
       {/* Header */}
@@ -374,7 +1172,7 @@ const CVEditorPage: React.FC = () => {
               </button>
 
               <button
-                onClick={handleDownload}
+                onClick={() => handleDownload('pdf')}
                 disabled={isDownloading}
                 className="flex items-center space-x-2 px-3 py-2 border border-secondary-300 rounded-lg hover:border-secondary-400 hover:bg-secondary-50 transition-colors disabled:opacity-50"
               >
@@ -382,6 +1180,15 @@ const CVEditorPage: React.FC = () => {
                 <span>{isDownloading ? 'Generating...' : 'Download'}</span>
               </button>
 
+              <button
+                onClick={() => handleDownload('docx')}
+                disabled={isDownloading}
+                className="flex items-center space-x-2 px-3 py-2 border border-secondary-300 rounded-lg hover:border-secondary-400 hover:bg-secondary-50 transition-colors disabled:opacity-50"
+              >
+                <FileText className="h-4 w-4" />
+                <span>Word</span>
+              </button>
+
               <button
                 onClick={handleShare}
                 className="flex items-center space-x-2 px-3 py-2 border border-secondary-300 rounded-lg hover:border-secondary-400 hover:bg-secondary-50 transition-colors"
@@ -390,6 +1197,27 @@ const CVEditorPage: React.FC = () => {
                 <span>Share</span>
               </button>
 
+              <button
+                onClick={handleToggleHistory}
+                className={`flex items-center space-x-2 px-3 py-2 border rounded-lg transition-colors ${showHistory ? 'border-primary-400 bg-primary-50 text-primary-700' : 'border-secondary-300 hover:border-secondary-400 hover:bg-secondary-50'}`}
+              >
+                <History className="h-4 w-4" />
+                <span>History</span>
+              </button>
+
+              <span
+                className={`flex items-center space-x-1 text-sm ${autosaveState === 'offline' ? 'text-yellow-600' : 'text-secondary-500'}`}
+                title={autosaveState === 'offline' ? 'Changes are kept on this device and saved when you reconnect' : undefined}
+              >
+                {autosaveState === 'saving' && <RefreshCw className="h-4 w-4 animate-spin" />}
+                {autosaveState === 'saved' && <Check className="h-4 w-4" />}
+                {autosaveState === 'unsaved' && <Cloud className="h-4 w-4" />}
+                {autosaveState === 'offline' && <CloudOff className="h-4 w-4" />}
+                <span>
+                  {autosaveState === 'saving' ? 'Saving...' : autosaveState === 'saved' ? 'Saved' : autosaveState === 'unsaved' ? 'Unsaved changes' : 'Offline'}
+                </span>
+              </span>
+
               <button
                 onClick={handleSave}
                 disabled={isSaving}
@@ -466,6 +1294,7 @@ const CVEditorPage: React.FC = () => {
                   <label className="block text-sm font-medium text-secondary-700 mb-2">
                     Personal Summary
                   </label>
+                  {renderRichTextToolbar()}
                   <textarea
                     value={cvData.basic_details.introduction || ''}
                     onChange={(e) => {
@@ -567,6 +1396,58 @@ const CVEditorPage: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Section Layout */}
+                <div className="border-t border-secondary-200 pt-6">
+                  <h3 className="text-md font-semibold text-secondary-900 mb-1">Section Layout</h3>
+                  <p className="text-sm text-secondary-500 mb-4">
+                    Order, show or hide and rename sections in the preview, PDF and shared CV.
+                  </p>
+                  <div className="space-y-2">
+                    {resolveSectionLayout(cvData.cv.section_config).map((section: ResolvedCVSection, index: number, sections: ResolvedCVSection[]) => (
+                      <div
+                        key={section.key}
+                        className={`flex items-center space-x-3 border border-secondary-200 rounded-lg px-3 py-2 ${section.hidden ? 'bg-secondary-50' : ''}`}
+                      >
+                        <div className="flex flex-col">
+                          <button
+                            onClick={() => handleMoveSection(index, -1)}
+                            disabled={index === 0}
+                            title="Move up"
+                            className="text-secondary-500 hover:text-secondary-800 disabled:opacity-30"
+                          >
+                            <ChevronUp className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleMoveSection(index, 1)}
+                            disabled={index === sections.length - 1}
+                            title="Move down"
+                            className="text-secondary-500 hover:text-secondary-800 disabled:opacity-30"
+                          >
+                            <ChevronDown className="h-4 w-4" />
+                          </button>
+                        </div>
+                        <input
+                          type="text"
+                          value={cvData.cv.section_config?.titles?.[section.key] ?? section.title}
+                          onChange={(e) => handleRenameSection(section.key, e.target.value)}
+                          disabled={FIXED_TITLE_SECTIONS.includes(section.key)}
+                          title={FIXED_TITLE_SECTIONS.includes(section.key) ? 'Each custom section shows its own title' : undefined}
+                          maxLength={SECTION_TITLE_MAX_LENGTH}
+                          placeholder={DEFAULT_SECTION_TITLES[section.key]}
+                          className={`flex-1 px-3 py-1 border border-secondary-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-secondary-50 ${section.hidden ? 'text-secondary-400' : ''}`}
+                        />
+                        <button
+                          onClick={() => handleToggleSection(index)}
+                          title={section.hidden ? 'Show section' : 'Hide section'}
+                          className="text-secondary-500 hover:text-secondary-800 transition-colors"
+                        >
+                          {section.hidden ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
                 {/* Education Section */}
                 <div className="border-t border-secondary-200 pt-6">
                   <div className="flex items-center justify-between mb-4">
@@ -601,7 +1482,7 @@ const CVEditorPage: React.FC = () => {
                   
                   <div className="space-y-4">
                     {(cvData.education || []).map((edu: any, index: number) => (
-                      <div key={edu.id || index} className="border border-secondary-200 rounded-lg p-4 bg-secondary-50">
+                      <div key={edu.id || index} {...getDragProps('education', index)}>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           <div>
                             <label className="block text-sm font-medium text-secondary-700 mb-1">Degree Name</label>
@@ -707,6 +1588,7 @@ const CVEditorPage: React.FC = () => {
                         </div>
                         <div className="mt-4">
                           <label className="block text-sm font-medium text-secondary-700 mb-1">Description</label>
+                          {renderRichTextToolbar()}
                           <textarea
                             value={edu.description || ''}
                             onChange={(e) => {
@@ -722,7 +1604,8 @@ const CVEditorPage: React.FC = () => {
                             placeholder="Additional details about your education..."
                           />
                         </div>
-                        <div className="mt-2 flex justify-end">
+                        <div className="mt-2 flex items-center justify-between">
+                          {renderDragHandle('education', index)}
                           <button
                             onClick={() => {
                               const newEducation = (cvData.education || []).filter((_: any, i: number) => i !== index);
@@ -776,7 +1659,7 @@ const CVEditorPage: React.FC = () => {
                   
                   <div className="space-y-4">
                     {(cvData.experience || []).map((exp: any, index: number) => (
-                      <div key={exp.id || index} className="border border-secondary-200 rounded-lg p-4 bg-secondary-50">
+                      <div key={exp.id || index} {...getDragProps('experience', index)}>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           <div>
                             <label className="block text-sm font-medium text-secondary-700 mb-1">Organization</label>
@@ -881,6 +1764,7 @@ const CVEditorPage: React.FC = () => {
                         </div>
                         <div className="mt-4">
                           <label className="block text-sm font-medium text-secondary-700 mb-1">Description</label>
+                          {renderRichTextToolbar()}
                           <textarea
                             value={exp.description || ''}
                             onChange={(e) => {
@@ -896,7 +1780,9 @@ const CVEditorPage: React.FC = () => {
                             placeholder="Describe your role and achievements..."
                           />
                         </div>
-                        <div className="mt-2 flex justify-end">
+                        {renderHighlightsEditor('experience', index)}
+                        <div className="mt-2 flex items-center justify-between">
+                          {renderDragHandle('experience', index)}
                           <button
                             onClick={() => {
                               const newExperience = (cvData.experience || []).filter((_: any, i: number) => i !== index);
@@ -944,7 +1830,7 @@ const CVEditorPage: React.FC = () => {
                   
                   <div className="space-y-4">
                     {(cvData.skills || []).map((skill: any, index: number) => (
-                      <div key={skill.id || index} className="border border-secondary-200 rounded-lg p-4 bg-secondary-50">
+                      <div key={skill.id || index} {...getDragProps('skills', index)}>
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                           <div>
                             <label className="block text-sm font-medium text-secondary-700 mb-1">Skill Name</label>
@@ -1002,7 +1888,8 @@ const CVEditorPage: React.FC = () => {
                             />
                           </div>
                         </div>
-                        <div className="mt-2 flex justify-end">
+                        <div className="mt-2 flex items-center justify-between">
+                          {renderDragHandle('skills', index)}
                           <button
                             onClick={() => {
                               const newSkills = (cvData.skills || []).filter((_: any, i: number) => i !== index);
@@ -1054,7 +1941,7 @@ const CVEditorPage: React.FC = () => {
                   
                   <div className="space-y-4">
                     {(cvData.projects || []).map((project: any, index: number) => (
-                      <div key={project.id || index} className="border border-secondary-200 rounded-lg p-4 bg-secondary-50">
+                      <div key={project.id || index} {...getDragProps('projects', index)}>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           <div>
                             <label className="block text-sm font-medium text-secondary-700 mb-1">Project Title</label>
@@ -1145,6 +2032,7 @@ const CVEditorPage: React.FC = () => {
                         </div>
                         <div className="mt-4">
                           <label className="block text-sm font-medium text-secondary-700 mb-1">Description</label>
+                          {renderRichTextToolbar()}
                           <textarea
                             value={project.description || ''}
                             onChange={(e) => {
@@ -1160,7 +2048,9 @@ const CVEditorPage: React.FC = () => {
                             placeholder="Describe your project..."
                           />
                         </div>
-                        <div className="mt-2 flex justify-end">
+                        {renderHighlightsEditor('projects', index)}
+                        <div className="mt-2 flex items-center justify-between">
+                          {renderDragHandle('projects', index)}
                           <button
                             onClick={() => {
                               const newProjects = (cvData.projects || []).filter((_: any, i: number) => i !== index);
@@ -1208,7 +2098,7 @@ const CVEditorPage: React.FC = () => {
                   
                   <div className="space-y-4">
                     {(cvData.social_profiles || []).map((profile: any, index: number) => (
-                      <div key={profile.id || index} className="border border-secondary-200 rounded-lg p-4 bg-secondary-50">
+                      <div key={profile.id || index} {...getDragProps('social_profiles', index)}>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           <div>
                             <label className="block text-sm font-medium text-secondary-700 mb-1">Platform</label>
@@ -1245,7 +2135,8 @@ const CVEditorPage: React.FC = () => {
                             />
                           </div>
                         </div>
-                        <div className="mt-2 flex justify-end">
+                        <div className="mt-2 flex items-center justify-between">
+                          {renderDragHandle('social_profiles', index)}
                           <button
                             onClick={() => {
                               const newSocialProfiles = (cvData.social_profiles || []).filter((_: any, i: number) => i !== index);
@@ -1263,132 +2154,231 @@ const CVEditorPage: React.FC = () => {
                     ))}
                   </div>
                 </div>
+
+                {/* Additional Sections */}
+                {LIST_SECTION_FORMS.map(renderListSection)}
+
+                {/* Custom Sections */}
+                <div className="border-t border-secondary-200 pt-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-md font-semibold text-secondary-900">Custom Sections</h3>
+                    <button
+                      onClick={() => addListItem('custom_sections', { title: '', items: [{ title: '' }] })}
+                      className="px-3 py-1 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+                    >
+                      Add Custom Section
+                    </button>
+                  </div>
+
+                  <div className="space-y-4">
+                    {(cvData.custom_sections || []).map((section: any, index: number) => (
+                      <div key={section.id || index} {...getDragProps('custom_sections', index)}>
+                        <label className="block text-sm font-medium text-secondary-700 mb-1">Section Title</label>
+                        <input
+                          type="text"
+                          value={section.title || ''}
+                          onChange={(e) => updateListItem('custom_sections', index, { title: e.target.value })}
+                          maxLength={SECTION_TITLE_MAX_LENGTH}
+                          className={INPUT_CLASS}
+                          placeholder="e.g., Conferences"
+                        />
+
+                        <div className="mt-4 space-y-3">
+                          {(section.items || []).map((item: any, itemIndex: number) => (
+                            <div key={itemIndex} className="border border-secondary-200 rounded-lg p-3 bg-white">
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                <input
+                                  type="text"
+                                  value={item.title || ''}
+                                  onChange={(e) => updateCustomItem(index, itemIndex, { title: e.target.value })}
+                                  className={INPUT_CLASS}
+                                  placeholder="Title"
+                                />
+                                <input
+                                  type="text"
+                                  value={item.subtitle || ''}
+                                  onChange={(e) => updateCustomItem(index, itemIndex, { subtitle: e.target.value })}
+                                  className={INPUT_CLASS}
+                                  placeholder="Subtitle (optional)"
+                                />
+                                <input
+                                  type="text"
+                                  value={item.date || ''}
+                                  onChange={(e) => updateCustomItem(index, itemIndex, { date: e.target.value })}
+                                  className={INPUT_CLASS}
+                                  placeholder="Date (e.g., 2024 or Mar 2023 - Present)"
+                                />
+                                <input
+                                  type="url"
+                                  value={item.url || ''}
+                                  onChange={(e) => updateCustomItem(index, itemIndex, { url: e.target.value })}
+                                  className={INPUT_CLASS}
+                                  placeholder="Link (optional)"
+                                />
+                                <div className="md:col-span-2">
+                                  {renderRichTextToolbar()}
+                                  <textarea
+                                    value={item.description || ''}
+                                    onChange={(e) => updateCustomItem(index, itemIndex, { description: e.target.value })}
+                                    rows={2}
+                                    className={INPUT_CLASS}
+                                    placeholder="Description (optional)"
+                                  />
+                                </div>
+                              </div>
+                              <div className="mt-2 text-right">
+                                <button
+                                  onClick={() => updateListItem('custom_sections', index, {
+                                    items: section.items.filter((_: any, i: number) => i !== itemIndex)
+                                  })}
+                                  className="px-3 py-1 text-sm text-red-600 hover:text-red-800 transition-colors"
+                                >
+                                  Remove Item
+                                </button>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+
+                        <div className="mt-2 flex items-center justify-between">
+                          {renderDragHandle('custom_sections', index)}
+                          <div className="flex items-center space-x-2">
+                            <button
+                              onClick={() => updateListItem('custom_sections', index, {
+                                items: [...(section.items || []), { title: '' }]
+                              })}
+                              className="flex items-center space-x-1 px-3 py-1 text-sm text-primary-600 hover:text-primary-800 transition-colors"
+                            >
+                              <Plus className="h-4 w-4" />
+                              <span>Add Item</span>
+                            </button>
+                            <button
+                              onClick={() => removeListItem('custom_sections', index)}
+                              className="px-3 py-1 text-sm text-red-600 hover:text-red-800 transition-colors"
+                            >
+                              Remove Section
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
               </div>
             </div>
           </div>
 
           {/* Preview Panel */}
-          <div className="lg:col-span-1" id="cv-preview">
+          <div className="lg:col-span-1 space-y-6" id="cv-preview">
+            {/* Version History */}
+            {showHistory && (
+              <div className="bg-white rounded-lg shadow-sm border border-secondary-200 p-6">
+                <h3 className="text-lg font-semibold text-secondary-900 mb-4">Version History</h3>
+                {versions.length === 0 && !isLoadingVersions ? (
+                  <p className="text-sm text-secondary-500">No saved versions yet.</p>
+                ) : (
+                  <ul className="divide-y divide-secondary-100">
+                    {versions.map((version, index) => (
+                      <li key={version.id} className="py-3">
+                        <div className="flex items-start justify-between">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-secondary-900">
+                              Version {version.version_number}
+                              {index === 0 && (
+                                <span className="ml-2 text-xs text-green-700 bg-green-100 px-2 py-0.5 rounded-full">Latest</span>
+                              )}
+                            </p>
+                            <p className="text-xs text-secondary-600 truncate">{describeVersion(version)}</p>
+                            <p className="text-xs text-secondary-400">{new Date(version.created_at).toLocaleString()}</p>
+                          </div>
+                          <div className="flex items-center space-x-2 ml-2 shrink-0">
+                            <button
+                              onClick={() => handlePreviewVersion(version.version_number)}
+                              className={`p-1 rounded hover:bg-secondary-100 ${previewVersion?.version_number === version.version_number ? 'text-primary-600' : 'text-secondary-500'}`}
+                              title="Preview this version"
+                            >
+                              <Eye className="h-4 w-4" />
+                            </button>
+                            {index > 0 && (
+                              <button
+                                onClick={() => navigate(`/cv-compare/${id}?from=${version.version_number}`)}
+                                className="p-1 rounded text-secondary-500 hover:bg-secondary-100 hover:text-secondary-800"
+                                title="Compare with current"
+                              >
+                                <GitCompare className="h-4 w-4" />
+                              </button>
+                            )}
+                            {index > 0 && (
+                              <button
+                                onClick={() => handleRestoreVersion(version.version_number)}
+                                disabled={restoringVersion !== null}
+                                className="p-1 rounded text-secondary-500 hover:bg-secondary-100 hover:text-secondary-800 disabled:opacity-50"
+                                title="Restore this version"
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {hasMoreVersions && (
+                  <button
+                    onClick={() => fetchVersions(versionsPage + 1)}
+                    disabled={isLoadingVersions}
+                    className="mt-3 text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                  >
+                    {isLoadingVersions ? 'Loading...' : 'Show older versions'}
+                  </button>
+                )}
+              </div>
+            )}
+
             <div className="bg-white rounded-lg shadow-sm border border-secondary-200 p-6">
               <h3 className="text-lg font-semibold text-secondary-900 mb-4">Preview</h3>
+              {previewVersion && (
+                <div className="mb-4 flex items-center justify-between bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">
+                  <span className="text-sm text-yellow-800">Viewing version {previewVersion.version_number}</span>
+                  <button
+                    onClick={() => setPreviewVersion(null)}
+                    className="text-sm font-medium text-yellow-800 underline hover:text-yellow-900"
+                  >
+                    Back to current
+                  </button>
+                </div>
+              )}
               <div className="border border-secondary-200 rounded-lg p-4 bg-secondary-50">
                 <div className="text-center">
                   <div className="text-4xl mb-2">
-                  {cvData.cv.layout === 'modern' && '🎨'}
-                  {cvData.cv.layout === 'classic' && '📄'}
-                  {cvData.cv.layout === 'creative' && '✨'}
+                  {previewData.cv.layout === 'modern' && '🎨'}
+                  {previewData.cv.layout === 'classic' && '📄'}
+                  {previewData.cv.layout === 'creative' && '✨'}
                   </div>
-                  <h4 className="font-semibold text-secondary-900">{cvData.cv.title}</h4>
-                  <p className="text-sm text-secondary-600 mt-1">{cvData.cv.layout} Layout</p>
+                  <h4 className="font-semibold text-secondary-900">{previewData.cv.title}</h4>
+                  <p className="text-sm text-secondary-600 mt-1">{previewData.cv.layout} Layout</p>
                   
                   {/* Contact Information Preview */}
                   <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
                     <h5 className="text-sm font-semibold text-secondary-700 mb-2">Contact Information</h5>
                     <div className="text-xs text-secondary-600 text-left space-y-1">
-                      <p><strong>Name:</strong> {cvData.basic_details.full_name || 'Not provided'}</p>
-                      <p><strong>Email:</strong> {cvData.basic_details.email || 'Not provided'}</p>
-                      {cvData.basic_details.phone && <p><strong>Phone:</strong> {cvData.basic_details.phone}</p>}
-                      {cvData.basic_details.address && <p><strong>Address:</strong> {cvData.basic_details.address}</p>}
+                      <p><strong>Name:</strong> {previewData.basic_details.full_name || 'Not provided'}</p>
+                      <p><strong>Email:</strong> {previewData.basic_details.email || 'Not provided'}</p>
+                      {previewData.basic_details.phone && <p><strong>Phone:</strong> {previewData.basic_details.phone}</p>}
+                      {previewData.basic_details.address && <p><strong>Address:</strong> {previewData.basic_details.address}</p>}
                     </div>
                   </div>
 
-                  {/* Personal Summary Preview */}
-                  {cvData.basic_details.introduction && (
-                    <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
-                      <h5 className="text-sm font-semibold text-secondary-700 mb-2">Personal Summary</h5>
-                      <p className="text-xs text-secondary-600 text-left leading-relaxed">
-                        {cvData.basic_details.introduction}
-                      </p>
-                    </div>
-                  )}
-
-                  {/* Education Preview */}
-                  {cvData.education && cvData.education.length > 0 && (
-                    <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
-                      <h5 className="text-sm font-semibold text-secondary-700 mb-2">Education</h5>
-                      <div className="text-xs text-secondary-600 text-left space-y-2">
-                        {cvData.education.map((edu: any, index: number) => (
-                          <div key={index} className="border-l-2 border-primary-200 pl-2">
-                            <p><strong>{edu.degree_name || 'Degree'}</strong></p>
-                            <p>{edu.institution || 'Institution'}</p>
-                            {(edu.percentage || edu.cgpa) && (
-                              <p>{edu.percentage ? `${edu.percentage}%` : `CGPA: ${edu.cgpa}`}</p>
-                            )}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Experience Preview */}
-                  {cvData.experience && cvData.experience.length > 0 && (
-                    <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
-                      <h5 className="text-sm font-semibold text-secondary-700 mb-2">Work Experience</h5>
-                      <div className="text-xs text-secondary-600 text-left space-y-2">
-                        {cvData.experience.map((exp: any, index: number) => (
-                          <div key={index} className="border-l-2 border-primary-200 pl-2">
-                            <p><strong>{exp.position || 'Position'}</strong></p>
-                            <p>{exp.organization_name || 'Organization'}</p>
-                            {exp.description && <p className="italic">{exp.description}</p>}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Skills Preview */}
-                  {cvData.skills && cvData.skills.length > 0 && (
-                    <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
-                      <h5 className="text-sm font-semibold text-secondary-700 mb-2">Skills</h5>
-                      <div className="text-xs text-secondary-600 text-left">
-                        <div className="flex flex-wrap gap-1">
-                          {cvData.skills.map((skill: any, index: number) => (
-                            <span key={index} className="px-2 py-1 bg-primary-100 text-primary-800 rounded text-xs">
-                              {skill.skill_name || 'Skill'} ({skill.proficiency_percentage || 0}%)
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Projects Preview */}
-                  {cvData.projects && cvData.projects.length > 0 && (
-                    <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
-                      <h5 className="text-sm font-semibold text-secondary-700 mb-2">Projects</h5>
-                      <div className="text-xs text-secondary-600 text-left space-y-2">
-                        {cvData.projects.map((project: any, index: number) => (
-                          <div key={index} className="border-l-2 border-primary-200 pl-2">
-                            <p><strong>{project.title || 'Project Title'}</strong></p>
-                            {project.description && <p className="italic">{project.description}</p>}
-                            {project.project_url && <p className="text-primary-600">🔗 Project Link</p>}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Social Profiles Preview */}
-                  {cvData.social_profiles && cvData.social_profiles.length > 0 && (
-                    <div className="mt-4 p-3 bg-white rounded border border-secondary-200">
-                      <h5 className="text-sm font-semibold text-secondary-700 mb-2">Social Profiles</h5>
-                      <div className="text-xs text-secondary-600 text-left">
-                        <div className="flex flex-wrap gap-1">
-                          {cvData.social_profiles.map((profile: any, index: number) => (
-                            <span key={index} className="px-2 py-1 bg-secondary-100 text-secondary-800 rounded text-xs">
-                              {profile.platform_name || 'Platform'}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                    </div>
-                  )}
+                  {getVisibleSections(previewData.cv.section_config).map(({ key, title }: ResolvedCVSection) => (
+                    <React.Fragment key={key}>{renderPreviewSection(key, title)}</React.Fragment>
+                  ))}
                   
                   <div className="mt-3 text-xs text-secondary-500">
                     <p>Status: {localStatus === 'saved' ? 'Saved' : localStatus === 'draft' ? 'In Draft' : localStatus === 'published' ? 'Published' : localStatus}</p>
-                    <p>Created: {new Date(cvData.cv.created_at).toLocaleDateString()}</p>
-                    {cvData.cv.download_count > 0 && (
-                      <p>Downloads: {cvData.cv.download_count}</p>
+                    <p>Created: {new Date(previewData.cv.created_at).toLocaleDateString()}</p>
+                    {previewData.cv.download_count > 0 && (
+                      <p>Downloads: {previewData.cv.download_count}</p>
                     )}
                   </div>
                 </div>
@@ -1397,6 +2387,57 @@ const CVEditorPage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* Save Conflict Dialog */}
+      {saveConflict && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 px-4">
+          <div className="w-full max-w-lg bg-white rounded-lg shadow-xl p-6">
+            <div className="flex items-start space-x-3">
+              <AlertCircle className="h-6 w-6 text-yellow-500 flex-shrink-0" />
+              <div>
+                <h3 className="text-lg font-semibold text-secondary-900">This CV was changed elsewhere</h3>
+                <p className="mt-1 text-sm text-secondary-600">
+                  It was saved in another tab or session
+                  {saveConflict.server.cv.last_modified && ` on ${new Date(saveConflict.server.cv.last_modified).toLocaleString()}`}
+                  {' '}after you opened it, so your changes were not saved.
+                </p>
+                {saveConflict.conflicts.length > 0 ? (
+                  <p className="mt-3 text-sm text-secondary-700">
+                    Both versions changed:{' '}
+                    <strong>{saveConflict.conflicts.map((part) => part.replace(/_/g, ' ')).join(', ')}</strong>.
+                    Merging keeps your edits there and takes the other changes everywhere else.
+                  </p>
+                ) : (
+                  <p className="mt-3 text-sm text-secondary-700">
+                    The changes do not overlap, so they can be merged without losing anything.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="mt-6 flex flex-wrap justify-end gap-2">
+              <button
+                onClick={handleReloadLatest}
+                className="px-4 py-2 text-sm border border-secondary-300 text-secondary-700 rounded-lg hover:bg-secondary-50 transition-colors"
+              >
+                Discard Mine &amp; Reload
+              </button>
+              <button
+                onClick={handleKeepMine}
+                className="px-4 py-2 text-sm border border-secondary-300 text-secondary-700 rounded-lg hover:bg-secondary-50 transition-colors"
+              >
+                Keep Mine Only
+              </button>
+              <button
+                onClick={handleMergeChanges}
+                className="px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+              >
+                Merge Changes
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -6,12 +6,27 @@
  * @since 2025-01-18
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Download, Share2, Edit, Globe, Mail, Phone, MapPin, Calendar, Award, Briefcase, GraduationCap, Code, ExternalLink } from 'lucide-react';
+import { ArrowLeft, Download, Share2, Edit, ChevronDown, Globe, Mail, Phone, MapPin, Calendar, Award, Briefcase, GraduationCap, Code, ExternalLink, FileText, Copy, X, BadgeCheck, Trophy, BookOpen, Languages, HeartHandshake, Users, LayoutList } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { apiService } from '../services/api';
-import { CVData } from '../types';
+import { CVData, CVLayoutSection, DownloadFormat, ExportFormat, FileDownload, Highlight } from '../types';
+import { saveFile } from '../utils/download';
+import { renderRichText } from '../utils/richText';
+import { LANGUAGE_PROFICIENCY_LABELS, getVisibleSections } from '../utils/sectionLayout';
+
+/** Entries of the export menu: rendered documents first, then sources and data files */
+const EXPORT_OPTIONS: { label: string; format: DownloadFormat | ExportFormat }[] = [
+  { label: 'PDF document', format: 'pdf' },
+  { label: 'Word document', format: 'docx' },
+  { label: 'Markdown', format: 'markdown' },
+  { label: 'LaTeX (moderncv)', format: 'latex' },
+  { label: 'Plain text (ATS)', format: 'text' },
+  { label: 'JSON Resume', format: 'jsonresume' },
+  { label: 'Europass XML', format: 'europass-xml' },
+  { label: 'CV Builder JSON', format: 'native' }
+];
 
 const CVPreviewPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -19,6 +34,10 @@ const CVPreviewPage: React.FC = () => {
   const [cvData, setCvData] = useState<CVData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+  // ATS plain-text export shown for copying, kept as a file for the .txt download
+  const [plainText, setPlainText] = useState<{ file: FileDownload; text: string } | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -26,6 +45,20 @@ const CVPreviewPage: React.FC = () => {
     }
   }, [id]);
 
+  // Close the export menu on clicks outside of it
+  useEffect(() => {
+    if (!isExportMenuOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+        setIsExportMenuOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isExportMenuOpen]);
+
   const fetchCV = async () => {
     try {
       setIsLoading(true);
@@ -45,27 +78,77 @@ const CVPreviewPage: React.FC = () => {
     }
   };
 
-  const handleDownload = async () => {
+  const handleDownload = async (format: DownloadFormat = 'pdf') => {
     if (!cvData) return;
     
     try {
       setIsDownloading(true);
-      await apiService.downloadCV(cvData.cv.id);
-      toast.success('CV download initiated');
+      const file = await apiService.downloadCV(cvData.cv.id, format);
+      saveFile(file);
+      toast.success('CV downloaded successfully');
     } catch (error: any) {
       console.error('Download error:', error);
-      toast.error('Failed to download CV');
+      toast.error(error.response?.data?.message || 'Failed to download CV');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleExport = async (format: DownloadFormat | ExportFormat) => {
+    setIsExportMenuOpen(false);
+    if (format === 'pdf' || format === 'docx') {
+      return handleDownload(format);
+    }
+    if (!cvData) return;
+
+    try {
+      setIsDownloading(true);
+      const file = await apiService.exportCV(cvData.cv.id, format);
+      if (format === 'text') {
+        setPlainText({ file, text: await file.blob.text() });
+        return;
+      }
+      saveFile(file);
+      toast.success('CV exported successfully');
+    } catch (error: any) {
+      console.error('Export error:', error);
+      toast.error(error.response?.data?.message || 'Failed to export CV');
     } finally {
       setIsDownloading(false);
     }
   };
 
+  const handleCopyPlainText = async () => {
+    if (!plainText) return;
+
+    try {
+      await navigator.clipboard.writeText(plainText.text);
+      toast.success('CV text copied to clipboard!');
+    } catch (error) {
+      console.error('Copy error:', error);
+      toast.error('Unable to copy. Please select the text and copy it manually.');
+    }
+  };
+
   const handleShare = async () => {
     if (!cvData) return;
     
+    const recipientEmail = window.prompt('Share this CV by email. Recipient address:');
+    if (!recipientEmail) return;
+
+    const message = window.prompt('Add a personal message (optional):') || undefined;
+    const isPublic = cvData.cv.is_public && cvData.cv.status === 'published';
+    // Private or unpublished CVs have no working public link, so they can only go out as a PDF
+    const attachPdf = !isPublic || window.confirm('Attach a PDF copy as well?');
+    
     try {
-      await apiService.shareCV(cvData.cv.id, { platform: 'email' });
-      toast.success('CV shared successfully');
+      await apiService.shareCV(cvData.cv.id, {
+        platform: 'email',
+        recipient_email: recipientEmail.trim(),
+        message,
+        attach_pdf: attachPdf
+      });
+      toast.success(`CV sent to ${recipientEmail.trim()}`);
     } catch (error: any) {
       console.error('Share error:', error);
       toast.error('Failed to share CV');
@@ -146,6 +229,415 @@ const CVPreviewPage: React.FC = () => {
 
   const styles = getLayoutStyles(cvData.cv.layout);
 
+  /**
+   * Section heading with its icon badge
+   */
+  const renderHeading = (title: string, Icon: React.ElementType) => (
+    <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
+      <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
+        <Icon className="h-4 w-4" />
+      </span>
+      {title}
+    </h2>
+  );
+
+  /**
+   * One entry of the simpler list sections: title and subtitle left, date right, optional text and link below
+   */
+  const renderEntry = (
+    key: string,
+    entry: { title: string; subtitle?: string; meta?: string; description?: string; url?: string }
+  ) => (
+    <div key={key} className="border-l-4 border-primary-200 pl-6">
+      <div className="flex justify-between items-start mb-2">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{entry.title}</h3>
+          {entry.subtitle && <p className="text-primary-600 font-medium">{entry.subtitle}</p>}
+        </div>
+        {entry.meta && (
+          <div className="flex items-center space-x-1 text-sm text-gray-600">
+            <Calendar className="h-4 w-4" />
+            <span>{entry.meta}</span>
+          </div>
+        )}
+      </div>
+      {renderRichText(entry.description, 'text-gray-700 mb-2')}
+      {entry.url && (
+        <a
+          href={entry.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700"
+        >
+          <ExternalLink className="h-4 w-4" />
+          <span>{entry.url}</span>
+        </a>
+      )}
+    </div>
+  );
+
+  /**
+   * Achievement bullets of an experience or project entry: metric emphasised, tags muted
+   */
+  const renderHighlights = (highlights?: Highlight[]) =>
+    highlights && highlights.length > 0 && (
+      <ul className="list-disc pl-5 text-gray-700 space-y-1 mb-2">
+        {highlights.map((highlight, index) => (
+          <li key={index}>
+            {highlight.text}
+            {highlight.metric && <strong className={`ml-1 ${styles.accent}`}>{highlight.metric}</strong>}
+            {highlight.tags && highlight.tags.length > 0 && (
+              <span className="ml-2 text-sm text-gray-500">{highlight.tags.join(' · ')}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+
+  /**
+   * Render one CV section with its (possibly customised) heading
+   */
+  const renderSection = (section: CVLayoutSection, title: string): React.ReactNode => {
+    switch (section) {
+      case 'summary':
+        return cvData.basic_details.introduction && (
+          <div className="mb-8">
+            <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
+              <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
+                <Award className="h-4 w-4" />
+              </span>
+              {title}
+            </h2>
+            {renderRichText(cvData.basic_details.introduction, 'text-gray-700 leading-relaxed')}
+          </div>
+        );
+      case 'experience':
+        return cvData.experience.length > 0 && (
+          <div className="mb-8">
+            <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
+              <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
+                <Briefcase className="h-4 w-4" />
+              </span>
+              {title}
+            </h2>
+            <div className="space-y-6">
+              {cvData.experience.map((exp) => (
+                <div key={exp.id} className="border-l-4 border-primary-200 pl-6">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">{exp.position}</h3>
+                      <p className="text-primary-600 font-medium">{exp.organization_name}</p>
+                    </div>
+                    <div className="text-right text-sm text-gray-600">
+                      <div className="flex items-center space-x-1">
+                        <Calendar className="h-4 w-4" />
+                        <span>
+                          {formatDate(exp.joining_date)} - {exp.is_current ? 'Present' : exp.leaving_date ? formatDate(exp.leaving_date) : 'N/A'}
+                        </span>
+                      </div>
+                      {exp.joining_location && (
+                        <div className="flex items-center space-x-1 mt-1">
+                          <MapPin className="h-4 w-4" />
+                          <span>{exp.joining_location}</span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  {renderRichText(exp.description, 'text-gray-700 mb-2')}
+                  {renderHighlights(exp.highlights)}
+                  {exp.technologies && exp.technologies.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {exp.technologies.map((tech, index) => (
+                        <span key={index} className={`px-2 py-1 ${styles.accentBg} ${styles.accent} rounded-full text-sm`}>
+                          {tech}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      case 'education':
+        return cvData.education.length > 0 && (
+          <div className="mb-8">
+            <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
+              <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
+                <GraduationCap className="h-4 w-4" />
+              </span>
+              {title}
+            </h2>
+            <div className="space-y-4">
+              {cvData.education.map((edu) => (
+                <div key={edu.id} className="border-l-4 border-primary-200 pl-6">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">{edu.degree_name}</h3>
+                      <p className="text-primary-600 font-medium">{edu.institution}</p>
+                    </div>
+                    <div className="text-right text-sm text-gray-600">
+                      <div className="flex items-center space-x-1">
+                        <Calendar className="h-4 w-4" />
+                        <span>
+                          {formatDate(edu.start_date)} - {edu.is_current ? 'Present' : edu.end_date ? formatDate(edu.end_date) : 'N/A'}
+                        </span>
+                      </div>
+                      {(edu.percentage || edu.cgpa) && (
+                        <div className="mt-1">
+                          {edu.percentage && <span>Percentage: {edu.percentage}%</span>}
+                          {edu.cgpa && <span>CGPA: {edu.cgpa}</span>}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  {renderRichText(edu.description, 'text-gray-700')}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      case 'projects':
+        return cvData.projects.length > 0 && (
+          <div className="mb-8">
+            <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
+              <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
+                <Code className="h-4 w-4" />
+              </span>
+              {title}
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {cvData.projects.map((project) => (
+                <div key={project.id} className={`${styles.card} p-6`}>
+                  <div className="flex justify-between items-start mb-3">
+                    <h3 className="text-lg font-semibold text-gray-900">{project.title}</h3>
+                    <div className="flex space-x-2">
+                      {project.project_url && (
+                        <a
+                          href={project.project_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary-600 hover:text-primary-700"
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      )}
+                      {project.github_url && (
+                        <a
+                          href={project.github_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-gray-600 hover:text-gray-700"
+                        >
+                          <Code className="h-4 w-4" />
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                  {renderRichText(project.description, 'text-gray-700 mb-3')}
+                  {renderHighlights(project.highlights)}
+                  {project.technologies && project.technologies.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {project.technologies.map((tech, index) => (
+                        <span key={index} className={`px-2 py-1 ${styles.accentBg} ${styles.accent} rounded-full text-sm`}>
+                          {tech}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      case 'skills':
+        return cvData.skills.length > 0 && (
+          <div className="mb-8">
+            <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
+              <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
+                <Award className="h-4 w-4" />
+              </span>
+              {title}
+            </h2>
+            <div className="space-y-4">
+              {['technical', 'interpersonal', 'language'].map((category) => {
+                const categorySkills = cvData.skills.filter(skill => skill.category === category);
+                if (categorySkills.length === 0) return null;
+                
+                return (
+                  <div key={category}>
+                    <h3 className="text-lg font-semibold text-gray-800 mb-3 capitalize">{category} Skills</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {categorySkills.map((skill) => (
+                        <div key={skill.id} className="flex items-center space-x-3">
+                          <span className="text-sm font-medium text-gray-700 w-24">{skill.skill_name}</span>
+                          <div className="flex-1 bg-gray-200 rounded-full h-2">
+                            <div
+                              className={`h-2 rounded-full ${styles.accentBg}`}
+                              style={{ width: `${skill.proficiency_percentage}%` }}
+                            ></div>
+                          </div>
+                          <span className="text-sm text-gray-600 w-12">{skill.proficiency_percentage}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      case 'social_profiles':
+        return cvData.social_profiles.length > 0 && (
+          <div className="mb-8">
+            <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
+              <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
+                <Globe className="h-4 w-4" />
+              </span>
+              {title}
+            </h2>
+            <div className="flex flex-wrap gap-4">
+              {cvData.social_profiles.map((profile) => (
+                <a
+                  key={profile.id}
+                  href={profile.profile_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`flex items-center space-x-2 px-4 py-2 ${styles.accentBg} ${styles.accent} rounded-lg hover:opacity-80 transition-opacity`}
+                >
+                  <Globe className="h-4 w-4" />
+                  <span>{profile.platform_name}</span>
+                </a>
+              ))}
+            </div>
+          </div>
+        );
+      case 'certifications':
+        return cvData.certifications.length > 0 && (
+          <div className="mb-8">
+            {renderHeading(title, BadgeCheck)}
+            <div className="space-y-4">
+              {cvData.certifications.map((certification) => renderEntry(certification.id, {
+                title: certification.name,
+                subtitle: [certification.issuer, certification.credential_id && `ID ${certification.credential_id}`].filter(Boolean).join(' · '),
+                meta: certification.expiry_date
+                  ? `${formatDate(certification.issue_date)} - ${formatDate(certification.expiry_date)}`
+                  : formatDate(certification.issue_date),
+                url: certification.credential_url,
+              }))}
+            </div>
+          </div>
+        );
+      case 'awards':
+        return cvData.awards.length > 0 && (
+          <div className="mb-8">
+            {renderHeading(title, Trophy)}
+            <div className="space-y-4">
+              {cvData.awards.map((award) => renderEntry(award.id, {
+                title: award.title,
+                subtitle: award.issuer,
+                meta: award.award_date ? formatDate(award.award_date) : undefined,
+                description: award.description,
+              }))}
+            </div>
+          </div>
+        );
+      case 'publications':
+        return cvData.publications.length > 0 && (
+          <div className="mb-8">
+            {renderHeading(title, BookOpen)}
+            <div className="space-y-4">
+              {cvData.publications.map((publication) => renderEntry(publication.id, {
+                title: publication.title,
+                subtitle: [publication.authors, publication.publisher].filter(Boolean).join(' · '),
+                meta: publication.publication_date ? formatDate(publication.publication_date) : undefined,
+                description: publication.description,
+                url: publication.url,
+              }))}
+            </div>
+          </div>
+        );
+      case 'languages':
+        return cvData.languages.length > 0 && (
+          <div className="mb-8">
+            {renderHeading(title, Languages)}
+            <div className="flex flex-wrap gap-3">
+              {cvData.languages.map((language) => (
+                <span key={language.id} className={`px-4 py-2 ${styles.accentBg} ${styles.accent} rounded-lg`}>
+                  <strong>{language.language}</strong> · {LANGUAGE_PROFICIENCY_LABELS[language.proficiency] || language.proficiency}
+                </span>
+              ))}
+            </div>
+          </div>
+        );
+      case 'volunteering':
+        return cvData.volunteering.length > 0 && (
+          <div className="mb-8">
+            {renderHeading(title, HeartHandshake)}
+            <div className="space-y-6">
+              {cvData.volunteering.map((entry) => renderEntry(entry.id, {
+                title: entry.role,
+                subtitle: entry.organization,
+                meta: `${formatDate(entry.start_date)} - ${entry.is_current ? 'Present' : entry.end_date ? formatDate(entry.end_date) : 'N/A'}`,
+                description: entry.description,
+              }))}
+            </div>
+          </div>
+        );
+      case 'references':
+        return cvData.references.length > 0 && (
+          <div className="mb-8">
+            {renderHeading(title, Users)}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {cvData.references.map((reference) => (
+                <div key={reference.id} className={`${styles.card} p-6`}>
+                  <h3 className="text-lg font-semibold text-gray-900">{reference.name}</h3>
+                  {(reference.position || reference.organization) && (
+                    <p className="text-primary-600 font-medium">
+                      {[reference.position, reference.organization].filter(Boolean).join(', ')}
+                    </p>
+                  )}
+                  {reference.relationship && <p className="text-sm text-gray-600">{reference.relationship}</p>}
+                  <div className="mt-2 space-y-1 text-sm text-gray-700">
+                    {reference.email && (
+                      <div className="flex items-center space-x-1">
+                        <Mail className="h-4 w-4" />
+                        <span>{reference.email}</span>
+                      </div>
+                    )}
+                    {reference.phone && (
+                      <div className="flex items-center space-x-1">
+                        <Phone className="h-4 w-4" />
+                        <span>{reference.phone}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      case 'custom_sections':
+        // Each custom section is shown under its own title
+        return cvData.custom_sections
+          .filter((section) => section.items.length > 0)
+          .map((section) => (
+            <div key={section.id} className="mb-8">
+              {renderHeading(section.title, LayoutList)}
+              <div className="space-y-4">
+                {section.items.map((item, index) => renderEntry(`${section.id}-${index}`, {
+                  title: item.title,
+                  subtitle: item.subtitle,
+                  meta: item.date,
+                  description: item.description,
+                  url: item.url,
+                }))}
+              </div>
+            </div>
+          ));
+    }
+  };
+
   return (
     <div className={`min-h-screen ${styles.container}`}>
       {/* Header */}
@@ -174,7 +666,7 @@ const CVPreviewPage: React.FC = () => {
               </button>
 
               <button
-                onClick={handleDownload}
+                onClick={() => handleDownload('pdf')}
                 disabled={isDownloading}
                 className="flex items-center space-x-2 px-3 py-2 border border-secondary-300 rounded-lg hover:border-secondary-400 hover:bg-secondary-50 transition-colors disabled:opacity-50"
               >
@@ -182,6 +674,32 @@ const CVPreviewPage: React.FC = () => {
                 <span>{isDownloading ? 'Generating...' : 'Download'}</span>
               </button>
 
+              <div className="relative" ref={exportMenuRef}>
+                <button
+                  onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                  disabled={isDownloading}
+                  className="flex items-center space-x-2 px-3 py-2 border border-secondary-300 rounded-lg hover:border-secondary-400 hover:bg-secondary-50 transition-colors disabled:opacity-50"
+                >
+                  <FileText className="h-4 w-4" />
+                  <span>Export</span>
+                  <ChevronDown className="h-4 w-4" />
+                </button>
+
+                {isExportMenuOpen && (
+                  <div className="absolute right-0 mt-2 w-48 bg-white border border-secondary-200 rounded-lg shadow-lg py-1 z-20">
+                    {EXPORT_OPTIONS.map((option) => (
+                      <button
+                        key={option.format}
+                        onClick={() => handleExport(option.format)}
+                        className="w-full text-left px-4 py-2 text-sm text-secondary-700 hover:bg-secondary-50"
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               <button
                 onClick={handleShare}
                 className="flex items-center space-x-2 px-3 py-2 border border-secondary-300 rounded-lg hover:border-secondary-400 hover:bg-secondary-50 transition-colors"
@@ -232,231 +750,58 @@ const CVPreviewPage: React.FC = () => {
           </div>
 
           <div className="p-8">
-            {/* Introduction */}
-            {cvData.basic_details.introduction && (
-              <div className="mb-8">
-                <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
-                  <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
-                    <Award className="h-4 w-4" />
-                  </span>
-                  About Me
-                </h2>
-                <p className="text-gray-700 leading-relaxed">{cvData.basic_details.introduction}</p>
-              </div>
-            )}
-
-            {/* Experience */}
-            {cvData.experience.length > 0 && (
-              <div className="mb-8">
-                <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
-                  <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
-                    <Briefcase className="h-4 w-4" />
-                  </span>
-                  Experience
-                </h2>
-                <div className="space-y-6">
-                  {cvData.experience.map((exp) => (
-                    <div key={exp.id} className="border-l-4 border-primary-200 pl-6">
-                      <div className="flex justify-between items-start mb-2">
-                        <div>
-                          <h3 className="text-lg font-semibold text-gray-900">{exp.position}</h3>
-                          <p className="text-primary-600 font-medium">{exp.organization_name}</p>
-                        </div>
-                        <div className="text-right text-sm text-gray-600">
-                          <div className="flex items-center space-x-1">
-                            <Calendar className="h-4 w-4" />
-                            <span>
-                              {formatDate(exp.joining_date)} - {exp.is_current ? 'Present' : exp.leaving_date ? formatDate(exp.leaving_date) : 'N/A'}
-                            </span>
-                          </div>
-                          {exp.joining_location && (
-                            <div className="flex items-center space-x-1 mt-1">
-                              <MapPin className="h-4 w-4" />
-                              <span>{exp.joining_location}</span>
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                      {exp.description && (
-                        <p className="text-gray-700 mb-2">{exp.description}</p>
-                      )}
-                      {exp.technologies && exp.technologies.length > 0 && (
-                        <div className="flex flex-wrap gap-2">
-                          {exp.technologies.map((tech, index) => (
-                            <span key={index} className={`px-2 py-1 ${styles.accentBg} ${styles.accent} rounded-full text-sm`}>
-                              {tech}
-                            </span>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {/* Education */}
-            {cvData.education.length > 0 && (
-              <div className="mb-8">
-                <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
-                  <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
-                    <GraduationCap className="h-4 w-4" />
-                  </span>
-                  Education
-                </h2>
-                <div className="space-y-4">
-                  {cvData.education.map((edu) => (
-                    <div key={edu.id} className="border-l-4 border-primary-200 pl-6">
-                      <div className="flex justify-between items-start mb-2">
-                        <div>
-                          <h3 className="text-lg font-semibold text-gray-900">{edu.degree_name}</h3>
-                          <p className="text-primary-600 font-medium">{edu.institution}</p>
-                        </div>
-                        <div className="text-right text-sm text-gray-600">
-                          <div className="flex items-center space-x-1">
-                            <Calendar className="h-4 w-4" />
-                            <span>
-                              {formatDate(edu.start_date)} - {edu.is_current ? 'Present' : edu.end_date ? formatDate(edu.end_date) : 'N/A'}
-                            </span>
-                          </div>
-                          {(edu.percentage || edu.cgpa) && (
-                            <div className="mt-1">
-                              {edu.percentage && <span>Percentage: {edu.percentage}%</span>}
-                              {edu.cgpa && <span>CGPA: {edu.cgpa}</span>}
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                      {edu.description && (
-                        <p className="text-gray-700">{edu.description}</p>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
+            {getVisibleSections(cvData.cv.section_config).map(({ key, title }) => (
+              <React.Fragment key={key}>{renderSection(key, title)}</React.Fragment>
+            ))}
+          </div>
+        </div>
+      </div>
 
-            {/* Projects */}
-            {cvData.projects.length > 0 && (
-              <div className="mb-8">
-                <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
-                  <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
-                    <Code className="h-4 w-4" />
-                  </span>
-                  Projects
-                </h2>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  {cvData.projects.map((project) => (
-                    <div key={project.id} className={`${styles.card} p-6`}>
-                      <div className="flex justify-between items-start mb-3">
-                        <h3 className="text-lg font-semibold text-gray-900">{project.title}</h3>
-                        <div className="flex space-x-2">
-                          {project.project_url && (
-                            <a
-                              href={project.project_url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-primary-600 hover:text-primary-700"
-                            >
-                              <ExternalLink className="h-4 w-4" />
-                            </a>
-                          )}
-                          {project.github_url && (
-                            <a
-                              href={project.github_url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-gray-600 hover:text-gray-700"
-                            >
-                              <Code className="h-4 w-4" />
-                            </a>
-                          )}
-                        </div>
-                      </div>
-                      {project.description && (
-                        <p className="text-gray-700 mb-3">{project.description}</p>
-                      )}
-                      {project.technologies && project.technologies.length > 0 && (
-                        <div className="flex flex-wrap gap-2">
-                          {project.technologies.map((tech, index) => (
-                            <span key={index} className={`px-2 py-1 ${styles.accentBg} ${styles.accent} rounded-full text-sm`}>
-                              {tech}
-                            </span>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
+      {/* ATS plain-text view */}
+      {plainText && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 px-4">
+          <div className="w-full max-w-2xl bg-white rounded-lg shadow-xl p-6">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-secondary-900">Plain text (ATS-safe)</h3>
+                <p className="mt-1 text-sm text-secondary-600">
+                  A single-column version with standard headings, for applicant tracking systems and application forms.
+                </p>
               </div>
-            )}
+              <button
+                onClick={() => setPlainText(null)}
+                className="text-secondary-400 hover:text-secondary-600"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
 
-            {/* Skills */}
-            {cvData.skills.length > 0 && (
-              <div className="mb-8">
-                <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
-                  <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
-                    <Award className="h-4 w-4" />
-                  </span>
-                  Skills
-                </h2>
-                <div className="space-y-4">
-                  {['technical', 'interpersonal', 'language'].map((category) => {
-                    const categorySkills = cvData.skills.filter(skill => skill.category === category);
-                    if (categorySkills.length === 0) return null;
-                    
-                    return (
-                      <div key={category}>
-                        <h3 className="text-lg font-semibold text-gray-800 mb-3 capitalize">{category} Skills</h3>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          {categorySkills.map((skill) => (
-                            <div key={skill.id} className="flex items-center space-x-3">
-                              <span className="text-sm font-medium text-gray-700 w-24">{skill.skill_name}</span>
-                              <div className="flex-1 bg-gray-200 rounded-full h-2">
-                                <div
-                                  className={`h-2 rounded-full ${styles.accentBg}`}
-                                  style={{ width: `${skill.proficiency_percentage}%` }}
-                                ></div>
-                              </div>
-                              <span className="text-sm text-gray-600 w-12">{skill.proficiency_percentage}%</span>
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
-              </div>
-            )}
+            <textarea
+              readOnly
+              value={plainText.text}
+              onFocus={(event) => event.target.select()}
+              className="mt-4 w-full h-96 p-3 font-mono text-sm border border-secondary-300 rounded-lg resize-none"
+            />
 
-            {/* Social Profiles */}
-            {cvData.social_profiles.length > 0 && (
-              <div className="mb-8">
-                <h2 className={`text-2xl font-bold ${styles.accent} mb-4 flex items-center`}>
-                  <span className={`w-8 h-8 ${styles.accentBg} rounded-full flex items-center justify-center mr-3`}>
-                    <Globe className="h-4 w-4" />
-                  </span>
-                  Social Profiles
-                </h2>
-                <div className="flex flex-wrap gap-4">
-                  {cvData.social_profiles.map((profile) => (
-                    <a
-                      key={profile.id}
-                      href={profile.profile_url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className={`flex items-center space-x-2 px-4 py-2 ${styles.accentBg} ${styles.accent} rounded-lg hover:opacity-80 transition-opacity`}
-                    >
-                      <Globe className="h-4 w-4" />
-                      <span>{profile.platform_name}</span>
-                    </a>
-                  ))}
-                </div>
-              </div>
-            )}
+            <div className="mt-4 flex flex-wrap justify-end gap-2">
+              <button
+                onClick={() => saveFile(plainText.file)}
+                className="flex items-center space-x-2 px-4 py-2 text-sm border border-secondary-300 text-secondary-700 rounded-lg hover:bg-secondary-50 transition-colors"
+              >
+                <Download className="h-4 w-4" />
+                <span>Download .txt</span>
+              </button>
+              <button
+                onClick={handleCopyPlainText}
+                className="flex items-center space-x-2 px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+              >
+                <Copy className="h-4 w-4" />
+                <span>Copy to Clipboard</span>
+              </button>
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
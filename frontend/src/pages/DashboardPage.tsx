@@ -21,21 +21,29 @@ import {
   Calendar,
   TrendingUp,
   Award,
-  Clock
+  Clock,
+  Link2,
+  Copy,
+  XCircle,
+  BarChart3,
+  Mail
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useAuth } from '../contexts/AuthContext';
 import { apiService } from '../services/api';
+import { ShareLink, CVAnalytics, ActivityItem } from '../types';
 
 interface CV {
   id: string;
   title: string;
   status: 'draft' | 'published' | 'archived';
   layout: 'modern' | 'classic' | 'creative';
+  is_public: boolean;
   created_at: string;
   updated_at: string;
   download_count: number;
   share_count: number;
+  view_count: number;
 }
 
 interface DashboardStats {
@@ -45,8 +53,12 @@ interface DashboardStats {
   total_downloads: number;
   total_shares: number;
   total_views: number;
+  recent_activity: ActivityItem[];
 }
 
+// Matches the number of entries embedded in dashboard stats
+const ACTIVITY_PAGE_SIZE = 5;
+
 const DashboardPage: React.FC = () => {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
@@ -54,6 +66,21 @@ const DashboardPage: React.FC = () => {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreatingCV, setIsCreatingCV] = useState(false);
+  const [shareCvId, setShareCvId] = useState<string | null>(null);
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  const [linkExpiry, setLinkExpiry] = useState('');
+  const [isLoadingLinks, setIsLoadingLinks] = useState(false);
+  const [analyticsCvId, setAnalyticsCvId] = useState<string | null>(null);
+  const [analytics, setAnalytics] = useState<CVAnalytics | null>(null);
+  const [analyticsDays, setAnalyticsDays] = useState(30);
+  const [activity, setActivity] = useState<ActivityItem[]>([]);
+  const [activityPage, setActivityPage] = useState(1);
+  const [hasMoreActivity, setHasMoreActivity] = useState(false);
+  const [isResendingVerification, setIsResendingVerification] = useState(false);
+
+  const maxDailyActivity = analytics
+    ? analytics.series.reduce((max, point) => Math.max(max, point.views + point.downloads + point.shares), 1)
+    : 1;
 
   useEffect(() => {
     fetchDashboardData();
@@ -73,6 +100,9 @@ const DashboardPage: React.FC = () => {
       
       if (statsResponse.success && statsResponse.data) {
         setStats(statsResponse.data);
+        setActivity(statsResponse.data.recent_activity || []);
+        setActivityPage(1);
+        setHasMoreActivity((statsResponse.data.recent_activity || []).length >= ACTIVITY_PAGE_SIZE);
       }
     } catch (error: any) {
       console.error('Dashboard data fetch error:', error);
@@ -127,6 +157,165 @@ const DashboardPage: React.FC = () => {
     }
   };
 
+  const handleLoadMoreActivity = async () => {
+    try {
+      // Dashboard stats embed the first page; continue the feed with the same page size
+      const nextPage = activityPage + 1;
+      const response = await apiService.getActivity(nextPage, ACTIVITY_PAGE_SIZE);
+      if (response.success && response.data) {
+        const known = new Set(activity.map((item) => item.id));
+        setActivity([...activity, ...response.data.filter((item) => !known.has(item.id))]);
+        setActivityPage(nextPage);
+        setHasMoreActivity(!!response.pagination?.hasNext);
+      }
+    } catch (error: any) {
+      console.error('Fetch activity error:', error);
+      toast.error('Failed to load activity');
+    }
+  };
+
+  const handleResendVerification = async () => {
+    setIsResendingVerification(true);
+    try {
+      await apiService.resendVerification();
+      toast.success('Verification email sent. Check your inbox.');
+    } catch (error: any) {
+      console.error('Resend verification error:', error);
+      toast.error(error.message || 'Failed to resend verification email');
+    } finally {
+      setIsResendingVerification(false);
+    }
+  };
+
+  const describeActivity = (item: ActivityItem) => {
+    const title = item.cv?.title || item.metadata.title || item.metadata.source_title || 'a CV';
+    switch (item.action) {
+      case 'cv_created':
+        return `Created "${title}"`;
+      case 'cv_updated':
+        return `Updated "${title}"`;
+      case 'cv_deleted':
+        return `Deleted "${title}"`;
+      case 'cv_duplicated':
+        return `Duplicated "${item.metadata.source_title || 'a CV'}" as "${item.cv?.title || 'a copy'}"`;
+      case 'cv_downloaded':
+        return `Downloaded "${title}" as ${String(item.metadata.format || 'pdf').toUpperCase()}`;
+      case 'cv_shared':
+        return `Shared "${title}" via ${item.metadata.platform}`;
+      case 'cv_restored':
+        return `Restored "${title}" to version ${item.metadata.version}`;
+      case 'payment':
+        return `Payment of ${item.metadata.currency} ${item.metadata.amount} ${item.metadata.status}`;
+      default:
+        return 'Activity';
+    }
+  };
+
+  const fetchShareLinks = async (cvId: string) => {
+    try {
+      setIsLoadingLinks(true);
+      const response = await apiService.getShareLinks(cvId);
+      if (response.success && response.data) {
+        setShareLinks(response.data);
+      }
+    } catch (error: any) {
+      console.error('Fetch share links error:', error);
+      toast.error('Failed to load share links');
+    } finally {
+      setIsLoadingLinks(false);
+    }
+  };
+
+  const handleToggleShareLinks = (cvId: string) => {
+    if (shareCvId === cvId) {
+      setShareCvId(null);
+      return;
+    }
+    setShareCvId(cvId);
+    setShareLinks([]);
+    setLinkExpiry('');
+    fetchShareLinks(cvId);
+  };
+
+  const fetchAnalytics = async (cvId: string, days: number) => {
+    try {
+      setAnalytics(null);
+      const response = await apiService.getCVAnalytics(cvId, days);
+      if (response.success && response.data) {
+        setAnalytics(response.data);
+      }
+    } catch (error: any) {
+      console.error('Fetch analytics error:', error);
+      toast.error('Failed to load analytics');
+    }
+  };
+
+  const handleToggleAnalytics = (cvId: string) => {
+    if (analyticsCvId === cvId) {
+      setAnalyticsCvId(null);
+      return;
+    }
+    setAnalyticsCvId(cvId);
+    fetchAnalytics(cvId, analyticsDays);
+  };
+
+  const handleAnalyticsDaysChange = (cvId: string, days: number) => {
+    setAnalyticsDays(days);
+    fetchAnalytics(cvId, days);
+  };
+
+  const handleTogglePublic = async (cv: CV) => {
+    try {
+      const response = await apiService.updateCV(cv.id, { is_public: !cv.is_public });
+      if (response.success) {
+        setCvs(cvs.map((item) => item.id === cv.id ? { ...item, is_public: !cv.is_public } : item));
+        toast.success(cv.is_public ? 'CV is now private' : 'CV is now public');
+      }
+    } catch (error: any) {
+      console.error('Update visibility error:', error);
+      toast.error('Failed to update CV visibility');
+    }
+  };
+
+  const handleCreateShareLink = async (cvId: string) => {
+    try {
+      const expiresAt = linkExpiry ? new Date(`${linkExpiry}T23:59:59`).toISOString() : null;
+      const response = await apiService.createShareLink(cvId, expiresAt);
+      if (response.success && response.data) {
+        setShareLinks([response.data, ...shareLinks]);
+        setLinkExpiry('');
+        toast.success('Share link created');
+      }
+    } catch (error: any) {
+      console.error('Create share link error:', error);
+    }
+  };
+
+  const handleRevokeShareLink = async (cvId: string, linkId: string) => {
+    if (!window.confirm('Revoke this link? Anyone using it will lose access immediately.')) {
+      return;
+    }
+
+    try {
+      const response = await apiService.revokeShareLink(cvId, linkId);
+      if (response.success && response.data) {
+        setShareLinks(shareLinks.map((link) => link.id === linkId ? response.data! : link));
+        toast.success('Share link revoked');
+      }
+    } catch (error: any) {
+      console.error('Revoke share link error:', error);
+    }
+  };
+
+  const handleCopyShareLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link copied to clipboard');
+    } catch (error) {
+      window.prompt('Copy this link:', url);
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -229,9 +418,28 @@ const DashboardPage: React.FC = () => {
           </p>
         </div>
 
+        {/* Email Verification Notice */}
+        {user && !user.is_verified && (
+          <div className="mb-8 flex items-center justify-between bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <div className="flex items-center space-x-3">
+              <Mail className="h-5 w-5 text-yellow-600" />
+              <p className="text-sm text-yellow-800">
+                Please verify your email address. We sent a link to {user.email}.
+              </p>
+            </div>
+            <button
+              onClick={handleResendVerification}
+              disabled={isResendingVerification}
+              className="text-sm font-medium text-yellow-800 hover:text-yellow-900 underline disabled:opacity-50"
+            >
+              {isResendingVerification ? 'Sending...' : 'Resend email'}
+            </button>
+          </div>
+        )}
+
         {/* Stats Cards */}
         {stats && (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-8">
             <div className="bg-white rounded-lg shadow-sm p-6 border border-secondary-200">
               <div className="flex items-center">
                 <div className="p-2 bg-primary-100 rounded-lg">
@@ -279,6 +487,18 @@ const DashboardPage: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-6 border border-secondary-200">
+              <div className="flex items-center">
+                <div className="p-2 bg-yellow-100 rounded-lg">
+                  <Eye className="h-6 w-6 text-yellow-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-secondary-600">Views</p>
+                  <p className="text-2xl font-bold text-secondary-900">{stats.total_views}</p>
+                </div>
+              </div>
+            </div>
           </div>
         )}
 
@@ -334,6 +554,42 @@ const DashboardPage: React.FC = () => {
           </div>
         </div>
 
+        {/* Recent Activity */}
+        {stats && (
+          <div className="bg-white rounded-lg shadow-sm border border-secondary-200 mb-8">
+            <div className="px-6 py-4 border-b border-secondary-200">
+              <h3 className="text-lg font-semibold text-secondary-900">Recent Activity</h3>
+            </div>
+
+            {activity.length === 0 ? (
+              <p className="p-6 text-sm text-secondary-500">No activity yet.</p>
+            ) : (
+              <ul className="divide-y divide-secondary-200">
+                {activity.map((item) => (
+                  <li key={item.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <Clock className="h-4 w-4 text-secondary-400 flex-shrink-0" />
+                      <span className="text-secondary-800 truncate">{describeActivity(item)}</span>
+                    </div>
+                    <span className="text-secondary-500 flex-shrink-0 ml-4">{formatDate(item.created_at)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {hasMoreActivity && (
+              <div className="px-6 py-3 border-t border-secondary-200 text-center">
+                <button
+                  onClick={handleLoadMoreActivity}
+                  className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                >
+                  Show more
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* CVs List */}
         <div className="bg-white rounded-lg shadow-sm border border-secondary-200">
           <div className="px-6 py-4 border-b border-secondary-200">
@@ -383,7 +639,7 @@ const DashboardPage: React.FC = () => {
                       <div className="flex items-center space-x-4 text-sm text-secondary-500">
                         <div className="flex items-center space-x-1">
                           <Eye className="h-4 w-4" />
-                          <span>0</span>
+                          <span>{cv.view_count || 0}</span>
                         </div>
                         <div className="flex items-center space-x-1">
                           <Download className="h-4 w-4" />
@@ -412,6 +668,22 @@ const DashboardPage: React.FC = () => {
                           <Eye className="h-4 w-4" />
                         </Link>
 
+                        <button
+                          onClick={() => handleToggleAnalytics(cv.id)}
+                          className={`p-2 rounded-lg transition-colors ${analyticsCvId === cv.id ? 'text-primary-600 bg-primary-50' : 'text-secondary-600 hover:text-primary-600 hover:bg-primary-50'}`}
+                          title="Analytics"
+                        >
+                          <BarChart3 className="h-4 w-4" />
+                        </button>
+
+                        <button
+                          onClick={() => handleToggleShareLinks(cv.id)}
+                          className={`p-2 rounded-lg transition-colors ${shareCvId === cv.id ? 'text-primary-600 bg-primary-50' : 'text-secondary-600 hover:text-primary-600 hover:bg-primary-50'}`}
+                          title="Public share links"
+                        >
+                          <Link2 className="h-4 w-4" />
+                        </button>
+
                         <button
                           onClick={() => handleDeleteCV(cv.id)}
                           className="p-2 text-secondary-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -422,6 +694,165 @@ const DashboardPage: React.FC = () => {
                       </div>
                     </div>
                   </div>
+
+                  {analyticsCvId === cv.id && (
+                    <div className="mt-4 p-4 bg-secondary-50 border border-secondary-200 rounded-lg">
+                      <div className="flex items-center justify-between mb-4">
+                        <h5 className="text-sm font-semibold text-secondary-900">Activity</h5>
+                        <select
+                          value={analyticsDays}
+                          onChange={(e) => handleAnalyticsDaysChange(cv.id, Number(e.target.value))}
+                          className="px-3 py-1 text-sm border border-secondary-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        >
+                          <option value={7}>Last 7 days</option>
+                          <option value={30}>Last 30 days</option>
+                          <option value={90}>Last 90 days</option>
+                          <option value={365}>Last 12 months</option>
+                        </select>
+                      </div>
+
+                      {!analytics ? (
+                        <p className="text-sm text-secondary-500">Loading analytics...</p>
+                      ) : (
+                        <>
+                          <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+                            <div>
+                              <p className="text-xs text-secondary-500">Views</p>
+                              <p className="text-lg font-bold text-yellow-600">{analytics.totals.views}</p>
+                            </div>
+                            <div>
+                              <p className="text-xs text-secondary-500">Downloads</p>
+                              <p className="text-lg font-bold text-blue-600">{analytics.totals.downloads}</p>
+                            </div>
+                            <div>
+                              <p className="text-xs text-secondary-500">Shares</p>
+                              <p className="text-lg font-bold text-purple-600">{analytics.totals.shares}</p>
+                            </div>
+                          </div>
+
+                          <div className="flex items-end h-24 gap-px mb-1">
+                            {analytics.series.map((point) => {
+                              const max = maxDailyActivity;
+                              return (
+                                <div
+                                  key={point.date}
+                                  className="flex-1 flex flex-col justify-end h-full"
+                                  title={`${point.date}: ${point.views} views, ${point.downloads} downloads, ${point.shares} shares`}
+                                >
+                                  <div className="bg-purple-400" style={{ height: `${(point.shares / max) * 100}%` }} />
+                                  <div className="bg-blue-400" style={{ height: `${(point.downloads / max) * 100}%` }} />
+                                  <div className="bg-yellow-400" style={{ height: `${(point.views / max) * 100}%` }} />
+                                </div>
+                              );
+                            })}
+                          </div>
+                          <div className="flex justify-between text-xs text-secondary-500 mb-4">
+                            <span>{formatDate(analytics.from)}</span>
+                            <span>{formatDate(analytics.to)}</span>
+                          </div>
+
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                            {[
+                              { label: 'By channel', entries: Object.entries(analytics.views_by_channel) },
+                              { label: 'By device', entries: Object.entries(analytics.views_by_device) },
+                              { label: 'Top referrers', entries: analytics.top_referrers.map((r) => [r.host, r.views] as [string, number]) },
+                            ].map(({ label, entries }) => (
+                              <div key={label}>
+                                <p className="text-xs font-medium text-secondary-600 mb-1">{label}</p>
+                                {entries.length === 0 ? (
+                                  <p className="text-xs text-secondary-400">No views yet</p>
+                                ) : (
+                                  entries.map(([name, count]) => (
+                                    <div key={name} className="flex justify-between text-secondary-700">
+                                      <span className="capitalize truncate">{name}</span>
+                                      <span>{count}</span>
+                                    </div>
+                                  ))
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {shareCvId === cv.id && (
+                    <div className="mt-4 p-4 bg-secondary-50 border border-secondary-200 rounded-lg">
+                      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                        <label className="flex items-center space-x-2 text-sm text-secondary-700">
+                          <input
+                            type="checkbox"
+                            checked={cv.is_public}
+                            onChange={() => handleTogglePublic(cv)}
+                            className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          <span>Public (links only work for public, published CVs)</span>
+                        </label>
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="date"
+                            value={linkExpiry}
+                            min={new Date().toISOString().split('T')[0]}
+                            onChange={(e) => setLinkExpiry(e.target.value)}
+                            className="px-3 py-1 text-sm border border-secondary-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            title="Optional expiry date"
+                          />
+                          <button
+                            onClick={() => handleCreateShareLink(cv.id)}
+                            className="px-3 py-1 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+                          >
+                            New Link
+                          </button>
+                        </div>
+                      </div>
+
+                      {cv.is_public && cv.status !== 'published' && (
+                        <p className="text-xs text-yellow-700 mb-3">Publish this CV for its share links to become viewable.</p>
+                      )}
+
+                      {isLoadingLinks ? (
+                        <p className="text-sm text-secondary-500">Loading links...</p>
+                      ) : shareLinks.length === 0 ? (
+                        <p className="text-sm text-secondary-500">No share links yet.</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {shareLinks.map((link) => (
+                            <li key={link.id} className="flex items-center justify-between gap-2 text-sm">
+                              <div className="min-w-0">
+                                <p className={`truncate ${link.is_active ? 'text-secondary-800' : 'text-secondary-400 line-through'}`}>{link.url}</p>
+                                <p className="text-xs text-secondary-500">
+                                  {link.revoked_at
+                                    ? `Revoked ${formatDate(link.revoked_at)}`
+                                    : link.expires_at
+                                      ? `${link.is_active ? 'Expires' : 'Expired'} ${formatDate(link.expires_at)}`
+                                      : 'Never expires'}
+                                </p>
+                              </div>
+                              {link.is_active && (
+                                <div className="flex items-center space-x-1 flex-shrink-0">
+                                  <button
+                                    onClick={() => handleCopyShareLink(link.url)}
+                                    className="p-2 text-secondary-600 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
+                                    title="Copy link"
+                                  >
+                                    <Copy className="h-4 w-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleRevokeShareLink(cv.id, link.id)}
+                                    className="p-2 text-secondary-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                    title="Revoke link"
+                                  >
+                                    <XCircle className="h-4 w-4" />
+                                  </button>
+                                </div>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
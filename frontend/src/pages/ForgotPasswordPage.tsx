@@ -9,6 +9,7 @@
  * - Handles user input for email address.
  * - Requests OTP for password reset from backend API.
  * - Verifies OTP code entered by user.
+ * - Opening an emailed reset link (`?token=`) skips straight to the new password step.
  * - Allows user to set new password after OTP verification.
  * - Manages loading states and displays toast notifications for feedback.
  * - Provides navigation back to login page.
@@ -22,7 +23,7 @@
 
 import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { ArrowLeft, Mail, Shield, Key, Eye, EyeOff } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { apiService } from '../services/api';
@@ -59,12 +60,14 @@ interface ForgotPasswordFormData {
  * @author Vicky
  */
 const ForgotPasswordPage: React.FC = () => {
-  const [currentStep, setCurrentStep] = useState<'email' | 'otp' | 'password'>('email');
+  const [searchParams] = useSearchParams();
+  const linkToken = searchParams.get('token') || '';
+  const [currentStep, setCurrentStep] = useState<'email' | 'otp' | 'password'>(linkToken ? 'password' : 'email');
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [email, setEmail] = useState('');
-  const [resetToken, setResetToken] = useState('');
+  const [resetToken, setResetToken] = useState(linkToken);
   const navigate = useNavigate();
 
   const {
@@ -101,8 +104,8 @@ const ForgotPasswordPage: React.FC = () => {
       setCurrentStep('otp');
       toast.success('OTP sent to your email address!');
       
-      // Show OTP in development mode
-      if (response.otp && response.otp !== '****') {
+      // Only a development backend returns the OTP
+      if (response.otp) {
         toast.success(`Development OTP: ${response.otp}`, { duration: 10000 });
       }
     } catch (error: any) {
@@ -189,7 +192,8 @@ const ForgotPasswordPage: React.FC = () => {
       setCurrentStep('email');
       reset();
     } else if (currentStep === 'password') {
-      setCurrentStep('otp');
+      // Reset links have no OTP step to return to
+      setCurrentStep(linkToken ? 'email' : 'otp');
       reset();
     } else {
       navigate('/login');
@@ -26,10 +26,16 @@
 import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { Link, useNavigate } from 'react-router-dom';
-import { Eye, EyeOff, LogIn, Mail, Lock, User } from 'lucide-react';
+import { Eye, EyeOff, LogIn, Mail, Lock, User, Facebook } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useAuth } from '../contexts/AuthContext';
 import { apiService } from '../services/api';
+import { OAuthProvider, OAUTH_CANCELLED, getOAuthAccessToken, isOAuthProviderEnabled } from '../utils/oauth';
+
+/**
+ * Social sign-in providers configured for this build
+ */
+const oauthProviders = (['google', 'facebook'] as OAuthProvider[]).filter(isOAuthProviderEnabled);
 
 /**
  * Login Form Data Interface
@@ -64,8 +70,9 @@ interface LoginFormData {
 const LoginPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [oauthProvider, setOauthProvider] = useState<OAuthProvider | null>(null);
   const navigate = useNavigate();
-  const { login } = useAuth();
+  const { login, oauthLogin } = useAuth();
 
   const {
     register,
@@ -138,6 +145,35 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  /**
+   * Handles sign-in with Google or Facebook.
+   * 
+   * Business Logic:
+   * - Opens the provider popup and obtains an access token
+   * - Exchanges it for an app session (new accounts are created, existing ones linked by email)
+   * - Ignores a closed popup; reports any other failure
+   * 
+   * @param {OAuthProvider} provider - OAuth provider
+   * @returns {Promise<void>}
+   * @author Vicky
+   */
+  const handleOAuthLogin = async (provider: OAuthProvider): Promise<void> => {
+    setOauthProvider(provider);
+    try {
+      const accessToken = await getOAuthAccessToken(provider);
+      await oauthLogin(provider, accessToken);
+      toast.success('Login successful! Welcome back!');
+      navigate('/dashboard');
+    } catch (error: any) {
+      if (error.message !== OAUTH_CANCELLED) {
+        console.error('OAuth login error:', error);
+        toast.error(error.message || 'Sign-in failed. Please try again.');
+      }
+    } finally {
+      setOauthProvider(null);
+    }
+  };
+
   /**
    * Toggle Password Visibility
    * 
@@ -288,6 +324,39 @@ const LoginPage: React.FC = () => {
                 </button>
               </div>
             </form>
+
+            {/* Social Sign-in */}
+            {oauthProviders.length > 0 && (
+              <div className="mt-6">
+                <div className="relative">
+                  <div className="absolute inset-0 flex items-center">
+                    <div className="w-full border-t border-secondary-200" />
+                  </div>
+                  <div className="relative flex justify-center text-sm">
+                    <span className="px-2 bg-white text-secondary-500">Or continue with</span>
+                  </div>
+                </div>
+
+                <div className={`mt-6 grid gap-3 ${oauthProviders.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                  {oauthProviders.map((provider) => (
+                    <button
+                      key={provider}
+                      type="button"
+                      onClick={() => handleOAuthLogin(provider)}
+                      disabled={isLoading || oauthProvider !== null}
+                      className="btn-outline w-full flex items-center justify-center disabled:opacity-50"
+                    >
+                      {provider === 'google' ? (
+                        <span className="mr-2 font-bold text-primary-600">G</span>
+                      ) : (
+                        <Facebook className="h-5 w-5 mr-2 text-primary-600" />
+                      )}
+                      {oauthProvider === provider ? 'Connecting...' : provider === 'google' ? 'Google' : 'Facebook'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
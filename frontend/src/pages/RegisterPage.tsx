@@ -23,9 +23,15 @@
 import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { Link, useNavigate } from 'react-router-dom';
-import { Eye, EyeOff, User, Mail, Lock, Phone, CheckCircle, AlertCircle } from 'lucide-react';
+import { Eye, EyeOff, User, Mail, Lock, Phone, CheckCircle, AlertCircle, Facebook } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import toast from 'react-hot-toast';
+import { OAuthProvider, OAUTH_CANCELLED, getOAuthAccessToken, isOAuthProviderEnabled } from '../utils/oauth';
+
+/**
+ * Social sign-in providers configured for this build
+ */
+const oauthProviders = (['google', 'facebook'] as OAuthProvider[]).filter(isOAuthProviderEnabled);
 
 /**
  * Registration form data interface
@@ -148,10 +154,11 @@ const PasswordStrengthIndicator: React.FC<{ password: string }> = ({ password })
  * @author Vicky
  */
 const RegisterPage: React.FC = () => {
-  const { register: registerUser, state } = useAuth();
+  const { register: registerUser, oauthLogin, state } = useAuth();
   const navigate = useNavigate();
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [oauthProvider, setOauthProvider] = useState<OAuthProvider | null>(null);
 
   const {
     register,
@@ -230,6 +237,35 @@ const RegisterPage: React.FC = () => {
     }
   };
 
+  /**
+   * Handle sign-up with Google or Facebook
+   * 
+   * Business Logic:
+   * - Opens the provider popup and obtains an access token
+   * - Exchanges it for an app session (new accounts are created, existing ones linked by email)
+   * - Ignores a closed popup; reports any other failure
+   * 
+   * @param {OAuthProvider} provider - OAuth provider
+   * @returns {Promise<void>}
+   * @author Vicky
+   */
+  const handleOAuthLogin = async (provider: OAuthProvider): Promise<void> => {
+    setOauthProvider(provider);
+    try {
+      const accessToken = await getOAuthAccessToken(provider);
+      await oauthLogin(provider, accessToken);
+      toast.success('Welcome to CV Builder!');
+      navigate('/dashboard');
+    } catch (error: any) {
+      if (error.message !== OAUTH_CANCELLED) {
+        console.error('OAuth login error:', error);
+        toast.error(error.message || 'Sign-in failed. Please try again.');
+      }
+    } finally {
+      setOauthProvider(null);
+    }
+  };
+
   /**
    * Redirect to dashboard if already authenticated
    * 
@@ -487,6 +523,39 @@ const RegisterPage: React.FC = () => {
                 </div>
               )}
             </form>
+
+            {/* Social Sign-in */}
+            {oauthProviders.length > 0 && (
+              <div className="mt-6">
+                <div className="relative">
+                  <div className="absolute inset-0 flex items-center">
+                    <div className="w-full border-t border-secondary-200" />
+                  </div>
+                  <div className="relative flex justify-center text-sm">
+                    <span className="px-2 bg-white text-secondary-500">Or sign up with</span>
+                  </div>
+                </div>
+
+                <div className={`mt-6 grid gap-3 ${oauthProviders.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                  {oauthProviders.map((provider) => (
+                    <button
+                      key={provider}
+                      type="button"
+                      onClick={() => handleOAuthLogin(provider)}
+                      disabled={state.isLoading || oauthProvider !== null}
+                      className="btn-outline w-full flex items-center justify-center disabled:opacity-50"
+                    >
+                      {provider === 'google' ? (
+                        <span className="mr-2 font-bold text-primary-600">G</span>
+                      ) : (
+                        <Facebook className="h-5 w-5 mr-2 text-primary-600" />
+                      )}
+                      {oauthProvider === provider ? 'Connecting...' : provider === 'google' ? 'Google' : 'Facebook'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
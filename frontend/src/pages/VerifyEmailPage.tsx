@@ -0,0 +1,106 @@
+/**
+ * Verify Email Page Component
+ *
+ * Landing page for the link in the verification email.
+ *
+ * Business Logic:
+ * - Reads the verification token from the `?token=` query parameter.
+ * - Submits it to the backend once on load (tokens are single-use).
+ * - Shows success or failure and links on to login or the dashboard.
+ *
+ * @fileoverview Email verification page component for CV Builder frontend
+ * @author Vicky
+ * @version 1.0.0
+ * @since 2025-01-17
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { apiService } from '../services/api';
+
+/**
+ * Verify Email Page Component
+ *
+ * @returns {JSX.Element} Verify email page component
+ * @author Vicky
+ */
+const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [status, setStatus] = useState<'verifying' | 'success' | 'error'>(token ? 'verifying' : 'error');
+  const [message, setMessage] = useState(token ? '' : 'The verification link is missing its token.');
+  const { state, refreshUser } = useAuth();
+  const isAuthenticated = state.isAuthenticated;
+  const hasSubmitted = useRef(false);
+
+  useEffect(() => {
+    // Guard against the double effect run in StrictMode consuming the token twice
+    if (!token || hasSubmitted.current) {
+      return;
+    }
+    hasSubmitted.current = true;
+
+    const verify = async () => {
+      try {
+        await apiService.verifyEmail(token);
+        setStatus('success');
+        if (isAuthenticated) {
+          await refreshUser();
+        }
+      } catch (error: any) {
+        console.error('Email verification error:', error);
+        setStatus('error');
+        setMessage(error.message || 'The verification link is invalid or has expired.');
+      }
+    };
+
+    verify();
+  }, [token, isAuthenticated, refreshUser]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-100 flex items-center justify-center p-4">
+      <div className="card max-w-md w-full mx-auto">
+        <div className="card-body text-center space-y-4">
+          {status === 'verifying' && (
+            <>
+              <Loader2 className="h-12 w-12 text-primary-600 mx-auto animate-spin" />
+              <h1 className="text-2xl font-bold text-secondary-900">Verifying your email…</h1>
+            </>
+          )}
+
+          {status === 'success' && (
+            <>
+              <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+              <h1 className="text-2xl font-bold text-secondary-900">Email verified</h1>
+              <p className="text-secondary-600">Your email address has been confirmed.</p>
+            </>
+          )}
+
+          {status === 'error' && (
+            <>
+              <XCircle className="h-12 w-12 text-red-600 mx-auto" />
+              <h1 className="text-2xl font-bold text-secondary-900">Verification failed</h1>
+              <p className="text-secondary-600">{message}</p>
+              <p className="text-sm text-secondary-500">
+                You can request a new link from your dashboard after signing in.
+              </p>
+            </>
+          )}
+
+          {status !== 'verifying' && (
+            <Link
+              to={isAuthenticated ? '/dashboard' : '/login'}
+              className="btn-primary inline-flex items-center justify-center"
+            >
+              {isAuthenticated ? 'Go to dashboard' : 'Go to login'}
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
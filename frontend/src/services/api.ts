@@ -30,7 +30,20 @@ import {
   UpdateCVRequest, 
   DashboardStats,
   AuthResponse,
-  Layout
+  Layout,
+  FileDownload,
+  DownloadFormat,
+  ExportFormat,
+  SharePlatform,
+  CVDownloadRecord,
+  CVShareRecord,
+  CVAnalytics,
+  ActivityItem,
+  ShareLink,
+  CVVersion,
+  CVVersionSummary,
+  CVDiff,
+  CVItemSection
 } from '../types';
 
 /**
@@ -55,6 +68,14 @@ export interface ApiResponse<T = any> {
     limit?: number;
     totalPages?: number;
   };
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
 }
 
 /**
@@ -176,6 +197,15 @@ class ApiService {
       },
       async (error) => {
         const originalRequest = error.config;
+
+        // File requests receive their JSON error body as a Blob; parse it so the server message is used
+        if (error.response?.data instanceof Blob && error.response.data.type.includes('application/json')) {
+          try {
+            error.response.data = JSON.parse(await error.response.data.text());
+          } catch {
+            // Keep the Blob; the generic message is shown instead
+          }
+        }
         
         // Handle 401 errors (unauthorized)
         if (error.response?.status === 401 && !originalRequest._retry) {
@@ -348,6 +378,45 @@ class ApiService {
     }
   }
 
+  /**
+   * Binary file request method
+   * 
+   * Business Logic:
+   * - Requests the endpoint as a Blob instead of JSON
+   * - Reads the server-provided file name from Content-Disposition
+   * - Falls back to the given name when the header is not exposed
+   * - Error bodies are parsed back into JSON by the response interceptor
+   * 
+   * @private
+   * @param {string} method - HTTP method
+   * @param {string} url - API endpoint URL
+   * @param {string} fallbackName - File name used when the server sends none
+   * @param {any} data - Request data
+   * @returns {Promise<FileDownload>} Promise resolving to file contents and name
+   * @author Vicky
+   */
+  private async requestFile(
+    method: string,
+    url: string,
+    fallbackName: string,
+    data?: any
+  ): Promise<FileDownload> {
+    const response: AxiosResponse<Blob> = await this.api.request({
+      method,
+      url,
+      data,
+      responseType: 'blob',
+    });
+
+    const disposition: string = response.headers['content-disposition'] || '';
+    const match = disposition.match(/filename="?([^";]+)"?/i);
+
+    return {
+      blob: response.data,
+      fileName: match ? match[1] : fallbackName,
+    };
+  }
+
   // Authentication Methods
 
   /**
@@ -406,6 +475,33 @@ class ApiService {
     throw new Error('Login failed');
   }
 
+  /**
+   * Log in (or sign up) with a Google or Facebook access token
+   * 
+   * Business Logic:
+   * - Backend verifies the token with the provider and links accounts by email
+   * - Stores tokens and user data exactly like a password login
+   * 
+   * @param {'google' | 'facebook'} provider - OAuth provider
+   * @param {string} accessToken - Access token from the provider SDK
+   * @returns {Promise<{access_token: string, user: User}>} Promise resolving to auth data
+   * @author Vicky
+   */
+  async oauthLogin(provider: 'google' | 'facebook', accessToken: string): Promise<{access_token: string, user: User}> {
+    const response = await this.request<AuthResponse>('POST', `/auth/oauth/${provider}`, { access_token: accessToken });
+    
+    if (response.success && response.data) {
+      this.setToken(response.data.access_token);
+      localStorage.setItem('user', JSON.stringify(response.data.user));
+      return {
+        access_token: response.data.access_token,
+        user: response.data.user
+      };
+    }
+    
+    throw new Error('Login failed');
+  }
+
   /**
    * Refresh access token using refresh token
    * 
@@ -438,15 +534,15 @@ class ApiService {
    * 
    * Business Logic:
    * - Sends email to backend for OTP generation
-   * - Returns OTP details for development
+   * - The OTP itself is only returned by a development backend
    * - Handles user not found scenarios
    * 
    * @param {string} email - User's email address
-   * @returns {Promise<{otp: string, expires_at: string}>} Promise resolving to OTP details
+   * @returns {Promise<{otp?: string, expires_at: string}>} Promise resolving to OTP details
    * @author Vicky
    */
-  async requestPasswordReset(email: string): Promise<{otp: string, expires_at: string}> {
-    const response = await this.request<{otp: string, expires_at: string}>(
+  async requestPasswordReset(email: string): Promise<{otp?: string, expires_at: string}> {
+    const response = await this.request<{otp?: string, expires_at: string}>(
       'POST', 
       '/auth/request-password-reset', 
       { email }
@@ -511,6 +607,35 @@ class ApiService {
     }
   }
 
+  /**
+   * Verify email address with the token from the verification email
+   * 
+   * @param {string} token - Verification token from the email link
+   * @returns {Promise<void>}
+   * @author Vicky
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const response = await this.request<void>('POST', '/auth/verify-email', { token });
+
+    if (!response.success) {
+      throw new Error('Failed to verify email');
+    }
+  }
+
+  /**
+   * Re-send the verification email to the signed-in user
+   * 
+   * @returns {Promise<void>}
+   * @author Vicky
+   */
+  async resendVerification(): Promise<void> {
+    const response = await this.request<void>('POST', '/auth/resend-verification');
+
+    if (!response.success) {
+      throw new Error('Failed to resend verification email');
+    }
+  }
+
   /**
    * Logout user and clear tokens
    * 
@@ -634,11 +759,11 @@ class ApiService {
    * 
    * @param {string} cvId - CV identifier
    * @param {UpdateCVRequest} cvData - Updated CV data
-   * @returns {Promise<ApiResponse<CV>>} Updated CV
+   * @returns {Promise<ApiResponse<CVData>>} Updated CV with all sections
    * @author Vicky
    */
-  async updateCV(cvId: string, cvData: UpdateCVRequest): Promise<ApiResponse<CV>> {
-    return this.request<CV>('PUT', `/cv/${cvId}`, cvData);
+  async updateCV(cvId: string, cvData: UpdateCVRequest): Promise<ApiResponse<CVData>> {
+    return this.request<CVData>('PUT', `/cv/${cvId}`, cvData);
   }
 
   /**
@@ -676,19 +801,38 @@ class ApiService {
   }
 
   /**
-   * Download CV (increment download count)
+   * Download CV as a server-rendered PDF or Word document
    * 
    * Business Logic:
+   * - Backend renders the CV in its layout and enforces download limits
    * - Increments the download count for the CV
-   * - Tracks download analytics
-   * - Used for dashboard statistics
+   * - Returns the file ready to be saved
    * 
    * @param {string} cvId - CV ID
-   * @returns {Promise<ApiResponse<void>>} Download response
+   * @param {DownloadFormat} format - Output format (defaults to PDF)
+   * @returns {Promise<FileDownload>} Generated file and its name
    * @author Vicky
    */
-  async downloadCV(cvId: string): Promise<ApiResponse<void>> {
-    return this.request<void>('POST', `/cv/${cvId}/download`);
+  async downloadCV(cvId: string, format: DownloadFormat = 'pdf'): Promise<FileDownload> {
+    return this.requestFile('POST', `/cv/${cvId}/download`, `cv.${format}`, { format });
+  }
+
+  /**
+   * Export CV as a data or source file
+   * 
+   * Business Logic:
+   * - JSON Resume, Europass and native JSON exports can be imported again
+   * - Markdown and LaTeX (moderncv) exports are editable document sources
+   * - Plain text is the ATS-safe version for tracking systems and application forms
+   * - Exports do not count as downloads
+   * 
+   * @param {string} cvId - CV ID
+   * @param {ExportFormat} format - Export format
+   * @returns {Promise<FileDownload>} Exported file and its name
+   * @author Vicky
+   */
+  async exportCV(cvId: string, format: ExportFormat): Promise<FileDownload> {
+    return this.requestFile('GET', `/cv/${cvId}/export?format=${format}`, `cv-export.${format}`);
   }
 
   /**
@@ -712,6 +856,7 @@ class ApiService {
    * 
    * Business Logic:
    * - Shares CV through various platforms
+   * - Email shares send the public link (public, published CVs) and/or a PDF attachment
    * - Increments share count for analytics
    * - Tracks sharing activity
    * - Used for CV distribution and networking
@@ -721,8 +866,205 @@ class ApiService {
    * @returns {Promise<ApiResponse<void>>} Share response
    * @author Vicky
    */
-  async shareCV(cvId: string, shareData: { platform: string; recipient_email?: string }): Promise<ApiResponse<void>> {
-    return this.request<void>('POST', `/cv/${cvId}/share`, shareData);
+  async shareCV(
+    cvId: string,
+    shareData: { platform: SharePlatform; recipient_email?: string; message?: string; attach_pdf?: boolean }
+  ): Promise<ApiResponse<{ link_url?: string; attached_pdf?: boolean }>> {
+    return this.request<{ link_url?: string; attached_pdf?: boolean }>('POST', `/cv/${cvId}/share`, shareData);
+  }
+
+  /**
+   * Get CV download history
+   * 
+   * Business Logic:
+   * - Lists every download of the CV, newest first
+   * - Includes the format (PDF/DOCX) of each download
+   * - Paginated; only available to the CV owner
+   * 
+   * @param {string} cvId - CV identifier
+   * @param {number} page - Page number (1-based)
+   * @param {number} limit - Items per page
+   * @returns {Promise<ApiResponse<CVDownloadRecord[]>>} Download records
+   * @author Vicky
+   */
+  async getDownloadHistory(cvId: string, page: number = 1, limit: number = 10): Promise<ApiResponse<CVDownloadRecord[]>> {
+    return this.request<CVDownloadRecord[]>('GET', `/cv/${cvId}/downloads`, undefined, { params: { page, limit } });
+  }
+
+  /**
+   * Get CV share history
+   * 
+   * Business Logic:
+   * - Lists every share of the CV, newest first
+   * - Includes platform and recipient for email shares
+   * - Paginated; only available to the CV owner
+   * 
+   * @param {string} cvId - CV identifier
+   * @param {number} page - Page number (1-based)
+   * @param {number} limit - Items per page
+   * @returns {Promise<ApiResponse<CVShareRecord[]>>} Share records
+   * @author Vicky
+   */
+  async getShareHistory(cvId: string, page: number = 1, limit: number = 10): Promise<ApiResponse<CVShareRecord[]>> {
+    return this.request<CVShareRecord[]>('GET', `/cv/${cvId}/shares`, undefined, { params: { page, limit } });
+  }
+
+  /**
+   * Get CV analytics
+   * 
+   * Business Logic:
+   * - Daily series of public views, downloads and shares (UTC days)
+   * - Views are counted once per visitor per day; bots are ignored
+   * - Includes channel, device and referrer breakdowns of views
+   * 
+   * @param {string} cvId - CV identifier
+   * @param {number} days - Number of days to include, ending today
+   * @returns {Promise<ApiResponse<CVAnalytics>>} CV analytics
+   * @author Vicky
+   */
+  async getCVAnalytics(cvId: string, days: number = 30): Promise<ApiResponse<CVAnalytics>> {
+    return this.request<CVAnalytics>('GET', `/cv/${cvId}/analytics`, undefined, { params: { days } });
+  }
+
+  /**
+   * Get saved versions of a CV
+   * 
+   * Business Logic:
+   * - Every create, save and restore is kept as a numbered version, newest first
+   * - Paginated; entries carry no content (see getCVVersion)
+   * 
+   * @param {string} cvId - CV identifier
+   * @param {number} page - Page number (1-based)
+   * @param {number} limit - Items per page
+   * @returns {Promise<ApiResponse<CVVersionSummary[]>>} Version summaries
+   * @author Vicky
+   */
+  async getCVVersions(cvId: string, page: number = 1, limit: number = 10): Promise<ApiResponse<CVVersionSummary[]>> {
+    return this.request<CVVersionSummary[]>('GET', `/cv/${cvId}/versions`, undefined, { params: { page, limit } });
+  }
+
+  /**
+   * Get one saved version of a CV with its full content
+   * 
+   * @param {string} cvId - CV identifier
+   * @param {number} versionNumber - Version number
+   * @returns {Promise<ApiResponse<CVVersion>>} Version with snapshot
+   * @author Vicky
+   */
+  async getCVVersion(cvId: string, versionNumber: number): Promise<ApiResponse<CVVersion>> {
+    return this.request<CVVersion>('GET', `/cv/${cvId}/versions/${versionNumber}`);
+  }
+
+  /**
+   * Restore a CV to a saved version
+   * 
+   * Business Logic:
+   * - Replaces title, layout and all sections with the version's content
+   * - Status and visibility are kept; the restore is saved as a new version
+   * 
+   * @param {string} cvId - CV identifier
+   * @param {number} versionNumber - Version number to restore
+   * @returns {Promise<ApiResponse<CVData>>} Restored CV
+   * @author Vicky
+   */
+  async restoreCVVersion(cvId: string, versionNumber: number): Promise<ApiResponse<CVData>> {
+    return this.request<CVData>('POST', `/cv/${cvId}/versions/${versionNumber}/restore`);
+  }
+
+  /**
+   * Save a new order for the items of a CV section
+   * 
+   * @param {string} cvId - CV identifier
+   * @param {CVItemSection} section - Section name
+   * @param {string[]} ids - Every item ID of the section, in the new order
+   * @param {string} [version] - `last_modified` the order was made on; a newer CV fails with 409
+   * @returns {Promise<ApiResponse<T[]>>} Items in their new order
+   * @author Vicky
+   */
+  async reorderCVSection<T = any>(cvId: string, section: CVItemSection, ids: string[], version?: string): Promise<ApiResponse<T[]>> {
+    return this.request<T[]>('PUT', `/cv/${cvId}/${section}/order`, { ids }, version ? { headers: { 'If-Match': `"${version}"` } } : undefined);
+  }
+
+  /**
+   * Compare two states of the user's CVs section by section
+   * 
+   * Business Logic:
+   * - `from` picks the base version; `to` a target version or `other_cv_id` another CV
+   * - An omitted side means the CV's current content
+   * 
+   * @param {string} cvId - CV identifier
+   * @param {object} params - Versions / other CV to compare
+   * @returns {Promise<ApiResponse<CVDiff>>} Structured diff
+   * @author Vicky
+   */
+  async getCVDiff(
+    cvId: string,
+    params: { from?: number; to?: number; other_cv_id?: string }
+  ): Promise<ApiResponse<CVDiff>> {
+    return this.request<CVDiff>('GET', `/cv/${cvId}/diff`, undefined, { params });
+  }
+
+  /**
+   * Get activity feed
+   * 
+   * Business Logic:
+   * - Lists the user's CV changes, downloads, shares and payments, newest first
+   * - Paginated
+   * 
+   * @param {number} page - Page number (1-based)
+   * @param {number} limit - Items per page
+   * @returns {Promise<ApiResponse<ActivityItem[]>>} Activity entries
+   * @author Vicky
+   */
+  async getActivity(page: number = 1, limit: number = 10): Promise<ApiResponse<ActivityItem[]>> {
+    return this.request<ActivityItem[]>('GET', '/activity', undefined, { params: { page, limit } });
+  }
+
+  /**
+   * Get public share links of a CV
+   * 
+   * Business Logic:
+   * - Lists active, expired and revoked links, newest first
+   * - Each link carries its public URL and active state
+   * 
+   * @param {string} cvId - CV identifier
+   * @returns {Promise<ApiResponse<ShareLink[]>>} Share links
+   * @author Vicky
+   */
+  async getShareLinks(cvId: string): Promise<ApiResponse<ShareLink[]>> {
+    return this.request<ShareLink[]>('GET', `/cv/${cvId}/share-links`);
+  }
+
+  /**
+   * Create a public share link
+   * 
+   * Business Logic:
+   * - Generates an unguessable URL that anyone can open without logging in
+   * - Link only works while the CV is public and published
+   * - Optional expiry date after which the link stops working
+   * 
+   * @param {string} cvId - CV identifier
+   * @param {string | null} expiresAt - Optional ISO expiry date
+   * @returns {Promise<ApiResponse<ShareLink>>} Created link
+   * @author Vicky
+   */
+  async createShareLink(cvId: string, expiresAt?: string | null): Promise<ApiResponse<ShareLink>> {
+    return this.request<ShareLink>('POST', `/cv/${cvId}/share-links`, { expires_at: expiresAt || null });
+  }
+
+  /**
+   * Revoke a public share link
+   * 
+   * Business Logic:
+   * - Link stops working immediately; it stays listed as revoked
+   * 
+   * @param {string} cvId - CV identifier
+   * @param {string} linkId - Share link identifier
+   * @returns {Promise<ApiResponse<ShareLink>>} Revoked link
+   * @author Vicky
+   */
+  async revokeShareLink(cvId: string, linkId: string): Promise<ApiResponse<ShareLink>> {
+    return this.request<ShareLink>('DELETE', `/cv/${cvId}/share-links/${linkId}`);
   }
 
   /**
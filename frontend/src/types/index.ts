@@ -48,9 +48,33 @@ export interface CV {
   is_public: boolean;
   download_count: number;
   share_count: number;
+  view_count: number;
   last_modified: string;
   created_at: string;
   updated_at: string;
+  section_config?: CVSectionConfig | null;
+}
+
+export type CVLayoutSection =
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'projects'
+  | 'skills'
+  | 'certifications'
+  | 'awards'
+  | 'publications'
+  | 'languages'
+  | 'volunteering'
+  | 'references'
+  | 'custom_sections'
+  | 'social_profiles';
+
+/** Per-CV section layout; sections left out keep their default place, heading and visibility */
+export interface CVSectionConfig {
+  order?: CVLayoutSection[];
+  hidden?: CVLayoutSection[];
+  titles?: Partial<Record<CVLayoutSection, string>>;
 }
 
 export interface CVContent {
@@ -78,6 +102,7 @@ export interface PersonalInfo {
 export interface Experience {
   id: string;
   cv_id: string;
+  sort_order: number;
   organization_name: string;
   position: string;
   joining_location?: string;
@@ -87,11 +112,20 @@ export interface Experience {
   is_current: boolean;
   technologies?: string[];
   description?: string;
+  highlights?: Highlight[];
+}
+
+/** Achievement bullet of an experience or project entry */
+export interface Highlight {
+  text: string;
+  metric?: string;
+  tags?: string[];
 }
 
 export interface Education {
   id: string;
   cv_id: string;
+  sort_order: number;
   degree_name: string;
   institution: string;
   percentage?: number;
@@ -105,6 +139,7 @@ export interface Education {
 export interface Skill {
   id: string;
   cv_id: string;
+  sort_order: number;
   skill_name: string;
   proficiency_percentage: number;
   category: 'technical' | 'interpersonal' | 'language';
@@ -113,17 +148,21 @@ export interface Skill {
 export interface Project {
   id: string;
   cv_id: string;
+  sort_order: number;
   title: string;
   team_size?: number;
   duration?: string;
   technologies?: string[];
   description?: string;
+  highlights?: Highlight[];
   project_url?: string;
   github_url?: string;
 }
 
 export interface Certification {
   id: string;
+  cv_id: string;
+  sort_order: number;
   name: string;
   issuer: string;
   issue_date: string;
@@ -132,10 +171,78 @@ export interface Certification {
   credential_url?: string;
 }
 
+export interface Award {
+  id: string;
+  cv_id: string;
+  sort_order: number;
+  title: string;
+  issuer?: string;
+  award_date?: string;
+  description?: string;
+}
+
+export interface Publication {
+  id: string;
+  cv_id: string;
+  sort_order: number;
+  title: string;
+  publisher?: string;
+  authors?: string;
+  publication_date?: string;
+  url?: string;
+  description?: string;
+}
+
+/** CEFR level, or native speaker */
+export type LanguageProficiency = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2' | 'native';
+
 export interface Language {
   id: string;
+  cv_id: string;
+  sort_order: number;
+  language: string;
+  proficiency: LanguageProficiency;
+}
+
+export interface Volunteering {
+  id: string;
+  cv_id: string;
+  sort_order: number;
+  organization: string;
+  role: string;
+  start_date: string;
+  end_date?: string;
+  is_current: boolean;
+  description?: string;
+}
+
+export interface Reference {
+  id: string;
+  cv_id: string;
+  sort_order: number;
   name: string;
-  proficiency: 'Basic' | 'Conversational' | 'Professional' | 'Native';
+  position?: string;
+  organization?: string;
+  relationship?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface CustomSectionItem {
+  title: string;
+  subtitle?: string;
+  date?: string;
+  url?: string;
+  description?: string;
+}
+
+/** User-defined section with its own heading */
+export interface CustomSection {
+  id: string;
+  cv_id: string;
+  sort_order: number;
+  title: string;
+  items: CustomSectionItem[];
 }
 
 // ==================== Request Types ====================
@@ -143,12 +250,20 @@ export interface Language {
 export interface CreateCVRequest {
   title: string;
   layout: 'modern' | 'classic' | 'creative';
+  section_config?: CVSectionConfig | null;
   basic_details: Omit<BasicDetails, 'id' | 'cv_id'>;
-  education?: Omit<Education, 'id' | 'cv_id'>[];
-  experience?: Omit<Experience, 'id' | 'cv_id'>[];
-  projects?: Omit<Project, 'id' | 'cv_id'>[];
-  skills?: Omit<Skill, 'id' | 'cv_id'>[];
-  social_profiles?: Omit<SocialProfile, 'id' | 'cv_id'>[];
+  education?: Omit<Education, 'id' | 'cv_id' | 'sort_order'>[];
+  experience?: Omit<Experience, 'id' | 'cv_id' | 'sort_order'>[];
+  projects?: Omit<Project, 'id' | 'cv_id' | 'sort_order'>[];
+  skills?: Omit<Skill, 'id' | 'cv_id' | 'sort_order'>[];
+  social_profiles?: Omit<SocialProfile, 'id' | 'cv_id' | 'sort_order'>[];
+  certifications?: Omit<Certification, 'id' | 'cv_id' | 'sort_order'>[];
+  awards?: Omit<Award, 'id' | 'cv_id' | 'sort_order'>[];
+  publications?: Omit<Publication, 'id' | 'cv_id' | 'sort_order'>[];
+  languages?: Omit<Language, 'id' | 'cv_id' | 'sort_order'>[];
+  volunteering?: Omit<Volunteering, 'id' | 'cv_id' | 'sort_order'>[];
+  references?: Omit<Reference, 'id' | 'cv_id' | 'sort_order'>[];
+  custom_sections?: Omit<CustomSection, 'id' | 'cv_id' | 'sort_order'>[];
 }
 
 export interface BasicDetails {
@@ -166,26 +281,56 @@ export interface BasicDetails {
 export interface SocialProfile {
   id: string;
   cv_id: string;
+  sort_order: number;
   platform_name: string;
   profile_url: string;
   is_public: boolean;
 }
 
+// Section item in a full save; items sent with their id are updated in place, the rest are added
+export type CVItemInput<T> = Omit<T, 'id' | 'cv_id' | 'sort_order'> & { id?: string };
+
 export interface UpdateCVRequest {
   title?: string;
   layout?: 'modern' | 'classic' | 'creative';
   status?: 'draft' | 'published' | 'archived';
   is_public?: boolean;
+  section_config?: CVSectionConfig | null;
   basic_details?: Partial<Omit<BasicDetails, 'id' | 'cv_id'>>;
-  education?: Omit<Education, 'id' | 'cv_id'>[];
-  experience?: Omit<Experience, 'id' | 'cv_id'>[];
-  projects?: Omit<Project, 'id' | 'cv_id'>[];
-  skills?: Omit<Skill, 'id' | 'cv_id'>[];
-  social_profiles?: Omit<SocialProfile, 'id' | 'cv_id'>[];
+  education?: CVItemInput<Education>[];
+  experience?: CVItemInput<Experience>[];
+  projects?: CVItemInput<Project>[];
+  skills?: CVItemInput<Skill>[];
+  social_profiles?: CVItemInput<SocialProfile>[];
+  certifications?: CVItemInput<Certification>[];
+  awards?: CVItemInput<Award>[];
+  publications?: CVItemInput<Publication>[];
+  languages?: CVItemInput<Language>[];
+  volunteering?: CVItemInput<Volunteering>[];
+  references?: CVItemInput<Reference>[];
+  custom_sections?: CVItemInput<CustomSection>[];
+  /** `last_modified` of the copy being edited; a newer server copy makes the update fail with 409 */
+  version?: string;
+  /** Background save; the server folds consecutive autosaves into one history version */
+  autosave?: boolean;
 }
 
 // ==================== CV Data Types ====================
 
+export type CVItemSection =
+  | 'education'
+  | 'experience'
+  | 'projects'
+  | 'skills'
+  | 'social_profiles'
+  | 'certifications'
+  | 'awards'
+  | 'publications'
+  | 'languages'
+  | 'volunteering'
+  | 'references'
+  | 'custom_sections';
+
 export interface CVData {
   cv: CV;
   basic_details: BasicDetails;
@@ -194,6 +339,13 @@ export interface CVData {
   projects: Project[];
   skills: Skill[];
   social_profiles: SocialProfile[];
+  certifications: Certification[];
+  awards: Award[];
+  publications: Publication[];
+  languages: Language[];
+  volunteering: Volunteering[];
+  references: Reference[];
+  custom_sections: CustomSection[];
 }
 
 // ==================== Dashboard Types ====================
@@ -209,13 +361,137 @@ export interface DashboardStats {
   recent_activity: ActivityItem[];
 }
 
+export type ActivityAction =
+  | 'cv_created'
+  | 'cv_updated'
+  | 'cv_deleted'
+  | 'cv_duplicated'
+  | 'cv_downloaded'
+  | 'cv_shared'
+  | 'cv_restored'
+  | 'payment';
+
 export interface ActivityItem {
   id: string;
-  type: 'created' | 'updated' | 'published' | 'downloaded' | 'shared';
+  user_id: string;
+  cv_id?: string | null;
+  action: ActivityAction;
+  metadata: Record<string, any>;
+  cv?: { title: string } | null;
+  created_at: string;
+}
+
+// ==================== History Types ====================
+
+export type SharePlatform = 'email' | 'linkedin' | 'twitter' | 'facebook' | 'whatsapp';
+
+export interface CVDownloadRecord {
+  id: string;
+  user_id: string;
   cv_id: string;
-  cv_title: string;
-  timestamp: string;
-  description: string;
+  download_type: DownloadFormat;
+  created_at: string;
+}
+
+export interface CVShareRecord {
+  id: string;
+  user_id: string;
+  cv_id: string;
+  share_platform: SharePlatform;
+  recipient_email?: string;
+  created_at: string;
+}
+
+// ==================== Analytics Types ====================
+
+export interface CVAnalyticsPoint {
+  date: string;
+  views: number;
+  downloads: number;
+  shares: number;
+}
+
+export interface CVAnalytics {
+  cv_id: string;
+  from: string;
+  to: string;
+  totals: {
+    views: number;
+    downloads: number;
+    shares: number;
+  };
+  series: CVAnalyticsPoint[];
+  views_by_channel: Record<string, number>;
+  views_by_device: Record<string, number>;
+  top_referrers: { host: string; views: number }[];
+}
+
+// ==================== Version Types ====================
+
+export interface CVVersionSummary {
+  id: string;
+  cv_id: string;
+  version_number: number;
+  source: 'create' | 'update' | 'restore' | 'autosave';
+  restored_from?: number | null;
+  fields: string[];
+  created_at: string;
+}
+
+export interface CVVersion extends CVVersionSummary {
+  snapshot: CVData;
+}
+
+// ==================== Diff Types ====================
+
+export type CVDiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface CVFieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface CVSectionItemDiff {
+  status: CVDiffStatus;
+  key: string;
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+  changes: CVFieldChange[];
+}
+
+export interface CVDiffSide {
+  cv_id: string;
+  title: string;
+  version_number?: number;
+  updated_at?: string;
+}
+
+export interface CVDiff {
+  base: CVDiffSide;
+  target: CVDiffSide;
+  cv: CVFieldChange[];
+  basic_details: CVFieldChange[];
+  sections: Record<CVItemSection, CVSectionItemDiff[]>;
+  summary: {
+    added: number;
+    removed: number;
+    modified: number;
+    changed_fields: number;
+  };
+}
+
+// ==================== Share Link Types ====================
+
+export interface ShareLink {
+  id: string;
+  cv_id: string;
+  slug: string;
+  url: string;
+  expires_at?: string | null;
+  revoked_at?: string | null;
+  is_active: boolean;
+  created_at: string;
 }
 
 // ==================== Form Types ====================
@@ -249,6 +525,17 @@ export interface Layout {
   preview_url: string;
 }
 
+// ==================== File Types ====================
+
+export type DownloadFormat = 'pdf' | 'docx';
+
+export type ExportFormat = 'jsonresume' | 'native' | 'europass-xml' | 'europass-json' | 'markdown' | 'latex' | 'text';
+
+export interface FileDownload {
+  blob: Blob;
+  fileName: string;
+}
+
 // ==================== Error Types ====================
 
 export interface ValidationError {
@@ -0,0 +1,209 @@
+/**
+ * CV Draft Helpers
+ *
+ * Business Logic:
+ * - Builds the update payload the editor sends for a CV (explicit save, publish and autosave)
+ * - Keeps unsaved editor changes in localStorage, one draft per CV, so a reload or a dropped
+ *   connection does not lose work
+ * - A draft marked pending is an update still owed to the server; pending drafts form the
+ *   offline queue and are replayed through `apiService.updateCV` when the browser is back online
+ * - Only the latest draft per CV is kept: every update replaces the CV's content as a whole
+ *
+ * @fileoverview Editor payloads, local drafts and offline replay
+ * @author Vicky
+ * @version 1.0.0
+ * @since 2025-01-19
+ */
+
+import { apiService } from '../services/api';
+import { CVData, Highlight, UpdateCVRequest } from '../types';
+import { resolveSectionLayout, toSectionConfig } from './sectionLayout';
+
+export interface CVDraft {
+  /** Editor copy including unsaved changes */
+  data: CVData;
+  /** Server copy the changes were made on; the merge base after a conflict */
+  base: CVData | null;
+  pending: boolean;
+  saved_at: string;
+}
+
+const DRAFT_KEY_PREFIX = 'cv_draft:';
+
+/** Prefix of ids the editor gives items that were never saved */
+const TEMP_ID_PREFIX = 'temp-';
+
+/** Item sections sent with every editor save */
+const ITEM_SECTIONS = [
+  'education',
+  'experience',
+  'projects',
+  'skills',
+  'social_profiles',
+  'certifications',
+  'awards',
+  'publications',
+  'languages',
+  'volunteering',
+  'references',
+  'custom_sections',
+] as const;
+
+/**
+ * Trim highlight fields and drop bullets that are still empty in the editor
+ */
+const normalizeHighlights = (highlights: Highlight[]): Highlight[] =>
+  highlights
+    .filter((highlight) => highlight.text?.trim())
+    .map(({ text, metric, tags }) => ({
+      text: text.trim(),
+      ...(metric?.trim() ? { metric: metric.trim() } : {}),
+      ...(tags?.some((tag) => tag.trim()) ? { tags: tags.map((tag) => tag.trim()).filter(Boolean) } : {}),
+    }));
+
+/**
+ * Build the update request for the editor's copy of a CV
+ *
+ * Saved items keep their id so the server updates them in place; new items (temporary ids)
+ * are sent without one. Order and timestamps are left out: list order becomes the item order.
+ * Without a status the server keeps the current one, so only publishing changes it.
+ *
+ * @param {CVData} data - Editor copy of the CV
+ * @param {UpdateCVRequest['status']} [status] - New status (publish/unpublish only)
+ * @returns {UpdateCVRequest} Update payload without a version
+ */
+export const toUpdatePayload = (data: CVData, status?: UpdateCVRequest['status']): UpdateCVRequest => {
+  const payload: any = {
+    title: data.cv.title,
+    layout: data.cv.layout,
+    ...(status ? { status } : {}),
+    basic_details: {
+      full_name: data.basic_details.full_name?.trim() || '',
+      email: data.basic_details.email?.trim() || '',
+      phone: data.basic_details.phone?.trim() || '',
+      address: data.basic_details.address?.trim() || '',
+      introduction: data.basic_details.introduction?.trim() || '',
+      profile_image_url: data.basic_details.profile_image_url?.trim() || ''
+    },
+    // Normalise headings: blank or default ones are dropped, the rest trimmed
+    section_config: data.cv.section_config
+      ? toSectionConfig(resolveSectionLayout(data.cv.section_config))
+      : null
+  };
+
+  ITEM_SECTIONS.forEach((section) => {
+    payload[section] = (data[section] || []).map((item: any) => {
+      const { id, cv_id, sort_order, created_at, updated_at, ...content } = item;
+      const saved = typeof id === 'string' && id && !id.startsWith(TEMP_ID_PREFIX) ? { id } : {};
+      return {
+        ...saved,
+        ...content,
+        ...(content.highlights ? { highlights: normalizeHighlights(content.highlights) } : {})
+      };
+    });
+  });
+
+  return payload;
+};
+
+/**
+ * Content fingerprint of a CV; equal keys mean saving one copy over the other changes nothing
+ *
+ * Item ids are left out, so a copy whose new items got their ids from the server compares equal.
+ *
+ * @param {CVData} data - CV copy
+ * @returns {string} Comparable key
+ */
+export const getContentKey = (data: CVData): string =>
+  JSON.stringify(toUpdatePayload(data), (key, value) => (key === 'id' ? undefined : value));
+
+/**
+ * Read the local draft of a CV
+ *
+ * @param {string} cvId - CV identifier
+ * @returns {CVDraft | null} Stored draft, or null when there is none or it is unreadable
+ */
+export const loadDraft = (cvId: string): CVDraft | null => {
+  try {
+    const raw = localStorage.getItem(`${DRAFT_KEY_PREFIX}${cvId}`);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Store the local draft of a CV (failures such as a full storage quota are ignored)
+ *
+ * @param {string} cvId - CV identifier
+ * @param {Omit<CVDraft, 'saved_at'>} draft - Draft to store
+ */
+export const saveDraft = (cvId: string, draft: Omit<CVDraft, 'saved_at'>): void => {
+  try {
+    localStorage.setItem(
+      `${DRAFT_KEY_PREFIX}${cvId}`,
+      JSON.stringify({ ...draft, saved_at: new Date().toISOString() })
+    );
+  } catch (error) {
+    console.error('Save draft error:', error);
+  }
+};
+
+/**
+ * Remove the local draft of a CV
+ *
+ * @param {string} cvId - CV identifier
+ */
+export const clearDraft = (cvId: string): void => {
+  localStorage.removeItem(`${DRAFT_KEY_PREFIX}${cvId}`);
+};
+
+/**
+ * IDs of CVs with an update still owed to the server
+ *
+ * @returns {string[]} CV identifiers of pending drafts
+ */
+export const getPendingDraftIds = (): string[] =>
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(DRAFT_KEY_PREFIX))
+    .map((key) => key.slice(DRAFT_KEY_PREFIX.length))
+    .filter((cvId) => loadDraft(cvId)?.pending);
+
+/**
+ * Send the pending drafts of CVs that are not open in the editor
+ *
+ * Each draft is saved with the version it was edited from, so it never overwrites newer
+ * changes; a draft that hits a conflict (or fails validation) stays queued and is offered
+ * for merging the next time its CV is opened.
+ *
+ * @param {string} [skipCvId] - CV handled by the open editor
+ * @returns {Promise<number>} Number of drafts saved
+ */
+export const replayPendingDrafts = async (skipCvId?: string): Promise<number> => {
+  let saved = 0;
+
+  for (const cvId of getPendingDraftIds()) {
+    const draft = loadDraft(cvId);
+    if (cvId === skipCvId || !draft) {
+      continue;
+    }
+
+    try {
+      await apiService.updateCV(cvId, {
+        ...toUpdatePayload(draft.data),
+        version: draft.data.cv.last_modified,
+        autosave: true
+      });
+      clearDraft(cvId);
+      saved++;
+    } catch (error: any) {
+      console.error(`Replay draft error for CV ${cvId}:`, error);
+      // Still offline: keep the rest queued for the next reconnect
+      if (!error.response) {
+        break;
+      }
+    }
+  }
+
+  return saved;
+};
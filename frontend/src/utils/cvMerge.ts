@@ -0,0 +1,78 @@
+/**
+ * CV Merge Helpers
+ *
+ * Business Logic:
+ * - Three-way merge of CV edits when a save is rejected because the CV changed elsewhere
+ * - Compares the copy the editor loaded (base), the local edits and the latest server copy
+ * - Works per part: CV settings, basic details and each section are taken whole from one side
+ * - Parts changed on both sides keep the local edit and are reported as conflicts
+ *
+ * @fileoverview Merge of concurrent CV edits
+ * @author Vicky
+ * @version 1.0.0
+ * @since 2025-01-19
+ */
+
+import { CVData } from '../types';
+
+export interface CVMergeResult {
+  merged: CVData;
+  conflicts: string[];
+}
+
+/** Editable CV settings; status and counters are owned by the server */
+const CV_FIELDS = ['title', 'layout', 'section_config'] as const;
+
+/** Parts of CVData merged as a whole */
+const CV_PARTS = [
+  'basic_details',
+  'education',
+  'experience',
+  'projects',
+  'skills',
+  'certifications',
+  'awards',
+  'publications',
+  'languages',
+  'volunteering',
+  'references',
+  'custom_sections',
+  'social_profiles',
+] as const;
+
+const isSame = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Apply the local changes made since `base` on top of the latest server copy
+ *
+ * The result carries the server's `last_modified`, so saving it passes the version check.
+ *
+ * @param {CVData} base - Copy the editor loaded or last saved
+ * @param {CVData} local - Copy with the unsaved edits
+ * @param {CVData} server - Latest copy from the server
+ * @returns {CVMergeResult} Merged copy and the parts changed on both sides
+ */
+export const mergeCVChanges = (base: CVData, local: CVData, server: CVData): CVMergeResult => {
+  const merged: any = { ...server, cv: { ...server.cv } };
+  const conflicts: string[] = [];
+
+  CV_FIELDS.forEach((field) => {
+    if (!isSame(local.cv[field], base.cv[field])) {
+      merged.cv[field] = local.cv[field];
+      if (!isSame(server.cv[field], base.cv[field]) && !isSame(server.cv[field], local.cv[field])) {
+        conflicts.push(field);
+      }
+    }
+  });
+
+  CV_PARTS.forEach((part) => {
+    if (!isSame(local[part], base[part])) {
+      merged[part] = local[part];
+      if (!isSame(server[part], base[part]) && !isSame(server[part], local[part])) {
+        conflicts.push(part);
+      }
+    }
+  });
+
+  return { merged, conflicts };
+};
@@ -0,0 +1,31 @@
+/**
+ * File Download Helpers
+ *
+ * Business Logic:
+ * - Saves files returned by the API to the user's device
+ * - Uses a temporary object URL and anchor click (works in all modern browsers)
+ *
+ * @fileoverview Browser file saving utilities
+ * @author Vicky
+ * @version 1.0.0
+ * @since 2025-01-18
+ */
+
+import { FileDownload } from '../types';
+
+/**
+ * Trigger a browser download for a file fetched from the API
+ *
+ * @param {FileDownload} file - Blob and file name returned by the API service
+ * @author Vicky
+ */
+export const saveFile = ({ blob, fileName }: FileDownload): void => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
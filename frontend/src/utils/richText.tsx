@@ -0,0 +1,212 @@
+/**
+ * Rich Text Helpers
+ *
+ * Business Logic:
+ * - Descriptions and the summary are stored as a restricted markdown subset:
+ *   `**bold**`, `*italic*`, `[text](https://...)` links and `- ` bullet lists
+ * - Mirrors the backend parser so the preview matches the PDF and Word documents
+ * - Anything outside the subset is shown as literal text; only http(s) and mailto links render
+ *
+ * @fileoverview Restricted markdown parsing, rendering and editing
+ * @author Vicky
+ * @version 1.0.0
+ * @since 2025-01-19
+ */
+
+import React from 'react';
+
+export interface RichTextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  href?: string;
+}
+
+export type RichTextBlock =
+  | { type: 'paragraph'; lines: RichTextRun[][] }
+  | { type: 'list'; items: RichTextRun[][] };
+
+export type RichTextFormat = 'bold' | 'italic' | 'link' | 'list';
+
+export interface RichTextEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const INLINE_PATTERN = /\*\*(?!\s)(.+?)\*\*|\*(?![\s*])(.+?)\*|\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+
+const isAllowedUrl = (url: string): boolean => {
+  try {
+    return ['http:', 'https:', 'mailto:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const parseInline = (text: string, marks: Omit<RichTextRun, 'text'> = {}): RichTextRun[] => {
+  const runs: RichTextRun[] = [];
+  let last = 0;
+
+  for (const match of Array.from(text.matchAll(INLINE_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      runs.push({ text: text.slice(last, index), ...marks });
+    }
+
+    const [, bold, italic, label, url] = match;
+    if (bold !== undefined) {
+      runs.push(...parseInline(bold, { ...marks, bold: true }));
+    } else if (italic !== undefined) {
+      runs.push(...parseInline(italic, { ...marks, italic: true }));
+    } else if (isAllowedUrl(url)) {
+      runs.push(...parseInline(label, { ...marks, href: url }));
+    } else {
+      runs.push({ text: label, ...marks });
+    }
+
+    last = index + match[0].length;
+  }
+
+  if (last < text.length) {
+    runs.push({ text: text.slice(last), ...marks });
+  }
+
+  return runs;
+};
+
+/**
+ * Split rich text into paragraphs and bullet lists of formatted runs
+ *
+ * @param {string} text - Stored rich text
+ * @returns {RichTextBlock[]} Blocks in order
+ */
+export const parseRichText = (text?: string | null): RichTextBlock[] => {
+  const blocks: RichTextBlock[] = [];
+  let current: RichTextBlock | null = null;
+
+  for (const line of (text || '').replace(/\r\n?/g, '\n').split('\n')) {
+    if (!line.trim()) {
+      current = null;
+      continue;
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    if (bullet) {
+      if (current?.type !== 'list') {
+        current = { type: 'list', items: [] };
+        blocks.push(current);
+      }
+      current.items.push(parseInline(bullet[1]));
+    } else {
+      if (current?.type !== 'paragraph') {
+        current = { type: 'paragraph', lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(parseInline(line.trim()));
+    }
+  }
+
+  return blocks;
+};
+
+const renderRuns = (runs: RichTextRun[]): React.ReactNode[] =>
+  runs.map((run, index) => {
+    let node: React.ReactNode = run.text;
+    if (run.bold) node = <strong>{node}</strong>;
+    if (run.italic) node = <em>{node}</em>;
+    if (run.href) {
+      node = (
+        <a href={run.href} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline">
+          {node}
+        </a>
+      );
+    }
+    return <React.Fragment key={index}>{node}</React.Fragment>;
+  });
+
+/**
+ * Render rich text as paragraphs and bullet lists
+ *
+ * @param {string} text - Stored rich text
+ * @param {string} className - Classes of the wrapping element
+ * @returns {React.ReactNode} Rendered text, or null when empty
+ */
+export const renderRichText = (text: string | null | undefined, className: string = ''): React.ReactNode => {
+  const blocks = parseRichText(text);
+  if (blocks.length === 0) return null;
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      {blocks.map((block, index) => block.type === 'list' ? (
+        <ul key={index} className="list-disc pl-5">
+          {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderRuns(item)}</li>)}
+        </ul>
+      ) : (
+        <p key={index}>
+          {block.lines.map((line, lineIndex) => (
+            <React.Fragment key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              {renderRuns(line)}
+            </React.Fragment>
+          ))}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Apply a formatting action to the selected part of a rich text value
+ *
+ * Business Logic:
+ * - Bold / italic wrap the selection (or a placeholder) in markers
+ * - Link turns the selection into link text and selects the URL to type over
+ * - List toggles the "- " bullet on every selected line
+ *
+ * @param {string} value - Current text
+ * @param {number} start - Selection start
+ * @param {number} end - Selection end
+ * @param {RichTextFormat} format - Formatting action
+ * @returns {RichTextEdit} New text and selection
+ */
+export const applyRichTextFormat = (value: string, start: number, end: number, format: RichTextFormat): RichTextEdit => {
+  const selected = value.slice(start, end);
+
+  if (format === 'list') {
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = value.indexOf('\n', end) === -1 ? value.length : value.indexOf('\n', end);
+    const lines = value.slice(lineStart, lineEnd).split('\n');
+    const isList = lines.every((line) => /^- /.test(line));
+    const block = lines.map((line) => isList ? line.replace(/^- /, '') : `- ${line}`).join('\n');
+
+    return {
+      value: value.slice(0, lineStart) + block + value.slice(lineEnd),
+      selectionStart: lineStart,
+      selectionEnd: lineStart + block.length,
+    };
+  }
+
+  if (format === 'link') {
+    const label = selected || 'link text';
+    const url = 'https://';
+    const inserted = `[${label}](${url})`;
+    const urlStart = start + label.length + 3;
+
+    return {
+      value: value.slice(0, start) + inserted + value.slice(end),
+      selectionStart: urlStart,
+      selectionEnd: urlStart + url.length,
+    };
+  }
+
+  const marker = format === 'bold' ? '**' : '*';
+  const text = selected || (format === 'bold' ? 'bold text' : 'italic text');
+
+  return {
+    value: value.slice(0, start) + marker + text + marker + value.slice(end),
+    selectionStart: start + marker.length,
+    selectionEnd: start + marker.length + text.length,
+  };
+};
@@ -0,0 +1,106 @@
+/**
+ * Section Layout Helpers
+ *
+ * Business Logic:
+ * - Resolves a CV's `section_config` into the sections to show, in order, with their headings
+ * - Mirrors the backend resolution so the preview matches the PDF and the public view
+ * - Sections missing from the configured order follow in default order
+ *
+ * @fileoverview Per-CV section order, visibility and headings
+ * @author Vicky
+ * @version 1.0.0
+ * @since 2025-01-18
+ */
+
+import { CVLayoutSection, CVSectionConfig, LanguageProficiency } from '../types';
+
+export interface ResolvedCVSection {
+  key: CVLayoutSection;
+  title: string;
+  hidden: boolean;
+}
+
+export const DEFAULT_SECTION_TITLES: Record<CVLayoutSection, string> = {
+  summary: 'Summary',
+  experience: 'Experience',
+  education: 'Education',
+  projects: 'Projects',
+  skills: 'Skills',
+  certifications: 'Certifications',
+  awards: 'Awards',
+  publications: 'Publications',
+  languages: 'Languages',
+  volunteering: 'Volunteering',
+  references: 'References',
+  custom_sections: 'Custom Sections',
+  social_profiles: 'Profiles',
+};
+
+/** Custom sections are shown under their own titles, so their layout slot cannot be renamed */
+export const FIXED_TITLE_SECTIONS: CVLayoutSection[] = ['custom_sections'];
+
+export const LANGUAGE_PROFICIENCY_LABELS: Record<LanguageProficiency, string> = {
+  A1: 'Beginner (A1)',
+  A2: 'Elementary (A2)',
+  B1: 'Intermediate (B1)',
+  B2: 'Upper intermediate (B2)',
+  C1: 'Advanced (C1)',
+  C2: 'Proficient (C2)',
+  native: 'Native',
+};
+
+export const SECTION_TITLE_MAX_LENGTH = 40;
+
+const DEFAULT_ORDER = Object.keys(DEFAULT_SECTION_TITLES) as CVLayoutSection[];
+
+/**
+ * All sections in render order, including hidden ones
+ *
+ * @param {CVSectionConfig | null} [config] - Layout stored on the CV
+ * @returns {ResolvedCVSection[]} Sections with their headings and visibility
+ * @author Vicky
+ */
+export const resolveSectionLayout = (config?: CVSectionConfig | null): ResolvedCVSection[] => {
+  const configured = (config?.order || []).filter((section) => DEFAULT_ORDER.includes(section));
+  const order = Array.from(new Set([...configured, ...DEFAULT_ORDER]));
+  const hidden = new Set(config?.hidden || []);
+
+  return order.map((key) => ({
+    key,
+    title: config?.titles?.[key]?.trim() || DEFAULT_SECTION_TITLES[key],
+    hidden: hidden.has(key),
+  }));
+};
+
+/**
+ * Sections to render, in order
+ *
+ * @param {CVSectionConfig | null} [config] - Layout stored on the CV
+ * @returns {ResolvedCVSection[]} Visible sections with their headings
+ * @author Vicky
+ */
+export const getVisibleSections = (config?: CVSectionConfig | null): ResolvedCVSection[] =>
+  resolveSectionLayout(config).filter((section) => !section.hidden);
+
+/**
+ * Build a section config from a resolved layout, keeping only non-default headings
+ *
+ * @param {ResolvedCVSection[]} sections - Layout as edited by the user
+ * @returns {CVSectionConfig} Config to store on the CV
+ * @author Vicky
+ */
+export const toSectionConfig = (sections: ResolvedCVSection[]): CVSectionConfig => {
+  const titles: Partial<Record<CVLayoutSection, string>> = {};
+  sections.forEach(({ key, title }) => {
+    const trimmed = title.trim();
+    if (trimmed && trimmed !== DEFAULT_SECTION_TITLES[key]) {
+      titles[key] = trimmed;
+    }
+  });
+
+  return {
+    order: sections.map((section) => section.key),
+    hidden: sections.filter((section) => section.hidden).map((section) => section.key),
+    titles,
+  };
+};